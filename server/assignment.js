@@ -0,0 +1,39 @@
+// Lead ownership: how new WhatsApp leads get an owner (shared by index.cjs and both storage backends)
+
+const ASSIGNMENT_MODES = ['manual', 'round_robin', 'least_busy'];
+
+const DEFAULT_ASSIGNMENT = { mode: 'manual' };
+
+function validateAssignmentSettings(settings) {
+    const mode = settings && settings.mode;
+    if (!ASSIGNMENT_MODES.includes(mode)) {
+        throw new Error(`Invalid assignment mode: ${mode}. Must be one of: ${ASSIGNMENT_MODES.join(', ')}`);
+    }
+    return { mode };
+}
+
+/**
+ * Pick the owner for a new lead, or null when leads stay unassigned.
+ * `usernames` is the team in a stable order, `lastAssigned` the owner of the
+ * most recently assigned lead and `openCounts` the open leads per owner.
+ */
+function pickOwner(mode, usernames, { lastAssigned = null, openCounts = {} } = {}) {
+    if (mode === 'manual' || usernames.length === 0) return null;
+
+    if (mode === 'round_robin') {
+        const lastIndex = usernames.indexOf(lastAssigned);
+        return usernames[(lastIndex + 1) % usernames.length];
+    }
+
+    // least_busy: fewest open leads, ties go to whoever comes first in the team list
+    return usernames.reduce((best, username) =>
+        (openCounts[username] || 0) < (openCounts[best] || 0) ? username : best
+    );
+}
+
+module.exports = {
+    ASSIGNMENT_MODES,
+    DEFAULT_ASSIGNMENT,
+    validateAssignmentSettings,
+    pickOwner
+};
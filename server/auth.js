@@ -0,0 +1,109 @@
+// Password hashing and signed session tokens (no external dependencies)
+const crypto = require('crypto');
+
+const USER_ROLES = ['admin', 'agent'];
+const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Hash a password as "scrypt$<salt>$<hash>"
+ */
+function hashPassword(password) {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+    return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, stored) {
+    const [scheme, salt, hash] = String(stored || '').split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(String(password), salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+function sign(data, secret) {
+    return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Create a token "<payload>.<signature>" carrying the user id and an expiry
+ */
+function createToken(user, secret, ttlMs = TOKEN_TTL_MS) {
+    const payload = base64url(JSON.stringify({ sub: user.id, role: user.role, exp: Date.now() + ttlMs }));
+    return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Verify signature and expiry. Returns the payload or null.
+ */
+function verifyToken(token, secret) {
+    if (!token || typeof token !== 'string') return null;
+
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(sign(payload, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (!data.sub || !data.exp || data.exp < Date.now()) return null;
+        return data;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Validate a new account. Returns cleaned { username, name, password, role }.
+ */
+function validateUserInput(data) {
+    const username = String(data.username || '').trim().toLowerCase();
+    const password = String(data.password || '');
+    const role = data.role || 'agent';
+
+    if (!/^[a-z0-9._-]{3,50}$/.test(username)) {
+        throw new Error('Username must be 3-50 characters: a-z, 0-9, dot, dash or underscore');
+    }
+    if (password.length < 8) {
+        throw new Error('Password must be at least 8 characters');
+    }
+    if (!USER_ROLES.includes(role)) {
+        throw new Error(`Invalid role: ${role}. Must be one of: ${USER_ROLES.join(', ')}`);
+    }
+
+    return { username, name: String(data.name || '').trim().slice(0, 255) || username, password, role };
+}
+
+/**
+ * Compare a setup token from the client with SETUP_TOKEN in constant time
+ */
+function matchesSetupToken(given, expected) {
+    if (!expected) return false;
+    const a = crypto.createHash('sha256').update(String(given || '')).digest();
+    const b = crypto.createHash('sha256').update(String(expected)).digest();
+    return crypto.timingSafeEqual(a, b);
+}
+
+// Never send password hashes to the client
+function toPublicUser(user) {
+    if (!user) return null;
+    const rest = { ...user };
+    delete rest.password_hash;
+    return rest;
+}
+
+module.exports = {
+    USER_ROLES,
+    hashPassword,
+    verifyPassword,
+    createToken,
+    verifyToken,
+    validateUserInput,
+    matchesSetupToken,
+    toPublicUser
+};
@@ -0,0 +1,187 @@
+// Broadcast campaigns: validation, segment selection and the throttled sender (used by index.cjs)
+const { validateTemplate, fillTemplate } = require('../shared/templates');
+
+const CAMPAIGN_STATUSES = ['draft', 'running', 'paused', 'done'];
+const RECIPIENT_STATUSES = ['pending', 'sent', 'delivered', 'read', 'failed', 'skipped'];
+
+// Seconds between two sends. WhatsApp flags accounts that message many new chats at a
+// steady machine pace, so every gap is drawn at random from [min_delay, max_delay].
+const DEFAULT_DELAY = { min: 20, max: 60 };
+const DELAY_LIMITS = { min: 5, max: 600 };
+const MAX_RECIPIENTS = 500;
+
+// deliver() throws this when WhatsApp is not connected; the campaign pauses instead of failing everyone
+const NOT_CONNECTED = 'WHATSAPP_NOT_CONNECTED';
+
+const isoOrNull = (raw, label) => {
+    if (raw === undefined || raw === null || raw === '') return null;
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${label} date: ${raw}`);
+    return date.toISOString();
+};
+
+/**
+ * Clean a campaign from the API. The segment uses the board's filters: stages
+ * (none = all), a created_at range and a tag. `context.stages` are the stage ids.
+ */
+function validateCampaign(input, context) {
+    if (!input || typeof input !== 'object') throw new Error('Campaign must be an object');
+
+    const name = String(input.name ?? '').trim().slice(0, 100);
+    if (!name) throw new Error('Campaign needs a name');
+    const { body } = validateTemplate({ title: name, body: input.body });
+
+    const raw = input.segment || {};
+    const statuses = Array.isArray(raw.statuses) ? [...new Set(raw.statuses.map(String))] : [];
+    const unknownStatus = statuses.find(s => !context.stages.includes(s));
+    if (unknownStatus) throw new Error(`Unknown stage: ${unknownStatus}`);
+    const from = isoOrNull(raw.from, 'start');
+    const to = isoOrNull(raw.to, 'end');
+    if (from && to && from > to) throw new Error('The date range ends before it starts');
+    const tag = raw.tag ? String(raw.tag).trim().slice(0, 30) || null : null;
+
+    const seconds = (value, fallback, label) => {
+        const num = value === undefined || value === null || value === '' ? fallback : Number(value);
+        if (!Number.isInteger(num) || num < DELAY_LIMITS.min || num > DELAY_LIMITS.max) {
+            throw new Error(`${label} must be a whole number of seconds from ${DELAY_LIMITS.min} to ${DELAY_LIMITS.max}`);
+        }
+        return num;
+    };
+    const minDelay = seconds(input.min_delay, DEFAULT_DELAY.min, 'Minimum delay');
+    const maxDelay = seconds(input.max_delay, Math.max(DEFAULT_DELAY.max, minDelay), 'Maximum delay');
+    if (maxDelay < minDelay) throw new Error('Maximum delay must not be below the minimum delay');
+
+    return { name, body, segment: { statuses, from, to, tag }, min_delay: minDelay, max_delay: maxDelay };
+}
+
+/**
+ * The leads a segment selects, oldest first, one per phone number. Throws above
+ * MAX_RECIPIENTS so a slip in the filters cannot message the whole database.
+ */
+function selectRecipients(leads, segment) {
+    const seen = new Set();
+    const selected = leads
+        .filter(l => !segment.statuses.length || segment.statuses.includes(l.status))
+        .filter(l => !segment.from || new Date(l.created_at) >= new Date(segment.from))
+        .filter(l => !segment.to || new Date(l.created_at) <= new Date(segment.to))
+        .filter(l => !segment.tag || (l.tags || []).includes(segment.tag))
+        .filter(l => l.phone)
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+        .filter(l => !seen.has(l.phone) && seen.add(l.phone));
+
+    if (selected.length > MAX_RECIPIENTS) {
+        throw new Error(`The segment has ${selected.length} leads; narrow it to at most ${MAX_RECIPIENTS}`);
+    }
+    return selected;
+}
+
+// Recipients per status, every status present
+function countRecipients(recipients) {
+    const counts = Object.fromEntries(RECIPIENT_STATUSES.map(s => [s, 0]));
+    for (const r of recipients) counts[r.status] = (counts[r.status] || 0) + 1;
+    return counts;
+}
+
+// The campaign as the API returns it: `counts` per recipient status and their `total`
+function withCounts(campaign, counts) {
+    const all = { ...countRecipients([]), ...counts };
+    return { ...campaign, counts: all, total: Object.values(all).reduce((sum, n) => sum + n, 0) };
+}
+
+// A delivery receipt only moves a recipient forward (sent -> delivered -> read)
+function ackStatus(current, ack) {
+    const next = ack >= 3 ? 'read' : ack === 2 ? 'delivered' : null;
+    const order = ['sent', 'delivered', 'read'];
+    if (!next || !order.includes(current) || order.indexOf(next) <= order.indexOf(current)) return null;
+    return next;
+}
+
+const defaultSleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends running campaigns one recipient at a time. `deliver(lead, text)` sends through
+ * WhatsApp and resolves with the message id; `onUpdate(id)` is told after every change.
+ * `sleep` and `random` are injectable so the pacing can be checked without waiting.
+ *
+ * Pausing is just the stored status: the loop re-reads the campaign before every send,
+ * so a pause takes effect after the message in flight and a resume picks up the next
+ * pending recipient.
+ */
+function createCampaignSender({ db, deliver, onUpdate = () => {}, sleep = defaultSleep, random = Math.random }) {
+    const active = new Map(); // campaign id -> started again while sending
+
+    const gapMs = (campaign) =>
+        Math.round((campaign.min_delay + random() * (campaign.max_delay - campaign.min_delay)) * 1000);
+
+    async function run(id) {
+        for (;;) {
+            const campaign = await db.getCampaign(id);
+            if (!campaign || campaign.status !== 'running') return;
+
+            const pending = campaign.recipients.filter(r => r.status === 'pending');
+            if (pending.length === 0) {
+                await db.updateCampaign(id, { status: 'done', finished_at: new Date().toISOString() });
+                onUpdate(id);
+                return;
+            }
+
+            const next = pending[0];
+            const lead = await db.findLeadById(next.lead_id);
+            if (!lead) {
+                await db.updateRecipient(id, next.lead_id, { status: 'skipped', error: 'Lead was deleted' });
+                onUpdate(id);
+                continue;
+            }
+
+            try {
+                const whatsappId = await deliver(lead, fillTemplate(campaign.body, lead));
+                await db.updateRecipient(id, lead.id, {
+                    status: 'sent', whatsapp_id: whatsappId || null, sent_at: new Date().toISOString(), error: null
+                });
+            } catch (error) {
+                if (error.code === NOT_CONNECTED) {
+                    await db.updateCampaign(id, { status: 'paused', last_error: error.message });
+                    onUpdate(id);
+                    return;
+                }
+                await db.updateRecipient(id, lead.id, { status: 'failed', error: error.message });
+            }
+            onUpdate(id);
+
+            if (pending.length > 1) await sleep(gapMs(campaign));
+        }
+    }
+
+    // A start while the loop runs is remembered: the loop may be on its way out after a pause
+    function start(id) {
+        if (active.has(id)) {
+            active.set(id, true);
+            return;
+        }
+        active.set(id, false);
+        run(id)
+            .catch(error => console.error(`❌ Campaign ${id} stopped:`, error.message))
+            .finally(() => {
+                const again = active.get(id);
+                active.delete(id);
+                if (again) start(id);
+            });
+    }
+
+    return {
+        start,
+        isSending: (id) => active.has(id)
+    };
+}
+
+module.exports = {
+    CAMPAIGN_STATUSES,
+    RECIPIENT_STATUSES,
+    NOT_CONNECTED,
+    validateCampaign,
+    selectRecipients,
+    countRecipients,
+    withCounts,
+    ackStatus,
+    createCampaignSender
+};
@@ -1,4 +1,17 @@
 const { Pool } = require('pg');
+const { DEFAULT_STAGES, validateStages } = require('./pipeline');
+const { validateTags, validateFieldDefinitions, validateCustomFieldValues } = require('../shared/fields');
+const { validateProduct } = require('../shared/products');
+const { validateTemplate } = require('../shared/templates');
+const { buildLossReport } = require('../shared/lost');
+const { countRecipients, withCounts, ackStatus } = require('./campaigns');
+const { validateOrder, orderLeadFields } = require('../shared/orders');
+const { validateTaskInput } = require('./tasks');
+const { DEFAULT_ASSIGNMENT, validateAssignmentSettings } = require('./assignment');
+const { DEFAULT_RULES, validateRules } = require('../shared/rules');
+const { parseSearch, foldSql } = require('../shared/search');
+const { validatePhone } = require('../shared/phone');
+const { MIN_OVERLAP_LENGTH, mergeLeadRecords, resolveMergedFields, planPhoneMigration } = require('../shared/duplicates');
 
 // Database Configuration
 const pool = new Pool({
@@ -44,7 +57,7 @@ async function initDb() {
           source_message TEXT,
           source_contact_name VARCHAR(255),
           whatsapp_id VARCHAR(255) UNIQUE,
-          status VARCHAR(20) DEFAULT 'new' CHECK (status IN ('new', 'potential', 'won', 'lost', 'contacted')),
+          status VARCHAR(50) DEFAULT 'new',
           source VARCHAR(50) DEFAULT 'whatsapp' CHECK (source IN ('whatsapp', 'manual')),
           value DECIMAL(10, 2) DEFAULT 0 CHECK (value >= 0),
           product_name VARCHAR(255),
@@ -56,10 +69,192 @@ async function initDb() {
         CREATE INDEX IF NOT EXISTS idx_status ON leads(status);
         CREATE INDEX IF NOT EXISTS idx_created_at ON leads(created_at DESC);
         CREATE INDEX IF NOT EXISTS idx_whatsapp_id ON leads(whatsapp_id);
+
+        CREATE TABLE IF NOT EXISTS messages (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+          body TEXT NOT NULL,
+          from_me BOOLEAN NOT NULL DEFAULT FALSE,
+          whatsapp_id VARCHAR(255) UNIQUE,
+          timestamp TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_messages_lead ON messages(lead_id, timestamp);
+
+        -- Manual board ordering: ascending within a column, newest first by default
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS position DOUBLE PRECISION;
+        ALTER TABLE leads ALTER COLUMN position SET DEFAULT (-EXTRACT(EPOCH FROM NOW()) * 1000);
+        UPDATE leads SET position = -EXTRACT(EPOCH FROM created_at) * 1000 WHERE position IS NULL;
+
+        -- Configurable pipeline stages (replaces the hard-coded status CHECK)
+        CREATE TABLE IF NOT EXISTS pipeline_stages (
+          id VARCHAR(50) PRIMARY KEY,
+          name VARCHAR(100) NOT NULL,
+          color VARCHAR(20) NOT NULL DEFAULT 'slate',
+          position INTEGER NOT NULL DEFAULT 0,
+          kind VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (kind IN ('open', 'won', 'lost'))
+        );
+
+        ALTER TABLE leads DROP CONSTRAINT IF EXISTS leads_status_check;
+        ALTER TABLE leads ALTER COLUMN status TYPE VARCHAR(50);
+
+        -- Append-only activity log (no FK: entries outlive deleted leads)
+        CREATE TABLE IF NOT EXISTS lead_activities (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          lead_id UUID NOT NULL,
+          type VARCHAR(30) NOT NULL,
+          actor VARCHAR(255) NOT NULL DEFAULT 'system',
+          data JSONB NOT NULL DEFAULT '{}',
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_activities_lead ON lead_activities(lead_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_activities_type ON lead_activities(type, created_at);
+
+        -- Free-form tags and admin-defined custom field values
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}';
+        CREATE INDEX IF NOT EXISTS idx_leads_tags ON leads USING GIN (tags);
+
+        CREATE TABLE IF NOT EXISTS custom_field_definitions (
+          id VARCHAR(50) PRIMARY KEY,
+          label VARCHAR(100) NOT NULL,
+          type VARCHAR(10) NOT NULL CHECK (type IN ('text', 'number', 'select', 'date')),
+          options JSONB NOT NULL DEFAULT '[]',
+          position INTEGER NOT NULL DEFAULT 0
+        );
+
+        -- Follow-up tasks; notified_at marks that the due reminder was sent
+        CREATE TABLE IF NOT EXISTS lead_tasks (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+          due_at TIMESTAMPTZ NOT NULL,
+          note TEXT NOT NULL DEFAULT '',
+          done BOOLEAN NOT NULL DEFAULT FALSE,
+          done_at TIMESTAMPTZ,
+          assigned_to VARCHAR(255),
+          notified_at TIMESTAMPTZ,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_tasks_lead ON lead_tasks(lead_id, due_at);
+        CREATE INDEX IF NOT EXISTS idx_tasks_open_due ON lead_tasks(due_at) WHERE done = FALSE;
+
+        -- Dashboard accounts
+        CREATE TABLE IF NOT EXISTS users (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          username VARCHAR(50) UNIQUE NOT NULL,
+          name VARCHAR(255),
+          password_hash TEXT NOT NULL,
+          role VARCHAR(10) NOT NULL DEFAULT 'agent' CHECK (role IN ('admin', 'agent')),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        -- Lead owner (username); NULL means unassigned
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS assigned_to VARCHAR(50);
+        CREATE INDEX IF NOT EXISTS idx_leads_assigned_to ON leads(assigned_to);
+
+        -- Small JSON settings documents (e.g. the assignment mode)
+        CREATE TABLE IF NOT EXISTS app_settings (
+          key VARCHAR(50) PRIMARY KEY,
+          value JSONB NOT NULL
+        );
+
+        -- Product catalog; leads keep product_name as a copy of the linked product's name
+        CREATE TABLE IF NOT EXISTS products (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          sku VARCHAR(50) UNIQUE NOT NULL,
+          name VARCHAR(255) NOT NULL,
+          price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+          cost DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (cost >= 0),
+          active BOOLEAN NOT NULL DEFAULT TRUE,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES products(id) ON DELETE SET NULL;
+        CREATE INDEX IF NOT EXISTS idx_leads_product ON leads(product_id);
+
+        -- The lead's order (see orders.js); with items, value is the order total
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS order_items JSONB NOT NULL DEFAULT '[]';
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS delivery_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0);
+
+        -- Why a lead in a lost stage was lost (see lost.js); cleared when it leaves the lost stages
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS lost_reason VARCHAR(20);
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS lost_note TEXT;
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS lost_at TIMESTAMPTZ;
+
+        -- Bumped by every edit a person makes (not by incoming messages); offline edits replayed
+        -- from a dashboard's outbox carry the version they were made on to detect conflicts
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+        -- Deleted leads sit in the trash until restored or purged (see trash.js); every
+        -- list and count skips them
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+        ALTER TABLE leads ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(255);
+        CREATE INDEX IF NOT EXISTS idx_leads_deleted_at ON leads(deleted_at) WHERE deleted_at IS NOT NULL;
+
+        -- Quick-reply templates (see templates.js)
+        CREATE TABLE IF NOT EXISTS reply_templates (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          title VARCHAR(100) NOT NULL,
+          body TEXT NOT NULL,
+          use_count INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        -- Broadcast campaigns (see campaigns.js); recipients are fixed when the campaign is created
+        CREATE TABLE IF NOT EXISTS campaigns (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          name VARCHAR(100) NOT NULL,
+          body TEXT NOT NULL,
+          segment JSONB NOT NULL DEFAULT '{}',
+          min_delay INTEGER NOT NULL,
+          max_delay INTEGER NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'draft',
+          last_error TEXT,
+          created_by VARCHAR(50),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          started_at TIMESTAMPTZ,
+          finished_at TIMESTAMPTZ
+        );
+
+        -- No foreign key to leads: a deleted lead is skipped, the campaign keeps its row
+        CREATE TABLE IF NOT EXISTS campaign_recipients (
+          campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+          lead_id UUID NOT NULL,
+          position INTEGER NOT NULL,
+          phone VARCHAR(20) NOT NULL,
+          name VARCHAR(255),
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          error TEXT,
+          whatsapp_id VARCHAR(255),
+          sent_at TIMESTAMPTZ,
+          PRIMARY KEY (campaign_id, lead_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_campaign_recipients_whatsapp ON campaign_recipients(whatsapp_id);
       `;
 
         await client.query(createTableQuery);
 
+        // Seed the default four stages and move legacy statuses onto them
+        const stageCount = await client.query('SELECT COUNT(*)::int AS count FROM pipeline_stages');
+        if (stageCount.rows[0].count === 0) {
+            for (const stage of DEFAULT_STAGES) {
+                await client.query(
+                    'INSERT INTO pipeline_stages (id, name, color, position, kind) VALUES ($1, $2, $3, $4, $5)',
+                    [stage.id, stage.name, stage.color, stage.position, stage.kind]
+                );
+            }
+            await client.query(`UPDATE leads SET status = 'potential' WHERE status = 'contacted'`);
+            await client.query(`UPDATE leads SET status = 'new' WHERE status NOT IN (SELECT id FROM pipeline_stages)`);
+            console.log('✅ Default pipeline stages created');
+        }
+
+        await normalizeStoredPhones(client);
+
         // Add constraint if not exists (for id parameter type)
         try {
             await client.query(`
@@ -80,29 +275,77 @@ async function initDb() {
     }
 }
 
+/**
+ * One-time migration (a no-op once done): store every phone in E.164 and fold leads
+ * that were the same number in different formats into the oldest one.
+ */
+async function normalizeStoredPhones(client) {
+    const { rows } = await client.query('SELECT * FROM leads');
+    const plan = planPhoneMigration(rows);
+    let merged = 0;
+
+    for (const { phone, keeper, duplicates } of plan) {
+        if (duplicates.length === 0) {
+            await client.query('UPDATE leads SET phone = $2 WHERE id = $1', [keeper.id, phone]);
+            continue;
+        }
+        const fields = { ...mergeLeadRecords(keeper, duplicates), phone };
+        await foldLeads(client, keeper, duplicates, fields, { reason: 'phone_format' }, 'system');
+        merged += duplicates.length;
+    }
+
+    if (plan.length > 0) {
+        console.log(`✅ Phones normalized to E.164: ${plan.length} leads updated, ${merged} duplicates merged`);
+    }
+}
+
+/**
+ * Fold `duplicates` into `keeper` inside the caller's transaction: messages, tasks and
+ * activities move to the keeper, the duplicates are deleted and the keeper gets `fields`.
+ */
+async function foldLeads(client, keeper, duplicates, fields, activityData, actor) {
+    const duplicateIds = duplicates.map(d => d.id);
+    await client.query('UPDATE messages SET lead_id = $1 WHERE lead_id = ANY($2::uuid[])', [keeper.id, duplicateIds]);
+    await client.query('UPDATE lead_tasks SET lead_id = $1 WHERE lead_id = ANY($2::uuid[])', [keeper.id, duplicateIds]);
+    await client.query('UPDATE lead_activities SET lead_id = $1 WHERE lead_id = ANY($2::uuid[])', [keeper.id, duplicateIds]);
+    // Deleted first: phone and whatsapp_id are unique
+    await client.query('DELETE FROM leads WHERE id = ANY($1::uuid[])', [duplicateIds]);
+    const result = await client.query(
+        `UPDATE leads SET phone = $2, name = $3, last_message = $4, source_message = $5, source_contact_name = $6,
+            whatsapp_id = $7, product_name = $8, assigned_to = $9, status = $10, value = $11, tags = $12,
+            custom_fields = $13, created_at = $14, updated_at = $15, product_id = $16,
+            order_items = $17, delivery_fee = $18
+         WHERE id = $1
+         RETURNING *`,
+        [keeper.id, fields.phone, fields.name, fields.last_message, fields.source_message, fields.source_contact_name,
+            fields.whatsapp_id, fields.product_name, fields.assigned_to, fields.status, fields.value, fields.tags,
+            JSON.stringify(fields.custom_fields), fields.created_at, fields.updated_at, fields.product_id || null,
+            JSON.stringify(fields.order_items || []), fields.delivery_fee || 0]
+    );
+    await client.query(
+        `INSERT INTO lead_activities (lead_id, type, actor, data) VALUES ($1, 'merged', $2, $3)`,
+        [keeper.id, actor, JSON.stringify({ ...activityData, leads: duplicates.map(d => ({ id: d.id, phone: d.phone, name: d.name })) })]
+    );
+    return result.rows[0];
+}
+
 // ═══════════════════════════════════════════════════════════════
 // VALIDATION HELPERS
 // ═══════════════════════════════════════════════════════════════
 
-function validatePhone(phone) {
-    if (!phone) {
-        throw new Error('Phone number is required');
-    }
-    // Remove all non-digit characters
-    const cleaned = phone.replace(/\D/g, '');
-    // Check if valid phone number (8-15 digits)
-    if (cleaned.length < 8 || cleaned.length > 15) {
-        throw new Error(`Invalid phone number: ${phone}`);
+async function validateStatus(status) {
+    const stages = await getStages();
+    if (!stages.some(stage => stage.id === status)) {
+        throw new Error(`Invalid status: ${status}. Must be one of: ${stages.map(stage => stage.id).join(', ')}`);
     }
-    return cleaned;
+    return status;
 }
 
-function validateStatus(status) {
-    const validStatuses = ['new', 'potential', 'won', 'lost', 'contacted'];
-    if (!validStatuses.includes(status)) {
-        throw new Error(`Invalid status: ${status}. Must be one of: ${validStatuses.join(', ')}`);
-    }
-    return status;
+// New leads land in the first stage of the pipeline
+async function getEntryStatus() {
+    const stages = await getStages();
+    if (stages.length === 0) throw new Error('No pipeline stages configured');
+    return stages[0].id;
 }
 
 function validateValue(value) {
@@ -116,6 +359,28 @@ function validateValue(value) {
     return 0;
 }
 
+/**
+ * Resolve a lead's product_id inside the caller's transaction. Returns the product,
+ * or null when the lead is unlinked; throws for ids that are not in the catalog.
+ */
+async function findLinkedProduct(client, productId) {
+    if (!productId) return null;
+    const result = await client.query('SELECT * FROM products WHERE id::text = $1', [String(productId)]);
+    if (result.rows.length === 0) throw new Error(`Unknown product: ${productId}`);
+    return result.rows[0];
+}
+
+function validatePosition(position) {
+    if (position === undefined || position === null || position === '') {
+        return null;
+    }
+    const numPosition = Number(position);
+    if (!Number.isFinite(numPosition)) {
+        throw new Error(`Invalid position: ${position}`);
+    }
+    return numPosition;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // CRUD OPERATIONS
 // ═══════════════════════════════════════════════════════════════
@@ -131,8 +396,16 @@ async function createLead(data) {
 
         // Validate inputs
         const cleanedPhone = validatePhone(data.phone);
-        const status = validateStatus(data.status || 'new');
-        const value = validateValue(data.value);
+        const status = data.status ? await validateStatus(data.status) : await getEntryStatus();
+        const product = await findLinkedProduct(client, data.product_id);
+        // A catalog product without a typed value brings its price
+        const value = product && (data.value === undefined || data.value === null || data.value === '')
+            ? Number(product.price)
+            : validateValue(data.value);
+        const tags = data.tags === undefined ? null : validateTags(data.tags);
+        const customFields = data.custom_fields === undefined
+            ? null
+            : validateCustomFieldValues(data.custom_fields, await getCustomFields());
 
         const {
             name,
@@ -141,16 +414,17 @@ async function createLead(data) {
             source_contact_name,
             whatsapp_id,
             source = 'whatsapp',
-            product_name
+            product_name,
+            assigned_to
         } = data;
 
         // Upsert with full UPDATE (not DO NOTHING)
         const query = `
         INSERT INTO leads (
           phone, name, last_message, source_message, source_contact_name,
-          whatsapp_id, status, source, value, product_name
+          whatsapp_id, status, source, value, product_name, tags, custom_fields, assigned_to, product_id
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, COALESCE($11, '{}'::text[]), COALESCE($12, '{}'::jsonb), $13, $14)
         ON CONFLICT (phone) 
         DO UPDATE SET
           name = COALESCE(EXCLUDED.name, leads.name),
@@ -158,8 +432,16 @@ async function createLead(data) {
           source_message = COALESCE(EXCLUDED.source_message, leads.source_message),
           source_contact_name = COALESCE(EXCLUDED.source_contact_name, leads.source_contact_name),
           whatsapp_id = COALESCE(EXCLUDED.whatsapp_id, leads.whatsapp_id),
-          value = COALESCE(EXCLUDED.value, leads.value),
-          product_name = COALESCE(EXCLUDED.product_name, leads.product_name),
+          -- Leads with an order keep the order's value and product
+          value = CASE WHEN jsonb_array_length(leads.order_items) > 0 THEN leads.value ELSE COALESCE(EXCLUDED.value, leads.value) END,
+          product_name = CASE WHEN jsonb_array_length(leads.order_items) > 0 THEN leads.product_name ELSE COALESCE(EXCLUDED.product_name, leads.product_name) END,
+          tags = CASE WHEN $11::text[] IS NULL THEN leads.tags ELSE EXCLUDED.tags END,
+          custom_fields = leads.custom_fields || COALESCE($12::jsonb, '{}'::jsonb),
+          assigned_to = COALESCE(EXCLUDED.assigned_to, leads.assigned_to),
+          product_id = CASE WHEN jsonb_array_length(leads.order_items) > 0 THEN leads.product_id ELSE COALESCE(EXCLUDED.product_id, leads.product_id) END,
+          -- A contact that comes back brings its lead out of the trash
+          deleted_at = NULL,
+          deleted_by = NULL,
           updated_at = NOW()
         RETURNING *;
       `;
@@ -174,7 +456,11 @@ async function createLead(data) {
             status,
             source,
             value,
-            product_name || null
+            product ? product.name : product_name || null,
+            tags,
+            customFields === null ? null : JSON.stringify(customFields),
+            assigned_to || null,
+            product ? product.id : null
         ];
 
         const result = await client.query(query, values);
@@ -206,6 +492,21 @@ async function findLeadByPhone(phone) {
     }
 }
 
+/**
+ * Find lead by ID
+ */
+async function findLeadById(id) {
+    try {
+        if (!id) return null;
+        // Leads in the trash only come back through restoreLead
+        const result = await pool.query('SELECT * FROM leads WHERE id = $1 AND deleted_at IS NULL', [id]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error finding lead by ID:', error.message);
+        throw error;
+    }
+}
+
 /**
  * Find lead by WhatsApp ID
  */
@@ -237,6 +538,8 @@ async function updateLeadMessage(phone, message, whatsappId, name = null) {
         SET last_message = $1, 
             whatsapp_id = COALESCE($2, whatsapp_id),
             name = COALESCE($3, name),
+            deleted_at = NULL,
+            deleted_by = NULL,
             updated_at = NOW()
         WHERE phone = $4
         RETURNING *;
@@ -262,33 +565,25 @@ async function updateLeadMessage(phone, message, whatsappId, name = null) {
 }
 
 /**
- * Update lead status (with validation and transaction)
+ * Update lead status and optional board position (with validation and transaction).
+ * In a lost stage the lead keeps its lost reason unless `lost` ({ reason, note }) replaces
+ * it; leaving the lost stages clears it.
  */
-async function updateLeadStatus(id, status) {
+async function updateLeadStatus(id, status, position = null, lost = null) {
     const client = await pool.connect();
 
     try {
         await client.query('BEGIN');
-
-        const validStatus = validateStatus(status);
-
-        const query = `
-        UPDATE leads
-        SET status = $1, updated_at = NOW()
-        WHERE id = $2
-        RETURNING *;
-      `;
-
-        const result = await client.query(query, [validStatus, id]);
+        const lead = await writeLeadStatus(client, id, status, position, lost);
         await client.query('COMMIT');
 
-        if (result.rows.length === 0) {
+        if (!lead) {
             console.warn(`⚠️ No lead found to update status: ${id}`);
             return null;
         }
 
-        console.log(`✅ Lead status updated: ${id} -> ${validStatus}`);
-        return result.rows[0];
+        console.log(`✅ Lead status updated: ${id} -> ${lead.status}`);
+        return lead;
     } catch (error) {
         await client.query('ROLLBACK');
         console.error('❌ Error updating lead status:', error.message);
@@ -298,6 +593,26 @@ async function updateLeadStatus(id, status) {
     }
 }
 
+// The UPDATE behind updateLeadStatus, on the caller's client (and transaction)
+async function writeLeadStatus(client, id, status, position, lost) {
+    const validStatus = await validateStatus(status);
+    const validPosition = validatePosition(position);
+    const isLost = (await getStages()).some(stage => stage.id === validStatus && stage.kind === 'lost');
+
+    const query = `
+        UPDATE leads
+        SET status = $1, position = COALESCE($3, position), updated_at = NOW(), version = version + 1,
+          lost_reason = CASE WHEN $4 THEN COALESCE($5, lost_reason) END,
+          lost_note = CASE WHEN $4 THEN (CASE WHEN $5::text IS NULL THEN lost_note ELSE $6 END) END,
+          lost_at = CASE WHEN $4 THEN COALESCE(lost_at, NOW()) END
+        WHERE id = $2
+        RETURNING *;
+      `;
+
+    const result = await client.query(query, [validStatus, id, validPosition, isLost, lost ? lost.reason : null, lost ? lost.note : null]);
+    return result.rows[0] || null;
+}
+
 /**
  * Update lead value
  */
@@ -335,50 +650,268 @@ async function updateLeadValue(id, value) {
 }
 
 /**
- * Get all leads with optional filters (improved with pagination)
+ * Update editable lead details (name, phone, value, product_id, product_name, tags, custom_fields). Only provided fields change.
+ * custom_fields replaces the whole set of values. A product_id also sets product_name; null unlinks the catalog product.
  */
-async function getLeads(filters = {}) {
+async function updateLeadDetails(id, fields) {
+    const client = await pool.connect();
+
     try {
-        let query = 'SELECT * FROM leads WHERE 1=1';
-        const values = [];
-        let paramCount = 1;
+        await client.query('BEGIN');
+        const lead = await writeLeadDetails(client, id, fields);
+        await client.query('COMMIT');
+
+        if (!lead) {
+            console.warn(`⚠️ No lead found to update details: ${id}`);
+            return null;
+        }
+
+        return lead;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error updating lead details:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+// The UPDATE behind updateLeadDetails, on the caller's client (and transaction)
+async function writeLeadDetails(client, id, fields) {
+    const sets = [];
+    const values = [];
+    if (fields.name !== undefined) {
+        values.push(String(fields.name || '').trim() || null);
+        sets.push(`name = $${values.length}`);
+    }
+    if (fields.phone !== undefined) {
+        values.push(validatePhone(fields.phone));
+        sets.push(`phone = $${values.length}`);
+    }
+    if (fields.value !== undefined) {
+        values.push(validateValue(fields.value));
+        sets.push(`value = $${values.length}`);
+    }
+    const product = await findLinkedProduct(client, fields.product_id);
+    if (fields.product_id !== undefined) {
+        values.push(product ? product.id : null);
+        sets.push(`product_id = $${values.length}`);
+    }
+    if (product || fields.product_name !== undefined) {
+        values.push(product ? product.name : fields.product_name || null);
+        sets.push(`product_name = $${values.length}`);
+    }
+    if (fields.tags !== undefined) {
+        values.push(validateTags(fields.tags));
+        sets.push(`tags = $${values.length}`);
+    }
+    if (fields.custom_fields !== undefined) {
+        values.push(JSON.stringify(validateCustomFieldValues(fields.custom_fields, await getCustomFields())));
+        sets.push(`custom_fields = $${values.length}`);
+    }
+    if (sets.length === 0) {
+        throw new Error('Nothing to update');
+    }
+
+    values.push(id);
+    const query = `
+        UPDATE leads
+        SET ${sets.join(', ')}, updated_at = NOW(), version = version + 1
+        WHERE id = $${values.length}
+        RETURNING *;
+      `;
 
-        if (filters.status) {
-            const validStatus = validateStatus(filters.status);
-            query += ` AND status = $${paramCount}`;
-            values.push(validStatus);
-            paramCount++;
+    const result = await client.query(query, values);
+    return result.rows[0] || null;
+}
+
+/**
+ * Replace a lead's order ({ items, delivery_fee }). Value, product_id and product_name
+ * follow the order; clearing it keeps the last total as the lead value.
+ */
+async function saveLeadOrder(id, order) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const existing = await client.query('SELECT id FROM leads WHERE id = $1 FOR UPDATE', [id]);
+        if (existing.rows.length === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`⚠️ No lead found to save order: ${id}`);
+            return null;
         }
 
-        if (filters.startDate) {
-            query += ` AND created_at >= $${paramCount}`;
-            values.push(filters.startDate);
-            paramCount++;
+        const products = await client.query('SELECT * FROM products');
+        const fields = orderLeadFields(validateOrder(order, products.rows));
+        const columns = Object.keys(fields);
+        const values = columns.map(column => column === 'order_items' ? JSON.stringify(fields[column]) : fields[column]);
+        const result = await client.query(
+            `UPDATE leads SET ${columns.map((column, i) => `${column} = $${i + 2}`).join(', ')}, updated_at = NOW(), version = version + 1
+             WHERE id = $1 RETURNING *`,
+            [id, ...values]
+        );
+
+        await client.query('COMMIT');
+        return result.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error saving lead order:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Set (or clear with null) the lead owner
+ */
+async function assignLead(id, username) {
+    try {
+        const lead = await writeLeadOwner(pool, id, username);
+        if (!lead) {
+            console.warn(`⚠️ No lead found to assign: ${id}`);
+            return null;
         }
+        return lead;
+    } catch (error) {
+        console.error('❌ Error assigning lead:', error.message);
+        throw error;
+    }
+}
+
+async function writeLeadOwner(client, id, username) {
+    const result = await client.query(
+        'UPDATE leads SET assigned_to = $1, updated_at = NOW(), version = version + 1 WHERE id = $2 RETURNING *',
+        [username || null, id]
+    );
+    return result.rows[0] || null;
+}
 
-        if (filters.endDate) {
-            query += ` AND created_at <= $${paramCount}`;
-            values.push(filters.endDate);
-            paramCount++;
+/**
+ * One PATCH /api/leads/:id in a single transaction: details, then the stage ({ status, position,
+ * lost }), then the owner (assigned_to; null unassigns). Only the parts given change; if any
+ * write fails none of them is kept. Returns the lead, or null if it is missing or in the trash.
+ */
+async function editLead(id, { details, stage, assigned_to }) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const existing = await client.query('SELECT * FROM leads WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [id]);
+        if (existing.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return null;
         }
 
-        if (filters.search) {
-            query += ` AND (name ILIKE $${paramCount} OR phone ILIKE $${paramCount} OR last_message ILIKE $${paramCount})`;
-            values.push(`%${filters.search}%`);
-            paramCount++;
+        let lead = existing.rows[0];
+        if (details && Object.keys(details).length > 0) lead = await writeLeadDetails(client, id, details);
+        if (stage) lead = await writeLeadStatus(client, id, stage.status, stage.position, stage.lost);
+        if (assigned_to !== undefined) lead = await writeLeadOwner(client, id, assigned_to);
+
+        await client.query('COMMIT');
+        return lead;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error editing lead:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Inputs for automatic assignment: the owner of the most recently assigned
+ * lead and how many leads in open stages each owner holds.
+ */
+async function getAssignmentStats() {
+    try {
+        const last = await pool.query(`
+            SELECT assigned_to FROM leads
+            WHERE assigned_to IS NOT NULL AND deleted_at IS NULL
+            ORDER BY created_at DESC
+            LIMIT 1
+        `);
+        const counts = await pool.query(`
+            SELECT assigned_to, COUNT(*)::int AS count
+            FROM leads
+            WHERE assigned_to IS NOT NULL AND deleted_at IS NULL
+              AND status IN (SELECT id FROM pipeline_stages WHERE kind = 'open')
+            GROUP BY assigned_to
+        `);
+        const openCounts = {};
+        counts.rows.forEach(row => { openCounts[row.assigned_to] = row.count; });
+        return { lastAssigned: last.rows[0] ? last.rows[0].assigned_to : null, openCounts };
+    } catch (error) {
+        console.error('❌ Error getting assignment stats:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * WHERE conditions for the lead filters shared by getLeads and getLeadStats; their
+ * parameters are appended to `values`. Leads in the trash never match.
+ */
+async function leadConditions(filters, values) {
+    const conditions = ['deleted_at IS NULL'];
+    const param = (value) => {
+        values.push(value);
+        return `$${values.length}`;
+    };
+
+    if (filters.status) conditions.push(`status = ${param(await validateStatus(filters.status))}`);
+    if (filters.startDate) conditions.push(`created_at >= ${param(filters.startDate)}`);
+    if (filters.endDate) conditions.push(`created_at <= ${param(filters.endDate)}`);
+    if (filters.tag) conditions.push(`${param(filters.tag)} = ANY(tags)`);
+
+    // 'none' selects unassigned leads
+    if (filters.assignedTo === 'none') {
+        conditions.push('assigned_to IS NULL');
+    } else if (filters.assignedTo) {
+        conditions.push(`assigned_to = ${param(filters.assignedTo)}`);
+    }
+
+    // Accent-insensitive match on the lead's fields and its whole conversation
+    if (filters.search) {
+        const { text, phoneDigits } = parseSearch(filters.search);
+        if (text) {
+            const like = param(`%${text.replace(/[\\%_]/g, '\\$&')}%`);
+            const matches = [
+                `${foldSql('name')} LIKE ${like}`,
+                `${foldSql('product_name')} LIKE ${like}`,
+                `${foldSql('last_message')} LIKE ${like}`,
+                `phone LIKE ${like}`,
+                `${foldSql("array_to_string(tags, ' ')")} LIKE ${like}`,
+                `EXISTS (SELECT 1 FROM messages m WHERE m.lead_id = leads.id AND ${foldSql('m.body')} LIKE ${like})`
+            ];
+            if (phoneDigits) matches.push(`phone LIKE ${param(`%${phoneDigits}%`)}`);
+            conditions.push(`(${matches.join(' OR ')})`);
         }
+    }
+
+    return conditions.join(' AND ');
+}
+
+/**
+ * Get leads with optional filters, newest first. order: 'board' sorts them as the cards
+ * of a board column (position, see src/lib/board.ts), for paging one column at a time.
+ */
+async function getLeads(filters = {}) {
+    try {
+        const values = [];
+        let query = `SELECT * FROM leads WHERE ${await leadConditions(filters, values)}`;
 
-        query += ' ORDER BY created_at DESC';
+        query += filters.order === 'board' ? ' ORDER BY position ASC, created_at DESC' : ' ORDER BY created_at DESC';
 
         if (filters.limit) {
-            query += ` LIMIT $${paramCount}`;
             values.push(filters.limit);
+            query += ` LIMIT $${values.length}`;
         }
 
         if (filters.offset) {
-            paramCount++;
-            query += ` OFFSET $${paramCount}`;
             values.push(filters.offset);
+            query += ` OFFSET $${values.length}`;
         }
 
         const result = await pool.query(query, values);
@@ -390,74 +923,1191 @@ async function getLeads(filters = {}) {
 }
 
 /**
- * Delete lead (with transaction)
+ * Every tag on a lead outside the trash, alphabetical (the board's tag filter)
  */
-async function deleteLead(id) {
-    const client = await pool.connect();
-
+async function getTags() {
     try {
-        await client.query('BEGIN');
+        const result = await pool.query(`
+            SELECT DISTINCT unnest(tags) AS tag FROM leads
+            WHERE deleted_at IS NULL
+            ORDER BY tag;
+        `);
+        return result.rows.map(row => row.tag);
+    } catch (error) {
+        console.error('❌ Error getting tags:', error.message);
+        throw error;
+    }
+}
 
-        const query = 'DELETE FROM leads WHERE id = $1 RETURNING *';
-        const result = await client.query(query, [id]);
-        await client.query('COMMIT');
+/**
+ * Move a lead to the trash. Its messages, tasks and history stay until it is purged.
+ */
+async function deleteLead(id, actor = null) {
+    try {
+        const result = await pool.query(`
+            UPDATE leads SET deleted_at = NOW(), deleted_by = $2, version = version + 1, updated_at = NOW()
+            WHERE id = $1 AND deleted_at IS NULL
+            RETURNING *;
+        `, [id, actor]);
 
         if (result.rows.length === 0) {
             console.warn(`⚠️ No lead found to delete: ${id}`);
             return null;
         }
 
-        console.log(`✅ Lead deleted: ${id}`);
+        console.log(`🗑️ Lead moved to trash: ${id}`);
         return result.rows[0];
     } catch (error) {
-        await client.query('ROLLBACK');
         console.error('❌ Error deleting lead:', error.message);
         throw error;
-    } finally {
-        client.release();
     }
 }
 
 /**
- * Get lead statistics with improved query
+ * Move every lead created in the range (either end open) to the trash. Returns the moved leads.
  */
-async function getLeadStats() {
+async function deleteLeadsInRange({ startDate, endDate }, actor = null) {
     try {
-        const query = `
-        SELECT 
-          COUNT(*) as total,
-          COUNT(*) FILTER (WHERE status = 'new') as new,
-          COUNT(*) FILTER (WHERE status = 'potential') as potential,
-          COUNT(*) FILTER (WHERE status = 'contacted') as contacted,
-          COUNT(*) FILTER (WHERE status = 'won') as won,
-          COUNT(*) FILTER (WHERE status = 'lost') as lost,
-          COALESCE(SUM(value) FILTER (WHERE status = 'won'), 0) as total_won_value,
-          COALESCE(AVG(value) FILTER (WHERE status = 'won'), 0) as avg_won_value
-        FROM leads;
-      `;
+        const result = await pool.query(`
+            UPDATE leads SET deleted_at = NOW(), deleted_by = $3, version = version + 1, updated_at = NOW()
+            WHERE deleted_at IS NULL
+              AND ($1::timestamptz IS NULL OR created_at >= $1)
+              AND ($2::timestamptz IS NULL OR created_at <= $2)
+            RETURNING *;
+        `, [startDate, endDate, actor]);
+
+        console.log(`🗑️ ${result.rows.length} leads moved to trash`);
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error clearing leads:', error.message);
+        throw error;
+    }
+}
 
-        const result = await pool.query(query);
-        const stats = result.rows[0];
+// Leads in the trash, most recently deleted first
+async function getDeletedLeads() {
+    try {
+        const result = await pool.query('SELECT * FROM leads WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC');
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting deleted leads:', error.message);
+        throw error;
+    }
+}
 
-        console.log(`📊 Lead stats: ${stats.total} total, ${stats.won} won, ${stats.potential} potential`);
-        return stats;
+/**
+ * Take a lead out of the trash; null when it is not there
+ */
+async function restoreLead(id) {
+    try {
+        const result = await pool.query(`
+            UPDATE leads SET deleted_at = NULL, deleted_by = NULL, version = version + 1, updated_at = NOW()
+            WHERE id = $1 AND deleted_at IS NOT NULL
+            RETURNING *;
+        `, [id]);
+
+        if (result.rows.length === 0) return null;
+        console.log(`♻️ Lead restored: ${id}`);
+        return result.rows[0];
     } catch (error) {
-        console.error('❌ Error getting lead stats:', error.message);
+        console.error('❌ Error restoring lead:', error.message);
         throw error;
     }
 }
 
 /**
- * Get leads by status for dashboard
+ * Delete for good the leads that went to the trash before `cutoff`, with their messages
+ * and tasks. Returns the purged ids.
  */
-async function getLeadsByStatus(status) {
+async function purgeDeletedLeads(cutoff) {
     try {
-        const validStatus = validateStatus(status);
-        const query = 'SELECT * FROM leads WHERE status = $1 ORDER BY updated_at DESC LIMIT 50';
-        const result = await pool.query(query, [validStatus]);
-        return result.rows;
+        const result = await pool.query('DELETE FROM leads WHERE deleted_at < $1 RETURNING id', [cutoff]);
+        return result.rows.map(row => row.id);
     } catch (error) {
-        console.error('❌ Error getting leads by status:', error.message);
+        console.error('❌ Error purging deleted leads:', error.message);
+        throw error;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONVERSATION HISTORY
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Append a message to a lead's conversation (idempotent by WhatsApp message ID)
+ */
+async function addMessage(leadId, data) {
+    try {
+        if (!leadId) throw new Error('Lead ID is required');
+        if (!data.body) throw new Error('Message body is required');
+
+        const query = `
+        INSERT INTO messages (lead_id, body, from_me, whatsapp_id, timestamp)
+        VALUES ($1, $2, $3, $4, COALESCE($5, NOW()))
+        ON CONFLICT (whatsapp_id) DO NOTHING
+        RETURNING *;
+      `;
+
+        const result = await pool.query(query, [
+            leadId,
+            data.body,
+            !!data.from_me,
+            data.whatsapp_id || null,
+            data.timestamp || null
+        ]);
+
+        // Already stored (e.g. 'message' and 'message_create' both fired)
+        if (result.rows.length === 0) {
+            return findMessageByWhatsAppId(data.whatsapp_id);
+        }
+
+        return result.rows[0];
+    } catch (error) {
+        console.error('❌ Error adding message:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Find a stored message by its WhatsApp message ID
+ */
+async function findMessageByWhatsAppId(whatsappId) {
+    try {
+        if (!whatsappId) return null;
+        const result = await pool.query('SELECT * FROM messages WHERE whatsapp_id = $1', [whatsappId]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error finding message:', error.message);
+        throw error;
+    }
+}
+
+// Latest customer messages across all leads, newest first, with the lead they belong to
+async function getRecentIncomingMessages(limit = 100) {
+    try {
+        const result = await pool.query(`
+        SELECT m.id, m.body, m.timestamp, l.id AS lead_id, l.name, l.phone, l.status
+        FROM messages m
+        JOIN leads l ON l.id = m.lead_id
+        WHERE m.from_me = FALSE AND l.deleted_at IS NULL
+        ORDER BY m.timestamp DESC
+        LIMIT $1
+      `, [limit]);
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting recent messages:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Get the conversation of a lead, oldest first
+ */
+async function getMessages(leadId, options = {}) {
+    try {
+        const limit = options.limit || 500;
+        const query = `
+        SELECT * FROM (
+          SELECT * FROM messages WHERE lead_id = $1
+          ORDER BY timestamp DESC
+          LIMIT $2
+        ) recent
+        ORDER BY timestamp ASC;
+      `;
+        const result = await pool.query(query, [leadId, limit]);
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting messages:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Get lead statistics (won/lost follow the stage kinds). Filters, as for getLeads, narrow
+ * the counts a board shows: total, won, lost, the won values and by_status. Revenue by
+ * product and the loss report always cover every lead.
+ */
+async function getLeadStats(filters = {}) {
+    try {
+        const values = [];
+        const where = await leadConditions(filters, values);
+        const query = `
+        SELECT 
+          COUNT(*) as total,
+          COUNT(*) FILTER (WHERE s.kind = 'won') as won,
+          COUNT(*) FILTER (WHERE s.kind = 'lost') as lost,
+          COALESCE(SUM(l.value) FILTER (WHERE s.kind = 'won'), 0) as total_won_value,
+          COALESCE(AVG(l.value) FILTER (WHERE s.kind = 'won'), 0) as avg_won_value
+        FROM (SELECT * FROM leads WHERE ${where}) l
+        LEFT JOIN pipeline_stages s ON s.id = l.status;
+      `;
+
+        const byStatusQuery = `SELECT status, COUNT(*)::int AS count FROM leads WHERE ${where} GROUP BY status`;
+
+        // Won revenue per catalog product, same rules as products.js revenueByProduct:
+        // order lines count under their product, leads without an order count their value
+        const byProductQuery = `
+        WITH won AS (
+          SELECT l.* FROM leads l JOIN pipeline_stages s ON s.id = l.status AND s.kind = 'won'
+          WHERE l.deleted_at IS NULL
+        ), lines AS (
+          SELECT w.id AS lead_id, NULLIF(item->>'product_id', '')::uuid AS product_id,
+            (item->>'quantity')::numeric AS quantity,
+            (item->>'quantity')::numeric * (item->>'unit_price')::numeric - COALESCE((item->>'discount')::numeric, 0) AS revenue
+          FROM won w, jsonb_array_elements(w.order_items) AS item
+          UNION ALL
+          SELECT id, product_id, 1, value FROM won WHERE jsonb_array_length(order_items) = 0
+        )
+        SELECT
+          l.product_id, p.sku, p.name,
+          COUNT(DISTINCT l.lead_id)::int AS won,
+          COALESCE(SUM(l.revenue), 0)::float AS revenue,
+          COALESCE(SUM(p.cost * l.quantity), 0)::float AS cost
+        FROM lines l
+        LEFT JOIN products p ON p.id = l.product_id
+        GROUP BY l.product_id, p.sku, p.name
+        ORDER BY revenue DESC;
+      `;
+
+        const lostQuery = `
+        SELECT l.status, l.lost_reason, l.lost_at, l.updated_at, l.product_name, l.order_items
+        FROM leads l JOIN pipeline_stages s ON s.id = l.status AND s.kind = 'lost'
+        WHERE l.deleted_at IS NULL;
+      `;
+
+        const [result, byStatusResult, byProductResult, lostResult] = await Promise.all([
+            pool.query(query, values), pool.query(byStatusQuery, values), pool.query(byProductQuery), pool.query(lostQuery)
+        ]);
+        const stats = result.rows[0];
+        stats.by_status = Object.fromEntries(byStatusResult.rows.map(row => [row.status, row.count]));
+        stats.by_product = byProductResult.rows;
+        stats.losses = buildLossReport(lostResult.rows, lostResult.rows.map(row => row.status));
+
+        console.log(`📊 Lead stats: ${stats.total} total, ${stats.won} won, ${stats.lost} lost`);
+        return stats;
+    } catch (error) {
+        console.error('❌ Error getting lead stats:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Get leads by status for dashboard
+ */
+async function getLeadsByStatus(status) {
+    try {
+        const validStatus = await validateStatus(status);
+        const query = 'SELECT * FROM leads WHERE status = $1 AND deleted_at IS NULL ORDER BY updated_at DESC LIMIT 50';
+        const result = await pool.query(query, [validStatus]);
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting leads by status:', error.message);
+        throw error;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// DUPLICATES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Lead id pairs that received the same inbound message text (greetings excluded by length)
+ */
+async function findMessageOverlaps() {
+    try {
+        const result = await pool.query(`
+            SELECT DISTINCT a.lead_id AS a, b.lead_id AS b
+            FROM messages a
+            JOIN messages b ON lower(btrim(a.body)) = lower(btrim(b.body)) AND a.lead_id < b.lead_id
+            WHERE NOT a.from_me AND NOT b.from_me AND length(btrim(a.body)) >= $1
+        `, [MIN_OVERLAP_LENGTH]);
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error finding message overlaps:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Merge `mergeIds` into `keepId` in one transaction. `picks` chooses which lead's value
+ * survives per field (see duplicates.js). Returns null if any of the leads is gone.
+ */
+async function mergeLeads(keepId, mergeIds, picks = {}, actor = 'system') {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const { rows } = await client.query('SELECT * FROM leads WHERE id = ANY($1::uuid[]) AND deleted_at IS NULL FOR UPDATE', [[keepId, ...mergeIds]]);
+        const keeper = rows.find(l => l.id === keepId);
+        const duplicates = rows.filter(l => l.id !== keepId);
+        if (!keeper || duplicates.length !== mergeIds.length) {
+            await client.query('ROLLBACK');
+            return null;
+        }
+
+        const fields = resolveMergedFields(keeper, duplicates, picks);
+        fields.status = await validateStatus(fields.status);
+        const merged = await foldLeads(client, keeper, duplicates, fields, { reason: 'manual' }, actor);
+        await client.query('COMMIT');
+
+        console.log(`✅ Leads merged into ${keepId}: ${mergeIds.join(', ')}`);
+        return merged;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error merging leads:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ACTIVITY LOG
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Append an entry to the activity log (entries are never updated or deleted)
+ */
+async function logActivity(leadId, type, data = {}, actor = 'system') {
+    try {
+        const query = `
+        INSERT INTO lead_activities (lead_id, type, actor, data)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *;
+      `;
+        const result = await pool.query(query, [leadId, type, actor || 'system', JSON.stringify(data)]);
+        return result.rows[0];
+    } catch (error) {
+        console.error('❌ Error logging activity:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Get activity entries, oldest first. Filter by lead, type and/or time window.
+ */
+async function getActivities(filters = {}) {
+    try {
+        let query = 'SELECT * FROM lead_activities WHERE 1=1';
+        const values = [];
+
+        if (filters.leadId) {
+            values.push(filters.leadId);
+            query += ` AND lead_id = $${values.length}`;
+        }
+        if (filters.type) {
+            values.push(filters.type);
+            query += ` AND type = $${values.length}`;
+        }
+        if (filters.since) {
+            values.push(filters.since);
+            query += ` AND created_at >= $${values.length}`;
+        }
+
+        values.push(filters.limit || 1000);
+        query += ` ORDER BY created_at ASC LIMIT $${values.length}`;
+
+        const result = await pool.query(query, values);
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting activities:', error.message);
+        throw error;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PIPELINE STAGES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Get pipeline stages in board order
+ */
+async function getStages() {
+    try {
+        const result = await pool.query('SELECT * FROM pipeline_stages ORDER BY position ASC');
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting stages:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Replace the pipeline (order = array order). Stages that still hold leads cannot be removed.
+ */
+async function saveStages(stages) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const cleaned = validateStages(stages);
+        const ids = cleaned.map(stage => stage.id);
+
+        const orphaned = await client.query(
+            'SELECT status, COUNT(*)::int AS count FROM leads WHERE NOT (status = ANY($1)) AND deleted_at IS NULL GROUP BY status',
+            [ids]
+        );
+        if (orphaned.rows.length > 0) {
+            const details = orphaned.rows.map(row => `${row.status} (${row.count})`).join(', ');
+            throw new Error(`Move leads out of these stages before removing them: ${details}`);
+        }
+        // Leads in the trash don't hold a stage back; restored, they start over in the first one
+        await client.query(
+            'UPDATE leads SET status = $2 WHERE NOT (status = ANY($1)) AND deleted_at IS NOT NULL',
+            [ids, ids[0]]
+        );
+
+        await client.query('DELETE FROM pipeline_stages WHERE NOT (id = ANY($1))', [ids]);
+        for (const stage of cleaned) {
+            await client.query(`
+                INSERT INTO pipeline_stages (id, name, color, position, kind)
+                VALUES ($1, $2, $3, $4, $5)
+                ON CONFLICT (id) DO UPDATE SET
+                  name = EXCLUDED.name, color = EXCLUDED.color,
+                  position = EXCLUDED.position, kind = EXCLUDED.kind
+            `, [stage.id, stage.name, stage.color, stage.position, stage.kind]);
+        }
+
+        await client.query('COMMIT');
+        console.log(`✅ Pipeline saved: ${ids.join(' → ')}`);
+        return cleaned;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error saving stages:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FOLLOW-UP TASKS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Create a follow-up task on a lead
+ */
+async function createTask(leadId, data, assignedTo = null) {
+    try {
+        const task = validateTaskInput(data);
+        const result = await pool.query(`
+            INSERT INTO lead_tasks (lead_id, due_at, note, assigned_to)
+            VALUES ($1, $2, $3, $4)
+            RETURNING *;
+        `, [leadId, task.due_at, task.note || '', assignedTo]);
+        return result.rows[0];
+    } catch (error) {
+        console.error('❌ Error creating task:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Update due date, note or done flag. Moving the due date re-arms the reminder.
+ */
+async function updateTask(id, data) {
+    try {
+        const fields = validateTaskInput(data, { partial: true });
+        const sets = [];
+        const values = [];
+
+        if (fields.due_at !== undefined) {
+            values.push(fields.due_at);
+            sets.push(`due_at = $${values.length}`, 'notified_at = NULL');
+        }
+        if (fields.note !== undefined) {
+            values.push(fields.note);
+            sets.push(`note = $${values.length}`);
+        }
+        if (fields.done !== undefined) {
+            values.push(fields.done);
+            sets.push(`done = $${values.length}`, `done_at = CASE WHEN $${values.length} THEN NOW() ELSE NULL END`);
+        }
+        if (sets.length === 0) {
+            throw new Error('Nothing to update');
+        }
+
+        values.push(id);
+        const result = await pool.query(
+            `UPDATE lead_tasks SET ${sets.join(', ')} WHERE id = $${values.length} RETURNING *`,
+            values
+        );
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error updating task:', error.message);
+        throw error;
+    }
+}
+
+async function findTaskById(id) {
+    try {
+        if (!id) return null;
+        const result = await pool.query('SELECT * FROM lead_tasks WHERE id = $1', [id]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error finding task:', error.message);
+        throw error;
+    }
+}
+
+async function deleteTask(id) {
+    try {
+        const result = await pool.query('DELETE FROM lead_tasks WHERE id = $1 RETURNING *', [id]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error deleting task:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Get tasks, soonest first. Filters: leadId, done, dueBefore, assignedTo
+ */
+async function getTasks(filters = {}) {
+    try {
+        // Tasks of leads in the trash wait there with them
+        let query = 'SELECT * FROM lead_tasks WHERE lead_id NOT IN (SELECT id FROM leads WHERE deleted_at IS NOT NULL)';
+        const values = [];
+
+        if (filters.leadId) {
+            values.push(filters.leadId);
+            query += ` AND lead_id = $${values.length}`;
+        }
+        if (filters.done !== undefined) {
+            values.push(filters.done);
+            query += ` AND done = $${values.length}`;
+        }
+        if (filters.dueBefore) {
+            values.push(filters.dueBefore);
+            query += ` AND due_at <= $${values.length}`;
+        }
+        if (filters.assignedTo) {
+            values.push(filters.assignedTo);
+            query += ` AND assigned_to = $${values.length}`;
+        }
+
+        query += ' ORDER BY due_at ASC LIMIT 500';
+        const result = await pool.query(query, values);
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting tasks:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Mark open tasks that have come due as notified and return them (each task is returned once)
+ */
+async function claimDueTasks() {
+    try {
+        const result = await pool.query(`
+            UPDATE lead_tasks SET notified_at = NOW()
+            WHERE done = FALSE AND notified_at IS NULL AND due_at <= NOW()
+              AND lead_id NOT IN (SELECT id FROM leads WHERE deleted_at IS NOT NULL)
+            RETURNING *;
+        `);
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error claiming due tasks:', error.message);
+        throw error;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// USERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Create a user. Expects an already hashed password.
+ */
+async function createUser({ username, name, password_hash, role }) {
+    try {
+        const result = await pool.query(`
+            INSERT INTO users (username, name, password_hash, role)
+            VALUES ($1, $2, $3, $4)
+            RETURNING *;
+        `, [username, name || null, password_hash, role]);
+        console.log(`✅ User created: ${username} (${role})`);
+        return result.rows[0];
+    } catch (error) {
+        if (error.code === '23505') {
+            throw new Error(`Username already taken: ${username}`);
+        }
+        console.error('❌ Error creating user:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Create the first account, only while there are none. The table lock makes concurrent
+ * setups wait for each other, so at most one of them succeeds. Returns null otherwise.
+ */
+async function createFirstUser({ username, name, password_hash, role }) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+        await client.query('LOCK TABLE users IN EXCLUSIVE MODE');
+        const existing = await client.query('SELECT 1 FROM users LIMIT 1');
+        if (existing.rows.length > 0) {
+            await client.query('ROLLBACK');
+            return null;
+        }
+        const result = await client.query(`
+            INSERT INTO users (username, name, password_hash, role)
+            VALUES ($1, $2, $3, $4)
+            RETURNING *;
+        `, [username, name || null, password_hash, role]);
+        await client.query('COMMIT');
+        console.log(`✅ First user created: ${username} (${role})`);
+        return result.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error creating first user:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+async function findUserByUsername(username) {
+    try {
+        const result = await pool.query('SELECT * FROM users WHERE username = $1', [String(username || '').toLowerCase()]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error finding user:', error.message);
+        throw error;
+    }
+}
+
+async function findUserById(id) {
+    try {
+        const result = await pool.query('SELECT * FROM users WHERE id = $1', [id]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error finding user:', error.message);
+        throw error;
+    }
+}
+
+async function getUsers() {
+    try {
+        const result = await pool.query('SELECT * FROM users ORDER BY created_at ASC');
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting users:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Delete a user. The last admin cannot be removed.
+ */
+async function deleteUser(id) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const user = (await client.query('SELECT * FROM users WHERE id = $1 FOR UPDATE', [id])).rows[0];
+        if (!user) {
+            await client.query('ROLLBACK');
+            return null;
+        }
+        if (user.role === 'admin') {
+            const admins = await client.query(`SELECT COUNT(*)::int AS count FROM users WHERE role = 'admin'`);
+            if (admins.rows[0].count <= 1) throw new Error('Cannot remove the last admin');
+        }
+
+        await client.query('DELETE FROM users WHERE id = $1', [id]);
+        // Their leads go back to the unassigned pool
+        await client.query('UPDATE leads SET assigned_to = NULL WHERE assigned_to = $1', [user.username]);
+        await client.query('COMMIT');
+        console.log(`✅ User deleted: ${user.username}`);
+        return user;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error deleting user:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SETTINGS
+// ═══════════════════════════════════════════════════════════════
+
+async function getAssignmentSettings() {
+    try {
+        const result = await pool.query(`SELECT value FROM app_settings WHERE key = 'assignment'`);
+        return result.rows[0] ? { ...DEFAULT_ASSIGNMENT, ...result.rows[0].value } : DEFAULT_ASSIGNMENT;
+    } catch (error) {
+        console.error('❌ Error getting assignment settings:', error.message);
+        throw error;
+    }
+}
+
+async function saveAssignmentSettings(settings) {
+    try {
+        const valid = validateAssignmentSettings(settings);
+        await pool.query(`
+            INSERT INTO app_settings (key, value) VALUES ('assignment', $1)
+            ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value
+        `, [JSON.stringify(valid)]);
+        console.log(`✅ Assignment mode saved: ${valid.mode}`);
+        return valid;
+    } catch (error) {
+        console.error('❌ Error saving assignment settings:', error.message);
+        throw error;
+    }
+}
+
+async function getRules() {
+    try {
+        const result = await pool.query(`SELECT value FROM app_settings WHERE key = 'rules'`);
+        return result.rows[0] ? result.rows[0].value : DEFAULT_RULES;
+    } catch (error) {
+        console.error('❌ Error getting rules:', error.message);
+        throw error;
+    }
+}
+
+// Rules may only point at stages, users and products that exist
+async function saveRules(ruleSet) {
+    try {
+        const [stages, users, products] = await Promise.all([
+            pool.query('SELECT id FROM pipeline_stages'),
+            pool.query('SELECT username FROM users'),
+            pool.query('SELECT id::text AS id FROM products')
+        ]);
+        const valid = validateRules(ruleSet, {
+            stages: stages.rows.map(r => r.id),
+            usernames: users.rows.map(r => r.username),
+            productIds: products.rows.map(r => r.id)
+        });
+        await pool.query(`
+            INSERT INTO app_settings (key, value) VALUES ('rules', $1)
+            ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value
+        `, [JSON.stringify(valid)]);
+        console.log(`✅ Rules saved: ${valid.rules.length}`);
+        return valid;
+    } catch (error) {
+        console.error('❌ Error saving rules:', error.message);
+        throw error;
+    }
+}
+
+// The trained win-probability model (see intent.js), or null before the first training
+async function getIntentModel() {
+    try {
+        const result = await pool.query(`SELECT value FROM app_settings WHERE key = 'intent_model'`);
+        return result.rows[0] ? result.rows[0].value : null;
+    } catch (error) {
+        console.error('❌ Error getting intent model:', error.message);
+        throw error;
+    }
+}
+
+async function saveIntentModel(model) {
+    try {
+        await pool.query(`
+            INSERT INTO app_settings (key, value) VALUES ('intent_model', $1)
+            ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value
+        `, [JSON.stringify(model)]);
+        console.log(`✅ Intent model saved: ${model.report.examples} examples`);
+        return model;
+    } catch (error) {
+        console.error('❌ Error saving intent model:', error.message);
+        throw error;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CUSTOM FIELDS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Get custom field definitions in form order
+ */
+async function getCustomFields() {
+    try {
+        const result = await pool.query('SELECT * FROM custom_field_definitions ORDER BY position ASC');
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting custom fields:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Replace the custom field definitions. Values of removed fields stay on leads but are no longer shown.
+ */
+async function saveCustomFields(definitions) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const cleaned = validateFieldDefinitions(definitions);
+        const ids = cleaned.map(def => def.id);
+
+        await client.query('DELETE FROM custom_field_definitions WHERE NOT (id = ANY($1))', [ids]);
+        for (const def of cleaned) {
+            await client.query(`
+                INSERT INTO custom_field_definitions (id, label, type, options, position)
+                VALUES ($1, $2, $3, $4, $5)
+                ON CONFLICT (id) DO UPDATE SET
+                  label = EXCLUDED.label, type = EXCLUDED.type,
+                  options = EXCLUDED.options, position = EXCLUDED.position
+            `, [def.id, def.label, def.type, JSON.stringify(def.options), def.position]);
+        }
+
+        await client.query('COMMIT');
+        console.log(`✅ Custom fields saved: ${ids.join(', ') || '(none)'}`);
+        return cleaned;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error saving custom fields:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PRODUCTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Get the product catalog, active products first
+ */
+async function getProducts() {
+    try {
+        const result = await pool.query('SELECT * FROM products ORDER BY active DESC, name ASC');
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting products:', error.message);
+        throw error;
+    }
+}
+
+async function findProductById(id) {
+    try {
+        const result = await pool.query('SELECT * FROM products WHERE id::text = $1', [String(id)]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error finding product:', error.message);
+        throw error;
+    }
+}
+
+const duplicateSku = (error, sku) => error.code === '23505' ? new Error(`SKU ${sku} is already used by another product`) : error;
+
+/**
+ * Add a product. Unlinked leads whose product_name is this product's name are linked to it,
+ * so revenue typed in before the catalog existed is reported under the product.
+ */
+async function createProduct(data) {
+    const product = validateProduct(data);
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const result = await client.query(
+            'INSERT INTO products (sku, name, price, cost, active) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+            [product.sku, product.name, product.price, product.cost, product.active]
+        );
+        const linked = await client.query(
+            `UPDATE leads SET product_id = $1, product_name = $2
+             WHERE product_id IS NULL AND lower(btrim(product_name)) = lower($2)`,
+            [result.rows[0].id, product.name]
+        );
+
+        await client.query('COMMIT');
+        console.log(`✅ Product created: ${product.sku} (${linked.rowCount} leads linked)`);
+        return result.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error creating product:', error.message);
+        throw duplicateSku(error, product.sku);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Update a product; omitted fields keep their value. Renames are copied to the linked leads.
+ * Products are deactivated rather than deleted so old leads keep their link.
+ */
+async function updateProduct(id, data) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const existing = await client.query('SELECT * FROM products WHERE id::text = $1 FOR UPDATE', [String(id)]);
+        if (existing.rows.length === 0) {
+            await client.query('ROLLBACK');
+            console.warn(`⚠️ No product found to update: ${id}`);
+            return null;
+        }
+
+        const product = validateProduct({ ...existing.rows[0], ...data });
+        const result = await client.query(
+            `UPDATE products SET sku = $2, name = $3, price = $4, cost = $5, active = $6, updated_at = NOW()
+             WHERE id = $1 RETURNING *`,
+            [existing.rows[0].id, product.sku, product.name, product.price, product.cost, product.active]
+        );
+        if (product.name !== existing.rows[0].name) {
+            // Order leads show their order summary instead
+            await client.query(
+                'UPDATE leads SET product_name = $2 WHERE product_id = $1 AND jsonb_array_length(order_items) = 0',
+                [existing.rows[0].id, product.name]
+            );
+        }
+
+        await client.query('COMMIT');
+        return result.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error updating product:', error.message);
+        throw duplicateSku(error, data.sku);
+    } finally {
+        client.release();
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// BROADCAST CAMPAIGNS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Store a validated campaign (see campaigns.js validateCampaign) with its recipients, in order.
+ * It starts as a draft.
+ */
+async function createCampaign(data, leads, createdBy = null) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const result = await client.query(`
+            INSERT INTO campaigns (name, body, segment, min_delay, max_delay, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6) RETURNING id
+        `, [data.name, data.body, JSON.stringify(data.segment), data.min_delay, data.max_delay, createdBy]);
+        const id = result.rows[0].id;
+
+        for (const [position, lead] of leads.entries()) {
+            await client.query(
+                'INSERT INTO campaign_recipients (campaign_id, lead_id, position, phone, name) VALUES ($1, $2, $3, $4, $5)',
+                [id, lead.id, position, lead.phone, lead.name || null]
+            );
+        }
+
+        await client.query('COMMIT');
+        console.log(`✅ Campaign created: ${data.name} (${leads.length} recipients)`);
+        return getCampaign(id);
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error creating campaign:', error.message);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Get all campaigns, newest first, with recipient counts (without the recipients)
+ */
+async function getCampaigns() {
+    try {
+        const result = await pool.query(`
+            SELECT c.*, COALESCE((
+              SELECT json_object_agg(status, n) FROM (
+                SELECT status, COUNT(*)::int AS n FROM campaign_recipients r
+                WHERE r.campaign_id = c.id GROUP BY status
+              ) s
+            ), '{}') AS counts
+            FROM campaigns c
+            ORDER BY c.created_at DESC
+        `);
+        return result.rows.map(({ counts, ...campaign }) => withCounts(campaign, counts));
+    } catch (error) {
+        console.error('❌ Error getting campaigns:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Get one campaign with its recipients in sending order, or null
+ */
+async function getCampaign(id) {
+    try {
+        const result = await pool.query('SELECT * FROM campaigns WHERE id::text = $1', [String(id)]);
+        if (result.rows.length === 0) return null;
+        const recipients = await pool.query(
+            'SELECT * FROM campaign_recipients WHERE campaign_id = $1 ORDER BY position ASC',
+            [result.rows[0].id]
+        );
+        return { ...withCounts(result.rows[0], countRecipients(recipients.rows)), recipients: recipients.rows };
+    } catch (error) {
+        console.error('❌ Error getting campaign:', error.message);
+        throw error;
+    }
+}
+
+const CAMPAIGN_FIELDS = ['status', 'last_error', 'started_at', 'finished_at'];
+const RECIPIENT_FIELDS = ['status', 'error', 'whatsapp_id', 'sent_at'];
+
+// Build "a = $2, b = $3" from the allowed keys present in `fields`; $1 is left for the id
+function setClause(fields, allowed) {
+    const keys = allowed.filter(key => fields[key] !== undefined);
+    return {
+        sql: keys.map((key, index) => `${key} = $${index + 2}`).join(', '),
+        values: keys.map(key => fields[key])
+    };
+}
+
+/**
+ * Update a campaign's status, last_error, started_at or finished_at. Returns the row or null.
+ */
+async function updateCampaign(id, fields) {
+    try {
+        const { sql, values } = setClause(fields, CAMPAIGN_FIELDS);
+        const result = await pool.query(
+            `UPDATE campaigns SET ${sql ? `${sql}, ` : ''}updated_at = NOW() WHERE id::text = $1 RETURNING *`,
+            [String(id), ...values]
+        );
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error updating campaign:', error.message);
+        throw error;
+    }
+}
+
+async function updateRecipient(campaignId, leadId, fields) {
+    try {
+        const { sql, values } = setClause(fields, RECIPIENT_FIELDS);
+        if (!sql) return null;
+        const result = await pool.query(
+            `UPDATE campaign_recipients SET ${sql} WHERE campaign_id::text = $1 AND lead_id::text = $${values.length + 2} RETURNING *`,
+            [String(campaignId), ...values, String(leadId)]
+        );
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error updating campaign recipient:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Apply a WhatsApp delivery receipt (ack 2 = delivered, 3 = read) to the recipient the
+ * message was sent to. Returns the campaign id when a recipient changed, otherwise null.
+ */
+async function recordRecipientAck(whatsappId, ack) {
+    try {
+        const result = await pool.query('SELECT * FROM campaign_recipients WHERE whatsapp_id = $1', [whatsappId]);
+        const recipient = result.rows[0];
+        const status = recipient && ackStatus(recipient.status, ack);
+        if (!status) return null;
+        await pool.query(
+            'UPDATE campaign_recipients SET status = $3 WHERE campaign_id = $1 AND lead_id = $2',
+            [recipient.campaign_id, recipient.lead_id, status]
+        );
+        return recipient.campaign_id;
+    } catch (error) {
+        console.error('❌ Error recording delivery receipt:', error.message);
+        throw error;
+    }
+}
+
+async function deleteCampaign(id) {
+    try {
+        const result = await pool.query('DELETE FROM campaigns WHERE id::text = $1 RETURNING *', [String(id)]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error deleting campaign:', error.message);
+        throw error;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// QUICK-REPLY TEMPLATES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Get the templates, most used first
+ */
+async function getTemplates() {
+    try {
+        const result = await pool.query('SELECT * FROM reply_templates ORDER BY use_count DESC, title ASC');
+        return result.rows;
+    } catch (error) {
+        console.error('❌ Error getting templates:', error.message);
+        throw error;
+    }
+}
+
+async function createTemplate(data) {
+    const template = validateTemplate(data);
+    try {
+        const result = await pool.query(
+            'INSERT INTO reply_templates (title, body) VALUES ($1, $2) RETURNING *',
+            [template.title, template.body]
+        );
+        return result.rows[0];
+    } catch (error) {
+        console.error('❌ Error creating template:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Update a template; omitted fields keep their value. Returns null when it does not exist.
+ */
+async function updateTemplate(id, data) {
+    try {
+        const existing = await pool.query('SELECT * FROM reply_templates WHERE id::text = $1', [String(id)]);
+        if (existing.rows.length === 0) return null;
+
+        const template = validateTemplate({ ...existing.rows[0], ...data });
+        const result = await pool.query(
+            'UPDATE reply_templates SET title = $2, body = $3, updated_at = NOW() WHERE id = $1 RETURNING *',
+            [existing.rows[0].id, template.title, template.body]
+        );
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error updating template:', error.message);
+        throw error;
+    }
+}
+
+async function deleteTemplate(id) {
+    try {
+        const result = await pool.query('DELETE FROM reply_templates WHERE id::text = $1 RETURNING *', [String(id)]);
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error deleting template:', error.message);
+        throw error;
+    }
+}
+
+/**
+ * Count one use of a template (inserted into a reply). Returns null when it does not exist.
+ */
+async function recordTemplateUse(id) {
+    try {
+        const result = await pool.query(
+            'UPDATE reply_templates SET use_count = use_count + 1 WHERE id::text = $1 RETURNING *',
+            [String(id)]
+        );
+        return result.rows[0] || null;
+    } catch (error) {
+        console.error('❌ Error recording template use:', error.message);
         throw error;
     }
 }
@@ -512,14 +2162,71 @@ module.exports = {
     initDb,
     createLead,
     findLeadByPhone,
+    findLeadById,
     findLeadByWhatsAppId,
     updateLeadMessage,
     updateLeadStatus,
     updateLeadValue,
+    updateLeadDetails,
+    editLead,
+    saveLeadOrder,
+    assignLead,
+    getAssignmentStats,
     getLeads,
+    getTags,
     deleteLead,
+    deleteLeadsInRange,
+    getDeletedLeads,
+    restoreLead,
+    purgeDeletedLeads,
+    findMessageOverlaps,
+    mergeLeads,
     getLeadStats,
     getLeadsByStatus,
+    getStages,
+    saveStages,
+    getCustomFields,
+    saveCustomFields,
+    getProducts,
+    findProductById,
+    createProduct,
+    updateProduct,
+    getTemplates,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    recordTemplateUse,
+    createCampaign,
+    getCampaigns,
+    getCampaign,
+    updateCampaign,
+    updateRecipient,
+    recordRecipientAck,
+    deleteCampaign,
+    getAssignmentSettings,
+    saveAssignmentSettings,
+    getRules,
+    saveRules,
+    getIntentModel,
+    saveIntentModel,
+    createUser,
+    createFirstUser,
+    findUserByUsername,
+    findUserById,
+    getUsers,
+    deleteUser,
+    createTask,
+    updateTask,
+    findTaskById,
+    deleteTask,
+    getTasks,
+    claimDueTasks,
+    logActivity,
+    getActivities,
+    addMessage,
+    findMessageByWhatsAppId,
+    getMessages,
+    getRecentIncomingMessages,
     healthCheck,
     closePool
 };
@@ -0,0 +1,53 @@
+// Local stand-in for the whatsapp-web.js Client: no browser, no phone. index.cjs uses it when
+// WHATSAPP_FAKE=1, so broadcasts and replies can be tried end to end without risking a real account.
+const { EventEmitter } = require('events');
+
+/**
+ * Implements the part of Client the server uses. "Sent" messages are kept in `sent`,
+ * echoed as 'message_create' like the real client does, and acknowledged as delivered
+ * after `ackDelay` ms. Chat ids listed in `failFor` throw, to try failed recipients.
+ */
+class FakeClient extends EventEmitter {
+    constructor({ failFor = [], ackDelay = 1000 } = {}) {
+        super();
+        this.failFor = new Set(failFor);
+        this.ackDelay = ackDelay;
+        this.sent = [];
+    }
+
+    async initialize() {
+        setImmediate(() => {
+            this.emit('authenticated');
+            this.emit('ready');
+        });
+    }
+
+    async destroy() {}
+
+    async getChats() {
+        return [];
+    }
+
+    async sendMessage(chatId, body) {
+        if (this.failFor.has(chatId)) throw new Error(`Fake send failure for ${chatId}`);
+
+        const msg = {
+            id: { _serialized: `true_${chatId}_FAKE${this.sent.length + 1}` },
+            from: 'fake@c.us',
+            to: chatId,
+            body,
+            fromMe: true,
+            timestamp: Math.floor(Date.now() / 1000),
+            ack: 1
+        };
+        this.sent.push(msg);
+        setImmediate(() => this.emit('message_create', msg));
+        setTimeout(() => {
+            msg.ack = 2;
+            this.emit('message_ack', msg, 2);
+        }, this.ackDelay).unref();
+        return msg;
+    }
+}
+
+module.exports = { FakeClient };
@@ -5,6 +5,21 @@ const { Server } = require('socket.io');
 const { Client, LocalAuth } = require('whatsapp-web.js');
 const cors = require('cors');
 const qrcode = require('qrcode');
+const crypto = require('crypto');
+const auth = require('./auth');
+const { pickOwner } = require('./assignment');
+const { normalizePhone, formatPhone, toChatId } = require('../shared/phone');
+const { findDuplicateGroups } = require('../shared/duplicates');
+const { hasOrder } = require('../shared/orders');
+const { validateRules, evaluateRules } = require('../shared/rules');
+const { trainIntentModel } = require('../shared/intent');
+const { fillTemplate } = require('../shared/templates');
+const { NOT_CONNECTED, validateCampaign, selectRecipients, createCampaignSender } = require('./campaigns');
+const { validateLostReason } = require('../shared/lost');
+const { DETAIL_FIELDS, validateLeadEdit } = require('../shared/edits');
+const { validateCustomFieldValues } = require('../shared/fields');
+const { retentionDays, purgeCutoff, validateClearRange } = require('../shared/trash');
+const { FakeClient } = require('./fake-whatsapp');
 // const db = require('./database'); // Moved to line 65 for cleanup
 
 const app = express();
@@ -15,10 +30,24 @@ const PORT = process.env.PORT || 4000;
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
 const NODE_ENV = process.env.NODE_ENV || 'development';
 
+// Browsers may only call the API from these origins (extra ones via CORS_ORIGINS, comma separated)
+const ALLOWED_ORIGINS = [
+  FRONTEND_URL,
+  'http://localhost:5173',
+  'http://localhost:3000',
+  ...(process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean)
+];
+
+// Signs session tokens. Without AUTH_SECRET every restart logs everyone out.
+const AUTH_SECRET = process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.AUTH_SECRET) {
+  console.warn('⚠️ AUTH_SECRET not set, using a random secret (sessions end on restart)');
+}
+
 // Middleware
 app.use(cors({
-  origin: [FRONTEND_URL, 'http://localhost:5173', 'http://localhost:3000', '*'],
-  methods: ['GET', 'POST', 'PUT', 'DELETE'],
+  origin: ALLOWED_ORIGINS,
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
   credentials: true
 }));
 app.use(express.json({ limit: '10mb' }));
@@ -26,7 +55,7 @@ app.use(express.json({ limit: '10mb' }));
 // Socket.IO Setup
 const io = new Server(server, {
   cors: {
-    origin: '*',
+    origin: ALLOWED_ORIGINS,
     methods: ["GET", "POST"],
     credentials: true
   },
@@ -70,13 +99,25 @@ if (!process.env.DATABASE_URL) {
 
 db.initDb()
   .then(() => console.log('✅ Storage initialized successfully'))
+  .then(seedAdminFromEnv)
   .catch(err => {
     console.error('⚠️ Storage initialization failed:', err.message);
   });
 
 
+// Create the first admin from ADMIN_USERNAME / ADMIN_PASSWORD when there are no users yet
+async function seedAdminFromEnv() {
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) return;
+
+  const input = auth.validateUserInput({ username: ADMIN_USERNAME, password: ADMIN_PASSWORD, role: 'admin' });
+  const user = await db.createFirstUser({ ...input, password_hash: auth.hashPassword(input.password) });
+  if (user) console.log(`✅ Admin account seeded: ${input.username}`);
+}
+
 // Initialize WhatsApp Client (Improved Config)
-const client = new Client({
+// WHATSAPP_FAKE=1 swaps in a local fake (fake-whatsapp.js) to try sending without a phone
+const client = process.env.WHATSAPP_FAKE === '1' ? new FakeClient() : new Client({
   authStrategy: new LocalAuth({
     dataPath: './wwebjs_auth',
     clientId: 'crm-' + (process.env.INSTANCE_ID || 'default')
@@ -181,6 +222,7 @@ client.on('ready', () => {
 
   io.emit('ready', { status: 'connected' });
   io.emit('crm:health_check', getHealthStatus());
+  resumeRunningCampaigns();
 
   console.log(`📊 Connected clients: ${io.engine.clientsCount}`);
 });
@@ -240,7 +282,10 @@ client.on('session_invalid', () => {
 // 📨 IMPROVED MESSAGE PROCESSOR (With De-duplication)
 // ═══════════════════════════════════════════════════════════════
 
-async function processMessage(msg, type) {
+// Resolves with the stored conversation message, or undefined when the
+// message was skipped or could not be persisted. `actor` is recorded in the
+// activity log (replies sent from the CRM pass the operator).
+async function processMessage(msg, type, actor = 'whatsapp') {
   try {
     // Basic Filter: Ignore Status Updates
     if (msg.from === 'status@broadcast') return;
@@ -265,19 +310,20 @@ async function processMessage(msg, type) {
     // Logging
     const prefix = msg.fromMe ? '📤 [OUTGOING]' : '📥 [INCOMING]';
     const rawNumber = msg.fromMe ? msg.to.split('@')[0] : msg.from.split('@')[0];
+    const phone = normalizePhone(rawNumber);
 
     // Safety check
-    if (!rawNumber || rawNumber.length < 5) {
+    if (!phone) {
       console.warn('⚠️ Invalid phone number, skipping:', rawNumber);
       return;
     }
 
-    console.log(`${prefix} ${rawNumber} | ${msg.body.substring(0, 50)}...`);
+    console.log(`${prefix} ${phone} | ${msg.body.substring(0, 50)}...`);
 
     // 1. FAST EMIT (Instant with minimal data)
     const fastPayload = {
-      phone: rawNumber,
-      name: `~${rawNumber}`,
+      phone,
+      name: `~${formatPhone(phone)}`,
       message: msg.body,
       whatsapp_id: whatsappId,
       fromMe: msg.fromMe,
@@ -289,7 +335,7 @@ async function processMessage(msg, type) {
 
     // 2. ENRICHED EMIT (Background Name Resolution with better error handling)
     try {
-      let contactName = `+${rawNumber}`;
+      let contactName = formatPhone(phone);
 
       try {
         if (typeof msg.getContact === 'function') {
@@ -311,37 +357,62 @@ async function processMessage(msg, type) {
         io.emit('new_message', enrichedPayload);
       }
 
-      // 3. DATABASE PERSISTENCE (Only if DATABASE_URL exists)
-      if (process.env.DATABASE_URL && db) {
-        try {
-          // First try to find by WhatsApp ID (more accurate)
-          let existingLead = await db.findLeadByWhatsAppId(whatsappId);
+      // 3. PERSISTENCE (Postgres, or leads.json without DATABASE_URL)
+      try {
+        // First try to find by WhatsApp ID (more accurate)
+        let existingLead = await db.findLeadByWhatsAppId(whatsappId);
 
-          // If not found by WhatsApp ID, try by phone
-          if (!existingLead) {
-            existingLead = await db.findLeadByPhone(rawNumber);
-          }
+        // If not found by WhatsApp ID, try by phone
+        if (!existingLead) {
+          existingLead = await db.findLeadByPhone(phone);
+        }
 
-          if (existingLead) {
-            // SMART UPDATE: Update message, name, and timestamp, preserve status
-            await db.updateLeadMessage(rawNumber, msg.body, whatsappId, contactName);
-            console.log(`📝 Updated lead: ${rawNumber} (${existingLead.status})`);
-          } else {
-            // CREATE NEW LEAD with better data
-            await db.createLead({
-              phone: rawNumber,
-              name: contactName,
-              last_message: msg.body,
-              whatsapp_id: whatsappId,
-              source: 'whatsapp',
-              status: 'new'
-            });
-            console.log(`✨ New lead created: ${rawNumber}`);
+        let lead;
+        let isNewLead = false;
+        if (existingLead) {
+          // SMART UPDATE: Update message, name, and timestamp, preserve status
+          // (our own replies must not rename the customer)
+          lead = await db.updateLeadMessage(existingLead.phone, msg.body, whatsappId, msg.fromMe ? null : contactName);
+          console.log(`📝 Updated lead: ${phone} (${existingLead.status})`);
+          await announceRestore(existingLead, lead, actor, 'message');
+        } else {
+          // CREATE NEW LEAD with better data
+          lead = await db.createLead({
+            phone,
+            name: contactName,
+            last_message: msg.body,
+            whatsapp_id: whatsappId,
+            source: 'whatsapp'
+          });
+          console.log(`✨ New lead created: ${phone}`);
+          if (lead) {
+            isNewLead = true;
+            await recordActivity(lead.id, 'created', { source: 'whatsapp', status: lead.status }, actor);
           }
-        } catch (dbError) {
-          console.error('⚠️ Database error (non-fatal):', dbError.message);
-          // Don't throw - allow system to continue
         }
+
+        // 4. CONVERSATION HISTORY (Append, never overwrite)
+        if (lead) {
+          const stored = await db.addMessage(lead.id, {
+            body: msg.body,
+            from_me: !!msg.fromMe,
+            whatsapp_id: whatsappId,
+            timestamp: msg.timestamp ? new Date(msg.timestamp * 1000).toISOString() : fastPayload.timestamp
+          });
+          io.emit('lead_message', { lead_id: lead.id, message: stored });
+          await recordActivity(lead.id, stored.from_me ? 'message_out' : 'message_in', {
+            message_id: stored.id,
+            preview: stored.body.substring(0, 120)
+          }, actor);
+
+          // Classify on what the customer wrote; rules pick an owner before round-robin does
+          if (!stored.from_me) lead = await applyLeadRules(lead, stored.body, stored.timestamp);
+          if (isNewLead) await autoAssignLead(lead);
+          return stored;
+        }
+      } catch (dbError) {
+        console.error('⚠️ Database error (non-fatal):', dbError.message);
+        // Don't throw - allow system to continue
       }
     } catch (err) {
       console.error('❌ Error in enriched emit:', err.message);
@@ -364,12 +435,35 @@ client.on('message_create', async (msg) => {
   }
 });
 
+// Delivery receipts for campaign messages (2 = delivered to the phone, 3 = read)
+client.on('message_ack', async (msg, ack) => {
+  try {
+    const campaignId = await db.recordRecipientAck(msg.id?._serialized || msg.id, ack);
+    if (campaignId) emitCampaign(campaignId);
+  } catch (error) {
+    console.error('❌ Error handling delivery receipt:', error.message);
+  }
+});
+
 // ═══════════════════════════════════════════════════════════════
 // 🔌 SOCKET.IO CONNECTION (Improved Cleanup)
 // ═══════════════════════════════════════════════════════════════
 
+// Every dashboard socket must present a valid session token
+io.use(async (socket, next) => {
+  try {
+    const user = await authenticateToken(socket.handshake.auth && socket.handshake.auth.token);
+    if (!user) return next(new Error('unauthorized'));
+    socket.data.user = user;
+    next();
+  } catch (error) {
+    console.error('❌ Socket auth error:', error.message);
+    next(new Error('unauthorized'));
+  }
+});
+
 io.on('connection', (socket) => {
-  console.log(`👤 NEW UI CLIENT CONNECTED: ${socket.id} (Total: ${io.engine.clientsCount})`);
+  console.log(`👤 NEW UI CLIENT CONNECTED: ${socket.id} as ${socket.data.user.username} (Total: ${io.engine.clientsCount})`);
 
   // Send immediate state
   socket.emit('crm:health_check', getHealthStatus());
@@ -415,19 +509,295 @@ const asyncHandler = (fn) => (req, res, next) => {
   Promise.resolve(fn(req, res, next)).catch(next);
 };
 
-// 🗄️ LEADS API ENDPOINTS
+// Who performed a request, for the activity log
+const getActor = (req) => (req.user ? req.user.username : 'system');
+
+// Edits replayed from a dashboard's offline outbox send the lead version they were made on
+// (base_version). If someone changed the lead since, answer 409 with the current lead so
+// the dashboard can ask which one to keep. Live edits send no version and always apply.
+function rejectStaleEdit(req, res, lead) {
+  const base = req.body.base_version;
+  if (base === undefined || base === null || Number(base) === Number(lead.version || 1)) return false;
+  res.status(409).json({ error: 'This lead was changed on the server after this edit was made', lead });
+  return true;
+}
 
-app.get('/api/leads', asyncHandler(async (req, res) => {
-  if (!process.env.DATABASE_URL) {
-    return res.status(503).json({ error: 'Database not configured' });
+// 📜 Append to the activity log and push it to open dashboards (never fails the caller)
+async function recordActivity(leadId, type, data, actor) {
+  try {
+    const activity = await db.logActivity(leadId, type, data, actor);
+    io.emit('lead_activity', activity);
+    return activity;
+  } catch (error) {
+    console.error('⚠️ Activity log error (non-fatal):', error.message);
+    return null;
+  }
+}
+
+// 👤 LEAD OWNERSHIP
+
+// Every dashboard refreshes the card; the new owner's dashboard also gets a notification
+function emitAssignment(lead, from, actor) {
+  io.emit('lead_updated', lead);
+  io.emit('lead_assigned', { lead, from, to: lead.assigned_to || null, actor });
+}
+
+/**
+ * Run the classification rules (see rules.js) for a customer message and apply what
+ * matched. Only real changes are written, so running twice for one message is harmless.
+ */
+async function applyLeadRules(lead, text, at = null) {
+  try {
+    const { matched, actions } = evaluateRules(await db.getRules(), { text, phone: lead.phone, status: lead.status, at });
+    if (matched.length === 0) return lead;
+
+    const rule = matched.map(r => r.name).join(', ');
+    let current = lead;
+
+    if (actions.status && actions.status !== current.status) {
+      const moved = await db.updateLeadStatus(current.id, actions.status);
+      await recordActivity(current.id, 'status_changed', { from: current.status, to: moved.status, rule }, 'rules');
+      current = moved;
+    }
+
+    const tags = [...(current.tags || [])];
+    actions.tags.forEach(tag => { if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag); });
+    const details = {};
+    if (tags.length !== (current.tags || []).length) details.tags = tags;
+    // An order owns the lead's product
+    if (actions.product_id && actions.product_id !== current.product_id && !hasOrder(current)) details.product_id = actions.product_id;
+    if (Object.keys(details).length > 0) {
+      const updated = await db.updateLeadDetails(current.id, details);
+      if (details.tags) await recordActivity(current.id, 'tags_changed', { from: current.tags || [], to: updated.tags, rule }, 'rules');
+      if (details.product_id) await recordActivity(current.id, 'product_changed', { from: current.product_name || null, to: updated.product_name, rule }, 'rules');
+      current = updated;
+    }
+
+    // The rule's user may have been removed since it was saved
+    if (actions.assign_to && actions.assign_to !== current.assigned_to && await db.findUserByUsername(actions.assign_to)) {
+      const from = current.assigned_to || null;
+      current = await db.assignLead(current.id, actions.assign_to);
+      await recordActivity(current.id, 'assigned', { from, to: actions.assign_to, rule }, 'rules');
+      emitAssignment(current, from, 'rules');
+    } else if (current !== lead) {
+      io.emit('lead_updated', current);
+    }
+
+    console.log(`🧭 Rules matched for ${lead.phone}: ${rule}`);
+    return current;
+  } catch (error) {
+    console.error('⚠️ Rules error (non-fatal):', error.message);
+    return lead;
+  }
+}
+
+// Give a new WhatsApp lead an owner under the configured mode (manual mode leaves it unassigned)
+async function autoAssignLead(lead) {
+  try {
+    if (lead.assigned_to) return lead;
+    const settings = await db.getAssignmentSettings();
+    if (settings.mode === 'manual') return lead;
+
+    const users = await db.getUsers();
+    const owner = pickOwner(settings.mode, users.map(u => u.username), await db.getAssignmentStats());
+    if (!owner) return lead;
+
+    const assigned = await db.assignLead(lead.id, owner);
+    console.log(`👤 Lead ${lead.phone} assigned to ${owner} (${settings.mode})`);
+    await recordActivity(lead.id, 'assigned', { from: null, to: owner, mode: settings.mode }, 'system');
+    emitAssignment(assigned, null, 'system');
+    return assigned;
+  } catch (error) {
+    console.error('⚠️ Auto-assignment error (non-fatal):', error.message);
+    return lead;
+  }
+}
+
+// 🔐 AUTHENTICATION
+
+// Resolve a session token to its (still existing) user, or null
+async function authenticateToken(token) {
+  const payload = auth.verifyToken(token, AUTH_SECRET);
+  if (!payload) return null;
+  const user = await db.findUserById(payload.sub);
+  return auth.toPublicUser(user);
+}
+
+const requireAuth = asyncHandler(async (req, res, next) => {
+  const header = req.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+  const user = await authenticateToken(token);
+  if (!user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  req.user = user;
+  next();
+});
+
+const requireAdmin = (req, res, next) => {
+  if (!req.user || req.user.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+};
+
+// Brute-force guard: 5 failed logins per username + IP lock it for 15 minutes
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const MAX_LOGIN_FAILURES = 5;
+const loginFailures = new Map(); // key -> { count, first }
+
+function isLoginLocked(key) {
+  const entry = loginFailures.get(key);
+  if (!entry) return false;
+  if (Date.now() - entry.first > LOGIN_WINDOW_MS) {
+    loginFailures.delete(key);
+    return false;
+  }
+  return entry.count >= MAX_LOGIN_FAILURES;
+}
+
+function recordLoginFailure(key) {
+  const entry = loginFailures.get(key);
+  if (!entry || Date.now() - entry.first > LOGIN_WINDOW_MS) {
+    loginFailures.set(key, { count: 1, first: Date.now() });
+  } else {
+    entry.count++;
+  }
+}
+
+// How the first admin may be created from the login page:
+// 'seeded' - ADMIN_USERNAME / ADMIN_PASSWORD create it at startup, no setup from the browser
+// 'token'  - the form must carry SETUP_TOKEN (a one-time secret from the environment)
+// 'closed' - production without either: anyone reaching the URL would become admin
+// 'open'   - development without either
+function setupMode() {
+  if (process.env.ADMIN_USERNAME && process.env.ADMIN_PASSWORD) return 'seeded';
+  if (process.env.SETUP_TOKEN) return 'token';
+  return NODE_ENV === 'production' ? 'closed' : 'open';
+}
+
+// Auth routes work with either storage backend so a fresh install can log in
+app.get('/api/auth/status', asyncHandler(async (req, res) => {
+  const users = await db.getUsers();
+  const mode = setupMode();
+  res.json({
+    needs_setup: users.length === 0 && mode !== 'seeded',
+    setup_token_required: mode === 'token',
+    setup_closed: mode === 'closed'
+  });
+}));
+
+// First run only: create the initial admin (alternatively seeded from ADMIN_USERNAME / ADMIN_PASSWORD)
+app.post('/api/auth/setup', asyncHandler(async (req, res) => {
+  const mode = setupMode();
+  if (mode === 'seeded') {
+    return res.status(409).json({ error: 'The admin account is created from ADMIN_USERNAME / ADMIN_PASSWORD' });
+  }
+  if (mode === 'closed') {
+    return res.status(403).json({ error: 'Setup is disabled: set SETUP_TOKEN or ADMIN_USERNAME / ADMIN_PASSWORD on the server' });
+  }
+  if (mode === 'token' && !auth.matchesSetupToken(req.body.setup_token, process.env.SETUP_TOKEN)) {
+    return res.status(403).json({ error: 'Invalid setup token' });
+  }
+
+  try {
+    const input = auth.validateUserInput({ ...req.body, role: 'admin' });
+    const user = await db.createFirstUser({ ...input, password_hash: auth.hashPassword(input.password) });
+    if (!user) {
+      return res.status(409).json({ error: 'Setup already completed' });
+    }
+    res.status(201).json({ token: auth.createToken(user, AUTH_SECRET), user: auth.toPublicUser(user) });
+  } catch (error) {
+    console.error('❌ Error during setup:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+app.post('/api/auth/login', asyncHandler(async (req, res) => {
+  const username = String(req.body.username || '').trim().toLowerCase();
+  const key = `${username}|${req.ip}`;
+
+  if (isLoginLocked(key)) {
+    return res.status(429).json({ error: 'Too many failed attempts. Try again in 15 minutes.' });
+  }
+
+  const user = await db.findUserByUsername(username);
+  if (!user || !auth.verifyPassword(req.body.password || '', user.password_hash)) {
+    recordLoginFailure(key);
+    return res.status(401).json({ error: 'Invalid username or password' });
+  }
+
+  loginFailures.delete(key);
+  console.log(`🔑 Login: ${user.username}`);
+  res.json({ token: auth.createToken(user, AUTH_SECRET), user: auth.toPublicUser(user) });
+}));
+
+// Everything else under /api needs a session
+app.use('/api', requireAuth);
+
+app.get('/api/auth/me', (req, res) => {
+  res.json(req.user);
+});
+
+// 👥 USERS
+
+app.get('/api/users', asyncHandler(async (req, res) => {
+  try {
+    const users = await db.getUsers();
+    res.json(users.map(auth.toPublicUser));
+  } catch (error) {
+    console.error('❌ Error fetching users:', error.message);
+    res.status(500).json({ error: 'Failed to fetch users', details: error.message });
+  }
+}));
+
+app.post('/api/users', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const input = auth.validateUserInput(req.body);
+    const user = await db.createUser({ ...input, password_hash: auth.hashPassword(input.password) });
+    res.status(201).json(auth.toPublicUser(user));
+  } catch (error) {
+    console.error('❌ Error creating user:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+app.delete('/api/users/:id', requireAdmin, asyncHandler(async (req, res) => {
+  if (req.params.id === req.user.id) {
+    return res.status(400).json({ error: 'You cannot remove your own account' });
+  }
+
+  try {
+    const user = await db.deleteUser(req.params.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error deleting user:', error.message);
+    res.status(400).json({ error: error.message });
   }
+}));
+
+// 🗄️ LEADS API ENDPOINTS
+
+// Lead filters from the query string, shared by GET /api/leads and GET /api/stats
+const leadFiltersFromQuery = ({ status, startDate, endDate, tag, assigned_to, q }) => ({
+  status,
+  startDate,
+  endDate,
+  tag,
+  assignedTo: assigned_to,
+  search: q
+});
 
+// order=board pages through one column at a time (status, limit, offset)
+app.get('/api/leads', asyncHandler(async (req, res) => {
   try {
-    const { status, startDate, endDate, limit, offset } = req.query;
+    const { limit, offset, order } = req.query;
     const leads = await db.getLeads({
-      status,
-      startDate,
-      endDate,
+      ...leadFiltersFromQuery(req.query),
+      order,
       limit: limit ? parseInt(limit) : undefined,
       offset: offset ? parseInt(offset) : undefined
     });
@@ -438,13 +808,32 @@ app.get('/api/leads', asyncHandler(async (req, res) => {
   }
 }));
 
-app.post('/api/leads', asyncHandler(async (req, res) => {
-  if (!process.env.DATABASE_URL) {
-    return res.status(503).json({ error: 'Database not configured' });
+// Every tag in use, including on leads the board has not loaded yet
+app.get('/api/tags', asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.getTags());
+  } catch (error) {
+    console.error('❌ Error fetching tags:', error.message);
+    res.status(500).json({ error: 'Failed to fetch tags', details: error.message });
   }
+}));
 
+app.post('/api/leads', asyncHandler(async (req, res) => {
   try {
-    const lead = await db.createLead(req.body);
+    if (req.body.assigned_to && !(await db.findUserByUsername(req.body.assigned_to))) {
+      return res.status(400).json({ error: `Unknown user: ${req.body.assigned_to}` });
+    }
+
+    const existing = req.body.phone ? await db.findLeadByPhone(req.body.phone).catch(() => null) : null;
+    let lead = await db.createLead(req.body);
+    await announceRestore(existing, lead, getActor(req), 'added');
+    if (!existing) {
+      await recordActivity(lead.id, 'created', { source: lead.source, status: lead.status }, getActor(req));
+      // WhatsApp leads are classified by processMessage, which knows who wrote the message
+      if (lead.source === 'manual' && lead.last_message) lead = await applyLeadRules(lead, lead.last_message);
+      // Dashboards mirror incoming chats through this route, often before processMessage stores them
+      if (lead.source === 'whatsapp') lead = await autoAssignLead(lead);
+    }
     res.status(201).json(lead);
   } catch (error) {
     console.error('❌ Error creating lead:', error.message);
@@ -452,19 +841,91 @@ app.post('/api/leads', asyncHandler(async (req, res) => {
   }
 }));
 
-app.put('/api/leads/:id/status', asyncHandler(async (req, res) => {
-  if (!process.env.DATABASE_URL) {
-    return res.status(503).json({ error: 'Database not configured' });
+// Spreadsheet import: upserts by phone like POST /api/leads, one result per row
+const MAX_IMPORT_ROWS = 5000;
+
+app.post('/api/leads/import', asyncHandler(async (req, res) => {
+  const { leads, update_existing = true } = req.body;
+  if (!Array.isArray(leads) || leads.length === 0) {
+    return res.status(400).json({ error: 'leads must be a non-empty array' });
+  }
+  if (leads.length > MAX_IMPORT_ROWS) {
+    return res.status(400).json({ error: `At most ${MAX_IMPORT_ROWS} rows per import` });
+  }
+
+  try {
+    const actor = getActor(req);
+    const usernames = new Set((await db.getUsers()).map(u => u.username));
+    const results = [];
+
+    for (const { row, ...data } of leads) {
+      try {
+        if (data.assigned_to && !usernames.has(data.assigned_to)) {
+          throw new Error(`Unknown user: ${data.assigned_to}`);
+        }
+
+        const existing = data.phone ? await db.findLeadByPhone(data.phone).catch(() => null) : null;
+        if (existing && !update_existing) {
+          results.push({ row, status: 'skipped', lead_id: existing.id });
+          continue;
+        }
+
+        const lead = await db.createLead(existing ? data : { ...data, source: 'manual' });
+        await announceRestore(existing, lead, actor, 'import');
+        if (!existing) {
+          await recordActivity(lead.id, 'created', { source: 'import', status: lead.status }, actor);
+        }
+        results.push({ row, status: existing ? 'updated' : 'created', lead_id: lead.id });
+      } catch (error) {
+        results.push({ row, status: 'error', error: error.message });
+      }
+    }
+
+    const count = (status) => results.filter(r => r.status === status).length;
+    console.log(`📥 Import by ${actor}: ${count('created')} created, ${count('updated')} updated, ${count('error')} failed`);
+    if (count('created') + count('updated') > 0) {
+      io.emit('leads_imported', { created: count('created'), updated: count('updated'), actor });
+    }
+    res.json({ results });
+  } catch (error) {
+    console.error('❌ Error importing leads:', error.message);
+    res.status(500).json({ error: 'Failed to import leads', details: error.message });
   }
+}));
 
+app.put('/api/leads/:id/status', asyncHandler(async (req, res) => {
   try {
-    const { status } = req.body;
-    const lead = await db.updateLeadStatus(req.params.id, status);
+    const { status, position, lost_reason, lost_note } = req.body;
+    const previous = await db.findLeadById(req.params.id);
+    if (!previous) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    if (rejectStaleEdit(req, res, previous)) return;
+
+    // A lead entering the lost stages needs a reason; moves between lost stages may keep theirs
+    const stages = await db.getStages();
+    const isLost = (id) => stages.some(stage => stage.id === id && stage.kind === 'lost');
+    let lost = null;
+    if (isLost(status) && (!isLost(previous.status) || lost_reason !== undefined)) {
+      try {
+        lost = validateLostReason({ reason: lost_reason, note: lost_note });
+      } catch (error) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+
+    const lead = await db.updateLeadStatus(req.params.id, status, position, lost);
 
     if (!lead) {
       return res.status(404).json({ error: 'Lead not found' });
     }
 
+    if (previous.status !== lead.status) {
+      const data = { from: previous.status, to: lead.status };
+      if (lost) Object.assign(data, { lost_reason: lost.reason, lost_note: lost.note });
+      await recordActivity(lead.id, 'status_changed', data, getActor(req));
+    }
+
     // Emit socket event for real-time update
     io.emit('lead_updated', lead);
 
@@ -475,91 +936,1009 @@ app.put('/api/leads/:id/status', asyncHandler(async (req, res) => {
   }
 }));
 
-app.delete('/api/leads/:id', asyncHandler(async (req, res) => {
-  if (!process.env.DATABASE_URL) {
-    return res.status(503).json({ error: 'Database not configured' });
+// One activity per detail that actually changed
+async function recordDetailChanges(previous, lead, actor) {
+  for (const field of ['name', 'phone']) {
+    if ((previous[field] || null) !== (lead[field] || null)) {
+      await recordActivity(lead.id, 'contact_changed', { field, from: previous[field] || null, to: lead[field] || null }, actor);
+    }
+  }
+  if (Number(previous.value || 0) !== Number(lead.value || 0)) {
+    await recordActivity(lead.id, 'value_changed', { from: Number(previous.value || 0), to: Number(lead.value || 0) }, actor);
   }
+  if ((previous.product_name || null) !== (lead.product_name || null)) {
+    await recordActivity(lead.id, 'product_changed', { from: previous.product_name || null, to: lead.product_name || null }, actor);
+  }
+  if (JSON.stringify(previous.tags || []) !== JSON.stringify(lead.tags || [])) {
+    await recordActivity(lead.id, 'tags_changed', { from: previous.tags || [], to: lead.tags || [] }, actor);
+  }
+  if (JSON.stringify(previous.custom_fields || {}) !== JSON.stringify(lead.custom_fields || {})) {
+    await recordActivity(lead.id, 'fields_changed', { from: previous.custom_fields || {}, to: lead.custom_fields || {} }, actor);
+  }
+}
 
+app.put('/api/leads/:id/details', asyncHandler(async (req, res) => {
   try {
-    const lead = await db.deleteLead(req.params.id);
-
-    if (!lead) {
+    const { value, product_id, product_name, tags, custom_fields } = req.body;
+    const previous = await db.findLeadById(req.params.id);
+    if (!previous) {
       return res.status(404).json({ error: 'Lead not found' });
     }
+    if (rejectStaleEdit(req, res, previous)) return;
+    if (hasOrder(previous) && [value, product_id, product_name].some(field => field !== undefined)) {
+      return res.status(400).json({ error: 'This lead has an order: its value and product come from the order items' });
+    }
+
+    const lead = await db.updateLeadDetails(req.params.id, { value, product_id, product_name, tags, custom_fields });
+    await recordDetailChanges(previous, lead, getActor(req));
 
+    io.emit('lead_updated', lead);
     res.json(lead);
   } catch (error) {
-    console.error('❌ Error deleting lead:', error.message);
-    res.status(500).json({ error: 'Failed to delete lead', details: error.message });
+    console.error('❌ Error updating lead details:', error.message);
+    res.status(500).json({ error: 'Failed to update lead details', details: error.message });
   }
 }));
 
-app.get('/api/stats', asyncHandler(async (req, res) => {
-  if (!process.env.DATABASE_URL) {
-    return res.status(503).json({ error: 'Database not configured' });
+// Replace the lead's order ({ items: [{ product_id, name, quantity, unit_price, discount }], delivery_fee })
+app.put('/api/leads/:id/order', asyncHandler(async (req, res) => {
+  try {
+    const previous = await db.findLeadById(req.params.id);
+    if (!previous) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    if (rejectStaleEdit(req, res, previous)) return;
+
+    const lead = await db.saveLeadOrder(req.params.id, req.body);
+    const from = { total: Number(previous.value || 0), items: (previous.order_items || []).length };
+    const to = { total: Number(lead.value || 0), items: lead.order_items.length };
+    if (JSON.stringify(previous.order_items || []) !== JSON.stringify(lead.order_items) || Number(previous.delivery_fee || 0) !== Number(lead.delivery_fee)) {
+      await recordActivity(lead.id, 'order_changed', { from, to, summary: lead.order_items.length ? lead.product_name : null }, getActor(req));
+    }
+
+    io.emit('lead_updated', lead);
+    res.json(lead);
+  } catch (error) {
+    console.error('❌ Error saving order:', error.message);
+    res.status(400).json({ error: error.message });
   }
+}));
 
+// Reassign a lead (assigned_to: username, or null to unassign)
+app.put('/api/leads/:id/assignee', asyncHandler(async (req, res) => {
   try {
-    const stats = await db.getLeadStats();
-    res.json(stats);
+    const owner = req.body.assigned_to || null;
+    if (owner && !(await db.findUserByUsername(owner))) {
+      return res.status(400).json({ error: `Unknown user: ${owner}` });
+    }
+
+    const previous = await db.findLeadById(req.params.id);
+    if (!previous) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    const lead = await db.assignLead(req.params.id, owner);
+    const from = previous.assigned_to || null;
+    if (from !== owner) {
+      const actor = getActor(req);
+      await recordActivity(lead.id, 'assigned', { from, to: owner }, actor);
+      emitAssignment(lead, from, actor);
+    }
+    res.json(lead);
   } catch (error) {
-    console.error('❌ Error fetching stats:', error.message);
-    res.status(500).json({ error: 'Failed to fetch stats', details: error.message });
+    console.error('❌ Error assigning lead:', error.message);
+    res.status(500).json({ error: 'Failed to assign lead', details: error.message });
   }
 }));
 
-// 🧪 TEST ROUTES
+/**
+ * Change any editable lead fields in one request (see shared/edits.js): contact details, value,
+ * product, tags, custom fields, stage (with position and lost reason) and owner.
+ * Everything is checked first, then db.editLead saves all of it in one transaction (or
+ * nothing, if a write fails); the activities follow and dashboards get one lead_updated.
+ */
+app.patch('/api/leads/:id', asyncHandler(async (req, res) => {
+  let edit;
+  try {
+    edit = validateLeadEdit(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
 
-app.get('/__test_emit', (req, res) => {
-  console.log('🧪 TEST: Manually emitting socket event...');
+  try {
+    const previous = await db.findLeadById(req.params.id);
+    if (!previous) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    if (rejectStaleEdit(req, res, previous)) return;
 
-  const testPayload = {
-    phone: '994500000000',
-    name: 'TEST USER (Backend)',
-    message: 'This is a test message from /__test_emit',
-    whatsapp_id: 'TEST_ID_' + Date.now(),
-    fromMe: false,
-    timestamp: new Date().toISOString(),
-    is_fast_emit: true
-  };
+    const details = {};
+    DETAIL_FIELDS.forEach(field => {
+      if (edit[field] !== undefined) details[field] = edit[field];
+    });
+    if (hasOrder(previous) && [details.value, details.product_id, details.product_name].some(field => field !== undefined)) {
+      return res.status(400).json({ error: 'This lead has an order: its value and product come from the order items' });
+    }
+    if (details.phone && details.phone !== previous.phone) {
+      const other = await db.findLeadByPhone(details.phone);
+      if (other && other.id !== previous.id) {
+        return res.status(400).json({ error: `Another lead already has the number ${details.phone}` });
+      }
+    }
+    if (details.product_id && !(await db.findProductById(details.product_id))) {
+      return res.status(400).json({ error: `Unknown product: ${details.product_id}` });
+    }
+    if (details.custom_fields !== undefined) {
+      try {
+        details.custom_fields = validateCustomFieldValues(details.custom_fields, await db.getCustomFields());
+      } catch (error) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+    if (edit.assigned_to && !(await db.findUserByUsername(edit.assigned_to))) {
+      return res.status(400).json({ error: `Unknown user: ${edit.assigned_to}` });
+    }
 
-  io.emit('new_message', testPayload);
-  res.send(`<h1>Socket Test Emitted</h1><pre>${JSON.stringify(testPayload, null, 2)}</pre>`);
-});
+    // Same rules as PUT /status: a lead entering the lost stages needs a reason
+    const moving = edit.status !== undefined || edit.position !== undefined || edit.lost_reason !== undefined;
+    const status = edit.status || previous.status;
+    const stages = await db.getStages();
+    if (!stages.some(stage => stage.id === status)) {
+      return res.status(400).json({ error: `Invalid status: ${status}. Must be one of: ${stages.map(stage => stage.id).join(', ')}` });
+    }
+    const isLost = (id) => stages.some(stage => stage.id === id && stage.kind === 'lost');
+    let lost = null;
+    if (moving && isLost(status) && (!isLost(previous.status) || edit.lost_reason !== undefined)) {
+      try {
+        lost = validateLostReason({ reason: edit.lost_reason, note: edit.lost_note });
+      } catch (error) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
 
-app.get('/health', (req, res) => {
-  const health = getHealthStatus();
+    const lead = await db.editLead(previous.id, {
+      details,
+      stage: moving ? { status, position: edit.position, lost } : undefined,
+      assigned_to: edit.assigned_to
+    });
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
 
-  // Add database health
-  if (process.env.DATABASE_URL && db.healthCheck) {
-    db.healthCheck()
-      .then(dbHealth => {
-        res.json({ ...health, database: dbHealth });
-      })
-      .catch(() => {
-        res.json({ ...health, database: { status: 'error' } });
-      });
-  } else {
-    res.json(health);
+    const actor = getActor(req);
+    if (Object.keys(details).length > 0) {
+      await recordDetailChanges(previous, lead, actor);
+    }
+    if (moving && previous.status !== lead.status) {
+      const data = { from: previous.status, to: lead.status };
+      if (lost) Object.assign(data, { lost_reason: lost.reason, lost_note: lost.note });
+      await recordActivity(lead.id, 'status_changed', data, actor);
+    }
+    if (edit.assigned_to !== undefined) {
+      const from = previous.assigned_to || null;
+      if (from !== edit.assigned_to) {
+        await recordActivity(lead.id, 'assigned', { from, to: edit.assigned_to }, actor);
+        io.emit('lead_assigned', { lead, from, to: edit.assigned_to, actor });
+      }
+    }
+
+    io.emit('lead_updated', lead);
+    res.json(lead);
+  } catch (error) {
+    console.error('❌ Error updating lead:', error.message);
+    res.status(500).json({ error: 'Failed to update lead', details: error.message });
   }
-});
+}));
 
-app.get('/chats/recent', asyncHandler(async (req, res) => {
-  console.log('📂 RECENT CHATS REQUESTED');
+// 🗑️ TRASH: deleting moves a lead to the trash; it can be restored until it is purged
 
-  if (!isReady) {
-    console.warn('⚠️ Request rejected: Client not ready');
-    return res.status(503).json({ error: 'WhatsApp client not ready yet' });
-  }
+// Writing to a number in the trash (a message, adding it again, an import) brings its lead back;
+// that restore goes on the timeline and to the dashboards like one from the Trash page
+async function announceRestore(previous, lead, actor, via) {
+  if (!previous || !previous.deleted_at || !lead) return;
+  await recordActivity(lead.id, 'restored', { via }, actor);
+  io.emit('lead_restored', { lead, actor });
+}
 
+const deletedActivity = (lead) => ({ phone: lead.phone, name: lead.name, status: lead.status, value: Number(lead.value || 0) });
+
+app.delete('/api/leads/:id', asyncHandler(async (req, res) => {
   try {
-    console.log('⏳ Fetching chats from WhatsApp Client...');
-    const chatsPromise = client.getChats();
-    const timeoutPromise = new Promise((_, reject) =>
-      setTimeout(() => reject(new Error('Timeout getting chats')), 10000)
-    );
+    const actor = getActor(req);
+    const lead = await db.deleteLead(req.params.id, actor);
 
-    const chats = await Promise.race([chatsPromise, timeoutPromise]);
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    await recordActivity(lead.id, 'deleted', deletedActivity(lead), actor);
+    io.emit('leads_deleted', { ids: [lead.id], actor });
+
+    res.json(lead);
+  } catch (error) {
+    console.error('❌ Error deleting lead:', error.message);
+    res.status(500).json({ error: 'Failed to delete lead', details: error.message });
+  }
+}));
+
+// Bulk clear: every lead created in the range goes to the trash
+app.post('/api/leads/clear', requireAdmin, asyncHandler(async (req, res) => {
+  let range;
+  try {
+    range = validateClearRange(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const actor = getActor(req);
+    const leads = await db.deleteLeadsInRange(range, actor);
+    for (const lead of leads) {
+      await recordActivity(lead.id, 'deleted', deletedActivity(lead), actor);
+    }
+    console.log(`🗑️ ${actor} cleared ${leads.length} leads`);
+    if (leads.length > 0) io.emit('leads_deleted', { ids: leads.map(l => l.id), actor });
+
+    res.json({ count: leads.length });
+  } catch (error) {
+    console.error('❌ Error clearing leads:', error.message);
+    res.status(500).json({ error: 'Failed to clear leads', details: error.message });
+  }
+}));
+
+app.get('/api/trash', asyncHandler(async (req, res) => {
+  try {
+    const leads = await db.getDeletedLeads();
+    res.json({ leads, retention_days: retentionDays(process.env.TRASH_RETENTION_DAYS) });
+  } catch (error) {
+    console.error('❌ Error fetching trash:', error.message);
+    res.status(500).json({ error: 'Failed to fetch trash', details: error.message });
+  }
+}));
+
+app.post('/api/trash/:id/restore', asyncHandler(async (req, res) => {
+  try {
+    const actor = getActor(req);
+    const lead = await db.restoreLead(req.params.id);
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not in the trash' });
+    }
+
+    await recordActivity(lead.id, 'restored', {}, actor);
+    io.emit('lead_restored', { lead, actor });
+
+    res.json(lead);
+  } catch (error) {
+    console.error('❌ Error restoring lead:', error.message);
+    res.status(500).json({ error: 'Failed to restore lead', details: error.message });
+  }
+}));
+
+app.get('/api/leads/:id/messages', asyncHandler(async (req, res) => {
+  try {
+    if (!(await db.findLeadById(req.params.id))) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    const { limit } = req.query;
+    const messages = await db.getMessages(req.params.id, {
+      limit: limit ? parseInt(limit) : undefined
+    });
+    res.json(messages);
+  } catch (error) {
+    console.error('❌ Error fetching messages:', error.message);
+    res.status(500).json({ error: 'Failed to fetch messages', details: error.message });
+  }
+}));
+
+// 💬 Reply to a lead through the live WhatsApp session
+app.post('/api/leads/:id/messages', asyncHandler(async (req, res) => {
+  const text = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+  if (!text) {
+    return res.status(400).json({ error: 'Message body is required' });
+  }
+
+  if (!isReady) {
+    return res.status(503).json({ error: 'WhatsApp client not ready yet' });
+  }
+
+  try {
+    const lead = await db.findLeadById(req.params.id);
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    const chatId = toChatId(lead.phone);
+    const sentMsg = await client.sendMessage(chatId, text);
+    console.log(`📤 REPLY SENT to ${lead.phone}`);
+
+    // Flows through the same pipeline as phone-sent messages. 'message_create'
+    // may win the race, in which case the de-dup cache skips this call.
+    const whatsappId = sentMsg.id?._serialized || sentMsg.id;
+    const stored = await processMessage(sentMsg, 'OUTGOING', getActor(req))
+      || await db.findMessageByWhatsAppId(whatsappId);
+
+    const updatedLead = await db.findLeadById(lead.id);
+    if (updatedLead) io.emit('lead_updated', updatedLead);
+
+    if (stored) {
+      return res.status(201).json(stored);
+    }
+
+    // Still being persisted by the concurrent 'message_create' handler
+    res.status(202).json({
+      id: whatsappId,
+      lead_id: lead.id,
+      body: text,
+      from_me: true,
+      whatsapp_id: whatsappId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ Error sending message:', error.message);
+    res.status(500).json({ error: 'Failed to send message', details: error.message });
+  }
+}));
+
+// 📜 ACTIVITY LOG
+
+app.get('/api/leads/:id/activities', asyncHandler(async (req, res) => {
+  try {
+    if (!(await db.findLeadById(req.params.id))) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    const activities = await db.getActivities({ leadId: req.params.id });
+    res.json(activities);
+  } catch (error) {
+    console.error('❌ Error fetching activities:', error.message);
+    res.status(500).json({ error: 'Failed to fetch activities', details: error.message });
+  }
+}));
+
+// Cross-lead feed, e.g. ?type=status_changed&since=2025-01-01 for stage durations
+app.get('/api/activities', asyncHandler(async (req, res) => {
+  try {
+    const { lead_id, type, since, limit } = req.query;
+    const activities = await db.getActivities({
+      leadId: lead_id,
+      type,
+      since,
+      limit: limit ? parseInt(limit) : undefined
+    });
+    res.json(activities);
+  } catch (error) {
+    console.error('❌ Error fetching activities:', error.message);
+    res.status(500).json({ error: 'Failed to fetch activities', details: error.message });
+  }
+}));
+
+// 🧬 DUPLICATES
+
+app.get('/api/duplicates', asyncHandler(async (req, res) => {
+  try {
+    const [leads, overlaps] = await Promise.all([db.getLeads(), db.findMessageOverlaps()]);
+    res.json(findDuplicateGroups(leads, overlaps));
+  } catch (error) {
+    console.error('❌ Error finding duplicates:', error.message);
+    res.status(500).json({ error: 'Failed to find duplicates', details: error.message });
+  }
+}));
+
+// Folds merge_ids into keep_id; `fields` picks which lead's value survives per field
+app.post('/api/duplicates/merge', asyncHandler(async (req, res) => {
+  const { keep_id, merge_ids, fields = {} } = req.body;
+  if (!keep_id || !Array.isArray(merge_ids) || merge_ids.length === 0 || merge_ids.includes(keep_id)) {
+    return res.status(400).json({ error: 'keep_id and a non-empty merge_ids without it are required' });
+  }
+
+  try {
+    const actor = getActor(req);
+    const lead = await db.mergeLeads(keep_id, merge_ids, fields, actor);
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    console.log(`🧬 ${actor} merged ${merge_ids.length} lead(s) into ${lead.phone}`);
+    io.emit('leads_merged', { lead, merged_ids: merge_ids, actor });
+    res.json(lead);
+  } catch (error) {
+    console.error('❌ Error merging leads:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// ✅ FOLLOW-UP TASKS
+
+// Open dashboards keep their task lists in sync through these events
+function emitTaskChange(task) {
+  io.emit('task_updated', task);
+}
+
+app.get('/api/tasks', asyncHandler(async (req, res) => {
+  try {
+    const { lead_id, done, due_before, assigned_to } = req.query;
+    const tasks = await db.getTasks({
+      leadId: lead_id,
+      done: done === undefined ? undefined : done === 'true',
+      dueBefore: due_before,
+      assignedTo: assigned_to
+    });
+    res.json(tasks);
+  } catch (error) {
+    console.error('❌ Error fetching tasks:', error.message);
+    res.status(500).json({ error: 'Failed to fetch tasks', details: error.message });
+  }
+}));
+
+app.post('/api/leads/:id/tasks', asyncHandler(async (req, res) => {
+  try {
+    const lead = await db.findLeadById(req.params.id);
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    const actor = getActor(req);
+    const task = await db.createTask(lead.id, req.body, actor);
+    await recordActivity(lead.id, 'task_created', { task_id: task.id, due_at: task.due_at, note: task.note }, actor);
+    emitTaskChange(task);
+    res.status(201).json(task);
+  } catch (error) {
+    console.error('❌ Error creating task:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// A task, unless its lead is in the trash (its tasks are frozen until it is restored)
+async function findTaskOfLiveLead(id) {
+  const task = await db.findTaskById(id);
+  if (!task || !(await db.findLeadById(task.lead_id))) return null;
+  return task;
+}
+
+app.put('/api/tasks/:id', asyncHandler(async (req, res) => {
+  try {
+    const { due_at, note, done } = req.body;
+    const previous = await findTaskOfLiveLead(req.params.id);
+    if (!previous) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const task = await db.updateTask(req.params.id, { due_at, note, done });
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (!previous.done && task.done) {
+      await recordActivity(task.lead_id, 'task_completed', { task_id: task.id, note: task.note }, getActor(req));
+    }
+    emitTaskChange(task);
+    res.json(task);
+  } catch (error) {
+    console.error('❌ Error updating task:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+app.delete('/api/tasks/:id', asyncHandler(async (req, res) => {
+  try {
+    if (!(await findTaskOfLiveLead(req.params.id))) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const task = await db.deleteTask(req.params.id);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    io.emit('task_deleted', { id: task.id, lead_id: task.lead_id });
+    res.json({ success: true, task });
+  } catch (error) {
+    console.error('❌ Error deleting task:', error.message);
+    res.status(500).json({ error: 'Failed to delete task', details: error.message });
+  }
+}));
+
+// ⏰ Reminder loop: every task is announced once, when it comes due
+const TASK_REMINDER_INTERVAL = 30000;
+
+setInterval(async () => {
+  try {
+    const dueTasks = await db.claimDueTasks();
+    for (const task of dueTasks) {
+      const lead = await db.findLeadById(task.lead_id);
+      console.log(`⏰ Task due: ${task.id} (${lead ? lead.phone : task.lead_id})`);
+      io.emit('task_due', { task, lead });
+    }
+  } catch (error) {
+    console.error('⚠️ Task reminder check failed:', error.message);
+  }
+}, TASK_REMINDER_INTERVAL);
+
+// 🧹 Purge loop: leads stay in the trash for TRASH_RETENTION_DAYS (see trash.js)
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+
+setInterval(async () => {
+  try {
+    const days = retentionDays(process.env.TRASH_RETENTION_DAYS);
+    const purged = await db.purgeDeletedLeads(purgeCutoff(days));
+    if (purged.length > 0) console.log(`🧹 Purged ${purged.length} leads deleted over ${days} days ago`);
+  } catch (error) {
+    console.error('⚠️ Trash purge failed:', error.message);
+  }
+}, TRASH_PURGE_INTERVAL);
+
+// 🧭 PIPELINE STAGES
+
+app.get('/api/stages', asyncHandler(async (req, res) => {
+  try {
+    const stages = await db.getStages();
+    res.json(stages);
+  } catch (error) {
+    console.error('❌ Error fetching stages:', error.message);
+    res.status(500).json({ error: 'Failed to fetch stages', details: error.message });
+  }
+}));
+
+app.put('/api/stages', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const stages = await db.saveStages(req.body);
+    io.emit('stages_updated', stages);
+    res.json(stages);
+  } catch (error) {
+    console.error('❌ Error saving stages:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// 🏷️ CUSTOM FIELDS
+
+app.get('/api/custom-fields', asyncHandler(async (req, res) => {
+  try {
+    const fields = await db.getCustomFields();
+    res.json(fields);
+  } catch (error) {
+    console.error('❌ Error fetching custom fields:', error.message);
+    res.status(500).json({ error: 'Failed to fetch custom fields', details: error.message });
+  }
+}));
+
+app.put('/api/custom-fields', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const fields = await db.saveCustomFields(req.body);
+    io.emit('custom_fields_updated', fields);
+    res.json(fields);
+  } catch (error) {
+    console.error('❌ Error saving custom fields:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// 📦 PRODUCT CATALOG
+// Everyone reads the catalog (lead form autocomplete), admins maintain it.
+// There is no delete: a product that is no longer sold is deactivated.
+
+app.get('/api/products', asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.getProducts());
+  } catch (error) {
+    console.error('❌ Error fetching products:', error.message);
+    res.status(500).json({ error: 'Failed to fetch products', details: error.message });
+  }
+}));
+
+app.post('/api/products', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const product = await db.createProduct(req.body);
+    io.emit('products_updated', await db.getProducts());
+    res.status(201).json(product);
+  } catch (error) {
+    console.error('❌ Error creating product:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+app.put('/api/products/:id', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const product = await db.updateProduct(req.params.id, req.body);
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+    io.emit('products_updated', await db.getProducts());
+    res.json(product);
+  } catch (error) {
+    console.error('❌ Error updating product:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// 💬 QUICK-REPLY TEMPLATES
+// Everyone uses and maintains the library; use counts order the "/" picker.
+
+app.get('/api/templates', asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.getTemplates());
+  } catch (error) {
+    console.error('❌ Error fetching templates:', error.message);
+    res.status(500).json({ error: 'Failed to fetch templates', details: error.message });
+  }
+}));
+
+app.post('/api/templates', asyncHandler(async (req, res) => {
+  try {
+    const template = await db.createTemplate(req.body);
+    io.emit('templates_updated', await db.getTemplates());
+    res.status(201).json(template);
+  } catch (error) {
+    console.error('❌ Error creating template:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+app.put('/api/templates/:id', asyncHandler(async (req, res) => {
+  try {
+    const template = await db.updateTemplate(req.params.id, req.body);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    io.emit('templates_updated', await db.getTemplates());
+    res.json(template);
+  } catch (error) {
+    console.error('❌ Error updating template:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+app.delete('/api/templates/:id', asyncHandler(async (req, res) => {
+  try {
+    const template = await db.deleteTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    io.emit('templates_updated', await db.getTemplates());
+    res.json({ success: true, template });
+  } catch (error) {
+    console.error('❌ Error deleting template:', error.message);
+    res.status(500).json({ error: 'Failed to delete template', details: error.message });
+  }
+}));
+
+// Counted when a template is inserted into a reply; not broadcast, the order settles on the next load
+app.post('/api/templates/:id/use', asyncHandler(async (req, res) => {
+  try {
+    const template = await db.recordTemplateUse(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    res.json(template);
+  } catch (error) {
+    console.error('❌ Error recording template use:', error.message);
+    res.status(500).json({ error: 'Failed to record template use', details: error.message });
+  }
+}));
+
+// 📣 BROADCAST CAMPAIGNS
+// Admins build and run them; everyone can watch the progress.
+
+const campaignSender = createCampaignSender({
+  db,
+  // Same path as a reply from the CRM, so the message lands in the conversation and on the card
+  deliver: async (lead, text) => {
+    if (!isReady) {
+      const error = new Error('WhatsApp is not connected');
+      error.code = NOT_CONNECTED;
+      throw error;
+    }
+    const sentMsg = await client.sendMessage(toChatId(lead.phone), text);
+    console.log(`📣 CAMPAIGN MESSAGE SENT to ${lead.phone}`);
+    await processMessage(sentMsg, 'OUTGOING', 'campaign');
+    const updatedLead = await db.findLeadById(lead.id);
+    if (updatedLead) io.emit('lead_updated', updatedLead);
+    return sentMsg.id?._serialized || sentMsg.id;
+  },
+  onUpdate: (id) => emitCampaign(id)
+});
+
+async function emitCampaign(id) {
+  try {
+    const campaign = await db.getCampaign(id);
+    if (campaign) io.emit('campaign_updated', campaign);
+  } catch (error) {
+    console.error('❌ Error broadcasting campaign update:', error.message);
+  }
+}
+
+// After a restart or reconnect, campaigns that were sending carry on
+async function resumeRunningCampaigns() {
+  try {
+    const campaigns = await db.getCampaigns();
+    campaigns.filter(c => c.status === 'running').forEach(c => campaignSender.start(c.id));
+  } catch (error) {
+    console.error('❌ Error resuming campaigns:', error.message);
+  }
+}
+
+const campaignContext = async () => ({ stages: (await db.getStages()).map(s => s.id) });
+
+app.get('/api/campaigns', asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.getCampaigns());
+  } catch (error) {
+    console.error('❌ Error fetching campaigns:', error.message);
+    res.status(500).json({ error: 'Failed to fetch campaigns', details: error.message });
+  }
+}));
+
+app.get('/api/campaigns/:id', asyncHandler(async (req, res) => {
+  try {
+    const campaign = await db.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    res.json(campaign);
+  } catch (error) {
+    console.error('❌ Error fetching campaign:', error.message);
+    res.status(500).json({ error: 'Failed to fetch campaign', details: error.message });
+  }
+}));
+
+// Who the segment selects right now and what the first of them would get; nothing is stored.
+// The message may still be empty while the campaign is being written.
+app.post('/api/campaigns/preview', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const hasBody = typeof req.body.body === 'string' && req.body.body.trim() !== '';
+    const campaign = validateCampaign(
+      { ...req.body, name: req.body.name || 'Preview', body: hasBody ? req.body.body : '-' },
+      await campaignContext()
+    );
+    const recipients = selectRecipients(await db.getLeads(), campaign.segment);
+    res.json({
+      total: recipients.length,
+      sample: recipients.slice(0, 5).map(lead => ({
+        lead_id: lead.id,
+        phone: lead.phone,
+        name: lead.name || null,
+        text: hasBody ? fillTemplate(campaign.body, lead) : null
+      }))
+    });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+app.post('/api/campaigns', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const data = validateCampaign(req.body, await campaignContext());
+    const recipients = selectRecipients(await db.getLeads(), data.segment);
+    if (recipients.length === 0) {
+      return res.status(400).json({ error: 'The segment selects no leads' });
+    }
+    const campaign = await db.createCampaign(data, recipients, getActor(req));
+    io.emit('campaign_updated', campaign);
+    res.status(201).json(campaign);
+  } catch (error) {
+    console.error('❌ Error creating campaign:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// Start a draft or resume a paused campaign
+app.post('/api/campaigns/:id/start', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const campaign = await db.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    if (campaign.status !== 'draft' && campaign.status !== 'paused') {
+      return res.status(400).json({ error: `Cannot start a ${campaign.status} campaign` });
+    }
+    if (!isReady) {
+      return res.status(503).json({ error: 'WhatsApp client not ready yet' });
+    }
+
+    await db.updateCampaign(campaign.id, {
+      status: 'running',
+      last_error: null,
+      started_at: campaign.started_at || new Date().toISOString()
+    });
+    campaignSender.start(campaign.id);
+    await emitCampaign(campaign.id);
+    res.json(await db.getCampaign(campaign.id));
+  } catch (error) {
+    console.error('❌ Error starting campaign:', error.message);
+    res.status(500).json({ error: 'Failed to start campaign', details: error.message });
+  }
+}));
+
+// Takes effect after the message being sent, if any
+app.post('/api/campaigns/:id/pause', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const campaign = await db.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    if (campaign.status !== 'running') {
+      return res.status(400).json({ error: `Cannot pause a ${campaign.status} campaign` });
+    }
+
+    await db.updateCampaign(campaign.id, { status: 'paused' });
+    await emitCampaign(campaign.id);
+    res.json(await db.getCampaign(campaign.id));
+  } catch (error) {
+    console.error('❌ Error pausing campaign:', error.message);
+    res.status(500).json({ error: 'Failed to pause campaign', details: error.message });
+  }
+}));
+
+app.delete('/api/campaigns/:id', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const campaign = await db.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    if (campaign.status === 'running') {
+      return res.status(400).json({ error: 'Pause the campaign before deleting it' });
+    }
+
+    await db.deleteCampaign(campaign.id);
+    io.emit('campaign_deleted', { id: campaign.id });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error deleting campaign:', error.message);
+    res.status(500).json({ error: 'Failed to delete campaign', details: error.message });
+  }
+}));
+
+// 🧭 CLASSIFICATION RULES
+
+app.get('/api/rules', asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.getRules());
+  } catch (error) {
+    console.error('❌ Error fetching rules:', error.message);
+    res.status(500).json({ error: 'Failed to fetch rules', details: error.message });
+  }
+}));
+
+app.put('/api/rules', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.saveRules(req.body));
+  } catch (error) {
+    console.error('❌ Error saving rules:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// Dry run of a draft rule set against the latest customer messages; nothing is changed
+const RULE_TEST_MESSAGES = 100;
+
+app.post('/api/rules/test', asyncHandler(async (req, res) => {
+  try {
+    // Validated like a save, so the preview never runs rules that couldn't be stored
+    const [stages, users, products] = await Promise.all([db.getStages(), db.getUsers(), db.getProducts()]);
+    const ruleSet = validateRules(req.body, {
+      stages: stages.map(s => s.id),
+      usernames: users.map(u => u.username),
+      productIds: products.map(p => String(p.id))
+    });
+    const messages = await db.getRecentIncomingMessages(RULE_TEST_MESSAGES);
+    res.json(messages.map(message => ({
+      message,
+      ...evaluateRules(ruleSet, { text: message.body, phone: message.phone, status: message.status, at: message.timestamp })
+    })));
+  } catch (error) {
+    console.error('❌ Error testing rules:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// 🎯 WIN PREDICTION
+
+// Dashboards score leads themselves with the model (shared/intent.js)
+app.get('/api/intent', asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.getIntentModel());
+  } catch (error) {
+    console.error('❌ Error fetching intent model:', error.message);
+    res.status(500).json({ error: 'Failed to fetch intent model', details: error.message });
+  }
+}));
+
+// Same as `npm run train-intent`; returns the holdout report
+app.post('/api/intent/train', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    const [leads, stages] = await Promise.all([db.getLeads(), db.getStages()]);
+    const model = await db.saveIntentModel(trainIntentModel(leads, stages));
+    io.emit('intent_model_updated', model);
+    res.json(model.report);
+  } catch (error) {
+    console.error('❌ Error training intent model:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+// 👤 ASSIGNMENT SETTINGS
+
+app.get('/api/settings/assignment', asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.getAssignmentSettings());
+  } catch (error) {
+    console.error('❌ Error fetching assignment settings:', error.message);
+    res.status(500).json({ error: 'Failed to fetch assignment settings', details: error.message });
+  }
+}));
+
+app.put('/api/settings/assignment', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    res.json(await db.saveAssignmentSettings(req.body));
+  } catch (error) {
+    console.error('❌ Error saving assignment settings:', error.message);
+    res.status(400).json({ error: error.message });
+  }
+}));
+
+app.get('/api/stats', asyncHandler(async (req, res) => {
+  try {
+    // The board's filters narrow the counts, so column totals match the leads it pages through
+    const stats = await db.getLeadStats(leadFiltersFromQuery(req.query));
+    res.json(stats);
+  } catch (error) {
+    console.error('❌ Error fetching stats:', error.message);
+    res.status(500).json({ error: 'Failed to fetch stats', details: error.message });
+  }
+}));
+
+// 🧪 TEST ROUTES
+
+app.get('/__test_emit', requireAuth, requireAdmin, (req, res) => {
+  console.log('🧪 TEST: Manually emitting socket event...');
+
+  const testPayload = {
+    phone: '+994500000000',
+    name: 'TEST USER (Backend)',
+    message: 'This is a test message from /__test_emit',
+    whatsapp_id: 'TEST_ID_' + Date.now(),
+    fromMe: false,
+    timestamp: new Date().toISOString(),
+    is_fast_emit: true
+  };
+
+  io.emit('new_message', testPayload);
+  res.send(`<h1>Socket Test Emitted</h1><pre>${JSON.stringify(testPayload, null, 2)}</pre>`);
+});
+
+app.get('/health', (req, res) => {
+  const health = getHealthStatus();
+
+  // Add database health
+  if (db.healthCheck) {
+    db.healthCheck()
+      .then(dbHealth => {
+        res.json({ ...health, database: dbHealth });
+      })
+      .catch(() => {
+        res.json({ ...health, database: { status: 'error' } });
+      });
+  } else {
+    res.json(health);
+  }
+});
+
+app.get('/chats/recent', requireAuth, asyncHandler(async (req, res) => {
+  console.log('📂 RECENT CHATS REQUESTED');
+
+  if (!isReady) {
+    console.warn('⚠️ Request rejected: Client not ready');
+    return res.status(503).json({ error: 'WhatsApp client not ready yet' });
+  }
+
+  try {
+    console.log('⏳ Fetching chats from WhatsApp Client...');
+    const chatsPromise = client.getChats();
+    const timeoutPromise = new Promise((_, reject) =>
+      setTimeout(() => reject(new Error('Timeout getting chats')), 10000)
+    );
+
+    const chats = await Promise.race([chatsPromise, timeoutPromise]);
     console.log(`✅ RAW CHATS FOUND: ${chats.length}`);
 
     const recent = chats.slice(0, 20).map(c => ({
@@ -580,18 +1959,18 @@ app.get('/chats/recent', asyncHandler(async (req, res) => {
 
 // 🧪 WHATSAPP SEND TEST
 
-app.get('/__test_send_whatsapp', asyncHandler(async (req, res) => {
-  let phone = req.query.phone;
-  if (!phone) {
+app.get('/__test_send_whatsapp', requireAuth, requireAdmin, asyncHandler(async (req, res) => {
+  if (!req.query.phone) {
     return res.status(400).send('Please provide ?phone=994XXXXXXXX');
   }
 
-  // Auto-fix common prefix issues for Azerbaijan
-  if (phone.length === 9) phone = '994' + phone;
-  if (phone.startsWith('0')) phone = '994' + phone.substring(1);
-  if (phone.startsWith('55') && phone.length === 9) phone = '994' + phone;
+  // Local formats (050..., 50...) are accepted like everywhere else
+  const phone = normalizePhone(req.query.phone);
+  if (!phone) {
+    return res.status(400).send(`Invalid phone number: ${req.query.phone}`);
+  }
 
-  const chatId = `${phone}@c.us`;
+  const chatId = toChatId(phone);
 
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   console.log(`🧪 TEST SEND REQUEST`);
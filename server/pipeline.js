@@ -0,0 +1,44 @@
+// Pipeline stage definitions shared by both storage backends (database.js, simple_db.js)
+
+const STAGE_KINDS = ['open', 'won', 'lost'];
+
+const DEFAULT_STAGES = [
+    { id: 'new', name: 'New Messages', color: 'blue', position: 0, kind: 'open' },
+    { id: 'potential', name: 'Potential (Lead)', color: 'purple', position: 1, kind: 'open' },
+    { id: 'won', name: 'Sold (Won)', color: 'green', position: 2, kind: 'won' },
+    { id: 'lost', name: 'Lost / Ignored', color: 'slate', position: 3, kind: 'lost' }
+];
+
+/**
+ * Validate a full pipeline definition. Array order becomes the board order.
+ */
+function validateStages(stages) {
+    if (!Array.isArray(stages) || stages.length === 0) {
+        throw new Error('At least one stage is required');
+    }
+
+    const ids = new Set();
+    const cleaned = stages.map((stage, index) => {
+        const id = String(stage.id || '').trim();
+        const name = String(stage.name || '').trim();
+        if (!/^[a-z0-9_-]{1,50}$/i.test(id)) throw new Error(`Invalid stage id: ${stage.id}`);
+        if (!name) throw new Error(`Stage ${id} needs a name`);
+        if (ids.has(id)) throw new Error(`Duplicate stage id: ${id}`);
+        if (!STAGE_KINDS.includes(stage.kind)) {
+            throw new Error(`Invalid stage kind: ${stage.kind}. Must be one of: ${STAGE_KINDS.join(', ')}`);
+        }
+        ids.add(id);
+        return { id, name: name.slice(0, 100), color: String(stage.color || 'slate').slice(0, 20), position: index, kind: stage.kind };
+    });
+
+    if (cleaned[0].kind !== 'open') {
+        throw new Error('The first stage receives new leads and must be an open stage');
+    }
+    return cleaned;
+}
+
+module.exports = {
+    STAGE_KINDS,
+    DEFAULT_STAGES,
+    validateStages
+};
@@ -1,51 +1,228 @@
 const fs = require('fs');
 const path = require('path');
 const crypto = require('crypto');
+const { DEFAULT_STAGES, validateStages } = require('./pipeline');
+const { validateTags, validateFieldDefinitions, validateCustomFieldValues } = require('../shared/fields');
+const { validateTaskInput } = require('./tasks');
+const { DEFAULT_ASSIGNMENT, validateAssignmentSettings } = require('./assignment');
+const { DEFAULT_RULES, validateRules } = require('../shared/rules');
+const { matchesSearch } = require('../shared/search');
+const { normalizePhone, validatePhone } = require('../shared/phone');
+const { mergeLeadRecords, resolveMergedFields, planPhoneMigration, messageOverlaps } = require('../shared/duplicates');
+const { validateProduct, revenueByProduct } = require('../shared/products');
+const { validateTemplate } = require('../shared/templates');
+const { buildLossReport } = require('../shared/lost');
+const { countRecipients, withCounts, ackStatus } = require('./campaigns');
+const { validateOrder, orderLeadFields, hasOrder } = require('../shared/orders');
 
 const DB_FILE = path.join(__dirname, 'leads.json');
 
 function readDb() {
     if (!fs.existsSync(DB_FILE)) {
-        return { leads: [] };
+        return { leads: [], messages: [], activities: [], stages: DEFAULT_STAGES, customFields: [], tasks: [], users: [], settings: {}, products: [], templates: [], campaigns: [] };
     }
     try {
-        return JSON.parse(fs.readFileSync(DB_FILE, 'utf8'));
+        const data = JSON.parse(fs.readFileSync(DB_FILE, 'utf8'));
+        return { messages: [], activities: [], stages: DEFAULT_STAGES, customFields: [], tasks: [], users: [], products: [], templates: [], campaigns: [], ...data };
     } catch (e) {
-        return { leads: [] };
+        return { leads: [], messages: [], activities: [], stages: DEFAULT_STAGES, customFields: [], tasks: [], users: [], settings: {}, products: [], templates: [], campaigns: [] };
     }
 }
 
+function assertStage(db, status) {
+    if (!db.stages.some(s => s.id === status)) {
+        throw new Error(`Invalid status: ${status}. Must be one of: ${db.stages.map(s => s.id).join(', ')}`);
+    }
+    return status;
+}
+
+// Same as the version column in database.js: bumped by edits people make, not by messages
+function touchLead(lead) {
+    lead.updated_at = new Date().toISOString();
+    lead.version = (lead.version || 1) + 1;
+}
+
+// updateLeadStatus and editLead on the in-memory document (the caller writes it)
+function applyLeadStatus(db, lead, status, position, lost) {
+    lead.status = status;
+    if (position !== null && position !== undefined) lead.position = Number(position);
+    if (db.stages.find(s => s.id === status).kind === 'lost') {
+        if (lost) {
+            lead.lost_reason = lost.reason;
+            lead.lost_note = lost.note;
+        }
+        lead.lost_at = lead.lost_at || new Date().toISOString();
+    } else {
+        lead.lost_reason = null;
+        lead.lost_note = null;
+        lead.lost_at = null;
+    }
+    touchLead(lead);
+}
+
+// updateLeadDetails and editLead on the in-memory document (the caller writes it)
+function applyLeadDetails(db, lead, fields) {
+    if (fields.name !== undefined) lead.name = String(fields.name || '').trim() || null;
+    if (fields.phone !== undefined) {
+        const phone = validatePhone(fields.phone);
+        if (db.leads.some(l => l.phone === phone && l.id !== lead.id)) throw new Error(`Another lead already has the number ${phone}`);
+        lead.phone = phone;
+    }
+    if (fields.value !== undefined) {
+        const value = parseFloat(fields.value || 0);
+        if (isNaN(value) || value < 0) throw new Error('Value must be a non-negative number');
+        lead.value = value;
+    }
+    const product = findLinkedProduct(db, fields.product_id);
+    if (fields.product_id !== undefined) lead.product_id = product ? product.id : null;
+    if (product || fields.product_name !== undefined) lead.product_name = product ? product.name : fields.product_name || null;
+    if (fields.tags !== undefined) lead.tags = validateTags(fields.tags);
+    if (fields.custom_fields !== undefined) {
+        lead.custom_fields = validateCustomFieldValues(fields.custom_fields, db.customFields);
+    }
+    touchLead(lead);
+}
+
+// Leads not in the trash; every list and count reads these, like `deleted_at IS NULL` in database.js
+const liveLeads = (db) => db.leads.filter(l => !l.deleted_at);
+
+// Same filters as database.js leadConditions (getLeads and getLeadStats)
+function filterLeads(db, filters) {
+    let leads = liveLeads(db);
+    if (filters.status) leads = leads.filter(l => l.status === filters.status);
+    if (filters.startDate) leads = leads.filter(l => new Date(l.created_at) >= new Date(filters.startDate));
+    if (filters.endDate) leads = leads.filter(l => new Date(l.created_at) <= new Date(filters.endDate));
+    if (filters.tag) leads = leads.filter(l => (l.tags || []).includes(filters.tag));
+    if (filters.assignedTo) {
+        const owner = filters.assignedTo === 'none' ? null : filters.assignedTo;
+        leads = leads.filter(l => (l.assigned_to || null) === owner);
+    }
+    if (filters.search) {
+        leads = leads.filter(l => matchesSearch(l, db.messages.filter(m => m.lead_id === l.id), filters.search));
+    }
+    return leads;
+}
+
+// Same as database.js findLinkedProduct
+function findLinkedProduct(db, productId) {
+    if (!productId) return null;
+    const product = db.products.find(p => p.id === productId);
+    if (!product) throw new Error(`Unknown product: ${productId}`);
+    return product;
+}
+
+function assertUniqueSku(db, sku, id = null) {
+    if (db.products.some(p => p.sku === sku && p.id !== id)) throw new Error(`SKU ${sku} is already used by another product`);
+}
+
+// Write-then-rename, so a crash mid-write never leaves half a file (merges rely on this)
 function writeDb(data) {
-    fs.writeFileSync(DB_FILE, JSON.stringify(data, null, 2));
+    const tmpFile = `${DB_FILE}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpFile, DB_FILE);
 }
 
 // Ensure DB file exists
 if (!fs.existsSync(DB_FILE)) {
-    writeDb({ leads: [] });
+    writeDb({ leads: [], messages: [], activities: [], stages: DEFAULT_STAGES, customFields: [], tasks: [], users: [], settings: {}, products: [], templates: [], campaigns: [] });
+}
+
+// Same as database.js foldLeads, on the in-memory document (the caller writes it once)
+function foldLeads(db, keeper, duplicates, fields, activityData, actor) {
+    const duplicateIds = new Set(duplicates.map(d => d.id));
+    const moveToKeeper = (row) => duplicateIds.has(row.lead_id) ? { ...row, lead_id: keeper.id } : row;
+    db.messages = db.messages.map(moveToKeeper);
+    db.tasks = db.tasks.map(moveToKeeper);
+    db.activities = db.activities.map(moveToKeeper);
+    db.leads = db.leads.filter(l => !duplicateIds.has(l.id));
+    Object.assign(keeper, fields);
+    db.activities.push({
+        id: crypto.randomUUID(),
+        lead_id: keeper.id,
+        type: 'merged',
+        actor,
+        data: { ...activityData, leads: duplicates.map(d => ({ id: d.id, phone: d.phone, name: d.name })) },
+        created_at: new Date().toISOString()
+    });
+    return keeper;
+}
+
+// Same one-time E.164 migration as database.js normalizeStoredPhones
+function normalizeStoredPhones() {
+    const db = readDb();
+    const plan = planPhoneMigration(db.leads);
+    if (plan.length === 0) return;
+
+    let merged = 0;
+    for (const { phone, keeper, duplicates } of plan) {
+        if (duplicates.length > 0) {
+            foldLeads(db, keeper, duplicates, mergeLeadRecords(keeper, duplicates), { reason: 'phone_format' }, 'system');
+            merged += duplicates.length;
+        }
+        keeper.phone = phone;
+    }
+
+    writeDb(db);
+    console.log(`✅ Phones normalized to E.164: ${plan.length} leads updated, ${merged} duplicates merged`);
 }
 
 module.exports = {
-    initDb: async () => console.log('✅ FileDB: Ready'),
+    initDb: async () => {
+        normalizeStoredPhones();
+        console.log('✅ FileDB: Ready');
+    },
 
     createLead: async (data) => {
         const db = readDb();
+        data = { ...data, phone: validatePhone(data.phone) };
         const existingIndex = db.leads.findIndex(l => l.phone === data.phone);
+        if (data.tags !== undefined) data = { ...data, tags: validateTags(data.tags) };
+        if (data.custom_fields !== undefined) {
+            data = { ...data, custom_fields: validateCustomFieldValues(data.custom_fields, db.customFields) };
+        }
+        const product = findLinkedProduct(db, data.product_id);
+        if (product) {
+            const noValue = data.value === undefined || data.value === null || data.value === '';
+            data = { ...data, product_id: product.id, product_name: product.name, value: noValue ? product.price : data.value };
+        }
 
         if (existingIndex >= 0) {
             // Updatte existing
-            const updated = { ...db.leads[existingIndex], ...data, updated_at: new Date().toISOString() };
+            const existing = db.leads[existingIndex];
+            if (hasOrder(existing)) {
+                // Leads with an order keep the order's value and product
+                data = { ...data };
+                delete data.value;
+                delete data.product_id;
+                delete data.product_name;
+            }
+            const updated = {
+                ...existing,
+                ...data,
+                custom_fields: { ...(existing.custom_fields || {}), ...(data.custom_fields || {}) },
+                // A contact that comes back brings its lead out of the trash
+                deleted_at: null,
+                deleted_by: null,
+                updated_at: new Date().toISOString()
+            };
             db.leads[existingIndex] = updated;
             writeDb(db);
             return updated;
         }
 
+        const status = data.status ? assertStage(db, data.status) : db.stages[0].id;
         const newLead = {
             id: crypto.randomUUID(),
+            tags: [],
+            custom_fields: {},
+            assigned_to: null,
             ...data,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
-            status: data.status || 'new',
-            source: 'whatsapp'
+            position: -Date.now(),
+            status,
+            source: data.source || 'whatsapp',
+            version: 1
         };
         db.leads.push(newLead);
         writeDb(db);
@@ -54,7 +231,12 @@ module.exports = {
 
     findLeadByPhone: async (phone) => {
         const db = readDb();
-        return db.leads.find(l => l.phone === phone);
+        return db.leads.find(l => l.phone === normalizePhone(phone));
+    },
+
+    findLeadById: async (id) => {
+        const db = readDb();
+        return liveLeads(db).find(l => l.id === id) || null;
     },
 
     findLeadByWhatsAppId: async (wid) => {
@@ -64,11 +246,13 @@ module.exports = {
 
     updateLeadMessage: async (phone, msg, wid, name) => {
         const db = readDb();
-        const lead = db.leads.find(l => l.phone === phone);
+        const lead = db.leads.find(l => l.phone === normalizePhone(phone));
         if (lead) {
             lead.last_message = msg;
             if (wid) lead.whatsapp_id = wid;
             if (name) lead.name = name;
+            lead.deleted_at = null;
+            lead.deleted_by = null;
             lead.updated_at = new Date().toISOString();
             writeDb(db);
             return lead;
@@ -76,32 +260,603 @@ module.exports = {
         return null;
     },
 
-    updateLeadStatus: async (id, status) => {
+    updateLeadStatus: async (id, status, position = null, lost = null) => {
         const db = readDb();
+        assertStage(db, status);
         const lead = db.leads.find(l => l.id === id);
         if (lead) {
-            lead.status = status;
-            lead.updated_at = new Date().toISOString();
+            applyLeadStatus(db, lead, status, position, lost);
             writeDb(db);
             return lead;
         }
         return null;
     },
 
+    updateLeadDetails: async (id, fields) => {
+        const db = readDb();
+        const lead = db.leads.find(l => l.id === id);
+        if (!lead) return null;
+        applyLeadDetails(db, lead, fields);
+        writeDb(db);
+        return lead;
+    },
+
+    // Same as database.js editLead: the document is written once, after every change applied
+    editLead: async (id, { details, stage, assigned_to }) => {
+        const db = readDb();
+        const lead = liveLeads(db).find(l => l.id === id);
+        if (!lead) return null;
+        if (details && Object.keys(details).length > 0) applyLeadDetails(db, lead, details);
+        if (stage) {
+            assertStage(db, stage.status);
+            applyLeadStatus(db, lead, stage.status, stage.position, stage.lost);
+        }
+        if (assigned_to !== undefined) {
+            lead.assigned_to = assigned_to || null;
+            touchLead(lead);
+        }
+        writeDb(db);
+        return lead;
+    },
+
+    saveLeadOrder: async (id, order) => {
+        const db = readDb();
+        const lead = db.leads.find(l => l.id === id);
+        if (!lead) return null;
+        Object.assign(lead, orderLeadFields(validateOrder(order, db.products)));
+        touchLead(lead);
+        writeDb(db);
+        return lead;
+    },
+
+    assignLead: async (id, username) => {
+        const db = readDb();
+        const lead = db.leads.find(l => l.id === id);
+        if (!lead) return null;
+        lead.assigned_to = username || null;
+        touchLead(lead);
+        writeDb(db);
+        return lead;
+    },
+
+    getAssignmentStats: async () => {
+        const db = readDb();
+        const openStages = db.stages.filter(s => s.kind === 'open').map(s => s.id);
+        const assigned = liveLeads(db)
+            .filter(l => l.assigned_to)
+            .sort((a, b) => new Date(b.created_at) - new Date(a.created_at));
+        const openCounts = {};
+        assigned
+            .filter(l => openStages.includes(l.status))
+            .forEach(l => { openCounts[l.assigned_to] = (openCounts[l.assigned_to] || 0) + 1; });
+        return { lastAssigned: assigned[0] ? assigned[0].assigned_to : null, openCounts };
+    },
+
     getLeads: async (filters = {}) => {
-        let leads = readDb().leads;
-        if (filters.status) leads = leads.filter(l => l.status === filters.status);
-        return leads.sort((a, b) => new Date(b.updated_at) - new Date(a.updated_at));
+        const leads = filterLeads(readDb(), filters).sort(filters.order === 'board'
+            ? (a, b) => a.position - b.position || new Date(b.created_at) - new Date(a.created_at)
+            : (a, b) => new Date(b.updated_at) - new Date(a.updated_at));
+        const offset = filters.offset || 0;
+        return leads.slice(offset, filters.limit ? offset + filters.limit : undefined);
     },
 
-    getLeadStats: async () => {
-        const leads = readDb().leads;
+    getTags: async () => {
+        const tags = new Set();
+        liveLeads(readDb()).forEach(l => (l.tags || []).forEach(tag => tags.add(tag)));
+        return [...tags].sort();
+    },
+
+    deleteLead: async (id, actor = null) => {
+        const db = readDb();
+        const lead = db.leads.find(l => l.id === id && !l.deleted_at);
+        if (!lead) return null;
+        lead.deleted_at = new Date().toISOString();
+        lead.deleted_by = actor;
+        touchLead(lead);
+        writeDb(db);
+        return lead;
+    },
+
+    deleteLeadsInRange: async ({ startDate, endDate }, actor = null) => {
+        const db = readDb();
+        const now = new Date().toISOString();
+        const leads = liveLeads(db).filter(l => {
+            const created = new Date(l.created_at);
+            return (!startDate || created >= startDate) && (!endDate || created <= endDate);
+        });
+        leads.forEach(lead => {
+            lead.deleted_at = now;
+            lead.deleted_by = actor;
+            touchLead(lead);
+        });
+        writeDb(db);
+        return leads;
+    },
+
+    getDeletedLeads: async () => readDb().leads
+        .filter(l => l.deleted_at)
+        .sort((a, b) => new Date(b.deleted_at) - new Date(a.deleted_at)),
+
+    restoreLead: async (id) => {
+        const db = readDb();
+        const lead = db.leads.find(l => l.id === id && l.deleted_at);
+        if (!lead) return null;
+        lead.deleted_at = null;
+        lead.deleted_by = null;
+        touchLead(lead);
+        writeDb(db);
+        return lead;
+    },
+
+    purgeDeletedLeads: async (cutoff) => {
+        const db = readDb();
+        const purged = new Set(db.leads.filter(l => l.deleted_at && new Date(l.deleted_at) < cutoff).map(l => l.id));
+        if (purged.size === 0) return [];
+        // Messages and tasks go with the lead, like ON DELETE CASCADE
+        db.leads = db.leads.filter(l => !purged.has(l.id));
+        db.messages = db.messages.filter(m => !purged.has(m.lead_id));
+        db.tasks = db.tasks.filter(t => !purged.has(t.lead_id));
+        writeDb(db);
+        return [...purged];
+    },
+
+    findMessageOverlaps: async () => messageOverlaps(readDb().messages),
+
+    mergeLeads: async (keepId, mergeIds, picks = {}, actor = 'system') => {
+        const db = readDb();
+        const keeper = liveLeads(db).find(l => l.id === keepId);
+        const duplicates = liveLeads(db).filter(l => mergeIds.includes(l.id) && l.id !== keepId);
+        if (!keeper || duplicates.length !== mergeIds.length) return null;
+
+        const fields = resolveMergedFields(keeper, duplicates, picks);
+        assertStage(db, fields.status);
+        const merged = foldLeads(db, keeper, duplicates, fields, { reason: 'manual' }, actor);
+        writeDb(db);
+        return merged;
+    },
+
+    addMessage: async (leadId, data) => {
+        const db = readDb();
+        if (data.whatsapp_id) {
+            const existing = db.messages.find(m => m.whatsapp_id === data.whatsapp_id);
+            if (existing) return existing;
+        }
+
+        const message = {
+            id: crypto.randomUUID(),
+            lead_id: leadId,
+            body: data.body,
+            from_me: !!data.from_me,
+            whatsapp_id: data.whatsapp_id || null,
+            timestamp: data.timestamp ? new Date(data.timestamp).toISOString() : new Date().toISOString()
+        };
+        db.messages.push(message);
+        writeDb(db);
+        return message;
+    },
+
+    findMessageByWhatsAppId: async (wid) => {
+        const db = readDb();
+        return db.messages.find(m => m.whatsapp_id === wid) || null;
+    },
+
+    getMessages: async (leadId, options = {}) => {
+        const limit = options.limit || 500;
+        return readDb().messages
+            .filter(m => m.lead_id === leadId)
+            .sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp))
+            .slice(-limit);
+    },
+
+    getRecentIncomingMessages: async (limit = 100) => {
+        const db = readDb();
+        return db.messages
+            .filter(m => !m.from_me)
+            .sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp))
+            .map(m => {
+                const lead = db.leads.find(l => l.id === m.lead_id && !l.deleted_at);
+                return lead ? { id: m.id, body: m.body, timestamp: m.timestamp, lead_id: lead.id, name: lead.name, phone: lead.phone, status: lead.status } : null;
+            })
+            .filter(Boolean)
+            .slice(0, limit);
+    },
+
+    getLeadStats: async (filters = {}) => {
+        const db = readDb();
+        const leads = filterLeads(db, filters);
+        const kindOf = Object.fromEntries(db.stages.map(s => [s.id, s.kind]));
+        const won = leads.filter(l => kindOf[l.status] === 'won');
+        const byStatus = {};
+        leads.forEach(l => { byStatus[l.status] = (byStatus[l.status] || 0) + 1; });
+        const totalWonValue = won.reduce((sum, l) => sum + (Number(l.value) || 0), 0);
+
         return {
             total: leads.length,
-            new: leads.filter(l => l.status === 'new').length,
-            potential: leads.filter(l => l.status === 'potential').length,
-            won: leads.filter(l => l.status === 'won').length
+            won: won.length,
+            lost: leads.filter(l => kindOf[l.status] === 'lost').length,
+            total_won_value: totalWonValue,
+            avg_won_value: won.length ? totalWonValue / won.length : 0,
+            by_status: byStatus,
+            by_product: revenueByProduct(liveLeads(db), db.products, db.stages.filter(s => s.kind === 'won').map(s => s.id)),
+            losses: buildLossReport(liveLeads(db), db.stages.filter(s => s.kind === 'lost').map(s => s.id))
+        };
+    },
+
+    logActivity: async (leadId, type, data = {}, actor = 'system') => {
+        const db = readDb();
+        const activity = {
+            id: crypto.randomUUID(),
+            lead_id: leadId,
+            type,
+            actor: actor || 'system',
+            data,
+            created_at: new Date().toISOString()
+        };
+        db.activities.push(activity);
+        writeDb(db);
+        return activity;
+    },
+
+    getActivities: async (filters = {}) => {
+        let activities = readDb().activities;
+        if (filters.leadId) activities = activities.filter(a => a.lead_id === filters.leadId);
+        if (filters.type) activities = activities.filter(a => a.type === filters.type);
+        if (filters.since) activities = activities.filter(a => new Date(a.created_at) >= new Date(filters.since));
+        return activities.slice(0, filters.limit || 1000);
+    },
+
+    getStages: async () => readDb().stages,
+
+    saveStages: async (stages) => {
+        const db = readDb();
+        const cleaned = validateStages(stages);
+        const ids = cleaned.map(s => s.id);
+        const orphaned = liveLeads(db).filter(l => !ids.includes(l.status));
+        if (orphaned.length > 0) {
+            const statuses = [...new Set(orphaned.map(l => l.status))].join(', ');
+            throw new Error(`Move leads out of these stages before removing them: ${statuses}`);
+        }
+        // Leads in the trash don't hold a stage back; restored, they start over in the first one
+        db.leads.filter(l => l.deleted_at && !ids.includes(l.status)).forEach(l => { l.status = ids[0]; });
+        db.stages = cleaned;
+        writeDb(db);
+        return cleaned;
+    },
+
+    getCustomFields: async () => readDb().customFields,
+
+    saveCustomFields: async (definitions) => {
+        const db = readDb();
+        const cleaned = validateFieldDefinitions(definitions);
+        db.customFields = cleaned;
+        writeDb(db);
+        return cleaned;
+    },
+
+    getProducts: async () => [...readDb().products].sort((a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name)),
+
+    findProductById: async (id) => readDb().products.find(p => p.id === id) || null,
+
+    createProduct: async (data) => {
+        const db = readDb();
+        const product = {
+            id: crypto.randomUUID(),
+            ...validateProduct(data),
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+        };
+        assertUniqueSku(db, product.sku);
+        db.products.push(product);
+        db.leads
+            .filter(l => !l.product_id && String(l.product_name || '').trim().toLowerCase() === product.name.toLowerCase())
+            .forEach(l => { l.product_id = product.id; l.product_name = product.name; });
+        writeDb(db);
+        return product;
+    },
+
+    updateProduct: async (id, data) => {
+        const db = readDb();
+        const product = db.products.find(p => p.id === id);
+        if (!product) return null;
+        const cleaned = validateProduct({ ...product, ...data });
+        assertUniqueSku(db, cleaned.sku, id);
+        if (cleaned.name !== product.name) {
+            db.leads.filter(l => l.product_id === id && !hasOrder(l)).forEach(l => { l.product_name = cleaned.name; });
+        }
+        Object.assign(product, cleaned, { updated_at: new Date().toISOString() });
+        writeDb(db);
+        return product;
+    },
+
+    // Campaigns keep their recipients inline; the API shape matches database.js
+    createCampaign: async (data, leads, createdBy = null) => {
+        const db = readDb();
+        const campaign = {
+            id: crypto.randomUUID(),
+            ...data,
+            status: 'draft',
+            last_error: null,
+            created_by: createdBy,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+            started_at: null,
+            finished_at: null,
+            recipients: leads.map((lead, position) => ({
+                campaign_id: null,
+                lead_id: lead.id,
+                position,
+                phone: lead.phone,
+                name: lead.name || null,
+                status: 'pending',
+                error: null,
+                whatsapp_id: null,
+                sent_at: null
+            }))
         };
+        campaign.recipients.forEach(r => { r.campaign_id = campaign.id; });
+        db.campaigns.push(campaign);
+        writeDb(db);
+        return withCounts(campaign, countRecipients(campaign.recipients));
+    },
+
+    getCampaigns: async () => [...readDb().campaigns]
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        .map(({ recipients, ...campaign }) => withCounts(campaign, countRecipients(recipients))),
+
+    getCampaign: async (id) => {
+        const campaign = readDb().campaigns.find(c => c.id === id);
+        return campaign ? withCounts(campaign, countRecipients(campaign.recipients)) : null;
+    },
+
+    updateCampaign: async (id, fields) => {
+        const db = readDb();
+        const campaign = db.campaigns.find(c => c.id === id);
+        if (!campaign) return null;
+        for (const key of ['status', 'last_error', 'started_at', 'finished_at']) {
+            if (fields[key] !== undefined) campaign[key] = fields[key];
+        }
+        campaign.updated_at = new Date().toISOString();
+        writeDb(db);
+        const row = { ...campaign };
+        delete row.recipients;
+        return row;
+    },
+
+    updateRecipient: async (campaignId, leadId, fields) => {
+        const db = readDb();
+        const campaign = db.campaigns.find(c => c.id === campaignId);
+        const recipient = campaign && campaign.recipients.find(r => r.lead_id === leadId);
+        if (!recipient) return null;
+        for (const key of ['status', 'error', 'whatsapp_id', 'sent_at']) {
+            if (fields[key] !== undefined) recipient[key] = fields[key];
+        }
+        writeDb(db);
+        return recipient;
+    },
+
+    recordRecipientAck: async (whatsappId, ack) => {
+        const db = readDb();
+        for (const campaign of db.campaigns) {
+            const recipient = campaign.recipients.find(r => r.whatsapp_id === whatsappId);
+            const status = recipient && ackStatus(recipient.status, ack);
+            if (!recipient) continue;
+            if (!status) return null;
+            recipient.status = status;
+            writeDb(db);
+            return campaign.id;
+        }
+        return null;
+    },
+
+    deleteCampaign: async (id) => {
+        const db = readDb();
+        const campaign = db.campaigns.find(c => c.id === id);
+        if (!campaign) return null;
+        db.campaigns = db.campaigns.filter(c => c.id !== id);
+        writeDb(db);
+        return campaign;
+    },
+
+    getTemplates: async () => [...readDb().templates].sort((a, b) => b.use_count - a.use_count || a.title.localeCompare(b.title)),
+
+    createTemplate: async (data) => {
+        const db = readDb();
+        const template = {
+            id: crypto.randomUUID(),
+            ...validateTemplate(data),
+            use_count: 0,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+        };
+        db.templates.push(template);
+        writeDb(db);
+        return template;
+    },
+
+    updateTemplate: async (id, data) => {
+        const db = readDb();
+        const template = db.templates.find(t => t.id === id);
+        if (!template) return null;
+        Object.assign(template, validateTemplate({ ...template, ...data }), { updated_at: new Date().toISOString() });
+        writeDb(db);
+        return template;
+    },
+
+    deleteTemplate: async (id) => {
+        const db = readDb();
+        const template = db.templates.find(t => t.id === id);
+        if (!template) return null;
+        db.templates = db.templates.filter(t => t.id !== id);
+        writeDb(db);
+        return template;
+    },
+
+    recordTemplateUse: async (id) => {
+        const db = readDb();
+        const template = db.templates.find(t => t.id === id);
+        if (!template) return null;
+        template.use_count += 1;
+        writeDb(db);
+        return template;
+    },
+
+    getAssignmentSettings: async () => ({ ...DEFAULT_ASSIGNMENT, ...readDb().settings.assignment }),
+
+    saveAssignmentSettings: async (settings) => {
+        const db = readDb();
+        const valid = validateAssignmentSettings(settings);
+        db.settings = { ...db.settings, assignment: valid };
+        writeDb(db);
+        return valid;
+    },
+
+    getRules: async () => readDb().settings.rules || DEFAULT_RULES,
+
+    saveRules: async (ruleSet) => {
+        const db = readDb();
+        const valid = validateRules(ruleSet, {
+            stages: db.stages.map(s => s.id),
+            usernames: db.users.map(u => u.username),
+            productIds: db.products.map(p => p.id)
+        });
+        db.settings = { ...db.settings, rules: valid };
+        writeDb(db);
+        return valid;
+    },
+
+    getIntentModel: async () => readDb().settings.intent_model || null,
+
+    saveIntentModel: async (model) => {
+        const db = readDb();
+        db.settings = { ...db.settings, intent_model: model };
+        writeDb(db);
+        return model;
+    },
+
+    createTask: async (leadId, data, assignedTo = null) => {
+        const db = readDb();
+        const fields = validateTaskInput(data);
+        const task = {
+            id: crypto.randomUUID(),
+            lead_id: leadId,
+            due_at: fields.due_at,
+            note: fields.note || '',
+            done: false,
+            done_at: null,
+            assigned_to: assignedTo,
+            notified_at: null,
+            created_at: new Date().toISOString()
+        };
+        db.tasks.push(task);
+        writeDb(db);
+        return task;
+    },
+
+    updateTask: async (id, data) => {
+        const db = readDb();
+        const task = db.tasks.find(t => t.id === id);
+        if (!task) return null;
+        const fields = validateTaskInput(data, { partial: true });
+        if (fields.due_at !== undefined) {
+            task.due_at = fields.due_at;
+            task.notified_at = null;
+        }
+        if (fields.note !== undefined) task.note = fields.note;
+        if (fields.done !== undefined) {
+            task.done = fields.done;
+            task.done_at = fields.done ? new Date().toISOString() : null;
+        }
+        writeDb(db);
+        return task;
+    },
+
+    findTaskById: async (id) => readDb().tasks.find(t => t.id === id) || null,
+
+    deleteTask: async (id) => {
+        const db = readDb();
+        const task = db.tasks.find(t => t.id === id);
+        if (!task) return null;
+        db.tasks = db.tasks.filter(t => t.id !== id);
+        writeDb(db);
+        return task;
+    },
+
+    getTasks: async (filters = {}) => {
+        const db = readDb();
+        // Tasks of leads in the trash wait there with them
+        const trashed = new Set(db.leads.filter(l => l.deleted_at).map(l => l.id));
+        let tasks = db.tasks.filter(t => !trashed.has(t.lead_id));
+        if (filters.leadId) tasks = tasks.filter(t => t.lead_id === filters.leadId);
+        if (filters.done !== undefined) tasks = tasks.filter(t => t.done === filters.done);
+        if (filters.dueBefore) tasks = tasks.filter(t => new Date(t.due_at) <= new Date(filters.dueBefore));
+        if (filters.assignedTo) tasks = tasks.filter(t => t.assigned_to === filters.assignedTo);
+        return tasks.sort((a, b) => new Date(a.due_at) - new Date(b.due_at)).slice(0, 500);
+    },
+
+    claimDueTasks: async () => {
+        const db = readDb();
+        const now = new Date();
+        const trashed = new Set(db.leads.filter(l => l.deleted_at).map(l => l.id));
+        const due = db.tasks.filter(t => !t.done && !t.notified_at && new Date(t.due_at) <= now && !trashed.has(t.lead_id));
+        if (due.length === 0) return [];
+        due.forEach(t => { t.notified_at = now.toISOString(); });
+        writeDb(db);
+        return due;
+    },
+
+    createUser: async ({ username, name, password_hash, role }) => {
+        const db = readDb();
+        if (db.users.some(u => u.username === username)) {
+            throw new Error(`Username already taken: ${username}`);
+        }
+        const user = {
+            id: crypto.randomUUID(),
+            username,
+            name: name || null,
+            password_hash,
+            role,
+            created_at: new Date().toISOString()
+        };
+        db.users.push(user);
+        writeDb(db);
+        return user;
+    },
+
+    // Check and write happen in one synchronous step, so concurrent setups cannot both pass
+    createFirstUser: async ({ username, name, password_hash, role }) => {
+        const db = readDb();
+        if (db.users.length > 0) return null;
+        const user = {
+            id: crypto.randomUUID(),
+            username,
+            name: name || null,
+            password_hash,
+            role,
+            created_at: new Date().toISOString()
+        };
+        db.users.push(user);
+        writeDb(db);
+        return user;
+    },
+
+    findUserByUsername: async (username) =>
+        readDb().users.find(u => u.username === String(username || '').toLowerCase()) || null,
+
+    findUserById: async (id) => readDb().users.find(u => u.id === id) || null,
+
+    getUsers: async () => readDb().users,
+
+    deleteUser: async (id) => {
+        const db = readDb();
+        const user = db.users.find(u => u.id === id);
+        if (!user) return null;
+        if (user.role === 'admin' && db.users.filter(u => u.role === 'admin').length <= 1) {
+            throw new Error('Cannot remove the last admin');
+        }
+        db.users = db.users.filter(u => u.id !== id);
+        db.leads.forEach(l => { if (l.assigned_to === user.username) l.assigned_to = null; });
+        writeDb(db);
+        return user;
     },
 
     healthCheck: async () => ({ status: 'healthy', type: 'json-file' })
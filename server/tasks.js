@@ -0,0 +1,28 @@
+// Follow-up task validation, shared by both storage backends
+
+/**
+ * Validate task input. With `partial`, missing fields are left out instead of rejected.
+ */
+function validateTaskInput(data, { partial = false } = {}) {
+    const cleaned = {};
+
+    if (data.due_at !== undefined || !partial) {
+        const due = new Date(data.due_at);
+        if (!data.due_at || isNaN(due.getTime())) {
+            throw new Error('A valid due date is required');
+        }
+        cleaned.due_at = due.toISOString();
+    }
+
+    if (data.note !== undefined) {
+        cleaned.note = String(data.note || '').trim().slice(0, 1000);
+    }
+
+    if (data.done !== undefined) {
+        cleaned.done = !!data.done;
+    }
+
+    return cleaned;
+}
+
+module.exports = { validateTaskInput };
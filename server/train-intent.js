@@ -0,0 +1,24 @@
+// Retrain the win-probability model from the shell: `npm run train-intent` (in server/)
+// Open dashboards pick the new model up on their next reload.
+require('dotenv').config();
+const { trainIntentModel } = require('../shared/intent');
+
+const db = process.env.DATABASE_URL ? require('./database') : require('./simple_db');
+
+const percent = (value) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+
+(async () => {
+    await db.initDb();
+    const [leads, stages] = await Promise.all([db.getLeads(), db.getStages()]);
+    const { report } = await db.saveIntentModel(trainIntentModel(leads, stages));
+
+    console.log(`✅ Trained on ${report.examples} closed leads (${report.won} won, ${report.lost} lost), ${report.vocabulary} words`);
+    console.log(`📊 Holdout: ${report.holdout} leads, accuracy ${percent(report.accuracy)} vs ${percent(report.baseline)} always guessing the common outcome`);
+    if (report.accuracy !== null && report.accuracy <= report.baseline) {
+        console.warn('⚠️ The model does no better than the base rate; don\'t sort by it yet');
+    }
+    process.exit(0);
+})().catch((error) => {
+    console.error('❌ Training failed:', error.message);
+    process.exit(1);
+});
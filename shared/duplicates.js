@@ -0,0 +1,275 @@
+// Finding and folding duplicate leads: the dashboard's merge screen, offline mode and both
+// storage backends
+import { normalizePhone } from './phone.js';
+import { foldText } from './search.js';
+import { validateTags } from './fields.js';
+import { hasOrder } from './orders.js';
+
+/** @typedef {import('../src/types/crm').Lead} Lead */
+/** @typedef {import('../src/types/crm').LeadMessage} LeadMessage */
+/** @typedef {import('../src/types/crm').DuplicateGroup} DuplicateGroup */
+/** @typedef {import('../src/types/crm').DuplicateReason} DuplicateReason */
+/** @typedef {import('../src/types/crm').MergeableField} MergeableField */
+/** @typedef {import('../src/types/crm').MergePicks} MergePicks */
+
+/**
+ * Fields whose surviving value the user picks when merging by hand
+ * @type {MergeableField[]}
+ */
+export const MERGEABLE_FIELDS = ['phone', 'name', 'status', 'value', 'product_name', 'assigned_to', 'source_contact_name'];
+
+/** @type {Record<MergeableField, string>} */
+export const MERGEABLE_FIELD_LABELS = {
+    phone: 'Phone',
+    name: 'Name',
+    status: 'Status',
+    value: 'Value (AZN)',
+    product_name: 'Product',
+    assigned_to: 'Owner',
+    source_contact_name: 'WhatsApp contact'
+};
+
+/** @type {Record<DuplicateReason, string>} */
+export const DUPLICATE_REASON_LABELS = {
+    phone: 'Same phone',
+    name: 'Similar name',
+    messages: 'Same messages'
+};
+
+// Shared messages shorter than this are greetings ("Salam", "Qiymət?"), not evidence
+export const MIN_OVERLAP_LENGTH = 15;
+// Normalized edit similarity above which two names count as the same person
+const NAME_SIMILARITY = 0.85;
+
+/** @param {unknown} value */
+const isBlank = (value) => value === null || value === undefined || value === '';
+
+// WhatsApp leads start out named "~<phone>" until the contact name resolves
+/** @param {string | null | undefined} name */
+const isPlaceholderName = (name) => isBlank(name) || String(name).startsWith('~') || name === 'Unknown';
+
+/**
+ * Fields the surviving lead gets when `duplicates` are folded into `keeper`.
+ * The keeper's values win; blanks are filled from the duplicates. The most recently
+ * active row decides status and last message, tags are united, the value is the largest
+ * (with the order behind it, if any).
+ * @param {Lead} keeper
+ * @param {Lead[]} duplicates
+ * @returns {Partial<Lead>}
+ */
+export function mergeLeadRecords(keeper, duplicates) {
+    const all = [keeper, ...duplicates];
+    const latest = [...all].sort((a, b) => new Date(b.updated_at) - new Date(a.updated_at))[0];
+    const oldest = [...all].sort((a, b) => new Date(a.created_at) - new Date(b.created_at))[0];
+    const first = (field) => {
+        const lead = all.find(l => !isBlank(l[field]));
+        return lead ? lead[field] : null;
+    };
+    const valueLead = all.reduce((best, l) => Number(l.value || 0) > Number(best.value || 0) ? l : best);
+    // The catalog link travels with the product name it belongs to, an order's with the order
+    const productLead = hasOrder(valueLead) ? valueLead : all.find(l => !isBlank(l.product_name));
+
+    return {
+        phone: keeper.phone,
+        name: (all.find(l => !isPlaceholderName(l.name)) || keeper).name ?? null,
+        last_message: isBlank(latest.last_message) ? first('last_message') : latest.last_message,
+        source_message: first('source_message'),
+        source_contact_name: first('source_contact_name'),
+        whatsapp_id: first('whatsapp_id'),
+        product_name: productLead ? productLead.product_name : null,
+        product_id: productLead ? productLead.product_id || null : null,
+        assigned_to: first('assigned_to'),
+        status: latest.status,
+        value: Number(valueLead.value || 0),
+        order_items: valueLead.order_items || [],
+        delivery_fee: Number(valueLead.delivery_fee || 0),
+        tags: validateTags(all.flatMap(l => l.tags || [])),
+        custom_fields: Object.assign({}, ...[...duplicates].reverse().map(l => l.custom_fields || {}), keeper.custom_fields || {}),
+        created_at: oldest.created_at,
+        updated_at: latest.updated_at
+    };
+}
+
+/**
+ * mergeLeadRecords plus the user's picks: `picks` maps a MERGEABLE_FIELDS name
+ * to the id of the lead whose value should survive.
+ * @param {Lead} keeper
+ * @param {Lead[]} duplicates
+ * @param {MergePicks} [picks]
+ * @returns {Partial<Lead>}
+ */
+export function resolveMergedFields(keeper, duplicates, picks = {}) {
+    if (!picks || typeof picks !== 'object' || Array.isArray(picks)) {
+        throw new Error('fields must be an object of field -> lead id');
+    }
+
+    const all = [keeper, ...duplicates];
+    const fields = mergeLeadRecords(keeper, duplicates);
+    for (const [field, leadId] of Object.entries(picks)) {
+        if (!MERGEABLE_FIELDS.includes(field)) {
+            throw new Error(`Cannot pick ${field}. Pickable fields: ${MERGEABLE_FIELDS.join(', ')}`);
+        }
+        const source = all.find(l => l.id === leadId);
+        if (!source) throw new Error(`${field}: lead ${leadId} is not part of this merge`);
+        fields[field] = source[field] ?? null;
+        if (field === 'product_name') fields.product_id = source.product_id || null;
+        if (field === 'value') {
+            fields.order_items = source.order_items || [];
+            fields.delivery_fee = Number(source.delivery_fee || 0);
+        }
+    }
+    if (isBlank(fields.phone)) throw new Error('The merged lead needs a phone number');
+    return { ...fields, updated_at: new Date().toISOString() };
+}
+
+/**
+ * Leads whose stored phone is not in E.164 yet, grouped by the normalized number.
+ * In each group the keeper is the lead already stored in E.164, else the oldest one.
+ * Phones that cannot be normalized are left alone.
+ * @param {Lead[]} leads
+ * @returns {{ phone: string, keeper: Lead, duplicates: Lead[] }[]}
+ */
+export function planPhoneMigration(leads) {
+    const groups = new Map();
+    for (const lead of leads) {
+        const phone = normalizePhone(lead.phone);
+        if (!phone) continue;
+        if (!groups.has(phone)) groups.set(phone, []);
+        groups.get(phone).push(lead);
+    }
+
+    const plan = [];
+    for (const [phone, group] of groups) {
+        if (group.every(l => l.phone === phone)) continue;
+        const byAge = [...group].sort((a, b) => new Date(a.created_at) - new Date(b.created_at));
+        const keeper = group.find(l => l.phone === phone) || byAge[0];
+        plan.push({ phone, keeper, duplicates: byAge.filter(l => l !== keeper) });
+    }
+    return plan;
+}
+
+// --- DETECTION ---
+
+// "Əli  Məmmədov" and "Mammadov Ali" give the same key: ə is typed as either e or a,
+// so every e compares as a. Single short names are too common to compare.
+function nameKey(name) {
+    if (isPlaceholderName(name)) return null;
+    const words = foldText(name).replace(/e/g, 'a').replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean).sort();
+    const key = words.join(' ');
+    return words.length >= 2 || key.length >= 8 ? key : null;
+}
+
+function nameSimilarity(a, b) {
+    if (a === b) return 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Lead id pairs that received the same non-trivial message text
+ * @param {LeadMessage[]} messages
+ * @returns {{ a: string, b: string }[]}
+ */
+export function messageOverlaps(messages) {
+    const byText = new Map();
+    for (const message of messages) {
+        const text = foldText(message.body).trim();
+        if (message.from_me || text.length < MIN_OVERLAP_LENGTH) continue;
+        if (!byText.has(text)) byText.set(text, new Set());
+        byText.get(text).add(message.lead_id);
+    }
+    const pairs = [];
+    for (const ids of byText.values()) {
+        const list = [...ids];
+        for (let i = 0; i < list.length; i++) {
+            for (let j = i + 1; j < list.length; j++) pairs.push({ a: list[i], b: list[j] });
+        }
+    }
+    return pairs;
+}
+
+/**
+ * Groups of leads that are probably one customer, with the reasons found:
+ * 'phone' (same normalized number), 'name' (similar full name) and
+ * 'messages' (same inbound message text). `overlaps` are lead id pairs sharing
+ * a message, from the backend; the leads' own last messages are compared here.
+ * @param {Lead[]} leads
+ * @param {{ a: string, b: string }[]} [overlaps]
+ * @returns {DuplicateGroup[]}
+ */
+export function findDuplicateGroups(leads, overlaps = []) {
+    const byId = new Map(leads.map(l => [l.id, l]));
+    const parent = new Map(leads.map(l => [l.id, l.id]));
+    const find = (id) => parent.get(id) === id ? id : find(parent.get(id));
+    const reasons = new Map(); // root id -> Set of reasons, filled after union
+
+    const links = [];
+    const link = (a, b, reason) => {
+        if (a === b || !byId.has(a) || !byId.has(b)) return;
+        links.push({ a, b, reason });
+        parent.set(find(a), find(b));
+    };
+
+    const bucket = (keyOf, reason) => {
+        const groups = new Map();
+        for (const lead of leads) {
+            const key = keyOf(lead);
+            if (!key) continue;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key).push(lead.id);
+        }
+        for (const ids of groups.values()) ids.slice(1).forEach(id => link(ids[0], id, reason));
+    };
+
+    bucket(l => normalizePhone(l.phone) || l.phone, 'phone');
+
+    // Names are only compared within the same first two letters to keep the comparisons down
+    const named = leads.map(l => ({ id: l.id, key: nameKey(l.name) })).filter(n => n.key);
+    const byPrefix = new Map();
+    named.forEach(n => {
+        const prefix = n.key.slice(0, 2);
+        if (!byPrefix.has(prefix)) byPrefix.set(prefix, []);
+        byPrefix.get(prefix).push(n);
+    });
+    for (const group of byPrefix.values()) {
+        for (let i = 0; i < group.length; i++) {
+            for (let j = i + 1; j < group.length; j++) {
+                if (nameSimilarity(group[i].key, group[j].key) >= NAME_SIMILARITY) link(group[i].id, group[j].id, 'name');
+            }
+        }
+    }
+
+    overlaps.forEach(({ a, b }) => link(a, b, 'messages'));
+    bucket(l => {
+        const text = foldText(l.last_message).trim();
+        return text.length >= MIN_OVERLAP_LENGTH ? text : null;
+    }, 'messages');
+
+    links.forEach(({ a, reason }) => {
+        const root = find(a);
+        if (!reasons.has(root)) reasons.set(root, new Set());
+        reasons.get(root).add(reason);
+    });
+
+    const groups = new Map();
+    for (const lead of leads) {
+        const root = find(lead.id);
+        if (!reasons.has(root)) continue;
+        if (!groups.has(root)) groups.set(root, []);
+        groups.get(root).push(lead);
+    }
+
+    return [...groups.entries()]
+        .map(([root, members]) => ({
+            leads: members.sort((a, b) => new Date(a.created_at) - new Date(b.created_at)),
+            reasons: ['phone', 'name', 'messages'].filter(r => reasons.get(root).has(r))
+        }))
+        .sort((a, b) => Math.max(...b.leads.map(l => new Date(l.updated_at))) - Math.max(...a.leads.map(l => new Date(l.updated_at))));
+}
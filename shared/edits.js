@@ -0,0 +1,77 @@
+// Lead edits (PATCH /api/leads/:id and the dashboard's outbox): which fields may change and their shape
+import { validateTags } from './fields.js';
+import { validatePhone } from './phone.js';
+
+/** @typedef {import('../src/types/crm').Lead} Lead */
+/** @typedef {import('../src/types/crm').LeadEdit} LeadEdit */
+
+/**
+ * Orders have their own route; base_version only marks edits replayed from an offline outbox
+ * @type {(keyof LeadEdit)[]}
+ */
+export const EDITABLE_FIELDS = ['name', 'phone', 'value', 'product_id', 'product_name', 'tags', 'custom_fields', 'status', 'position', 'lost_reason', 'lost_note', 'assigned_to'];
+/**
+ * Stored by updateLeadDetails; the move fields go through updateLeadStatus, assigned_to through assignLead
+ * @type {(keyof LeadEdit)[]}
+ */
+export const DETAIL_FIELDS = ['name', 'phone', 'value', 'product_id', 'product_name', 'tags', 'custom_fields'];
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * The part of a lead update the server stores; the rest (last_message, source ...) is not editable
+ * @param {Partial<Lead>} updates
+ * @returns {LeadEdit}
+ */
+export function pickLeadEdit(updates) {
+    /** @type {Record<string, unknown>} */
+    const edit = {};
+    EDITABLE_FIELDS.forEach(field => {
+        if (updates[field] !== undefined) edit[field] = updates[field];
+    });
+    return /** @type {LeadEdit} */ (edit);
+}
+
+/**
+ * Check a lead edit before anything is written: only editable fields, each of the right
+ * shape. Returns the given fields cleaned. Stages, products, owners and custom field keys
+ * depend on the database and are checked by the caller.
+ * @param {Record<string, any>} body
+ * @returns {LeadEdit}
+ */
+export function validateLeadEdit(body) {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error('Send the fields to change as an object');
+    const unknown = Object.keys(body).filter(key => !(/** @type {string[]} */ (EDITABLE_FIELDS)).includes(key) && key !== 'base_version');
+    if (unknown.length > 0) throw new Error(`Not editable: ${unknown.join(', ')}`);
+
+    /** @type {Record<string, any>} */
+    const edit = {};
+    EDITABLE_FIELDS.forEach(key => {
+        if (body[key] !== undefined) edit[key] = body[key];
+    });
+    if (Object.keys(edit).length === 0) throw new Error('Nothing to update');
+
+    if (edit.name !== undefined) {
+        const name = String(edit.name ?? '').trim();
+        if (!name) throw new Error('Name cannot be empty');
+        edit.name = name.slice(0, MAX_NAME_LENGTH);
+    }
+    if (edit.phone !== undefined) edit.phone = validatePhone(edit.phone);
+    if (edit.value !== undefined) {
+        const value = Number(edit.value ?? 0);
+        if (!Number.isFinite(value) || value < 0) throw new Error('Value must be a non-negative number');
+        edit.value = value;
+    }
+    if (edit.product_id !== undefined) edit.product_id = edit.product_id ? String(edit.product_id) : null;
+    if (edit.product_name !== undefined) edit.product_name = String(edit.product_name ?? '').trim() || null;
+    if (edit.tags !== undefined) edit.tags = validateTags(edit.tags);
+    if (edit.custom_fields !== undefined && (typeof edit.custom_fields !== 'object' || Array.isArray(edit.custom_fields))) {
+        throw new Error('Custom field values must be an object');
+    }
+    if (edit.status !== undefined && (typeof edit.status !== 'string' || !edit.status)) throw new Error('Status must be a stage id');
+    if (edit.position !== undefined && edit.position !== null && !Number.isFinite(Number(edit.position))) {
+        throw new Error(`Invalid position: ${edit.position}`);
+    }
+    if (edit.assigned_to !== undefined) edit.assigned_to = edit.assigned_to ? String(edit.assigned_to) : null;
+
+    return edit;
+}
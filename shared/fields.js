@@ -0,0 +1,105 @@
+// Tags and admin-defined custom fields: validation for both storage backends and the shared
+// lead modules (merges, edits)
+
+/** @typedef {import('../src/types/crm').CustomFieldDefinition} CustomFieldDefinition */
+/** @typedef {import('../src/types/crm').CustomFieldValues} CustomFieldValues */
+
+/** @type {import('../src/types/crm').CustomFieldType[]} */
+export const FIELD_TYPES = ['text', 'number', 'select', 'date'];
+
+/**
+ * Clean a tag list: trimmed, de-duplicated (case-insensitive), max 30 chars each.
+ * @param {unknown} tags
+ * @returns {string[]}
+ */
+export function validateTags(tags) {
+    if (tags === undefined || tags === null) return [];
+    if (!Array.isArray(tags)) throw new Error('Tags must be an array of strings');
+
+    const seen = new Set();
+    /** @type {string[]} */
+    const cleaned = [];
+    for (const tag of tags) {
+        const value = String(tag).trim().slice(0, 30);
+        if (!value || seen.has(value.toLowerCase())) continue;
+        seen.add(value.toLowerCase());
+        cleaned.push(value);
+    }
+    return cleaned;
+}
+
+/**
+ * Validate custom field definitions. Array order becomes the form order.
+ * @param {unknown} definitions
+ * @returns {CustomFieldDefinition[]}
+ */
+export function validateFieldDefinitions(definitions) {
+    if (!Array.isArray(definitions)) throw new Error('Custom fields must be an array');
+
+    const ids = new Set();
+    return definitions.map((def, index) => {
+        const id = String(def.id || '').trim();
+        const label = String(def.label || '').trim();
+        if (!/^[a-z0-9_]{1,50}$/.test(id)) throw new Error(`Invalid field key: ${def.id} (use a-z, 0-9, _)`);
+        if (!label) throw new Error(`Field ${id} needs a label`);
+        if (ids.has(id)) throw new Error(`Duplicate field key: ${id}`);
+        if (!FIELD_TYPES.includes(def.type)) {
+            throw new Error(`Invalid field type: ${def.type}. Must be one of: ${FIELD_TYPES.join(', ')}`);
+        }
+        ids.add(id);
+
+        const options = def.type === 'select' ? validateTags(def.options) : [];
+        if (def.type === 'select' && options.length === 0) {
+            throw new Error(`Select field ${id} needs at least one option`);
+        }
+        return { id, label: label.slice(0, 100), type: def.type, options, position: index };
+    });
+}
+
+/**
+ * Coerce lead custom field values against the definitions. Empty values are dropped.
+ * @param {unknown} values
+ * @param {CustomFieldDefinition[]} definitions
+ * @returns {CustomFieldValues}
+ */
+export function validateCustomFieldValues(values, definitions) {
+    if (values === undefined || values === null) return {};
+    if (typeof values !== 'object' || Array.isArray(values)) throw new Error('Custom field values must be an object');
+
+    /** @type {CustomFieldValues} */
+    const cleaned = {};
+    for (const [key, raw] of Object.entries(values)) {
+        if (raw === undefined || raw === null || raw === '') continue;
+
+        const def = definitions.find(d => d.id === key);
+        if (!def) throw new Error(`Unknown custom field: ${key}`);
+
+        switch (def.type) {
+            case 'number': {
+                const num = Number(raw);
+                if (!Number.isFinite(num)) throw new Error(`${def.label} must be a number`);
+                cleaned[key] = num;
+                break;
+            }
+            case 'date': {
+                const value = String(raw);
+                if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+                    throw new Error(`${def.label} must be a date (YYYY-MM-DD)`);
+                }
+                cleaned[key] = value;
+                break;
+            }
+            case 'select': {
+                const value = String(raw);
+                if (!def.options.includes(value)) {
+                    throw new Error(`${def.label} must be one of: ${def.options.join(', ')}`);
+                }
+                cleaned[key] = value;
+                break;
+            }
+            default:
+                cleaned[key] = String(raw).slice(0, 500);
+        }
+    }
+    return cleaned;
+}
@@ -0,0 +1,169 @@
+// Win-probability model: naive Bayes over the words of closed leads (trained by index.cjs,
+// train-intent.js and the offline dashboard, read by the board)
+import { foldText } from './search.js';
+
+/** @typedef {import('../src/types/crm').IntentModel} IntentModel */
+/** @typedef {Omit<IntentModel, 'report'>} IntentCounts */
+/** @typedef {import('../src/types/crm').Lead} Lead */
+/** @typedef {import('../src/types/crm').PipelineStage} PipelineStage */
+/** @typedef {{ id: string, tokens: string[], won: boolean }} Example */
+
+// Each class needs this many examples before the model is worth anything
+const MIN_PER_CLASS = 5;
+// Words seen fewer times than this over all examples are noise (and bloat the model)
+const MIN_TOKEN_COUNT = 2;
+// Azerbaijani and Russian pile suffixes onto the stem; a fixed prefix is a cheap stemmer
+const STEM_LENGTH = 6;
+
+/**
+ * Normalized, de-duplicated words of a message: folded like search ("Qiymətini" -> "qiymet"),
+ * cut to their first letters, and every number is the same word.
+ * @param {string | null | undefined} text
+ * @returns {string[]}
+ */
+export function tokenize(text) {
+    /** @type {Set<string>} */
+    const tokens = new Set();
+    for (const word of foldText(text).split(/[^\p{L}\p{N}]+/u)) {
+        if (/^\d+$/.test(word)) tokens.add('#num');
+        else if (word.length >= 2) tokens.add(word.slice(0, STEM_LENGTH));
+    }
+    return [...tokens];
+}
+
+/**
+ * What the model reads: the first message and the latest one
+ * @param {Pick<Lead, 'source_message' | 'last_message'>} lead
+ * @returns {string}
+ */
+export function leadText(lead) {
+    return [...new Set([lead.source_message, lead.last_message].filter(Boolean))].join('\n');
+}
+
+/**
+ * FNV-1a, so a lead stays on the same side of the holdout split across retrains
+ * @param {string} id
+ * @returns {number}
+ */
+function hashId(id) {
+    let hash = 0x811c9dc5;
+    for (const char of String(id)) {
+        hash ^= char.charCodeAt(0);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+}
+
+/**
+ * @param {Example[]} examples
+ * @returns {IntentCounts}
+ */
+function buildModel(examples) {
+    const docs = { won: 0, lost: 0 };
+    /** @type {Record<string, [number, number]>} */
+    const counts = {};
+    for (const { tokens, won } of examples) {
+        docs[won ? 'won' : 'lost'] += 1;
+        for (const token of tokens) {
+            counts[token] = counts[token] || [0, 0];
+            counts[token][won ? 0 : 1] += 1;
+        }
+    }
+
+    /** @type {Record<string, [number, number]>} */
+    const tokens = {};
+    const totals = { won: 0, lost: 0 };
+    for (const [token, [won, lost]] of Object.entries(counts)) {
+        if (won + lost < MIN_TOKEN_COUNT) continue;
+        tokens[token] = [won, lost];
+        totals.won += won;
+        totals.lost += lost;
+    }
+    return { docs, totals, tokens };
+}
+
+/**
+ * P(won) for a token list under the model, with add-one smoothing. Words the model
+ * never saw are skipped; a message of only unknown words gets the base rate.
+ * @param {IntentCounts} model
+ * @param {string[]} tokens
+ * @returns {number}
+ */
+function probability(model, tokens) {
+    const vocabulary = Object.keys(model.tokens).length;
+    let logOdds = Math.log(model.docs.won / model.docs.lost);
+    for (const token of tokens) {
+        const counts = model.tokens[token];
+        if (!counts) continue;
+        logOdds += Math.log((counts[0] + 1) / (model.totals.won + vocabulary))
+            - Math.log((counts[1] + 1) / (model.totals.lost + vocabulary));
+    }
+    return 1 / (1 + Math.exp(-logOdds));
+}
+
+/**
+ * Train on the won and lost leads (by stage kind). One lead in five is held out first
+ * to measure accuracy against always guessing the more common outcome; the saved model
+ * then learns from all of them. Throws when there is too little history.
+ * @param {Lead[]} leads
+ * @param {PipelineStage[]} stages
+ * @returns {IntentModel}
+ */
+export function trainIntentModel(leads, stages) {
+    const kindOf = Object.fromEntries(stages.map(s => [s.id, s.kind]));
+    const examples = leads
+        .filter(l => kindOf[l.status] === 'won' || kindOf[l.status] === 'lost')
+        .map(l => ({ id: l.id, tokens: tokenize(leadText(l)), won: kindOf[l.status] === 'won' }))
+        .filter(e => e.tokens.length > 0);
+
+    const won = examples.filter(e => e.won).length;
+    const lost = examples.length - won;
+    if (won < MIN_PER_CLASS || lost < MIN_PER_CLASS) {
+        throw new Error(`Need at least ${MIN_PER_CLASS} won and ${MIN_PER_CLASS} lost leads with messages to learn from (have ${won} won, ${lost} lost)`);
+    }
+
+    /** @param {Example} e */
+    const isHoldout = (e) => hashId(e.id) % 5 === 0;
+    const train = examples.filter(e => !isHoldout(e));
+    const test = examples.filter(isHoldout);
+
+    /** @type {number | null} */
+    let accuracy = null;
+    /** @type {number | null} */
+    let baseline = null;
+    const trainWon = train.filter(e => e.won).length;
+    if (test.length > 0 && trainWon > 0 && trainWon < train.length) {
+        const trial = buildModel(train);
+        const correct = test.filter(e => (probability(trial, e.tokens) >= 0.5) === e.won).length;
+        const guessWon = trainWon * 2 >= train.length;
+        accuracy = correct / test.length;
+        baseline = test.filter(e => e.won === guessWon).length / test.length;
+    }
+
+    const model = buildModel(examples);
+    return {
+        ...model,
+        report: {
+            trained_at: new Date().toISOString(),
+            examples: examples.length,
+            won,
+            lost,
+            holdout: test.length,
+            accuracy,
+            baseline,
+            vocabulary: Object.keys(model.tokens).length
+        }
+    };
+}
+
+/**
+ * P(won) for a lead's messages, or null without a model or without any text
+ * @param {IntentModel | null} model
+ * @param {Pick<Lead, 'source_message' | 'last_message'>} lead
+ * @returns {number | null}
+ */
+export function winProbability(model, lead) {
+    if (!model) return null;
+    const tokens = tokenize(leadText(lead));
+    return tokens.length ? probability(model, tokens) : null;
+}
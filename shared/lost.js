@@ -0,0 +1,158 @@
+// Lost reasons: labels, validation and the loss report for the dashboard and both storage backends
+import { hasOrder } from './orders.js';
+
+/** @typedef {import('../src/types/crm').Lead} Lead */
+/** @typedef {import('../src/types/crm').LossReport} LossReport */
+/** @typedef {import('../src/types/crm').LostReason} LostReason */
+/** @typedef {import('../src/types/crm').LostReasonCounts} LostReasonCounts */
+/** @typedef {import('../src/types/crm').LostReasonInput} LostReasonInput */
+/** @typedef {{ count: number, reasons: LostReasonCounts }} LossRow */
+
+/** @type {LostReason[]} */
+export const LOST_REASONS = ['price', 'delivery_time', 'no_answer', 'out_of_stock', 'custom'];
+const MAX_NOTE_LENGTH = 500;
+
+/** @type {Record<LostReason, string>} */
+export const LOST_REASON_LABELS = {
+    price: 'Price',
+    delivery_time: 'Delivery time',
+    no_answer: 'No answer',
+    out_of_stock: 'Out of stock',
+    custom: 'Other'
+};
+
+/**
+ * What to change when most losses share a reason (HealthPanel recommendations)
+ * @type {Record<LostReason, string>}
+ */
+export const LOST_REASON_ADVICE = {
+    price: 'Test a bundle or a smaller pack, and lead with value before quoting the price.',
+    delivery_time: 'Promise a delivery day up front and look for a faster courier for the common districts.',
+    no_answer: 'Reply faster and schedule a follow-up the next day for every quiet lead.',
+    out_of_stock: 'Restock the products that lose most leads, or pause their ads until they are back.',
+    custom: 'Read the notes on recent losses for a pattern the fixed reasons miss.'
+};
+
+/**
+ * @param {LostReason | null | undefined} reason
+ * @returns {string}
+ */
+export const lostReasonLabel = (reason) => reason ? LOST_REASON_LABELS[reason] : 'Not recorded';
+
+/**
+ * Clean the reason sent with a move into a lost stage. The note is optional,
+ * except for 'custom' where it is the reason itself.
+ * @param {Partial<LostReasonInput>} input
+ * @returns {LostReasonInput}
+ */
+export function validateLostReason(input) {
+    if (!input || typeof input !== 'object') throw new Error('Pick why the lead was lost');
+
+    const reason = /** @type {LostReason} */ (String(input.reason ?? ''));
+    if (!LOST_REASONS.includes(reason)) {
+        throw new Error(`Invalid lost reason: ${reason || '(none)'}. Must be one of: ${LOST_REASONS.join(', ')}`);
+    }
+    const note = String(input.note ?? '').trim().slice(0, MAX_NOTE_LENGTH) || null;
+    if (reason === 'custom' && !note) throw new Error('Describe the reason in the note');
+
+    return { reason, note };
+}
+
+/**
+ * The lost fields after a move, as the server sets them: kept or replaced in a lost stage, cleared elsewhere
+ * @param {Lead | undefined} previous
+ * @param {boolean} toLostStage
+ * @param {LostReasonInput} [lost]
+ * @returns {Pick<Lead, 'lost_reason' | 'lost_note' | 'lost_at'>}
+ */
+export function lostFieldsAfterMove(previous, toLostStage, lost) {
+    if (!toLostStage) return { lost_reason: null, lost_note: null, lost_at: null };
+    return {
+        lost_reason: lost ? lost.reason : previous?.lost_reason ?? null,
+        lost_note: lost ? lost.note : previous?.lost_note ?? null,
+        lost_at: previous?.lost_at || new Date().toISOString()
+    };
+}
+
+/**
+ * The month a lead was lost in, YYYY-MM (UTC). Leads lost before lost_at existed use updated_at.
+ * @param {Lead} lead
+ */
+const lossPeriod = (lead) => new Date(lead.lost_at || lead.updated_at).toISOString().slice(0, 7);
+
+/**
+ * Products a lost lead was about: its order lines, or the single product name
+ * @param {Lead} lead
+ * @returns {(string | null)[]}
+ */
+const lostProducts = (lead) => hasOrder(lead)
+    ? [...new Set((lead.order_items || []).map(item => item.name))]
+    : [lead.product_name || null];
+
+/**
+ * Losses broken down by reason, by product and by month, each largest (or latest) first.
+ * Reason null counts leads moved to lost without one (by a rule, or before reasons were asked).
+ * `lostStatuses` are the ids of the 'lost' stages.
+ * @param {Lead[]} leads
+ * @param {string[]} lostStatuses
+ * @returns {LossReport}
+ */
+export function buildLossReport(leads, lostStatuses) {
+    const lost = leads.filter(l => lostStatuses.includes(l.status));
+
+    /**
+     * @template K
+     * @param {Map<K, LossRow>} rows
+     * @param {K} key
+     * @param {Lead} lead
+     */
+    const tally = (rows, key, lead) => {
+        if (!rows.has(key)) rows.set(key, { count: 0, reasons: {} });
+        const row = /** @type {LossRow} */ (rows.get(key));
+        const reason = lead.lost_reason || 'unknown';
+        row.count += 1;
+        row.reasons[reason] = (row.reasons[reason] || 0) + 1;
+    };
+
+    /** @type {Map<LostReason | null, number>} */
+    const byReason = new Map();
+    /** @type {Map<string | null, LossRow>} */
+    const byProduct = new Map();
+    /** @type {Map<string, LossRow>} */
+    const byPeriod = new Map();
+    for (const lead of lost) {
+        byReason.set(lead.lost_reason || null, (byReason.get(lead.lost_reason || null) || 0) + 1);
+        for (const product of lostProducts(lead)) tally(byProduct, product, lead);
+        tally(byPeriod, lossPeriod(lead), lead);
+    }
+
+    return {
+        total: lost.length,
+        by_reason: [...byReason].map(([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count),
+        by_product: [...byProduct].map(([product, row]) => ({ product, ...row })).sort((a, b) => b.count - a.count),
+        by_period: [...byPeriod].map(([period, row]) => ({ period, ...row })).sort((a, b) => b.period.localeCompare(a.period))
+    };
+}
+
+/**
+ * The most common recorded reason over the last `months` calendar months (this one included),
+ * with how many of the recorded losses it explains. Null without recorded losses.
+ * @param {LossReport} report
+ * @param {number} [months]
+ * @returns {{ reason: LostReason, count: number, recorded: number } | null}
+ */
+export function topLossReason(report, months = 3) {
+    const now = new Date();
+    const cutoff = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1)).toISOString().slice(0, 7);
+
+    /** @type {Map<LostReason, number>} */
+    const counts = new Map();
+    for (const period of report.by_period.filter(p => p.period >= cutoff)) {
+        for (const reason of LOST_REASONS) counts.set(reason, (counts.get(reason) || 0) + (period.reasons[reason] || 0));
+    }
+    const recorded = [...counts.values()].reduce((sum, n) => sum + n, 0);
+    if (recorded === 0) return null;
+
+    const [reason, count] = [...counts].sort((a, b) => b[1] - a[1])[0];
+    return { reason, count, recorded };
+}
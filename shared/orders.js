@@ -0,0 +1,123 @@
+// Lead orders: line items plus a delivery fee, for the dashboard and both storage backends
+
+/** @typedef {import('../src/types/crm').Lead} Lead */
+/** @typedef {import('../src/types/crm').LeadOrder} LeadOrder */
+/** @typedef {import('../src/types/crm').OrderItem} OrderItem */
+/** @typedef {import('../src/types/crm').Product} Product */
+
+const MAX_ORDER_ITEMS = 50;
+
+/** @param {number} num */
+const round2 = (num) => Math.round(num * 100) / 100;
+
+/**
+ * @param {unknown} raw
+ * @param {string} label
+ * @returns {number}
+ */
+function amount(raw, label) {
+    const num = raw === undefined || raw === null || raw === '' ? 0 : Number(raw);
+    if (!Number.isFinite(num) || num < 0) throw new Error(`${label} must be a non-negative number`);
+    return round2(num);
+}
+
+/**
+ * quantity × unit price − the line's discount (AZN)
+ * @param {Pick<OrderItem, 'quantity' | 'unit_price' | 'discount'>} item
+ * @returns {number}
+ */
+export function lineTotal(item) {
+    return round2(Number(item.quantity) * Number(item.unit_price) - Number(item.discount || 0));
+}
+
+/**
+ * An order without items is no order: it has no total and the lead value is typed by hand
+ * @param {OrderItem[] | undefined} items
+ * @param {number | undefined} deliveryFee
+ * @returns {number}
+ */
+export function orderTotal(items, deliveryFee) {
+    if (!items || items.length === 0) return 0;
+    return round2(items.reduce((sum, item) => sum + lineTotal(item), 0) + Number(deliveryFee || 0));
+}
+
+/**
+ * Card text for the order: "2 × Model A, Model B"
+ * @param {OrderItem[]} items
+ * @returns {string}
+ */
+export function orderSummary(items) {
+    return items.map(item => item.quantity > 1 ? `${item.quantity} × ${item.name}` : item.name).join(', ').slice(0, 255);
+}
+
+/**
+ * Clean an order from the API or the offline dashboard against the product catalog. Items that
+ * name a catalog product default to its name and current price; later price changes don't touch the order.
+ * @param {{ items?: Partial<OrderItem>[] | null, delivery_fee?: number | string | null }} input
+ * @param {Product[]} products
+ * @returns {LeadOrder}
+ */
+export function validateOrder(input, products) {
+    if (!input || typeof input !== 'object') throw new Error('Order must be an object');
+    const rawItems = input.items === undefined || input.items === null ? [] : input.items;
+    if (!Array.isArray(rawItems)) throw new Error('Order items must be an array');
+    if (rawItems.length > MAX_ORDER_ITEMS) throw new Error(`An order can have at most ${MAX_ORDER_ITEMS} items`);
+
+    const items = rawItems.map((raw, index) => {
+        const line = `Item ${index + 1}`;
+        /** @type {Product | undefined} */
+        let product;
+        if (raw.product_id) {
+            product = products.find(p => String(p.id) === String(raw.product_id));
+            if (!product) throw new Error(`${line}: unknown product ${raw.product_id}`);
+        }
+
+        const name = String(raw.name ?? '').trim() || (product ? product.name : '');
+        if (!name) throw new Error(`${line} needs a product or a name`);
+
+        const quantity = Number(raw.quantity ?? 1);
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > 9999) {
+            throw new Error(`${line}: quantity must be a whole number from 1 to 9999`);
+        }
+
+        const hasPrice = raw.unit_price !== undefined && raw.unit_price !== null && String(raw.unit_price) !== '';
+        const unitPrice = hasPrice ? amount(raw.unit_price, `${line}: unit price`) : product ? Number(product.price) : 0;
+        const discount = amount(raw.discount, `${line}: discount`);
+        if (discount > round2(quantity * unitPrice)) throw new Error(`${line}: discount is larger than the line`);
+
+        return { product_id: product ? product.id : null, name: name.slice(0, 255), quantity, unit_price: unitPrice, discount };
+    });
+
+    const deliveryFee = items.length ? amount(input.delivery_fee, 'Delivery fee') : 0;
+    return { items, delivery_fee: deliveryFee };
+}
+
+/**
+ * Lead fields an order sets. With items, value, product_id (the first item's) and
+ * product_name (the summary) follow the order; an empty order leaves them as they are.
+ * @param {LeadOrder} order
+ * @returns {Partial<Lead>}
+ */
+export function orderLeadFields(order) {
+    if (order.items.length === 0) return { order_items: [], delivery_fee: 0 };
+    return {
+        order_items: order.items,
+        delivery_fee: order.delivery_fee,
+        value: orderTotal(order.items, order.delivery_fee),
+        product_id: order.items[0].product_id,
+        product_name: orderSummary(order.items)
+    };
+}
+
+/**
+ * @param {Pick<Lead, 'order_items'>} lead
+ * @returns {boolean}
+ */
+export const hasOrder = (lead) => Array.isArray(lead.order_items) && lead.order_items.length > 0;
+
+/**
+ * What a lead is worth in revenue metrics: its order total, else the typed value
+ * @param {Lead} lead
+ * @returns {number}
+ */
+export const leadRevenue = (lead) => hasOrder(lead) ? orderTotal(lead.order_items, lead.delivery_fee) : Number(lead.value || 0);
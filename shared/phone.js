@@ -0,0 +1,78 @@
+// Phone number normalization: one set of rules for the dashboard, both storage backends
+// and the WhatsApp routes
+
+// Numbers typed without a country code are Azerbaijani
+export const DEFAULT_COUNTRY_CODE = '994';
+// Operator/area code (2 digits) + subscriber number (7 digits)
+const AZ_NATIONAL_LENGTH = 9;
+
+/**
+ * Parse a phone number as typed, imported or received from WhatsApp into E.164 ("+994501234567").
+ * Local Azerbaijani formats are accepted ("050 123 45 67", "50 123 45 67", "(012) 345-67-89");
+ * a leading "+" or "00" marks an international number. Returns null when it cannot be a phone number.
+ * @param {string | null | undefined} input
+ * @returns {string | null}
+ */
+export function normalizePhone(input) {
+    const raw = String(input ?? '').trim();
+    let digits = raw.replace(/\D/g, '');
+    if (!digits) return null;
+
+    const international = raw.startsWith('+') || digits.startsWith('00');
+    if (digits.startsWith('00')) digits = digits.slice(2);
+
+    if (!international) {
+        if (digits.length === AZ_NATIONAL_LENGTH + 1 && digits.startsWith('0')) {
+            digits = DEFAULT_COUNTRY_CODE + digits.slice(1);
+        } else if (digits.length === AZ_NATIONAL_LENGTH) {
+            digits = DEFAULT_COUNTRY_CODE + digits;
+        }
+    }
+
+    // "+994 050 ..." keeps the local trunk zero after the country code
+    if (digits.length === DEFAULT_COUNTRY_CODE.length + AZ_NATIONAL_LENGTH + 1 && digits.startsWith(DEFAULT_COUNTRY_CODE + '0')) {
+        digits = DEFAULT_COUNTRY_CODE + digits.slice(DEFAULT_COUNTRY_CODE.length + 1);
+    }
+
+    // E.164 allows at most 15 digits and no country code starts with 0
+    if (digits.length < 8 || digits.length > 15 || digits.startsWith('0')) return null;
+    return '+' + digits;
+}
+
+/**
+ * Human-readable form: "+994 50 123 45 67" for Azerbaijani numbers, plain E.164 otherwise.
+ * Input that is not a phone number is returned unchanged.
+ * @param {string | null | undefined} phone
+ * @returns {string}
+ */
+export function formatPhone(phone) {
+    const e164 = normalizePhone(phone);
+    if (!e164) return String(phone ?? '');
+    const az = e164.match(/^\+994(\d{2})(\d{3})(\d{2})(\d{2})$/);
+    return az ? `+994 ${az[1]} ${az[2]} ${az[3]} ${az[4]}` : e164;
+}
+
+/**
+ * Normalized phone for storage; throws the message the API returns as a 400
+ * @param {string | null | undefined} phone
+ * @returns {string}
+ */
+export function validatePhone(phone) {
+    if (!phone) {
+        throw new Error('Phone number is required');
+    }
+    const normalized = normalizePhone(phone);
+    if (!normalized) {
+        throw new Error(`Invalid phone number: ${phone}`);
+    }
+    return normalized;
+}
+
+/**
+ * whatsapp-web.js addresses chats by the international digits
+ * @param {string} phone
+ * @returns {string}
+ */
+export function toChatId(phone) {
+    return `${validatePhone(phone).slice(1)}@c.us`;
+}
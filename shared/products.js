@@ -0,0 +1,109 @@
+// Product catalog: validation, revenue reporting and lookups for the dashboard and both
+// storage backends
+import { foldText } from './search.js';
+import { lineTotal, hasOrder } from './orders.js';
+
+/** @typedef {import('../src/types/crm').Lead} Lead */
+/** @typedef {import('../src/types/crm').Product} Product */
+/** @typedef {import('../src/types/crm').ProductInput} ProductInput */
+/** @typedef {import('../src/types/crm').ProductRevenue} ProductRevenue */
+
+/**
+ * Clean a product from the API or the offline dashboard. SKUs are upper-cased so "ab-1" and
+ * "AB-1" are one product. Prices and costs are AZN with at most two decimals.
+ * @param {Partial<ProductInput>} input
+ * @returns {ProductInput}
+ */
+export function validateProduct(input) {
+    if (!input || typeof input !== 'object') throw new Error('Product must be an object');
+
+    const sku = String(input.sku ?? '').trim().toUpperCase();
+    const name = String(input.name ?? '').trim();
+    if (!/^[A-Z0-9._-]{1,50}$/.test(sku)) throw new Error(`Invalid SKU: ${input.sku ?? ''} (use A-Z, 0-9, . _ -)`);
+    if (!name) throw new Error(`Product ${sku} needs a name`);
+
+    /**
+     * @param {unknown} raw
+     * @param {string} label
+     */
+    const amount = (raw, label) => {
+        const num = raw === undefined || raw === null || raw === '' ? 0 : Number(raw);
+        if (!Number.isFinite(num) || num < 0) throw new Error(`${label} must be a non-negative number`);
+        return Math.round(num * 100) / 100;
+    };
+
+    return {
+        sku,
+        name: name.slice(0, 255),
+        price: amount(input.price, 'Price'),
+        cost: amount(input.cost, 'Cost'),
+        active: input.active === undefined ? true : Boolean(input.active)
+    };
+}
+
+/**
+ * Won revenue per product, largest first. Leads with an order count each line under its
+ * product (delivery fees are not product revenue); other leads count their value under
+ * product_id. Lines without a catalog product are summed under product_id null.
+ * `wonStatuses` are the ids of the 'won' stages.
+ * @param {Lead[]} leads
+ * @param {Product[]} products
+ * @param {string[]} wonStatuses
+ * @returns {ProductRevenue[]}
+ */
+export function revenueByProduct(leads, products, wonStatuses) {
+    /** @type {Map<string | null, ProductRevenue>} */
+    const rows = new Map();
+    for (const lead of leads) {
+        if (!wonStatuses.includes(lead.status)) continue;
+        const lines = hasOrder(lead)
+            ? (lead.order_items || []).map(item => ({ product_id: item.product_id, quantity: item.quantity, revenue: lineTotal(item) }))
+            : [{ product_id: lead.product_id, quantity: 1, revenue: Number(lead.value || 0) }];
+
+        const counted = new Set();
+        for (const line of lines) {
+            const id = line.product_id || null;
+            const product = id ? products.find(p => p.id === id) : null;
+            if (!rows.has(id)) {
+                rows.set(id, { product_id: id, sku: product ? product.sku : null, name: product ? product.name : null, won: 0, revenue: 0, cost: 0 });
+            }
+            const row = /** @type {ProductRevenue} */ (rows.get(id));
+            if (!counted.has(id)) row.won += 1;
+            counted.add(id);
+            row.revenue += line.revenue;
+            row.cost += product ? Number(product.cost || 0) * line.quantity : 0;
+        }
+    }
+    return [...rows.values()].sort((a, b) => b.revenue - a.revenue);
+}
+
+/**
+ * Active products whose name or SKU contains the query (accent-insensitive), name matches first
+ * @param {Product[]} products
+ * @param {string} query
+ * @param {number} [limit]
+ * @returns {Product[]}
+ */
+export function searchProducts(products, query, limit = 8) {
+    const text = foldText(query).trim();
+    const active = products.filter(p => p.active);
+    if (!text) return active.slice(0, limit);
+
+    const byName = active.filter(p => foldText(p.name).includes(text));
+    const bySku = active.filter(p => !byName.includes(p) && foldText(p.sku).includes(text));
+    return [...byName, ...bySku].slice(0, limit);
+}
+
+/**
+ * Leads linked to a catalog product show its current name (products can be renamed).
+ * Leads with an order show the order summary instead.
+ * @param {Lead[]} leads
+ * @param {Product[]} products
+ * @returns {Lead[]}
+ */
+export function withProductNames(leads, products) {
+    const names = new Map(products.map(p => [p.id, p.name]));
+    return leads.map(l => l.product_id && !hasOrder(l) && names.has(l.product_id) && names.get(l.product_id) !== l.product_name
+        ? { ...l, product_name: names.get(l.product_id) }
+        : l);
+}
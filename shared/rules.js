@@ -0,0 +1,223 @@
+// Lead classification rules: conditions on an incoming message, actions on its lead (the
+// WhatsApp handler, both storage backends and the offline dashboard)
+import { foldText } from './search.js';
+
+/** @typedef {import('../src/types/crm').LeadRule} LeadRule */
+/** @typedef {import('../src/types/crm').RuleLanguage} RuleLanguage */
+/** @typedef {import('../src/types/crm').RuleSet} RuleSet */
+/** @typedef {import('../src/types/crm').RuleTestResult} RuleTestResult */
+/** @typedef {{ text: string | null | undefined, phone: string, status: string, at?: string | null }} RuleMessage */
+
+/** @type {RuleLanguage[]} */
+export const RULE_LANGUAGES = ['az', 'ru', 'en'];
+const MAX_RULES = 100;
+const MAX_REGEX_LENGTH = 200;
+
+/**
+ * The business runs in Baku; hour conditions are read on its clock, not the server's or the device's
+ * @type {RuleSet}
+ */
+export const DEFAULT_RULES = {
+    timezone: 'Asia/Baku',
+    rules: [{
+        id: 'price-question',
+        name: 'Price question',
+        enabled: true,
+        conditions: { keywords: ['qiymət', 'neçəyə', 'price', 'цена', 'сколько стоит'], regex: null, language: null, phone_prefix: null, hours: null, statuses: ['new'] },
+        actions: { status: 'potential', tag: null, assign_to: null, product_id: null },
+        stop: false
+    }]
+};
+
+// Letters only Azerbaijani uses among az/ru/en, and (folded) words that give away a Latin-script Azerbaijani message
+const AZ_LETTERS = /[əğış]/i;
+const AZ_WORDS = new Set(['salam', 'yox', 'yoxdur', 'nece', 'neceye', 'qiymet', 'sifaris', 'zehmet', 'olar', 'catdirilma', 'mene', 'sizde', 'varmi', 'bu']);
+
+/**
+ * Best guess at the message language: Cyrillic is Russian, Latin is Azerbaijani when it
+ * has Azerbaijani letters or words and English otherwise. null when there are no letters.
+ * @param {string | null | undefined} text
+ * @returns {RuleLanguage | null}
+ */
+export function detectLanguage(text) {
+    const value = String(text || '');
+    const cyrillic = (value.match(/[Ѐ-ӿ]/g) || []).length;
+    const latin = (value.match(/[a-zA-ZÀ-ɏəƏ]/g) || []).length;
+    if (cyrillic === 0 && latin === 0) return null;
+    if (cyrillic > latin) return 'ru';
+    if (AZ_LETTERS.test(value)) return 'az';
+    const words = foldText(value).split(/[^\p{L}]+/u);
+    return words.some(word => AZ_WORDS.has(word)) ? 'az' : 'en';
+}
+
+/**
+ * Hour of the day (0-23) at `date` in the IANA time zone
+ * @param {Date} date
+ * @param {string} timezone
+ * @returns {number}
+ */
+function hourIn(date, timezone) {
+    const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone }).format(date);
+    return Number(hour) % 24;
+}
+
+/**
+ * from..to is [from, to) and wraps past midnight when from > to (22-8 is the night)
+ * @param {number} hour
+ * @param {{ from: number, to: number }} hours
+ * @returns {boolean}
+ */
+function inHours(hour, { from, to }) {
+    return from < to ? hour >= from && hour < to : hour >= from || hour < to;
+}
+
+/**
+ * @param {unknown} raw
+ * @param {number} max
+ * @returns {string | null}
+ */
+const optionalText = (raw, max) => {
+    const value = raw === undefined || raw === null ? '' : String(raw).trim();
+    return value ? value.slice(0, max) : null;
+};
+
+/**
+ * Validate a rule set. `context` holds what actions may point at: stage ids, usernames
+ * and product ids. Array order is the order rules run in.
+ * @param {RuleSet} input
+ * @param {{ stages: string[], usernames: string[], productIds: string[] }} context
+ * @returns {RuleSet}
+ */
+export function validateRules(input, context) {
+    if (!input || typeof input !== 'object' || !Array.isArray(input.rules)) throw new Error('Rules must be an object with a rules array');
+    if (input.rules.length > MAX_RULES) throw new Error(`At most ${MAX_RULES} rules`);
+
+    const timezone = optionalText(input.timezone, 64) || DEFAULT_RULES.timezone;
+    try {
+        hourIn(new Date(), timezone);
+    } catch {
+        throw new Error(`Unknown time zone: ${timezone}`);
+    }
+
+    const ids = new Set();
+    const rules = input.rules.map((raw, index) => {
+        const name = optionalText(raw && raw.name, 100);
+        if (!name) throw new Error(`Rule ${index + 1} needs a name`);
+        const id = optionalText(raw.id, 50) || `rule-${index + 1}`;
+        if (ids.has(id)) throw new Error(`Duplicate rule id: ${id}`);
+        ids.add(id);
+
+        const c = raw.conditions || {};
+        const keywords = Array.isArray(c.keywords)
+            ? [...new Set(c.keywords.map(k => String(k).trim().slice(0, 50)).filter(Boolean))]
+            : [];
+
+        const regex = optionalText(c.regex, MAX_REGEX_LENGTH + 1);
+        if (regex) {
+            if (regex.length > MAX_REGEX_LENGTH) throw new Error(`${name}: the pattern is longer than ${MAX_REGEX_LENGTH} characters`);
+            try {
+                new RegExp(regex, 'iu');
+            } catch (error) {
+                throw new Error(`${name}: invalid pattern (${error.message})`);
+            }
+        }
+
+        const language = optionalText(c.language, 2);
+        if (language && !RULE_LANGUAGES.includes(language)) throw new Error(`${name}: language must be one of ${RULE_LANGUAGES.join(', ')}`);
+
+        const prefix = optionalText(c.phone_prefix, 20);
+        const phonePrefix = prefix ? prefix.replace(/[\s()-]/g, '') : null;
+        if (phonePrefix && !/^\+?\d{1,15}$/.test(phonePrefix)) throw new Error(`${name}: phone prefix must be digits, e.g. +99450`);
+
+        let hours = null;
+        if (c.hours) {
+            const from = Number(c.hours.from);
+            const to = Number(c.hours.to);
+            const isHour = (h) => Number.isInteger(h) && h >= 0 && h <= 23;
+            if (!isHour(from) || !isHour(to) || from === to) throw new Error(`${name}: hours must be two different whole hours from 0 to 23`);
+            hours = { from, to };
+        }
+
+        const statuses = Array.isArray(c.statuses) ? [...new Set(c.statuses.map(String))] : [];
+        const unknownStatus = statuses.find(s => !context.stages.includes(s));
+        if (unknownStatus) throw new Error(`${name}: unknown stage ${unknownStatus}`);
+
+        if (!keywords.length && !regex && !language && !phonePrefix && !hours && !statuses.length) {
+            throw new Error(`${name} needs at least one condition`);
+        }
+
+        const a = raw.actions || {};
+        const actions = {
+            status: optionalText(a.status, 50),
+            tag: optionalText(a.tag, 30),
+            assign_to: optionalText(a.assign_to, 50),
+            product_id: optionalText(a.product_id, 50)
+        };
+        if (actions.status && !context.stages.includes(actions.status)) throw new Error(`${name}: unknown stage ${actions.status}`);
+        if (actions.assign_to && !context.usernames.includes(actions.assign_to)) throw new Error(`${name}: unknown user ${actions.assign_to}`);
+        if (actions.product_id && !context.productIds.includes(actions.product_id)) throw new Error(`${name}: unknown product ${actions.product_id}`);
+        if (!Object.values(actions).some(Boolean)) throw new Error(`${name} needs at least one action`);
+
+        return {
+            id,
+            name,
+            enabled: raw.enabled === undefined ? true : Boolean(raw.enabled),
+            conditions: { keywords, regex, language, phone_prefix: phonePrefix, hours, statuses },
+            actions,
+            stop: Boolean(raw.stop)
+        };
+    });
+
+    return { timezone, rules };
+}
+
+/**
+ * Does the rule match `message` ({ text, phone, status, at })? Every condition that is
+ * set must hold; keywords match anywhere in the text, accent- and case-insensitively.
+ * @param {LeadRule} rule
+ * @param {RuleMessage} message
+ * @param {string} timezone
+ * @returns {boolean}
+ */
+function ruleMatches(rule, message, timezone) {
+    const c = rule.conditions;
+    const text = String(message.text || '');
+
+    if (c.statuses.length && !c.statuses.includes(message.status)) return false;
+    if (c.phone_prefix && !String(message.phone || '').replace(/^\+/, '').startsWith(c.phone_prefix.replace(/^\+/, ''))) return false;
+    if (c.hours && !inHours(hourIn(new Date(message.at || Date.now()), timezone), c.hours)) return false;
+    if (c.language && detectLanguage(text) !== c.language) return false;
+    if (c.keywords.length) {
+        const folded = foldText(text);
+        if (!c.keywords.some(keyword => folded.includes(foldText(keyword)))) return false;
+    }
+    if (c.regex && !new RegExp(c.regex, 'iu').test(text)) return false;
+    return true;
+}
+
+/**
+ * Run the enabled rules top to bottom against one incoming message. Later matches override
+ * earlier status, owner and product; tags add up. A matching rule with `stop` ends the run.
+ * Conditions always see the lead's status from before the run.
+ * @param {RuleSet} ruleSet
+ * @param {RuleMessage} message
+ * @returns {Omit<RuleTestResult, 'message'>}
+ */
+export function evaluateRules(ruleSet, message) {
+    /** @type {RuleTestResult['matched']} */
+    const matched = [];
+    /** @type {RuleTestResult['actions']} */
+    const actions = { status: null, tags: [], assign_to: null, product_id: null };
+
+    for (const rule of ruleSet.rules) {
+        if (!rule.enabled || !ruleMatches(rule, message, ruleSet.timezone)) continue;
+        matched.push({ id: rule.id, name: rule.name });
+        if (rule.actions.status) actions.status = rule.actions.status;
+        if (rule.actions.tag && !actions.tags.includes(rule.actions.tag)) actions.tags.push(rule.actions.tag);
+        if (rule.actions.assign_to) actions.assign_to = rule.actions.assign_to;
+        if (rule.actions.product_id) actions.product_id = rule.actions.product_id;
+        if (rule.stop) break;
+    }
+
+    return { matched, actions };
+}
@@ -0,0 +1,110 @@
+// Lead search: the same folding and matching for the dashboard, the JSON backend and the
+// SQL queries of database.js
+
+/** @typedef {import('../src/types/crm').Lead} Lead */
+/** @typedef {import('../src/types/crm').LeadMessage} LeadMessage */
+
+// Letters that have no Unicode decomposition but are typed without the accent
+/** @type {Record<string, string>} */
+const FOLD_MAP = { 'ə': 'e', 'ı': 'i' };
+
+/**
+ * Lowercase and strip accents one character at a time ("Qiymət" -> "qiymet").
+ * The result has the same length as the input, so match offsets map back to the original text.
+ * @param {string | null | undefined} text
+ * @returns {string}
+ */
+export function foldText(text) {
+    return String(text || '').split('').map((char) => {
+        const lower = char.toLowerCase()[0];
+        return FOLD_MAP[lower] || lower.normalize('NFD')[0];
+    }).join('');
+}
+
+// SQL twin of foldText for the characters customers actually type without accents
+const SQL_FOLD_FROM = 'ƏəİıÖöÜüÇçŞşĞğЁёЙй';
+const SQL_FOLD_TO = 'EeIiOoUuCcSsGgЕеИи';
+
+/**
+ * @param {string} expression
+ * @returns {string}
+ */
+export function foldSql(expression) {
+    return `lower(translate(${expression}, '${SQL_FOLD_FROM}', '${SQL_FOLD_TO}'))`;
+}
+
+/**
+ * Split a search string into the folded text and the phone digits to look for.
+ * Phones are stored in E.164, so local "050 ..." input drops its leading zero.
+ * @param {string | null | undefined} query
+ * @returns {{ text: string, phoneDigits: string | null }}
+ */
+export function parseSearch(query) {
+    const text = foldText(String(query || '').trim());
+    const digits = text.replace(/\D/g, '');
+    const looksLikePhone = digits.length >= 3 && /^[\d\s()+-]+$/.test(text);
+    return {
+        text,
+        phoneDigits: looksLikePhone ? digits.replace(/^0+/, '') : null
+    };
+}
+
+/**
+ * In-memory twin of `/api/leads?q=` (JSON backend, offline dashboard): phone, name, product,
+ * tags and any message body.
+ * @param {Lead} lead
+ * @param {LeadMessage[]} messages
+ * @param {string} query
+ * @returns {boolean}
+ */
+export function matchesSearch(lead, messages, query) {
+    const { text, phoneDigits } = parseSearch(query);
+    if (!text) return true;
+    if (phoneDigits && String(lead.phone || '').includes(phoneDigits)) return true;
+
+    const fields = [lead.name, lead.product_name, lead.phone, lead.last_message, ...(lead.tags || [])];
+    if (fields.some(value => foldText(value).includes(text))) return true;
+    return messages.some(m => foldText(m.body).includes(text));
+}
+
+/**
+ * [start, end) ranges of `query` inside `value`, for highlighting.
+ * @param {string | null | undefined} value
+ * @param {string} query
+ * @returns {[number, number][]}
+ */
+export function findMatches(value, query) {
+    const { text, phoneDigits } = parseSearch(query);
+    const folded = foldText(value);
+    if (phoneDigits && !folded.includes(text)) return findDigitMatches(folded, phoneDigits);
+    if (!text) return [];
+
+    /** @type {[number, number][]} */
+    const ranges = [];
+    let index = folded.indexOf(text);
+    while (index !== -1) {
+        ranges.push([index, index + text.length]);
+        index = folded.indexOf(text, index + text.length);
+    }
+    return ranges;
+}
+
+/**
+ * Formatted phones ("+994 50 123 45 67") match on their digits, ignoring the spacing
+ * @param {string} value
+ * @param {string} digits
+ * @returns {[number, number][]}
+ */
+function findDigitMatches(value, digits) {
+    const positions = value.split('').flatMap((char, i) => /\d/.test(char) ? [i] : []);
+    const onlyDigits = positions.map(i => value[i]).join('');
+
+    /** @type {[number, number][]} */
+    const ranges = [];
+    let index = onlyDigits.indexOf(digits);
+    while (index !== -1) {
+        ranges.push([positions[index], positions[index + digits.length - 1] + 1]);
+        index = onlyDigits.indexOf(digits, index + digits.length);
+    }
+    return ranges;
+}
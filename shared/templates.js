@@ -0,0 +1,74 @@
+// Quick-reply templates: validation, placeholder filling and lookup for the dashboard, the
+// campaign runner and both storage backends
+import { foldText } from './search.js';
+
+/** @typedef {import('../src/types/crm').Lead} Lead */
+/** @typedef {import('../src/types/crm').ReplyTemplate} ReplyTemplate */
+/** @typedef {import('../src/types/crm').ReplyTemplateInput} ReplyTemplateInput */
+
+/** @type {readonly ['name', 'phone', 'product_name', 'value']} */
+export const TEMPLATE_VARIABLES = ['name', 'phone', 'product_name', 'value'];
+const MAX_BODY_LENGTH = 4000;
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Clean a template from the API or the offline dashboard. The body may only use the known
+ * {placeholders}, so a typo like {nmae} is caught when saving instead of reaching a customer.
+ * @param {Partial<ReplyTemplateInput>} input
+ * @returns {ReplyTemplateInput}
+ */
+export function validateTemplate(input) {
+    if (!input || typeof input !== 'object') throw new Error('Template must be an object');
+
+    const title = String(input.title ?? '').trim();
+    const body = String(input.body ?? '').trim();
+    if (!title) throw new Error('Template needs a title');
+    if (!body) throw new Error(`${title} needs a message`);
+    if (body.length > MAX_BODY_LENGTH) throw new Error(`${title}: the message is longer than ${MAX_BODY_LENGTH} characters`);
+
+    /** @type {readonly string[]} */
+    const known = TEMPLATE_VARIABLES;
+    const unknown = [...body.matchAll(PLACEHOLDER)].map(m => m[1]).filter(v => !known.includes(v));
+    if (unknown.length) {
+        throw new Error(`${title}: unknown placeholder {${unknown[0]}} (use ${TEMPLATE_VARIABLES.map(v => `{${v}}`).join(', ')})`);
+    }
+
+    return { title: title.slice(0, 100), body };
+}
+
+/**
+ * The template body with the lead's values in place of its placeholders. Placeholder
+ * names the CRM made up (~phone, Unknown) and missing values become empty.
+ * @param {string} body
+ * @param {Pick<Lead, 'name' | 'phone' | 'product_name' | 'value'>} lead
+ * @returns {string}
+ */
+export function fillTemplate(body, lead) {
+    const name = lead.name && lead.name !== 'Unknown' && !lead.name.startsWith('~') ? lead.name : '';
+    /** @type {Record<string, string>} */
+    const values = {
+        name,
+        phone: lead.phone || '',
+        product_name: lead.product_name || '',
+        value: lead.value ? String(Number(lead.value)) : ''
+    };
+    return String(body || '').replace(PLACEHOLDER, (match, variable) => variable in values ? values[variable] : match);
+}
+
+/**
+ * Templates whose title or text contains the query (accent-insensitive), most used first
+ * @param {ReplyTemplate[]} templates
+ * @param {string} query
+ * @param {number} [limit]
+ * @returns {ReplyTemplate[]}
+ */
+export function searchTemplates(templates, query, limit = 8) {
+    const text = foldText(query).trim();
+    const byUse = [...templates].sort((a, b) => b.use_count - a.use_count || a.title.localeCompare(b.title));
+    if (!text) return byUse.slice(0, limit);
+
+    const byTitle = byUse.filter(t => foldText(t.title).includes(text));
+    const byBody = byUse.filter(t => !byTitle.includes(t) && foldText(t.body).includes(text));
+    return [...byTitle, ...byBody].slice(0, limit);
+}
@@ -0,0 +1,57 @@
+// The trash: deleted leads are kept for a while, then purged for good (the server's purge job
+// and routes, the dashboard's offline trash and Trash page)
+export const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The retention setting (TRASH_RETENTION_DAYS on the server); anything but a positive number keeps the default
+ * @param {unknown} value
+ * @returns {number}
+ */
+export function retentionDays(value) {
+    const days = Number(value);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Leads deleted before this instant are due for purging
+ * @param {number} days
+ * @param {Date} [now]
+ * @returns {Date}
+ */
+export const purgeCutoff = (days, now = new Date()) => new Date(now.getTime() - days * DAY_MS);
+
+/**
+ * Whole days a lead in the trash has left before it is purged (Trash page)
+ * @param {string} deletedAt
+ * @param {number} days
+ * @param {Date} [now]
+ * @returns {number}
+ */
+export function daysUntilPurge(deletedAt, days, now = new Date()) {
+    const purgeAt = new Date(deletedAt).getTime() + days * DAY_MS;
+    return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
+
+/**
+ * Check the range of a bulk clear: either end may be open (both open clears every lead).
+ * Returns the bounds as Dates.
+ * @param {{ startDate?: string | null, endDate?: string | null } | null | undefined} body
+ * @returns {{ startDate: Date | null, endDate: Date | null }}
+ */
+export function validateClearRange(body) {
+    /**
+     * @param {string | null | undefined} value
+     * @param {string} label
+     */
+    const bound = (value, label) => {
+        if (value === undefined || value === null || value === '') return null;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) throw new Error(`Invalid ${label}: ${value}`);
+        return date;
+    };
+    const startDate = bound(body?.startDate, 'start date');
+    const endDate = bound(body?.endDate, 'end date');
+    if (startDate && endDate && startDate > endDate) throw new Error('The start date is after the end date');
+    return { startDate, endDate };
+}
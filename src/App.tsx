@@ -1,24 +1,76 @@
+import { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { RefreshCw } from 'lucide-react';
 import Layout from './components/Layout';
 import FunnelSimulator from './components/FunnelSimulator';
 import CRMPage from './pages/CRM';
 import MetaLab from './pages/MetaLab';
+import SettingsPage from './pages/Settings';
+import CampaignsPage from './pages/Campaigns';
+import SyncPage from './pages/Sync';
+import TrashPage from './pages/Trash';
+import LoginPage from './pages/Login';
 import { AppProvider } from './context/Store';
+import { ToastProvider } from './components/ui/Toast';
+import { CrmService, CrmSession } from './services/CrmService';
 
 function App() {
+  const [session, setSession] = useState<CrmSession | null>(() => CrmService.getSession());
+  const [isConnecting, setIsConnecting] = useState(() => CrmService.getSession()?.mode === 'server');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Reconnect a saved session before the store loads, so it reads from the server
+  useEffect(() => {
+    const saved = CrmService.getSession();
+    if (saved?.mode === 'server') {
+      CrmService.connectToServer(saved.serverUrl).finally(() => setIsConnecting(false));
+    }
+
+    return CrmService.onUnauthorized(() => {
+      setNotice('Your session has expired. Please sign in again.');
+      setSession(null);
+    });
+  }, []);
+
+  if (isConnecting) {
+    return (
+      <div className="min-h-screen bg-slate-950 flex items-center justify-center gap-2 text-slate-500 text-sm">
+        <RefreshCw className="w-4 h-4 animate-spin" /> Connecting...
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <LoginPage
+        notice={notice}
+        onAuthenticated={() => {
+          setNotice(null);
+          setSession(CrmService.getSession());
+        }}
+      />
+    );
+  }
+
   return (
-    <AppProvider>
-      <BrowserRouter>
-        <Layout>
-          <Routes>
-            <Route path="/" element={<FunnelSimulator />} />
-            <Route path="/crm" element={<CRMPage />} />
-            <Route path="/whatsapp" element={<Navigate to="/crm" replace />} />
-            <Route path="/meta-lab" element={<MetaLab />} />
-          </Routes>
-        </Layout>
-      </BrowserRouter>
-    </AppProvider>
+    <ToastProvider>
+      <AppProvider>
+        <BrowserRouter>
+          <Layout onLogout={() => { CrmService.logout(); setSession(null); }}>
+            <Routes>
+              <Route path="/" element={<FunnelSimulator />} />
+              <Route path="/crm" element={<CRMPage />} />
+              <Route path="/whatsapp" element={<Navigate to="/crm" replace />} />
+              <Route path="/campaigns" element={<CampaignsPage />} />
+              <Route path="/meta-lab" element={<MetaLab />} />
+              <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/sync" element={<SyncPage />} />
+              <Route path="/trash" element={<TrashPage />} />
+            </Routes>
+          </Layout>
+        </BrowserRouter>
+      </AppProvider>
+    </ToastProvider>
   );
 }
 
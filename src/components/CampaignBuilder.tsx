@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { Megaphone, Plus, AlertTriangle, Users } from 'lucide-react';
+import { Campaign, CampaignInput, CampaignPreview } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { getStageColor } from '../lib/stages';
+import { TEMPLATE_VARIABLES } from '../../shared/templates';
+import { formatPhone } from '../../shared/phone';
+import { cn } from '../lib/utils';
+
+const selectClass = "h-8 bg-slate-900 border border-slate-800 text-slate-300 text-xs rounded px-2";
+
+const toLocalDate = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().split('T')[0];
+};
+
+// The segment's dates are whole local days, like the board's date filter
+function toInput(draft: Draft): CampaignInput {
+  return {
+    name: draft.name,
+    body: draft.body,
+    segment: {
+      statuses: draft.statuses,
+      from: draft.start ? new Date(`${draft.start}T00:00:00`).toISOString() : null,
+      to: draft.end ? new Date(`${draft.end}T23:59:59.999`).toISOString() : null,
+      tag: draft.tag.trim() || null
+    },
+    min_delay: Number(draft.minDelay),
+    max_delay: Number(draft.maxDelay)
+  };
+}
+
+type Draft = { name: string; body: string; statuses: string[]; start: string; end: string; tag: string; minDelay: string; maxDelay: string };
+
+const emptyDraft = (): Draft => ({
+  name: '',
+  body: '',
+  statuses: [],
+  start: toLocalDate(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+  end: toLocalDate(new Date()),
+  tag: '',
+  minDelay: '20',
+  maxDelay: '60'
+});
+
+export function CampaignBuilder({ onCreated }: { onCreated: (campaign: Campaign) => void }) {
+  const { stages, tags, templates } = useAppStore();
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [preview, setPreview] = useState<CampaignPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (updates: Partial<Draft>) => setDraft(prev => ({ ...prev, ...updates }));
+  const toggleStatus = (id: string) =>
+    update({ statuses: draft.statuses.includes(id) ? draft.statuses.filter(s => s !== id) : [...draft.statuses, id] });
+
+  // Ask the server who the segment selects once editing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      CrmService.previewCampaign(toInput(draft))
+        .then(result => { setPreview(result); setPreviewError(null); })
+        .catch(err => { setPreview(null); setPreviewError(err instanceof Error ? err.message : 'Preview failed'); });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const campaign = await CrmService.createCampaign(toInput(draft));
+      setDraft(emptyDraft());
+      onCreated(campaign);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create campaign');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Megaphone className="w-5 h-5 text-orange-400" />
+          New Campaign
+        </CardTitle>
+        <p className="text-xs text-slate-500">
+          Pick leads with the board's filters and write one message; {TEMPLATE_VARIABLES.map(v => `{${v}}`).join(', ')} are filled in per lead.
+          The recipients are fixed when the campaign is created.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          value={draft.name}
+          onChange={e => update({ name: e.target.value })}
+          placeholder="Campaign name, e.g. October restock"
+          className="h-8 text-xs bg-slate-900"
+        />
+
+        <div className="bg-slate-950 border border-slate-800 rounded-lg p-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[10px] uppercase tracking-wider text-slate-500 w-12">Stage</span>
+            {stages.map(stage => (
+              <button
+                key={stage.id}
+                onClick={() => toggleStatus(stage.id)}
+                className={cn(
+                  "flex items-center gap-1 px-2 py-1 rounded text-[10px] font-medium border transition-colors",
+                  draft.statuses.includes(stage.id) ? "border-blue-500 text-white bg-blue-600/20" : "border-slate-800 text-slate-500 hover:text-slate-300"
+                )}
+              >
+                <span className={cn("w-1.5 h-1.5 rounded-full", getStageColor(stage.color).dot)} />
+                {stage.name}
+              </button>
+            ))}
+            {draft.statuses.length === 0 && <span className="text-[10px] text-amber-400/80">All stages</span>}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[10px] uppercase tracking-wider text-slate-500 w-12">Created</span>
+            <Input type="date" value={draft.start} onChange={e => update({ start: e.target.value })} className="h-8 w-36 text-xs bg-slate-900" />
+            <span className="text-xs text-slate-500">to</span>
+            <Input type="date" value={draft.end} onChange={e => update({ end: e.target.value })} className="h-8 w-36 text-xs bg-slate-900" />
+            <span className="text-[10px] uppercase tracking-wider text-slate-500 ml-2">Tag</span>
+            <Input
+              value={draft.tag}
+              onChange={e => update({ tag: e.target.value })}
+              placeholder="Any"
+              list="campaign-tags"
+              className="h-8 w-32 text-xs bg-slate-900"
+            />
+            <datalist id="campaign-tags">
+              {tags.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          {templates.length > 0 && (
+            <select value="" onChange={e => { const t = templates.find(t => t.id === e.target.value); if (t) update({ body: t.body }); }} className={selectClass}>
+              <option value="">Start from a quick reply...</option>
+              {templates.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+            </select>
+          )}
+          <textarea
+            rows={4}
+            value={draft.body}
+            onChange={e => update({ body: e.target.value })}
+            placeholder="Salam {name}! {product_name} yenidən satışdadır."
+            className="w-full resize-y rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          Wait
+          <Input type="number" min="5" max="600" value={draft.minDelay} onChange={e => update({ minDelay: e.target.value })} className="h-8 w-20 text-xs bg-slate-900" />
+          to
+          <Input type="number" min="5" max="600" value={draft.maxDelay} onChange={e => update({ maxDelay: e.target.value })} className="h-8 w-20 text-xs bg-slate-900" />
+          seconds between messages, at random, so the account does not look automated
+        </div>
+
+        {preview && (
+          <div className="border-t border-slate-800 pt-3 space-y-2">
+            <p className="text-xs text-slate-300 flex items-center gap-1.5">
+              <Users className="w-3.5 h-3.5 text-slate-500" />
+              {preview.total} {preview.total === 1 ? 'lead' : 'leads'} selected
+            </p>
+            {preview.sample.filter(s => s.text !== null).map(s => (
+              <div key={s.lead_id} className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs">
+                <p className="text-slate-500 mb-0.5">{s.name || formatPhone(s.phone)}</p>
+                <p className="text-slate-300 whitespace-pre-wrap">{s.text}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        {previewError && !error && (
+          <p className="text-[10px] text-amber-400/80">{previewError}</p>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleCreate}
+            disabled={isSaving || !draft.name.trim() || !draft.body.trim() || !preview?.total}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-3.5 h-3.5" /> {isSaving ? 'Creating...' : 'Create Campaign'}
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
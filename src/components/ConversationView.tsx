@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageSquare, Phone, X, RefreshCw, Send, AlertTriangle, History, ListTodo, ShoppingBag, Zap } from 'lucide-react';
+import { Lead, LeadMessage, ReplyTemplate } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService, CrmApiError } from '../services/CrmService';
+import { cn } from '../lib/utils';
+import { formatPhone } from '../../shared/phone';
+import { fillTemplate, searchTemplates } from '../../shared/templates';
+import { LeadTimeline } from './LeadTimeline';
+import { LeadTasks } from './LeadTasks';
+import { LeadOrder } from './LeadOrder';
+
+export type ConversationTab = 'chat' | 'tasks' | 'order' | 'timeline';
+
+interface ConversationViewProps {
+  lead: Lead;
+  initialTab?: ConversationTab;
+  onClose: () => void;
+}
+
+export function ConversationView({ lead, initialTab = 'chat', onClose }: ConversationViewProps) {
+  const [tab, setTab] = useState<ConversationTab>(initialTab);
+  const [messages, setMessages] = useState<LeadMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [pickerIndex, setPickerIndex] = useState(0);
+  const [pickerDismissed, setPickerDismissed] = useState(false);
+  const { templates, recordTemplateUse } = useAppStore();
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // A draft of just "/query" (one line) searches the quick replies
+  const slashQuery = /^\/[^\n]*$/.test(draft) ? draft.slice(1) : null;
+  const suggestions = slashQuery !== null && !pickerDismissed ? searchTemplates(templates, slashQuery) : [];
+
+  // Load history, then keep it live while the view is open
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    CrmService.getConversation(lead.id).then((history) => {
+      if (cancelled) return;
+      setMessages(history);
+      setIsLoading(false);
+    });
+
+    const unsubscribe = CrmService.onConversationMessage((message) => {
+      if (message.lead_id !== lead.id) return;
+      setMessages((prev) => {
+        const isDuplicate = prev.some(m =>
+          m.id === message.id || (!!message.whatsapp_id && m.whatsapp_id === message.whatsapp_id)
+        );
+        return isDuplicate ? prev : [...prev, message];
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [lead.id]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  const handleSend = async () => {
+    if (!draft.trim() || isSending) return;
+
+    setIsSending(true);
+    setSendError(null);
+    try {
+      await CrmService.sendMessage(lead.id, draft);
+      setDraft('');
+    } catch (error) {
+      if (error instanceof CrmApiError && error.status === 503) {
+        setSendError(`WhatsApp is not connected: ${error.message}`);
+      } else {
+        setSendError(error instanceof Error ? error.message : 'Failed to send message');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    setPickerIndex(0);
+    setPickerDismissed(false);
+  };
+
+  const insertTemplate = (template: ReplyTemplate) => {
+    setDraft(fillTemplate(template.body, lead));
+    recordTemplateUse(template.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // While the quick-reply list is open the arrows pick, Enter/Tab insert and Escape closes it
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setPickerIndex(index => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        insertTemplate(suggestions[Math.min(pickerIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setPickerDismissed(true);
+        return;
+      }
+    }
+
+    // Enter sends, Shift+Enter adds a new line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl max-w-2xl w-full shadow-2xl flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+              <MessageSquare className="w-5 h-5 text-green-400" />
+              {lead.name || formatPhone(lead.phone)}
+            </h3>
+            <p className="text-xs text-slate-500 flex items-center gap-1 mt-0.5">
+              <Phone className="w-3 h-3" /> {formatPhone(lead.phone)}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-1 px-4 pt-2 border-b border-slate-800">
+          {([
+            { id: 'chat', label: 'Chat', icon: <MessageSquare className="w-3.5 h-3.5" /> },
+            { id: 'tasks', label: 'Tasks', icon: <ListTodo className="w-3.5 h-3.5" /> },
+            { id: 'order', label: 'Order', icon: <ShoppingBag className="w-3.5 h-3.5" /> },
+            { id: 'timeline', label: 'Timeline', icon: <History className="w-3.5 h-3.5" /> },
+          ] as const).map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-2 text-xs font-medium border-b-2 -mb-px transition-colors",
+                tab === t.id ? "border-blue-500 text-white" : "border-transparent text-slate-500 hover:text-slate-300"
+              )}
+            >
+              {t.icon} {t.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'timeline' ? (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 bg-slate-950">
+            <LeadTimeline leadId={lead.id} />
+          </div>
+        ) : tab === 'tasks' ? (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 bg-slate-950">
+            <LeadTasks leadId={lead.id} />
+          </div>
+        ) : tab === 'order' ? (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 bg-slate-950">
+            <LeadOrder lead={lead} />
+          </div>
+        ) : (
+          <>
+          {/* Thread */}
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3 bg-slate-950">
+            {isLoading ? (
+              <div className="flex items-center justify-center gap-2 py-12 text-slate-500 text-sm">
+                <RefreshCw className="w-4 h-4 animate-spin" /> Loading conversation...
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="text-center py-12 text-slate-600 text-sm">No messages yet</div>
+            ) : (
+              messages.map((message) => (
+                <div key={message.id} className={cn("flex", message.from_me ? "justify-end" : "justify-start")}>
+                  <div className={cn(
+                    "max-w-[75%] rounded-xl px-3 py-2 border",
+                    message.from_me
+                      ? "bg-green-900/30 border-green-900/50 rounded-br-sm"
+                      : "bg-slate-800/60 border-slate-700/50 rounded-bl-sm"
+                  )}>
+                    <p className="text-sm text-slate-200 whitespace-pre-wrap leading-relaxed">{message.body}</p>
+                    <p className={cn("text-[10px] mt-1", message.from_me ? "text-green-500/70 text-right" : "text-slate-500")}>
+                      {formatTime(message.timestamp)}
+                    </p>
+                  </div>
+                </div>
+              ))
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          {/* Composer */}
+          <div className="p-3 border-t border-slate-800 space-y-2">
+            {sendError && (
+              <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                <span>{sendError}</span>
+              </div>
+            )}
+            {slashQuery !== null && !pickerDismissed && (
+              <div className="max-h-56 overflow-y-auto custom-scrollbar bg-slate-950 border border-slate-800 rounded-lg p-1 space-y-0.5">
+                {suggestions.length === 0 ? (
+                  <p className="px-2 py-1.5 text-xs text-slate-600">
+                    {templates.length === 0 ? 'No quick replies yet: add them in Settings → Quick Replies' : 'No quick reply matches'}
+                  </p>
+                ) : suggestions.map((template, index) => (
+                  <button
+                    key={template.id}
+                    onMouseDown={e => { e.preventDefault(); insertTemplate(template); }}
+                    onMouseEnter={() => setPickerIndex(index)}
+                    className={cn(
+                      "w-full text-left px-2 py-1.5 rounded text-xs transition-colors",
+                      index === pickerIndex ? "bg-slate-800" : "hover:bg-slate-900"
+                    )}
+                  >
+                    <div className="flex items-center gap-1.5 text-slate-200 font-medium">
+                      <Zap className="w-3 h-3 text-yellow-400 shrink-0" />
+                      <span className="truncate">{template.title}</span>
+                      <span className="ml-auto text-[10px] text-slate-500 shrink-0">{template.use_count}×</span>
+                    </div>
+                    <p className="text-slate-400 truncate">{fillTemplate(template.body, lead)}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex items-end gap-2">
+              <textarea
+                rows={2}
+                value={draft}
+                onChange={e => handleDraftChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder='Write a reply... ("/" for quick replies)'
+                className="flex-1 resize-none rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 placeholder:text-slate-500 focus:outline-none focus:border-blue-500"
+              />
+              <button
+                onClick={handleSend}
+                disabled={isSending || !draft.trim()}
+                className="h-10 px-4 rounded-lg bg-green-600 hover:bg-green-500 text-white text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+              >
+                {isSending ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                Send
+              </button>
+            </div>
+          </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { ArrowUp, ArrowDown, Trash2, Plus, Save, SlidersHorizontal, AlertTriangle } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldType } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { FIELD_TYPE_LABELS } from '../lib/customFields';
+
+// Options are edited as one comma-separated string per select field
+type DraftField = CustomFieldDefinition & { optionsText: string };
+
+const toDraft = (fields: CustomFieldDefinition[]): DraftField[] =>
+  fields.map(field => ({ ...field, optionsText: field.options.join(', ') }));
+
+export function CustomFieldSettings() {
+  const { customFields, saveCustomFields } = useAppStore();
+  const currentUser = CrmService.getCurrentUser();
+  const canEdit = !currentUser || currentUser.role === 'admin'; // Offline: this device is the admin
+  const [draft, setDraft] = useState<DraftField[]>(toDraft(customFields));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(toDraft(customFields));
+  }, [customFields]);
+
+  const updateField = (index: number, updates: Partial<DraftField>) => {
+    setDraft(prev => prev.map((field, i) => i === index ? { ...field, ...updates } : field));
+    setSaved(false);
+  };
+
+  const moveField = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+    setDraft(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setSaved(false);
+  };
+
+  const addField = () => {
+    setDraft(prev => [...prev, {
+      id: `field_${prev.length + 1}`,
+      label: 'New Field',
+      type: 'text',
+      options: [],
+      optionsText: '',
+      position: prev.length
+    }]);
+    setSaved(false);
+  };
+
+  const removeField = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveCustomFields(draft.map(({ optionsText, ...field }) => ({
+        ...field,
+        options: field.type === 'select'
+          ? optionsText.split(',').map(o => o.trim()).filter(Boolean)
+          : []
+      })));
+      setSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save custom fields');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-cyan-400" />
+          Custom Fields
+        </CardTitle>
+        <p className="text-xs text-slate-500">
+          Extra fields on every lead, shown in the lead form and as badges on the board. Changing a key hides the values already stored under the old one.
+          {!canEdit && ' Only admins can change the fields.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {draft.length === 0 && (
+          <p className="text-xs text-slate-600 text-center py-4">No custom fields yet</p>
+        )}
+
+        {draft.map((field, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2 bg-slate-950 border border-slate-800 rounded-lg p-2">
+            <Input
+              value={field.label}
+              onChange={e => updateField(index, { label: e.target.value })}
+              placeholder="Label"
+              className="h-8 flex-1 min-w-[140px] text-xs bg-slate-900"
+            />
+            <Input
+              value={field.id}
+              onChange={e => updateField(index, { id: e.target.value.toLowerCase() })}
+              placeholder="key"
+              className="h-8 w-32 text-xs font-mono bg-slate-900"
+            />
+            <select
+              value={field.type}
+              onChange={e => updateField(index, { type: e.target.value as CustomFieldType })}
+              className="h-8 bg-slate-900 border border-slate-800 text-slate-300 text-xs rounded px-2"
+            >
+              {(Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <div className="flex gap-1">
+              <button onClick={() => moveField(index, -1)} disabled={index === 0} className="p-1.5 text-slate-500 hover:text-white disabled:opacity-30">
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => moveField(index, 1)} disabled={index === draft.length - 1} className="p-1.5 text-slate-500 hover:text-white disabled:opacity-30">
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => removeField(index)} title="Remove field" className="p-1.5 text-slate-500 hover:text-red-400">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {field.type === 'select' && (
+              <Input
+                value={field.optionsText}
+                onChange={e => updateField(index, { optionsText: e.target.value })}
+                placeholder="Options, comma separated"
+                className="h-8 w-full text-xs bg-slate-900"
+              />
+            )}
+          </div>
+        ))}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-between pt-2">
+          <button onClick={addField} disabled={!canEdit} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors disabled:opacity-50">
+            <Plus className="w-3.5 h-3.5" /> Add Field
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !canEdit}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+          >
+            <Save className="w-3.5 h-3.5" /> {saved ? 'Saved' : isSaving ? 'Saving...' : 'Save Fields'}
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { X, GitMerge, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { DuplicateGroup, Lead, MergeableField, MergePicks } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { useToast } from './ui/Toast';
+import { CrmService } from '../services/CrmService';
+import { cn, formatCurrency } from '../lib/utils';
+import { formatPhone } from '../../shared/phone';
+import { ownerName } from '../lib/owners';
+import { MERGEABLE_FIELDS, MERGEABLE_FIELD_LABELS, DUPLICATE_REASON_LABELS, mergeLeadRecords } from '../../shared/duplicates';
+
+// Which lead's value the merge keeps by default, per field (the automatic merge result)
+function defaultPicks(leads: Lead[]): MergePicks {
+  const merged = mergeLeadRecords(leads[0], leads.slice(1));
+  const picks: MergePicks = {};
+  MERGEABLE_FIELDS.forEach(field => {
+    picks[field] = (leads.find(l => (l[field] ?? null) === (merged[field] ?? null)) || leads[0]).id;
+  });
+  return picks;
+}
+
+export function DuplicatesView({ onClose }: { onClose: () => void }) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    CrmService.getDuplicates()
+      .then(setGroups)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load duplicates'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const dropGroup = (group: DuplicateGroup) => setGroups(prev => prev.filter(g => g !== group));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <Card className="w-full max-w-5xl bg-slate-900 border-slate-800 shadow-2xl animate-in zoom-in-95 duration-200">
+        <CardHeader className="flex flex-row items-center justify-between border-b border-slate-800 pb-4">
+          <CardTitle className="text-lg font-bold text-white flex items-center gap-2">
+            <GitMerge className="w-5 h-5 text-purple-400" />
+            Possible Duplicates
+            {!isLoading && <span className="text-xs font-normal text-slate-500">· {groups.length} {groups.length === 1 ? 'group' : 'groups'}</span>}
+          </CardTitle>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </CardHeader>
+        <CardContent className="pt-6 max-h-[80vh] overflow-y-auto custom-scrollbar space-y-4">
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 py-12 text-slate-500 text-sm">
+              <RefreshCw className="w-4 h-4 animate-spin" /> Looking for duplicates...
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {!isLoading && !error && groups.length === 0 && (
+            <div className="flex flex-col items-center gap-2 py-12 text-slate-500 text-sm">
+              <CheckCircle className="w-6 h-6 text-green-500" />
+              No possible duplicates. Leads are compared by phone, name and message text.
+            </div>
+          )}
+
+          {groups.map(group => (
+            <DuplicateGroupCard key={group.leads.map(l => l.id).join('|')} group={group} onMerged={() => dropGroup(group)} />
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function DuplicateGroupCard({ group, onMerged }: { group: DuplicateGroup; onMerged: () => void }) {
+  const { stages, users, mergeLeads } = useAppStore();
+  const { toast } = useToast();
+  const [keepId, setKeepId] = useState(group.leads[0].id);
+  const [included, setIncluded] = useState<string[]>(() => group.leads.map(l => l.id));
+  const [picks, setPicks] = useState<MergePicks>(() => defaultPicks(group.leads));
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mergeIds = included.filter(id => id !== keepId);
+
+  const display = (lead: Lead, field: MergeableField): string => {
+    const value = lead[field];
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'phone') return formatPhone(String(value));
+    if (field === 'status') return stages.find(s => s.id === value)?.name || String(value);
+    if (field === 'value') return formatCurrency(Number(value));
+    if (field === 'assigned_to') return ownerName(String(value), users);
+    return String(value);
+  };
+
+  const toggleIncluded = (id: string) => {
+    if (id === keepId) return;
+    setIncluded(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const handleMerge = async () => {
+    if (!confirm(`Merge ${mergeIds.length + 1} leads into one? Conversations, tasks and history are combined and the other cards are removed. This cannot be undone.`)) return;
+    setError(null);
+    setIsMerging(true);
+    try {
+      // Picks pointing at excluded leads fall back to the automatic merge
+      const activePicks = Object.fromEntries(Object.entries(picks).filter(([, id]) => included.includes(id as string)));
+      const lead = await mergeLeads(keepId, mergeIds, activePicks);
+      toast({ title: 'Leads merged', description: lead.name || formatPhone(lead.phone), variant: 'success' });
+      onMerged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Merge failed');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-950 border border-slate-800 rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        {group.reasons.map(reason => (
+          <span key={reason} className="text-[10px] uppercase tracking-wider bg-purple-950/40 border border-purple-900/40 text-purple-300 rounded px-1.5 py-0.5">
+            {DUPLICATE_REASON_LABELS[reason]}
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400">
+              <th className="text-left font-medium px-2 py-1.5 w-32"></th>
+              {group.leads.map(lead => (
+                <th key={lead.id} className={cn("text-left font-medium px-2 py-1.5", !included.includes(lead.id) && "opacity-40")}>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1.5 cursor-pointer" title="The surviving card keeps this lead's id and board position">
+                      <input type="radio" checked={keepId === lead.id} onChange={() => { setKeepId(lead.id); setIncluded(prev => prev.includes(lead.id) ? prev : [...prev, lead.id]); }} />
+                      Keep
+                    </label>
+                    <label className="flex items-center gap-1.5 cursor-pointer text-slate-500">
+                      <input type="checkbox" checked={included.includes(lead.id)} disabled={keepId === lead.id} onChange={() => toggleIncluded(lead.id)} />
+                      Include
+                    </label>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {MERGEABLE_FIELDS.map(field => (
+              <tr key={field} className="border-t border-slate-800/60">
+                <td className="px-2 py-1.5 text-slate-500">{MERGEABLE_FIELD_LABELS[field]}</td>
+                {group.leads.map(lead => {
+                  const active = picks[field] === lead.id;
+                  const disabled = !included.includes(lead.id);
+                  return (
+                    <td key={lead.id} className={cn("px-2 py-1", disabled && "opacity-40")}>
+                      <button
+                        onClick={() => setPicks(prev => ({ ...prev, [field]: lead.id }))}
+                        disabled={disabled}
+                        className={cn(
+                          "w-full text-left px-2 py-1 rounded border transition-colors truncate",
+                          active ? "bg-blue-600/20 border-blue-600 text-blue-100" : "border-transparent text-slate-300 hover:border-slate-700"
+                        )}
+                      >
+                        {display(lead, field)}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr className="border-t border-slate-800/60">
+              <td className="px-2 py-1.5 text-slate-500">Last message</td>
+              {group.leads.map(lead => (
+                <td key={lead.id} className={cn("px-2 py-1.5 text-slate-400 italic", !included.includes(lead.id) && "opacity-40")}>
+                  <span className="line-clamp-2">{lead.last_message || '—'}</span>
+                </td>
+              ))}
+            </tr>
+            <tr className="border-t border-slate-800/60">
+              <td className="px-2 py-1.5 text-slate-500">Created</td>
+              {group.leads.map(lead => (
+                <td key={lead.id} className={cn("px-2 py-1.5 text-slate-400", !included.includes(lead.id) && "opacity-40")}>
+                  {new Date(lead.created_at).toLocaleDateString()}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-[10px] text-slate-500">
+        Click a value to keep it. Tags are combined, custom fields are filled from every lead, and conversations, tasks and history are joined.
+      </p>
+
+      {error && (
+        <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleMerge}
+          disabled={isMerging || mergeIds.length === 0}
+          className="px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-500 font-medium text-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          {isMerging ? <RefreshCw className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+          Merge {mergeIds.length + 1} leads
+        </button>
+      </div>
+    </div>
+  );
+}
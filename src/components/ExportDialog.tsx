@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { X, Download, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Lead, LeadQuery } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { cn } from '../lib/utils';
+import { getStageColor } from '../lib/stages';
+import { toCsv, toXlsx, downloadFile } from '../lib/spreadsheet';
+import { buildLeadExport, exportFilename } from '../lib/leadExport';
+
+type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Exports every lead matching the board query (date range, search and filters applied),
+ * not only the pages loaded into the columns, optionally narrowed to some stages.
+ */
+export function ExportDialog({ query, matches, onClose }: { query: LeadQuery; matches?: (lead: Lead) => boolean; onClose: () => void }) {
+  const { stages, customFields } = useAppStore();
+  const [leads, setLeads] = useState<Lead[] | null>(null);
+  const [selectedStages, setSelectedStages] = useState<string[]>(() => stages.map(s => s.id));
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    CrmService.getLeads(query)
+      .then(all => setLeads(matches ? all.filter(matches) : all))
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load the leads'));
+  }, []);
+
+  const rows = (leads || []).filter(l => selectedStages.includes(l.status));
+
+  const toggleStage = (id: string) => {
+    setSelectedStages(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      const table = buildLeadExport(rows, stages, customFields);
+      downloadFile(format === 'csv' ? toCsv(table) : await toXlsx(table, 'Leads'), exportFilename(format));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <Card className="w-full max-w-md bg-slate-900 border-slate-800 shadow-2xl animate-in zoom-in-95 duration-200">
+        <CardHeader className="flex flex-row items-center justify-between border-b border-slate-800 pb-4">
+          <CardTitle className="text-lg font-bold text-white flex items-center gap-2">
+            <Download className="w-5 h-5 text-blue-500" />
+            Export Leads
+          </CardTitle>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-5">
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-slate-400 uppercase tracking-wider">Stages</label>
+            <div className="flex flex-wrap gap-2">
+              {stages.map(stage => {
+                const color = getStageColor(stage.color);
+                const active = selectedStages.includes(stage.id);
+                return (
+                  <button
+                    key={stage.id}
+                    onClick={() => toggleStage(stage.id)}
+                    className={cn(
+                      "px-3 py-1 rounded-full text-xs border transition-colors",
+                      active ? color.button : "border-slate-800 text-slate-500 hover:text-slate-300"
+                    )}
+                  >
+                    <span className={cn("inline-block w-1.5 h-1.5 rounded-full mr-1.5 align-middle", active ? color.dot : "bg-slate-700")} />
+                    {stage.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-slate-400 uppercase tracking-wider">Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['xlsx', 'csv'] as ExportFormat[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFormat(option)}
+                  className={cn(
+                    "py-2 rounded-lg text-sm border transition-colors",
+                    format === option ? "bg-blue-600/20 border-blue-600 text-blue-200" : "bg-slate-950 border-slate-800 text-slate-400 hover:text-white"
+                  )}
+                >
+                  {option === 'xlsx' ? 'Excel (.xlsx)' : 'CSV (.csv)'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {leads
+              ? `${rows.length} ${rows.length === 1 ? 'lead' : 'leads'} from the current board view (date range, search and filters apply).`
+              : 'Loading the matching leads…'}
+          </p>
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button onClick={onClose} className="flex-1 py-2.5 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 font-medium text-sm transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isWorking || rows.length === 0}
+              className="flex-1 py-2.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 font-medium text-sm transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isWorking ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Export
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
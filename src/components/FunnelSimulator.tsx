@@ -12,7 +12,10 @@ import {
 } from 'lucide-react';
 import { HealthPanel } from './HealthPanel';
 import { MonthlyProjection } from './MonthlyProjection';
+import { LossAnalysis } from './LossAnalysis';
 import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { LossReport } from '../types/crm';
 
 // Type for Saved Scenario
 interface Scenario {
@@ -31,6 +34,13 @@ export default function FunnelSimulator() {
   // --- CRM INTEGRATION ---
   const { getMetrics } = useAppStore();
   const [useCrmData, setUseCrmData] = useState(false);
+  const [losses, setLosses] = useState<LossReport | null>(null);
+
+  useEffect(() => {
+    CrmService.getLossReport()
+      .then(setLosses)
+      .catch(err => console.warn('⚠️ Failed to load the loss report:', err));
+  }, []);
 
   // --- REAL INPUTS ---
   const [spend, setSpend] = useState<number>(1.4);
@@ -78,6 +88,8 @@ export default function FunnelSimulator() {
       setMessages(metrics.messages);
       setPotential(metrics.potential);
       setSales(metrics.sales);
+      // Average of the won leads' order totals; keep the assumed AOV until something is sold
+      if (metrics.aov > 0) setAov(Math.round(metrics.aov * 100) / 100);
     }
   }, [useCrmData, getMetrics]); // In a real app, we'd listen to store changes more directly
 
@@ -420,6 +432,7 @@ export default function FunnelSimulator() {
                     roas: { label: 'Outcome (ROAS)', current: realRoas, benchmark: benchRoas, format: 'number' }
                   }}
                   dataQuality={{ clicks: effectiveClicks, messages: messages }}
+                  losses={losses}
                 />
                 
                 {decomposition && (
@@ -548,6 +561,9 @@ export default function FunnelSimulator() {
             />
           </div>
 
+          {/* Lost reasons recorded on the CRM board */}
+          {losses && losses.total > 0 && <LossAnalysis report={losses} />}
+
           {/* --- NEW MONTHLY PROJECTION SECTION --- */}
           <MonthlyProjection 
             inputs={{
@@ -4,6 +4,8 @@ import { Badge } from './ui/Badge';
 import { Activity, AlertTriangle, CheckCircle, TrendingDown, TrendingUp, Lightbulb } from 'lucide-react';
 import { cn, formatNumber, formatPercent } from '../lib/utils';
 import { THRESHOLDS } from '../lib/statistics';
+import { LossReport } from '../types/crm';
+import { LOST_REASON_ADVICE, lostReasonLabel, topLossReason } from '../../shared/lost';
 
 interface MetricHealth {
   label: string;
@@ -24,10 +26,12 @@ interface HealthPanelProps {
     clicks: number;
     messages: number;
   };
+  losses?: LossReport | null; // Lost reasons from the CRM turn the close-rate advice specific
 }
 
-export function HealthPanel({ metrics, dataQuality }: HealthPanelProps) {
-  
+export function HealthPanel({ metrics, dataQuality, losses }: HealthPanelProps) {
+  const topLoss = losses ? topLossReason(losses) : null;
+
   const getStatus = (current: number, benchmark: number, inverse = false) => {
     if (benchmark === 0) return 'neutral';
     const diff = ((current - benchmark) / benchmark) * 100;
@@ -56,6 +60,10 @@ export function HealthPanel({ metrics, dataQuality }: HealthPanelProps) {
       case 'msgRate':
         return "Weak intent. Improve creative hook, CTA, or offer alignment.";
       case 'closeRate':
+        if (topLoss) {
+          const share = formatPercent((topLoss.count / topLoss.recorded) * 100, 0);
+          return `${share} of recent losses: ${lostReasonLabel(topLoss.reason)}. ${LOST_REASON_ADVICE[topLoss.reason]}`;
+        }
         return "Sales friction. Check pricing, checkout flow, or sales script.";
       case 'roas':
         return "Efficiency drop. Pause high-CPA ads or reduce spend on broad targeting.";
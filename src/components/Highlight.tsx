@@ -0,0 +1,25 @@
+import { ReactNode } from 'react';
+import { findMatches } from '../../shared/search';
+
+/**
+ * Renders `text` with the parts matching the board search marked.
+ */
+export function Highlight({ text, query }: { text: string; query: string }) {
+  const ranges = query ? findMatches(text, query) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-500/30 text-yellow-100 rounded-sm px-0.5 -mx-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { X, Upload, FileSpreadsheet, AlertTriangle, CheckCircle, RefreshCw, Download, ArrowLeft } from 'lucide-react';
+import { LeadImportResult } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { cn } from '../lib/utils';
+import { SheetTable, readSpreadsheet, toCsv, downloadFile } from '../lib/spreadsheet';
+import { ImportTarget, MAX_IMPORT_ROWS, importTargetOptions, guessMapping, buildImportPreview } from '../lib/leadImport';
+import { normalizePhone, formatPhone } from '../../shared/phone';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const PREVIEW_ROWS = 100;
+
+const ACTION_LABELS = {
+  create: { label: 'New', className: 'text-green-400' },
+  update: { label: 'Update', className: 'text-blue-400' },
+  skip: { label: 'Skip (exists)', className: 'text-slate-500' },
+};
+
+export function ImportWizard({ onClose }: { onClose: () => void }) {
+  const { stages, customFields, users, reloadLeads } = useAppStore();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<SheetTable | null>(null);
+  const [mapping, setMapping] = useState<ImportTarget[]>([]);
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [existingPhones, setExistingPhones] = useState<Set<string>>(new Set());
+  const [results, setResults] = useState<LeadImportResult[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Dedupe runs against every lead, not just the current date range
+  useEffect(() => {
+    CrmService.getLeads().then(all => setExistingPhones(new Set(all.map(l => normalizePhone(l.phone) || l.phone))));
+  }, []);
+
+  const targetOptions = importTargetOptions(customFields, users);
+
+  const preview = useMemo(() => table
+    ? buildImportPreview(table, mapping, { stages, customFields, users, existingPhones, updateExisting })
+    : [], [table, mapping, stages, customFields, users, existingPhones, updateExisting]);
+
+  const validRows = preview.filter(r => r.errors.length === 0 && r.action !== 'skip');
+  const invalidCount = preview.filter(r => r.errors.length > 0).length;
+  const count = (action: string) => preview.filter(r => r.errors.length === 0 && r.action === action).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setIsWorking(true);
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        throw new Error('The file has no data rows below the header');
+      }
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`The file has ${parsed.rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers, customFields, users));
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const setTarget = (col: number, target: ImportTarget) => {
+    // A field can only come from one column
+    setMapping(prev => prev.map((t, i) => i === col ? target : (target && t === target ? '' : t)));
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      const imported = await CrmService.importLeads(validRows.map(r => r.input), updateExisting);
+      // Rows rejected in the preview belong in the report too
+      const rejected: LeadImportResult[] = preview
+        .filter(r => r.errors.length > 0)
+        .map(r => ({ row: r.input.row, status: 'error', error: r.errors.join('; ') }));
+      setResults([...imported, ...rejected].sort((a, b) => a.row - b.row));
+      setStep('done');
+      reloadLeads();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    const failed = results.filter(r => r.status === 'error');
+    downloadFile(toCsv({
+      headers: ['Row', ...(table?.headers || []), 'Error'],
+      rows: failed.map(r => [String(r.row), ...(table?.rows[r.row - 2] || []), r.error || ''])
+    }), `import_errors_${fileName.replace(/\.\w+$/, '')}.csv`);
+  };
+
+  const resultCount = (status: LeadImportResult['status']) => results.filter(r => r.status === status).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <Card className="w-full max-w-4xl bg-slate-900 border-slate-800 shadow-2xl animate-in zoom-in-95 duration-200">
+        <CardHeader className="flex flex-row items-center justify-between border-b border-slate-800 pb-4">
+          <CardTitle className="text-lg font-bold text-white flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-green-500" />
+            Import Leads
+            {fileName && <span className="text-xs font-normal text-slate-500">· {fileName}</span>}
+          </CardTitle>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </CardHeader>
+        <CardContent className="pt-6 max-h-[75vh] overflow-y-auto custom-scrollbar space-y-4">
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 py-16 border-2 border-dashed border-slate-700 rounded-xl cursor-pointer hover:border-blue-600 hover:bg-blue-950/10 transition-colors">
+              {isWorking ? <RefreshCw className="w-8 h-8 text-blue-400 animate-spin" /> : <Upload className="w-8 h-8 text-slate-500" />}
+              <span className="text-sm text-slate-300">Choose a .csv or .xlsx file</span>
+              <span className="text-xs text-slate-500">The first row must contain the column names. Phones already in the CRM are updated, not duplicated.</span>
+              <input type="file" accept=".csv,.txt,.xlsx" onChange={handleFile} className="hidden" />
+            </label>
+          )}
+
+          {step === 'map' && table && (
+            <>
+              <p className="text-xs text-slate-400">Choose which lead field each column fills. Unmapped columns are ignored.</p>
+              <div className="space-y-2">
+                {table.headers.map((header, col) => (
+                  <div key={col} className="grid grid-cols-[1fr_1fr_220px] items-center gap-3 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">
+                    <span className="text-sm text-slate-200 truncate">{header || `Column ${col + 1}`}</span>
+                    <span className="text-xs text-slate-500 truncate italic">{table.rows[0]?.[col] || '—'}</span>
+                    <select
+                      value={mapping[col] || ''}
+                      onChange={e => setTarget(col, e.target.value as ImportTarget)}
+                      className="h-8 bg-slate-900 border border-slate-800 text-slate-300 text-xs rounded px-2"
+                    >
+                      {targetOptions.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input type="checkbox" checked={updateExisting} onChange={e => setUpdateExisting(e.target.checked)} />
+                Update leads whose phone is already in the CRM (otherwise skip them)
+              </label>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="flex flex-wrap gap-3 text-xs">
+                <span className="text-green-400">{count('create')} new</span>
+                <span className="text-blue-400">{count('update')} to update</span>
+                <span className="text-slate-500">{count('skip')} skipped</span>
+                <span className={invalidCount > 0 ? "text-red-400" : "text-slate-500"}>{invalidCount} with errors (not imported)</span>
+              </div>
+              <div className="overflow-x-auto border border-slate-800 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-950 text-slate-400">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left">Row</th>
+                      <th className="px-2 py-1.5 text-left">Phone</th>
+                      <th className="px-2 py-1.5 text-left">Name</th>
+                      <th className="px-2 py-1.5 text-left">Status</th>
+                      <th className="px-2 py-1.5 text-left">Value</th>
+                      <th className="px-2 py-1.5 text-left">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.slice(0, PREVIEW_ROWS).map(({ input, action, errors }) => (
+                      <tr key={input.row} className={cn("border-t border-slate-800", errors.length > 0 && "bg-red-950/20")}>
+                        <td className="px-2 py-1.5 text-slate-500">{input.row}</td>
+                        <td className="px-2 py-1.5 text-slate-200 font-mono">{input.phone ? formatPhone(input.phone) : '—'}</td>
+                        <td className="px-2 py-1.5 text-slate-300">{input.name || ''}</td>
+                        <td className="px-2 py-1.5 text-slate-400">{input.status ? stages.find(s => s.id === input.status)?.name : ''}</td>
+                        <td className="px-2 py-1.5 text-slate-400">{input.value ?? ''}</td>
+                        <td className="px-2 py-1.5">
+                          {errors.length > 0
+                            ? <span className="text-red-300">{errors.join('; ')}</span>
+                            : <span className={ACTION_LABELS[action].className}>{ACTION_LABELS[action].label}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.length > PREVIEW_ROWS && (
+                <p className="text-[10px] text-slate-500">Showing the first {PREVIEW_ROWS} of {preview.length} rows.</p>
+              )}
+            </>
+          )}
+
+          {step === 'done' && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm text-slate-200">
+                <CheckCircle className="w-5 h-5 text-green-500" />
+                {resultCount('created')} created, {resultCount('updated')} updated, {resultCount('skipped')} skipped, {resultCount('error')} failed
+              </div>
+              {resultCount('error') > 0 && (
+                <>
+                  <ul className="max-h-64 overflow-y-auto custom-scrollbar space-y-1">
+                    {results.filter(r => r.status === 'error').map(r => (
+                      <li key={r.row} className="text-xs text-red-300 bg-red-950/20 border border-red-900/30 rounded px-2 py-1">
+                        Row {r.row}: {r.error}
+                      </li>
+                    ))}
+                  </ul>
+                  <button onClick={downloadErrorReport} className="flex items-center gap-2 text-xs text-slate-300 hover:text-white">
+                    <Download className="w-3.5 h-3.5" /> Download error report (CSV)
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step !== 'upload' && (
+            <div className="pt-2 flex gap-3">
+              {step === 'done' ? (
+                <button onClick={onClose} className="flex-1 py-2.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 font-medium text-sm transition-colors">
+                  Close
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => step === 'map' ? setStep('upload') : setStep('map')}
+                    className="flex-1 py-2.5 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 font-medium text-sm transition-colors flex items-center justify-center gap-2"
+                  >
+                    <ArrowLeft className="w-4 h-4" /> Back
+                  </button>
+                  {step === 'map' ? (
+                    <button
+                      onClick={() => setStep('preview')}
+                      disabled={!mapping.includes('phone')}
+                      title={mapping.includes('phone') ? undefined : 'Map a column to Phone first'}
+                      className="flex-1 py-2.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 font-medium text-sm transition-colors disabled:opacity-50"
+                    >
+                      Preview
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleImport}
+                      disabled={isWorking || validRows.length === 0}
+                      className="flex-1 py-2.5 rounded-lg bg-green-600 text-white hover:bg-green-500 font-medium text-sm transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                      {isWorking && <RefreshCw className="w-4 h-4 animate-spin" />}
+                      Import {validRows.length} {validRows.length === 1 ? 'lead' : 'leads'}
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
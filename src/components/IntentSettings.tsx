@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { TrendingUp, RefreshCcw, AlertTriangle } from 'lucide-react';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function IntentSettings() {
+  const { intentModel, trainIntentModel } = useAppStore();
+  const currentUser = CrmService.getCurrentUser();
+  const canEdit = !currentUser || currentUser.role === 'admin'; // Offline: this device is the admin
+  const [isTraining, setIsTraining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTrain = async () => {
+    setIsTraining(true);
+    setError(null);
+    try {
+      await trainIntentModel();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Training failed');
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const report = intentModel?.report;
+  const noBetterThanGuessing = !!report && report.accuracy !== null && report.baseline !== null && report.accuracy <= report.baseline;
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-green-400" />
+          Win Prediction
+        </CardTitle>
+        <p className="text-xs text-slate-500">
+          Learns which words in the customer's messages come before a sale, from the leads already won or lost, and shows the chance on open cards.
+          Retrain from here or on the server with <code className="text-slate-400">npm run train-intent</code>.
+          {!canEdit && ' Only admins can retrain.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {report ? (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <div className="bg-slate-950 border border-slate-800 rounded-lg p-2">
+              <p className="text-[10px] text-slate-500 uppercase">Closed leads</p>
+              <p className="text-sm text-slate-200">{report.examples}</p>
+              <p className="text-[10px] text-slate-500">{report.won} won · {report.lost} lost</p>
+            </div>
+            <div className="bg-slate-950 border border-slate-800 rounded-lg p-2">
+              <p className="text-[10px] text-slate-500 uppercase">Holdout accuracy</p>
+              <p className="text-sm text-slate-200">{report.accuracy !== null ? percent(report.accuracy) : '—'}</p>
+              <p className="text-[10px] text-slate-500">on {report.holdout} held-out leads</p>
+            </div>
+            <div className="bg-slate-950 border border-slate-800 rounded-lg p-2">
+              <p className="text-[10px] text-slate-500 uppercase">Guessing baseline</p>
+              <p className="text-sm text-slate-200">{report.baseline !== null ? percent(report.baseline) : '—'}</p>
+              <p className="text-[10px] text-slate-500">always the common outcome</p>
+            </div>
+            <div className="bg-slate-950 border border-slate-800 rounded-lg p-2">
+              <p className="text-[10px] text-slate-500 uppercase">Trained</p>
+              <p className="text-sm text-slate-200">{new Date(report.trained_at).toLocaleDateString()}</p>
+              <p className="text-[10px] text-slate-500">{report.vocabulary} words</p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-600 text-center py-4">Not trained yet: cards show no win chance</p>
+        )}
+
+        {noBetterThanGuessing && (
+          <div className="flex items-start gap-2 text-xs text-amber-300 bg-amber-950/30 border border-amber-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>The model does no better than guessing on held-out leads. Treat the percentages as noise until there is more history.</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex justify-end">
+            <button
+              onClick={handleTrain}
+              disabled={isTraining}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              <RefreshCcw className="w-3.5 h-3.5" /> {isTraining ? 'Training...' : report ? 'Retrain' : 'Train'}
+            </button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
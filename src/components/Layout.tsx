@@ -1,14 +1,22 @@
 import { Link, useLocation } from 'react-router-dom';
-import { LayoutDashboard, Calculator, ShieldCheck, MessageCircle } from 'lucide-react';
+import { LayoutDashboard, Calculator, ShieldCheck, MessageCircle, Settings, LogOut, Megaphone, CloudOff, Trash2 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { CrmService } from '../services/CrmService';
+import { useAppStore } from '../context/Store';
 
-export default function Layout({ children }: { children: React.ReactNode }) {
+export default function Layout({ children, onLogout }: { children: React.ReactNode, onLogout: () => void }) {
   const location = useLocation();
+  const user = CrmService.getCurrentUser();
+  const { outbox } = useAppStore();
+  const hasConflicts = outbox.some(e => e.state !== 'pending');
 
   const navItems = [
     { name: 'Simulator', path: '/', icon: <Calculator className="w-5 h-5" /> },
     { name: 'CRM (Classic)', path: '/crm', icon: <LayoutDashboard className="w-5 h-5" /> },
+    { name: 'Campaigns', path: '/campaigns', icon: <Megaphone className="w-5 h-5" /> },
     { name: 'Meta API Lab', path: '/meta-lab', icon: <ShieldCheck className="w-5 h-5" /> },
+    { name: 'Trash', path: '/trash', icon: <Trash2 className="w-5 h-5" /> },
+    { name: 'Settings', path: '/settings', icon: <Settings className="w-5 h-5" /> },
   ];
 
   return (
@@ -40,10 +48,32 @@ export default function Layout({ children }: { children: React.ReactNode }) {
           ))}
         </nav>
 
+        {outbox.length > 0 && (
+          <div className="px-4 pb-4">
+            <Link
+              to="/sync"
+              className={cn(
+                "flex items-center gap-2 px-4 py-2 rounded-lg text-xs font-medium border transition-colors",
+                hasConflicts
+                  ? "bg-red-950/30 border-red-900/40 text-red-300 hover:bg-red-950/50"
+                  : "bg-yellow-950/20 border-yellow-900/30 text-yellow-300 hover:bg-yellow-950/40"
+              )}
+            >
+              <CloudOff className="w-4 h-4" />
+              {outbox.length} {outbox.length === 1 ? 'change' : 'changes'} pending sync
+            </Link>
+          </div>
+        )}
+
         <div className="p-4 mt-auto border-t border-slate-800">
           <div className="bg-slate-950 rounded-lg p-3 text-xs text-slate-500">
             <p>Version 2.1.0</p>
-            <p className="mt-1">Connected: Local Mode</p>
+            <p className="mt-1">
+              {user ? <>Signed in: <span className="text-slate-300">{user.name || user.username}</span> ({user.role})</> : 'Connected: Local Mode'}
+            </p>
+            <button onClick={onLogout} className="mt-2 flex items-center gap-1.5 text-slate-400 hover:text-white transition-colors">
+              <LogOut className="w-3.5 h-3.5" /> {user ? 'Sign out' : 'Sign in to a server'}
+            </button>
           </div>
         </div>
       </aside>
@@ -2,8 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
 import { Input } from './ui/Input';
 import { Label } from './ui/Label';
-import { X, Save, Phone, User, MessageSquare, DollarSign, ShoppingBag } from 'lucide-react';
-import { Lead } from '../types/crm';
+import { X, Save, Phone, User, MessageSquare, DollarSign, ShoppingBag, Tag, SlidersHorizontal } from 'lucide-react';
+import { Lead, CustomFieldValues, Product } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { normalizePhone, formatPhone } from '../../shared/phone';
+import { searchProducts } from '../../shared/products';
+import { hasOrder, orderSummary } from '../../shared/orders';
+import { cn, formatCurrency } from '../lib/utils';
 
 interface LeadFormProps {
   initialData?: Lead;
@@ -12,36 +17,111 @@ interface LeadFormProps {
 }
 
 export function LeadForm({ initialData, onSave, onCancel }: LeadFormProps) {
+  const { customFields, products } = useAppStore();
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+  const [phoneTouched, setPhoneTouched] = useState(false);
+  const [showProducts, setShowProducts] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
   const [formData, setFormData] = useState({
     phone: '',
     name: '',
     message: '',
     value: '',
-    product_name: ''
+    product_name: '',
+    product_id: null as string | null
   });
 
   useEffect(() => {
     if (initialData) {
       setFormData({
-        phone: initialData.phone,
+        phone: formatPhone(initialData.phone),
         name: initialData.name || '',
         message: initialData.last_message || '',
         value: initialData.value ? initialData.value.toString() : '',
-        product_name: initialData.product_name || ''
+        product_name: initialData.product_name || '',
+        product_id: initialData.product_id || null
       });
+      setTags(initialData.tags || []);
+      setFieldValues(Object.fromEntries(
+        Object.entries(initialData.custom_fields || {}).map(([key, value]) => [key, String(value)])
+      ));
     }
   }, [initialData]);
 
+  // Local numbers (050..., 50...) are read as Azerbaijani
+  const normalizedPhone = normalizePhone(formData.phone);
+
+  const linkedProduct = products.find(p => p.id === formData.product_id);
+  // An order owns the lead's product and value; they are edited in the conversation's Order tab
+  const order = initialData && hasOrder(initialData) ? initialData.order_items! : null;
+  const productMatches = showProducts ? searchProducts(products, formData.product_name) : [];
+
+  // Picking a catalog product links it and fills in its price
+  const selectProduct = (product: Product) => {
+    setFormData({ ...formData, product_name: product.name, product_id: product.id, value: String(product.price) });
+    setShowProducts(false);
+  };
+
+  const handleProductKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (productMatches.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((highlighted + step + productMatches.length) % productMatches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectProduct(productMatches[Math.min(highlighted, productMatches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setShowProducts(false);
+    }
+  };
+
+  const addTag = (raw: string) => {
+    const tag = raw.trim();
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+      setTags([...tags, tag]);
+    }
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      setTags(tags.slice(0, -1));
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.phone) return;
+    const phone = normalizePhone(formData.phone);
+    if (!phone) {
+      setPhoneTouched(true);
+      return;
+    }
+
+    // Only defined fields are sent; numbers go over the wire as numbers
+    const custom_fields: CustomFieldValues = {};
+    customFields.forEach(field => {
+      const value = fieldValues[field.id];
+      if (value === undefined || value === '') return;
+      custom_fields[field.id] = field.type === 'number' ? Number(value) : value;
+    });
 
     const data = {
-      phone: formData.phone,
+      phone,
       name: formData.name || 'Unknown',
       last_message: formData.message,
-      value: parseFloat(formData.value) || 0,
-      product_name: formData.product_name,
+      ...(order ? {} : {
+        value: parseFloat(formData.value) || 0,
+        product_name: formData.product_name,
+        product_id: formData.product_id
+      }),
+      tags: tagInput.trim() ? [...tags, tagInput.trim()] : tags,
+      custom_fields,
       source: initialData ? initialData.source : 'manual'
     };
 
@@ -61,7 +141,7 @@ export function LeadForm({ initialData, onSave, onCancel }: LeadFormProps) {
             <X className="w-5 h-5" />
           </button>
         </CardHeader>
-        <CardContent className="pt-6">
+        <CardContent className="pt-6 max-h-[80vh] overflow-y-auto custom-scrollbar">
           <form onSubmit={handleSubmit} className="space-y-4">
             
             <div className="space-y-2">
@@ -73,8 +153,14 @@ export function LeadForm({ initialData, onSave, onCancel }: LeadFormProps) {
                 placeholder="+994 50 000 00 00" 
                 value={formData.phone}
                 onChange={e => setFormData({...formData, phone: e.target.value})}
+                onBlur={() => setPhoneTouched(true)}
                 className="bg-slate-950 border-slate-800 focus:border-blue-500"
               />
+              {phoneTouched && formData.phone && (
+                normalizedPhone
+                  ? <p className="text-[10px] text-slate-500">Saved as {formatPhone(normalizedPhone)}</p>
+                  : <p className="text-[10px] text-red-400">Not a valid number. Use 050 123 45 67 or +994 50 123 45 67</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -93,12 +179,62 @@ export function LeadForm({ initialData, onSave, onCancel }: LeadFormProps) {
               <Label className="flex items-center gap-2">
                 <ShoppingBag className="w-3 h-3" /> Order Name (Product)
               </Label>
-              <Input 
-                placeholder="iPhone 15 Case, etc." 
-                value={formData.product_name}
-                onChange={e => setFormData({...formData, product_name: e.target.value})}
-                className="bg-slate-950 border-slate-800 focus:border-blue-500"
-              />
+              {order ? (
+                <div className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 space-y-0.5">
+                  <p className="text-sm text-slate-200 truncate">{orderSummary(order)}</p>
+                  <p className="text-[10px] text-slate-500">
+                    {order.length} {order.length === 1 ? 'item' : 'items'} · {formatCurrency(Number(initialData!.value || 0), 'AZN')} total · edit in the conversation's Order tab
+                  </p>
+                </div>
+              ) : (
+              <>
+              <div className="relative">
+                <Input
+                  placeholder={products.some(p => p.active) ? 'Search the catalog or type a name' : 'iPhone 15 Case, etc.'}
+                  value={formData.product_name}
+                  onChange={e => {
+                    // Typing unlinks the catalog product until one is picked again
+                    setFormData({ ...formData, product_name: e.target.value, product_id: null });
+                    setShowProducts(true);
+                    setHighlighted(0);
+                  }}
+                  onFocus={() => setShowProducts(true)}
+                  onBlur={() => setShowProducts(false)}
+                  onKeyDown={handleProductKeyDown}
+                  className="bg-slate-950 border-slate-800 focus:border-blue-500"
+                />
+                {productMatches.length > 0 && (
+                  <div className="absolute z-10 mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden">
+                    {productMatches.map((product, index) => (
+                      <button
+                        key={product.id}
+                        type="button"
+                        // mousedown fires before the input's blur closes the list
+                        onMouseDown={e => { e.preventDefault(); selectProduct(product); }}
+                        onMouseEnter={() => setHighlighted(index)}
+                        className={cn(
+                          "w-full flex items-center gap-2 px-3 py-2 text-left text-sm transition-colors",
+                          index === highlighted ? "bg-blue-600/20 text-white" : "text-slate-300"
+                        )}
+                      >
+                        <span className="font-mono text-[10px] text-slate-500 w-20 truncate">{product.sku}</span>
+                        <span className="flex-1 truncate">{product.name}</span>
+                        <span className="text-xs text-slate-400">{formatCurrency(product.price, 'AZN')}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {linkedProduct ? (
+                <p className="text-[10px] text-slate-500">
+                  Catalog product {linkedProduct.sku} · {formatCurrency(linkedProduct.price, 'AZN')}
+                  {!linkedProduct.active && ' (inactive)'}
+                </p>
+              ) : formData.product_name && products.length > 0 && (
+                <p className="text-[10px] text-amber-400/80">Not in the catalog, so it won't count in revenue by product</p>
+              )}
+              </>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -120,12 +256,70 @@ export function LeadForm({ initialData, onSave, onCancel }: LeadFormProps) {
               <Input 
                 type="number"
                 placeholder="0.00" 
+                disabled={!!order}
+                title={order ? 'The order total' : undefined}
                 value={formData.value}
                 onChange={e => setFormData({...formData, value: e.target.value})}
                 className="bg-slate-950 border-slate-800 focus:border-blue-500"
               />
             </div>
 
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Tag className="w-3 h-3" /> Tags
+              </Label>
+              <div className="flex flex-wrap items-center gap-1.5 min-h-10 rounded-md border border-slate-800 bg-slate-950 px-2 py-1.5 focus-within:border-blue-500">
+                {tags.map(tag => (
+                  <span key={tag} className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-cyan-950/40 text-cyan-300 border border-cyan-900/40">
+                    {tag}
+                    <button type="button" onClick={() => setTags(tags.filter(t => t !== tag))} className="hover:text-white">
+                      <X className="w-2.5 h-2.5" />
+                    </button>
+                  </span>
+                ))}
+                <input
+                  placeholder={tags.length ? '' : 'vip, wholesale... (Enter to add)'}
+                  value={tagInput}
+                  onChange={e => setTagInput(e.target.value)}
+                  onKeyDown={handleTagKeyDown}
+                  onBlur={() => tagInput && addTag(tagInput)}
+                  className="flex-1 min-w-[80px] bg-transparent text-sm text-slate-200 placeholder:text-slate-500 outline-none"
+                />
+              </div>
+            </div>
+
+            {customFields.length > 0 && (
+              <div className="space-y-3 border-t border-slate-800 pt-4">
+                <Label className="flex items-center gap-2 text-slate-400">
+                  <SlidersHorizontal className="w-3 h-3" /> Custom Fields
+                </Label>
+                {customFields.map(field => (
+                  <div key={field.id} className="space-y-1">
+                    <Label className="text-xs text-slate-400">{field.label}</Label>
+                    {field.type === 'select' ? (
+                      <select
+                        value={fieldValues[field.id] || ''}
+                        onChange={e => setFieldValues({ ...fieldValues, [field.id]: e.target.value })}
+                        className="w-full h-10 bg-slate-950 border border-slate-800 text-slate-200 text-sm rounded-md px-3 focus:border-blue-500 outline-none"
+                      >
+                        <option value="">—</option>
+                        {field.options.map(option => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <Input
+                        type={field.type === 'text' ? 'text' : field.type}
+                        value={fieldValues[field.id] || ''}
+                        onChange={e => setFieldValues({ ...fieldValues, [field.id]: e.target.value })}
+                        className="bg-slate-950 border-slate-800 focus:border-blue-500"
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="pt-4 flex gap-3">
               <button 
                 type="button" 
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, AlertTriangle, Truck } from 'lucide-react';
+import { Lead, OrderItem } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { useToast } from './ui/Toast';
+import { formatCurrency } from '../lib/utils';
+import { lineTotal } from '../../shared/orders';
+
+// Numbers are edited as text so a half-typed "12." doesn't jump around
+type DraftItem = { product_id: string | null; name: string; quantity: string; unit_price: string; discount: string };
+
+const toDraftItem = (item: OrderItem): DraftItem => ({
+  product_id: item.product_id,
+  name: item.name,
+  quantity: String(item.quantity),
+  unit_price: String(item.unit_price),
+  discount: item.discount ? String(item.discount) : ''
+});
+
+const num = (value: string) => Number(value) || 0;
+
+const inputClass = "h-8 rounded-lg border border-slate-800 bg-slate-900 px-2 text-xs text-slate-200 placeholder:text-slate-500 focus:outline-none focus:border-blue-500";
+
+export function LeadOrder({ lead }: { lead: Lead }) {
+  const { leads, products, saveOrder } = useAppStore();
+  const { toast } = useToast();
+  // The board copy is updated by saves and by other dashboards
+  const current = leads.find(l => l.id === lead.id) || lead;
+  const savedItems = current.order_items || [];
+  const savedKey = JSON.stringify([savedItems, Number(current.delivery_fee || 0)]);
+
+  const [items, setItems] = useState<DraftItem[]>(savedItems.map(toDraftItem));
+  const [deliveryFee, setDeliveryFee] = useState(current.delivery_fee ? String(current.delivery_fee) : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setItems(savedItems.map(toDraftItem));
+    setDeliveryFee(current.delivery_fee ? String(current.delivery_fee) : '');
+  }, [savedKey]);
+
+  const updateItem = (index: number, updates: Partial<DraftItem>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...updates } : item));
+  };
+
+  const addProduct = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+    setItems(prev => [...prev, { product_id: product.id, name: product.name, quantity: '1', unit_price: String(product.price), discount: '' }]);
+  };
+
+  const subtotal = items.reduce((sum, item) => sum + lineTotal({ quantity: num(item.quantity), unit_price: num(item.unit_price), discount: num(item.discount) }), 0);
+  const total = items.length ? subtotal + num(deliveryFee) : 0;
+  const isDirty = JSON.stringify([items, deliveryFee]) !== JSON.stringify([savedItems.map(toDraftItem), current.delivery_fee ? String(current.delivery_fee) : '']);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveOrder(lead.id, {
+        items: items.map(item => ({
+          product_id: item.product_id,
+          name: item.name,
+          quantity: Number(item.quantity),
+          unit_price: num(item.unit_price),
+          discount: num(item.discount)
+        })),
+        delivery_fee: num(deliveryFee)
+      });
+      toast({ title: 'Order saved', description: `Lead value is now ${formatCurrency(Number(saved.value || 0), 'AZN')}`, variant: 'success' });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save the order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {items.length === 0 ? (
+        <div className="text-center py-6 text-slate-600 text-sm">
+          No order yet. Add products to compute the lead's value from them.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex gap-2 px-1 text-[10px] uppercase tracking-wider text-slate-500">
+            <span className="flex-1">Item</span>
+            <span className="w-14">Qty</span>
+            <span className="w-20">Unit ₼</span>
+            <span className="w-20">Discount ₼</span>
+            <span className="w-20 text-right">Total</span>
+            <span className="w-6"></span>
+          </div>
+          {items.map((item, index) => (
+            <div key={index} className="flex items-center gap-2 bg-slate-900 border border-slate-800 rounded-lg p-1.5">
+              <input
+                value={item.name}
+                onChange={e => updateItem(index, { name: e.target.value })}
+                placeholder="Item name"
+                title={item.product_id ? 'From the catalog' : 'Custom item'}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <input type="number" min="1" step="1" value={item.quantity} onChange={e => updateItem(index, { quantity: e.target.value })} className={`${inputClass} w-14`} />
+              <input type="number" min="0" step="0.01" value={item.unit_price} onChange={e => updateItem(index, { unit_price: e.target.value })} className={`${inputClass} w-20`} />
+              <input type="number" min="0" step="0.01" value={item.discount} placeholder="0" onChange={e => updateItem(index, { discount: e.target.value })} className={`${inputClass} w-20`} />
+              <span className="w-20 text-right text-xs font-mono text-slate-300">
+                {formatCurrency(lineTotal({ quantity: num(item.quantity), unit_price: num(item.unit_price), discount: num(item.discount) }), 'AZN')}
+              </span>
+              <button onClick={() => setItems(prev => prev.filter((_, i) => i !== index))} title="Remove item" className="w-6 p-1 text-slate-600 hover:text-red-400">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value=""
+          onChange={e => addProduct(e.target.value)}
+          className={`${inputClass} flex-1 min-w-[160px]`}
+        >
+          <option value="">+ Add a catalog product...</option>
+          {products.filter(p => p.active).map(product => (
+            <option key={product.id} value={product.id}>{product.name} · {product.sku} · {formatCurrency(product.price, 'AZN')}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setItems(prev => [...prev, { product_id: null, name: '', quantity: '1', unit_price: '', discount: '' }])}
+          className="h-8 px-3 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium flex items-center gap-1.5 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> Custom Item
+        </button>
+      </div>
+
+      {items.length > 0 && (
+        <div className="border-t border-slate-800 pt-3 space-y-1.5 text-xs">
+          <div className="flex justify-between text-slate-400">
+            <span>Subtotal</span>
+            <span className="font-mono">{formatCurrency(subtotal, 'AZN')}</span>
+          </div>
+          <div className="flex items-center justify-between text-slate-400">
+            <span className="flex items-center gap-1.5"><Truck className="w-3.5 h-3.5" /> Delivery fee</span>
+            <input type="number" min="0" step="0.01" value={deliveryFee} placeholder="0" onChange={e => setDeliveryFee(e.target.value)} className={`${inputClass} w-24 text-right`} />
+          </div>
+          <div className="flex justify-between text-sm font-bold text-green-400">
+            <span>Total</span>
+            <span className="font-mono">{formatCurrency(total, 'AZN')}</span>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[10px] text-slate-500">
+          {savedItems.length > 0 && items.length === 0
+            ? 'Saving an empty order keeps the current value; it can then be typed by hand again.'
+            : 'The lead value is the order total.'}
+        </p>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !isDirty}
+          className="h-8 px-3 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium flex items-center gap-1.5 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-3.5 h-3.5" /> {isSaving ? 'Saving...' : 'Save Order'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, AlertTriangle, CheckSquare, Square, Clock } from 'lucide-react';
+import { LeadTask } from '../types/crm';
+import { CrmService } from '../services/CrmService';
+import { useAppStore } from '../context/Store';
+import { cn } from '../lib/utils';
+import { isOverdue, formatDueDate, toDateTimeLocal } from '../lib/tasks';
+
+export function LeadTasks({ leadId }: { leadId: string }) {
+  const { tasks, addTask, updateTask, removeTask } = useAppStore();
+  const [doneTasks, setDoneTasks] = useState<LeadTask[]>([]);
+  const [dueAt, setDueAt] = useState(() => toDateTimeLocal(new Date(Date.now() + 24 * 60 * 60 * 1000)));
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Open tasks live in the store; completed ones are only needed here
+  const openTasks = tasks.filter(t => t.lead_id === leadId);
+
+  useEffect(() => {
+    let cancelled = false;
+    CrmService.getTasks({ leadId, done: true }).then((list) => {
+      if (!cancelled) setDoneTasks(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [leadId]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Task update failed');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dueAt || isSaving) return;
+    setIsSaving(true);
+    await run(async () => {
+      await addTask(leadId, { due_at: new Date(dueAt).toISOString(), note });
+      setNote('');
+    });
+    setIsSaving(false);
+  };
+
+  const handleToggle = (task: LeadTask) => run(async () => {
+    await updateTask(task.id, { done: !task.done });
+    setDoneTasks(prev => task.done
+      ? prev.filter(t => t.id !== task.id)
+      : [{ ...task, done: true, done_at: new Date().toISOString() }, ...prev]);
+  });
+
+  const handleRemove = (task: LeadTask) => run(async () => {
+    await removeTask(task.id);
+    setDoneTasks(prev => prev.filter(t => t.id !== task.id));
+  });
+
+  const renderTask = (task: LeadTask) => {
+    const overdue = isOverdue(task);
+    return (
+      <li key={task.id} className="flex items-start gap-2 bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 group">
+        <button onClick={() => handleToggle(task)} className="mt-0.5 text-slate-500 hover:text-green-400">
+          {task.done ? <CheckSquare className="w-4 h-4 text-green-500" /> : <Square className="w-4 h-4" />}
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className={cn("text-sm break-words", task.done ? "text-slate-500 line-through" : "text-slate-200")}>
+            {task.note || 'Follow up'}
+          </p>
+          <p className={cn("text-[10px] flex items-center gap-1 mt-0.5", overdue ? "text-red-400 font-semibold" : "text-slate-500")}>
+            <Clock className="w-2.5 h-2.5" /> {overdue ? 'Overdue · ' : ''}{formatDueDate(task)}
+          </p>
+        </div>
+        <button onClick={() => handleRemove(task)} className="p-1 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+        <input
+          type="datetime-local"
+          required
+          value={dueAt}
+          onChange={e => setDueAt(e.target.value)}
+          className="h-9 rounded-lg border border-slate-800 bg-slate-900 px-2 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+        />
+        <input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="e.g. Call back about the price"
+          className="h-9 flex-1 min-w-[160px] rounded-lg border border-slate-800 bg-slate-900 px-3 text-sm text-slate-200 placeholder:text-slate-500 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="h-9 px-3 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium flex items-center gap-1.5 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-3.5 h-3.5" /> Add Task
+        </button>
+      </form>
+
+      {error && (
+        <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {openTasks.length === 0 && doneTasks.length === 0 ? (
+        <div className="text-center py-8 text-slate-600 text-sm">No follow-ups planned</div>
+      ) : (
+        <ul className="space-y-2">
+          {openTasks.map(renderTask)}
+          {doneTasks.map(renderTask)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowRightLeft, DollarSign, ShoppingBag, MessageSquare, Send, PlusCircle, Trash2, RefreshCw, Tag, SlidersHorizontal, ListTodo, CheckSquare, UserCheck, GitMerge, UserPen, ArchiveRestore } from 'lucide-react';
+import { LeadActivity, ActivityType, AssignmentMode, LostReason } from '../types/crm';
+import { CrmService } from '../services/CrmService';
+import { useAppStore } from '../context/Store';
+import { ownerName, ASSIGNMENT_MODE_LABELS } from '../lib/owners';
+import { formatPhone } from '../../shared/phone';
+import { lostReasonLabel } from '../../shared/lost';
+
+const ACTIVITY_ICONS: Record<ActivityType, React.ReactNode> = {
+  created: <PlusCircle className="w-3.5 h-3.5 text-blue-400" />,
+  contact_changed: <UserPen className="w-3.5 h-3.5 text-blue-400" />,
+  status_changed: <ArrowRightLeft className="w-3.5 h-3.5 text-purple-400" />,
+  value_changed: <DollarSign className="w-3.5 h-3.5 text-green-400" />,
+  product_changed: <ShoppingBag className="w-3.5 h-3.5 text-yellow-400" />,
+  order_changed: <ShoppingBag className="w-3.5 h-3.5 text-green-400" />,
+  tags_changed: <Tag className="w-3.5 h-3.5 text-cyan-400" />,
+  fields_changed: <SlidersHorizontal className="w-3.5 h-3.5 text-cyan-400" />,
+  assigned: <UserCheck className="w-3.5 h-3.5 text-blue-400" />,
+  task_created: <ListTodo className="w-3.5 h-3.5 text-orange-400" />,
+  task_completed: <CheckSquare className="w-3.5 h-3.5 text-green-400" />,
+  message_in: <MessageSquare className="w-3.5 h-3.5 text-slate-400" />,
+  message_out: <Send className="w-3.5 h-3.5 text-green-400" />,
+  merged: <GitMerge className="w-3.5 h-3.5 text-purple-400" />,
+  deleted: <Trash2 className="w-3.5 h-3.5 text-red-400" />,
+  restored: <ArchiveRestore className="w-3.5 h-3.5 text-green-400" />,
+};
+
+// What brought a lead out of the trash besides the Trash page (see announceRestore on the server)
+const RESTORED_VIA_LABELS: Record<string, string> = {
+  message: 'new message',
+  added: 'number added again',
+  import: 'imported again',
+};
+
+export function LeadTimeline({ leadId }: { leadId: string }) {
+  const { stages, customFields, users } = useAppStore();
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    CrmService.getActivities(leadId).then((entries) => {
+      if (cancelled) return;
+      setActivities(entries);
+      setIsLoading(false);
+    });
+
+    const unsubscribe = CrmService.onActivity((activity) => {
+      if (activity.lead_id !== leadId) return;
+      setActivities(prev => prev.some(a => a.id === activity.id) ? prev : [...prev, activity]);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [leadId]);
+
+  const stageName = (id: unknown) => stages.find(s => s.id === id)?.name || String(id);
+
+  const changedFields = (from: unknown, to: unknown) => {
+    const before = (from || {}) as Record<string, unknown>;
+    const after = (to || {}) as Record<string, unknown>;
+    return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(key => before[key] !== after[key])
+      .map(key => `${customFields.find(f => f.id === key)?.label || key}: ${after[key] ?? '—'}`)
+      .join(', ');
+  };
+
+  const describe = (activity: LeadActivity): string => {
+    const { data } = activity;
+    switch (activity.type) {
+      case 'created':
+        return `Lead created (${data.source || 'manual'})`;
+      case 'contact_changed':
+        return data.field === 'phone'
+          ? `Phone changed from ${formatPhone(String(data.from || ''))} to ${formatPhone(String(data.to || ''))}`
+          : `Name changed from "${data.from || '—'}" to "${data.to || '—'}"`;
+      case 'status_changed': {
+        const moved = `Moved from ${stageName(data.from)} to ${stageName(data.to)}`;
+        if (!data.lost_reason) return moved;
+        return `${moved}: ${lostReasonLabel(data.lost_reason as LostReason)}${data.lost_note ? ` (${data.lost_note})` : ''}`;
+      }
+      case 'value_changed':
+        return `Value changed from ${data.from} to ${data.to} AZN`;
+      case 'product_changed':
+        return `Product changed from "${data.from || '—'}" to "${data.to || '—'}"`;
+      case 'order_changed': {
+        const to = data.to as { total: number; items: number };
+        if (!to.items) return 'Order cleared';
+        return `Order set to ${data.summary} (${to.items} ${to.items === 1 ? 'item' : 'items'}, ${to.total} AZN)`;
+      }
+      case 'tags_changed':
+        return `Tags set to ${(data.to as string[] || []).join(', ') || '—'}`;
+      case 'fields_changed':
+        return `Updated ${changedFields(data.from, data.to)}`;
+      case 'assigned':
+        if (!data.to) return `Unassigned from ${ownerName(String(data.from), users)}`;
+        return `Assigned to ${ownerName(String(data.to), users)}${data.mode ? ` (${ASSIGNMENT_MODE_LABELS[data.mode as AssignmentMode] || data.mode})` : ''}`;
+      case 'task_created':
+        return `Follow-up planned for ${new Date(String(data.due_at)).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}${data.note ? `: "${data.note}"` : ''}`;
+      case 'task_completed':
+        return `Follow-up done${data.note ? `: "${data.note}"` : ''}`;
+      case 'message_in':
+        return `Customer wrote: "${data.preview || ''}"`;
+      case 'message_out':
+        return `Reply sent: "${data.preview || ''}"`;
+      case 'merged': {
+        const merged = (data.leads as { phone: string }[] || []).map(l => formatPhone(l.phone)).join(', ');
+        return `Merged with ${merged}${data.reason === 'phone_format' ? ' (same number in another format)' : ''}`;
+      }
+      case 'deleted':
+        return 'Moved to the trash';
+      case 'restored':
+        return `Restored from the trash${data.via ? ` (${RESTORED_VIA_LABELS[String(data.via)] || data.via})` : ''}`;
+      default:
+        return activity.type;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-slate-500 text-sm">
+        <RefreshCw className="w-4 h-4 animate-spin" /> Loading timeline...
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return <div className="text-center py-12 text-slate-600 text-sm">No activity recorded yet</div>;
+  }
+
+  // Newest first
+  return (
+    <ol className="relative border-l border-slate-800 ml-2 space-y-4">
+      {[...activities].reverse().map((activity) => (
+        <li key={activity.id} className="ml-4">
+          <span className="absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-slate-900 border border-slate-700">
+            {ACTIVITY_ICONS[activity.type]}
+          </span>
+          <p className="text-sm text-slate-200 break-words">{describe(activity)}</p>
+          <p className="text-[10px] text-slate-500 mt-0.5">
+            {new Date(activity.created_at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            {' · '}{activity.actor}
+            {activity.data.rule ? ` (rule: ${activity.data.rule})` : ''}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
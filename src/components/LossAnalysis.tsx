@@ -0,0 +1,101 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { XCircle } from 'lucide-react';
+import { LossReport, LostReason, LostReasonCounts } from '../types/crm';
+import { lostReasonLabel } from '../../shared/lost';
+import { cn, formatPercent } from '../lib/utils';
+
+const PERIODS_SHOWN = 6;
+const PRODUCTS_SHOWN = 8;
+
+const REASON_COLORS: Record<LostReason | 'unknown', string> = {
+  price: 'bg-red-500',
+  delivery_time: 'bg-orange-500',
+  no_answer: 'bg-slate-400',
+  out_of_stock: 'bg-purple-500',
+  custom: 'bg-cyan-500',
+  unknown: 'bg-slate-700',
+};
+
+const monthLabel = (period: string) =>
+  new Date(`${period}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+// The most common reason of a row, recorded reasons first
+function mainReason(reasons: LostReasonCounts): string {
+  const recorded = Object.entries(reasons).filter(([reason]) => reason !== 'unknown').sort((a, b) => b[1] - a[1]);
+  return recorded.length ? lostReasonLabel(recorded[0][0] as LostReason) : lostReasonLabel(null);
+}
+
+// One bar split by reason
+function ReasonBar({ reasons, count }: { reasons: LostReasonCounts; count: number }) {
+  return (
+    <div className="flex h-1.5 rounded bg-slate-800 overflow-hidden">
+      {Object.entries(reasons).map(([reason, n]) => (
+        <div
+          key={reason}
+          className={cn("h-full", REASON_COLORS[reason as LostReason | 'unknown'])}
+          style={{ width: `${(n / count) * 100}%` }}
+          title={`${lostReasonLabel(reason === 'unknown' ? null : reason as LostReason)}: ${n}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Why leads were lost, over every lead now in a lost stage: by reason, by product
+ * and by the month they were lost in.
+ */
+export function LossAnalysis({ report }: { report: LossReport }) {
+  return (
+    <Card className="bg-slate-950 border-slate-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <XCircle className="w-4 h-4 text-red-400" />
+          Why Leads Are Lost
+          <span className="text-xs font-normal text-slate-500">{report.total} lost</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="space-y-1.5">
+          {report.by_reason.map(row => (
+            <div key={row.reason || 'unknown'} className="flex items-center gap-3 text-xs">
+              <span className="w-28 text-slate-300">{lostReasonLabel(row.reason)}</span>
+              <div className="flex-1 h-1.5 rounded bg-slate-800 overflow-hidden">
+                <div className={cn("h-full", REASON_COLORS[row.reason || 'unknown'])} style={{ width: `${(row.count / report.total) * 100}%` }} />
+              </div>
+              <span className="w-20 text-right text-slate-400">{row.count} · {formatPercent((row.count / report.total) * 100, 0)}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <h5 className="text-xs font-semibold text-slate-500 uppercase">By Product</h5>
+            {report.by_product.slice(0, PRODUCTS_SHOWN).map(row => (
+              <div key={row.product || 'none'} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-slate-300 truncate">{row.product || 'No product'}</span>
+                  <span className="text-slate-500 shrink-0 ml-2">{row.count} · mostly {mainReason(row.reasons).toLowerCase()}</span>
+                </div>
+                <ReasonBar reasons={row.reasons} count={row.count} />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <h5 className="text-xs font-semibold text-slate-500 uppercase">By Month</h5>
+            {report.by_period.slice(0, PERIODS_SHOWN).map(row => (
+              <div key={row.period} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-slate-300">{monthLabel(row.period)}</span>
+                  <span className="text-slate-500">{row.count} · mostly {mainReason(row.reasons).toLowerCase()}</span>
+                </div>
+                <ReasonBar reasons={row.reasons} count={row.count} />
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
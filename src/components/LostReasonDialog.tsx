@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { X, XCircle, AlertTriangle } from 'lucide-react';
+import { Lead, LostReason, LostReasonInput } from '../types/crm';
+import { LOST_REASONS, LOST_REASON_LABELS, validateLostReason } from '../../shared/lost';
+import { formatPhone } from '../../shared/phone';
+import { cn } from '../lib/utils';
+
+/**
+ * Asked before a lead moves into a lost stage: the reason feeds the loss report
+ * and the funnel health recommendations.
+ */
+export function LostReasonDialog({ lead, onConfirm, onClose }: { lead: Lead; onConfirm: (lost: LostReasonInput) => void; onClose: () => void }) {
+  const [reason, setReason] = useState<LostReason | null>(null);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = () => {
+    try {
+      onConfirm(validateLostReason({ reason: reason ?? undefined, note }));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Pick why the lead was lost');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <Card className="w-full max-w-md bg-slate-900 border-slate-800 shadow-2xl animate-in zoom-in-95 duration-200">
+        <CardHeader className="flex flex-row items-center justify-between border-b border-slate-800 pb-4">
+          <CardTitle className="text-lg font-bold text-white flex items-center gap-2">
+            <XCircle className="w-5 h-5 text-red-400" />
+            Why was {lead.name && lead.name !== 'Unknown' ? lead.name : formatPhone(lead.phone)} lost?
+          </CardTitle>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {LOST_REASONS.map(option => (
+              <button
+                key={option}
+                onClick={() => { setReason(option); setError(null); }}
+                className={cn(
+                  "py-2 rounded-lg text-sm border transition-colors",
+                  reason === option ? "bg-red-600/20 border-red-600 text-red-200" : "bg-slate-950 border-slate-800 text-slate-400 hover:text-white"
+                )}
+              >
+                {LOST_REASON_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+              Note {reason === 'custom' ? '' : '(optional)'}
+            </label>
+            <textarea
+              rows={3}
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder={reason === 'custom' ? 'What made the customer leave?' : 'e.g. found it 5 AZN cheaper elsewhere'}
+              className="w-full resize-y rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-slate-50 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button onClick={onClose} className="flex-1 py-2.5 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 font-medium text-sm transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!reason}
+              className="flex-1 py-2.5 rounded-lg bg-red-600 text-white hover:bg-red-500 font-medium text-sm transition-colors disabled:opacity-50"
+            >
+              Mark as Lost
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { UserPlus } from 'lucide-react';
+import { CrmUser } from '../types/crm';
+import { cn } from '../lib/utils';
+import { ownerName, ownerInitials, ownerColor } from '../lib/owners';
+
+interface OwnerPickerProps {
+  owner: string | null | undefined;
+  users: CrmUser[];
+  onChange: (username: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Owner avatar that doubles as the assignment control: a native select
+ * sits invisibly on top of it, so picking a teammate works everywhere.
+ */
+export function OwnerPicker({ owner, users, onChange, className }: OwnerPickerProps) {
+  const label = owner ? `Owner: ${ownerName(owner, users)}` : 'Unassigned · click to assign';
+
+  return (
+    <div className={cn("relative w-6 h-6 shrink-0", className)} title={label}>
+      {owner ? (
+        <div className={cn("w-6 h-6 rounded-full flex items-center justify-center text-[9px] font-bold text-white", ownerColor(owner))}>
+          {ownerInitials(owner, users)}
+        </div>
+      ) : (
+        <div className="w-6 h-6 rounded-full border border-dashed border-slate-600 flex items-center justify-center text-slate-500">
+          <UserPlus className="w-3 h-3" />
+        </div>
+      )}
+      <select
+        aria-label="Assign lead"
+        value={owner || ''}
+        onChange={e => onChange(e.target.value || null)}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+      >
+        <option value="">Unassigned</option>
+        {users.map(user => (
+          <option key={user.id} value={user.username}>{user.name || user.username}</option>
+        ))}
+        {/* Owner whose account was removed on another dashboard */}
+        {owner && !users.some(u => u.username === owner) && <option value={owner}>{owner}</option>}
+      </select>
+    </div>
+  );
+}
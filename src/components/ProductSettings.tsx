@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { Package, Plus, Save, AlertTriangle } from 'lucide-react';
+import { Product, ProductRevenue } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { cn, formatCurrency } from '../lib/utils';
+
+// Prices are edited as text so a half-typed "12." doesn't jump around
+type DraftProduct = { id: string | null; sku: string; name: string; price: string; cost: string; active: boolean };
+
+const toDraft = (product: Product): DraftProduct => ({
+  id: product.id,
+  sku: product.sku,
+  name: product.name,
+  price: String(product.price),
+  cost: String(product.cost),
+  active: product.active
+});
+
+const isChanged = (draft: DraftProduct, product: Product | undefined) =>
+  !product || JSON.stringify(draft) !== JSON.stringify(toDraft(product));
+
+export function ProductSettings() {
+  const { products, createProduct, updateProduct } = useAppStore();
+  const currentUser = CrmService.getCurrentUser();
+  const canEdit = !currentUser || currentUser.role === 'admin'; // Offline: this device is the admin
+  const [drafts, setDrafts] = useState<DraftProduct[]>(products.map(toDraft));
+  const [revenue, setRevenue] = useState<ProductRevenue[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Unsaved new rows survive a catalog update from another dashboard
+    setDrafts(prev => [...products.map(toDraft), ...prev.filter(d => d.id === null)]);
+  }, [products]);
+
+  useEffect(() => {
+    CrmService.getProductRevenue()
+      .then(setRevenue)
+      .catch(err => console.warn('⚠️ Failed to load revenue by product:', err));
+  }, [products]);
+
+  const updateDraft = (index: number, updates: Partial<DraftProduct>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...updates } : draft));
+  };
+
+  const addDraft = () => {
+    setDrafts(prev => [...prev, { id: null, sku: '', name: '', price: '', cost: '', active: true }]);
+  };
+
+  const handleSave = async (index: number) => {
+    const target = drafts[index];
+    const { id, ...draft } = target;
+    const input = { ...draft, price: Number(draft.price || 0), cost: Number(draft.cost || 0) };
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (id) {
+        await updateProduct(id, input);
+      } else {
+        await createProduct(input);
+        setDrafts(prev => prev.filter(d => d !== target));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save product');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const unlinked = revenue.find(r => r.product_id === null);
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Package className="w-5 h-5 text-amber-400" />
+          Products
+        </CardTitle>
+        <p className="text-xs text-slate-500">
+          The catalog offered in the lead form; picking a product fills in its price. Deactivate products you no longer sell, old leads keep them.
+          {!canEdit && ' Only admins can change the catalog.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {drafts.length === 0 && (
+          <p className="text-xs text-slate-600 text-center py-4">No products yet</p>
+        )}
+
+        {drafts.map((draft, index) => {
+          const product = products.find(p => p.id === draft.id);
+          const sold = revenue.find(r => r.product_id !== null && r.product_id === draft.id);
+          return (
+            <div key={draft.id || `new-${index}`} className={cn("bg-slate-950 border border-slate-800 rounded-lg p-2 space-y-1.5", !draft.active && "opacity-60")}>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  value={draft.sku}
+                  onChange={e => updateDraft(index, { sku: e.target.value.toUpperCase() })}
+                  placeholder="SKU"
+                  disabled={!canEdit}
+                  className="h-8 w-28 text-xs font-mono bg-slate-900"
+                />
+                <Input
+                  value={draft.name}
+                  onChange={e => updateDraft(index, { name: e.target.value })}
+                  placeholder="Product name"
+                  disabled={!canEdit}
+                  className="h-8 flex-1 min-w-[140px] text-xs bg-slate-900"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.price}
+                  onChange={e => updateDraft(index, { price: e.target.value })}
+                  placeholder="Price ₼"
+                  disabled={!canEdit}
+                  className="h-8 w-24 text-xs bg-slate-900"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.cost}
+                  onChange={e => updateDraft(index, { cost: e.target.value })}
+                  placeholder="Cost ₼"
+                  disabled={!canEdit}
+                  className="h-8 w-24 text-xs bg-slate-900"
+                />
+                <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.active}
+                    disabled={!canEdit}
+                    onChange={e => updateDraft(index, { active: e.target.checked })}
+                  />
+                  Active
+                </label>
+                {canEdit && (
+                  <button
+                    onClick={() => handleSave(index)}
+                    disabled={isSaving || !isChanged(draft, product)}
+                    title={draft.id ? 'Save changes' : 'Add product'}
+                    className="p-1.5 text-slate-500 hover:text-blue-400 disabled:opacity-30"
+                  >
+                    <Save className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              {sold && (
+                <p className="text-[10px] text-slate-500 px-1">
+                  {sold.won} won · {formatCurrency(sold.revenue, 'AZN')} revenue · {formatCurrency(sold.revenue - sold.cost, 'AZN')} margin
+                </p>
+              )}
+            </div>
+          );
+        })}
+
+        {unlinked && (
+          <p className="text-[10px] text-slate-500">
+            {unlinked.won} won {unlinked.won === 1 ? 'lead has' : 'leads have'} no catalog product ({formatCurrency(unlinked.revenue, 'AZN')}).
+            Adding a product with the same name as a typed one links those leads.
+          </p>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex justify-between pt-2">
+            <button onClick={addDraft} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors">
+              <Plus className="w-3.5 h-3.5" /> Add Product
+            </button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
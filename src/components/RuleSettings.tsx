@@ -0,0 +1,350 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { ArrowUp, ArrowDown, Trash2, Plus, Save, Wand2, FlaskConical, AlertTriangle } from 'lucide-react';
+import { LeadRule, RuleLanguage, RuleSet, RuleTestResult } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { RULE_LANGUAGES } from '../../shared/rules';
+import { getStageColor } from '../lib/stages';
+import { ownerName } from '../lib/owners';
+import { formatPhone } from '../../shared/phone';
+import { cn } from '../lib/utils';
+
+const LANGUAGE_LABELS: Record<RuleLanguage, string> = {
+  az: 'Azerbaijani',
+  ru: 'Russian',
+  en: 'English',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const selectClass = "h-8 bg-slate-900 border border-slate-800 text-slate-300 text-xs rounded px-2";
+
+export function RuleSettings() {
+  const { stages, users, products } = useAppStore();
+  const currentUser = CrmService.getCurrentUser();
+  const canEdit = !currentUser || currentUser.role === 'admin'; // Offline: this device is the admin
+  const [draft, setDraft] = useState<RuleSet | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<RuleTestResult[] | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    CrmService.getRules()
+      .then(setDraft)
+      .catch(err => console.warn('⚠️ Failed to load rules:', err));
+  }, []);
+
+  if (!draft) return null;
+
+  const setRules = (rules: LeadRule[]) => {
+    setDraft({ ...draft, rules });
+    setSaved(false);
+    setResults(null);
+  };
+
+  const updateRule = (index: number, updates: Partial<LeadRule>) => {
+    setRules(draft.rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule));
+  };
+
+  const updateConditions = (index: number, updates: Partial<LeadRule['conditions']>) => {
+    updateRule(index, { conditions: { ...draft.rules[index].conditions, ...updates } });
+  };
+
+  const updateActions = (index: number, updates: Partial<LeadRule['actions']>) => {
+    updateRule(index, { actions: { ...draft.rules[index].actions, ...updates } });
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.rules.length) return;
+    const next = [...draft.rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRules(next);
+  };
+
+  const addRule = () => {
+    setRules([...draft.rules, {
+      id: `rule-${Date.now().toString(36)}`,
+      name: 'New Rule',
+      enabled: true,
+      conditions: { keywords: [], regex: null, language: null, phone_prefix: null, hours: null, statuses: [] },
+      actions: { status: null, tag: null, assign_to: null, product_id: null },
+      stop: false
+    }]);
+  };
+
+  const toggleStatus = (index: number, status: string) => {
+    const statuses = draft.rules[index].conditions.statuses;
+    updateConditions(index, { statuses: statuses.includes(status) ? statuses.filter(s => s !== status) : [...statuses, status] });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      setDraft(await CrmService.saveRules(draft));
+      setSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setError(null);
+    try {
+      setResults(await CrmService.testRules(draft));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to test rules');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const stageName = (id: string) => stages.find(s => s.id === id)?.name || id;
+  const matches = results ? results.filter(r => r.matched.length > 0) : [];
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Wand2 className="w-5 h-5 text-pink-400" />
+          Classification Rules
+        </CardTitle>
+        <p className="text-xs text-slate-500">
+          Run top to bottom on every customer message. A rule matches when all of its conditions hold; later rules override the stage, owner and product, and tags add up.
+          {!canEdit && ' Only admins can change the rules.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {draft.rules.length === 0 && (
+          <p className="text-xs text-slate-600 text-center py-4">No rules: new leads stay in the first stage</p>
+        )}
+
+        {draft.rules.map((rule, index) => {
+          const c = rule.conditions;
+          const a = rule.actions;
+          return (
+            <div key={rule.id} className={cn("bg-slate-950 border border-slate-800 rounded-lg p-2 space-y-2", !rule.enabled && "opacity-60")}>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  disabled={!canEdit}
+                  onChange={e => updateRule(index, { enabled: e.target.checked })}
+                  title="Enabled"
+                />
+                <Input
+                  value={rule.name}
+                  onChange={e => updateRule(index, { name: e.target.value })}
+                  disabled={!canEdit}
+                  className="h-8 flex-1 min-w-[160px] text-xs bg-slate-900"
+                />
+                <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer" title="Skip the rules below when this one matches">
+                  <input type="checkbox" checked={rule.stop} disabled={!canEdit} onChange={e => updateRule(index, { stop: e.target.checked })} />
+                  Stop here
+                </label>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="p-1.5 text-slate-500 hover:text-white disabled:opacity-30">
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => moveRule(index, 1)} disabled={index === draft.rules.length - 1} className="p-1.5 text-slate-500 hover:text-white disabled:opacity-30">
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => setRules(draft.rules.filter((_, i) => i !== index))} title="Remove rule" className="p-1.5 text-slate-500 hover:text-red-400">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 pl-5">
+                <span className="text-[10px] uppercase tracking-wider text-slate-500 w-10">When</span>
+                <Input
+                  value={c.keywords.join(',')}
+                  // Kept as typed; the save trims each keyword
+                  onChange={e => updateConditions(index, { keywords: e.target.value ? e.target.value.split(',') : [] })}
+                  placeholder="Keywords, comma separated"
+                  disabled={!canEdit}
+                  className="h-8 flex-1 min-w-[180px] text-xs bg-slate-900"
+                />
+                <Input
+                  value={c.regex || ''}
+                  onChange={e => updateConditions(index, { regex: e.target.value || null })}
+                  placeholder="Pattern (regex)"
+                  disabled={!canEdit}
+                  className="h-8 w-36 text-xs font-mono bg-slate-900"
+                />
+                <select
+                  value={c.language || ''}
+                  onChange={e => updateConditions(index, { language: (e.target.value || null) as RuleLanguage | null })}
+                  disabled={!canEdit}
+                  className={selectClass}
+                >
+                  <option value="">Any language</option>
+                  {RULE_LANGUAGES.map(language => (
+                    <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+                  ))}
+                </select>
+                <Input
+                  value={c.phone_prefix || ''}
+                  onChange={e => updateConditions(index, { phone_prefix: e.target.value || null })}
+                  placeholder="Phone prefix"
+                  disabled={!canEdit}
+                  className="h-8 w-28 text-xs font-mono bg-slate-900"
+                />
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 pl-5">
+                <span className="w-10" />
+                <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!c.hours}
+                    disabled={!canEdit}
+                    onChange={e => updateConditions(index, { hours: e.target.checked ? { from: 9, to: 18 } : null })}
+                  />
+                  Between
+                </label>
+                {c.hours && (
+                  <>
+                    <select value={c.hours.from} disabled={!canEdit} onChange={e => updateConditions(index, { hours: { ...c.hours!, from: Number(e.target.value) } })} className={selectClass}>
+                      {HOURS.map(hour => <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>)}
+                    </select>
+                    <span className="text-xs text-slate-500">and</span>
+                    <select value={c.hours.to} disabled={!canEdit} onChange={e => updateConditions(index, { hours: { ...c.hours!, to: Number(e.target.value) } })} className={selectClass}>
+                      {HOURS.map(hour => <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>)}
+                    </select>
+                  </>
+                )}
+                <span className="text-xs text-slate-500 ml-2">in stage</span>
+                {stages.map(stage => (
+                  <button
+                    key={stage.id}
+                    onClick={() => toggleStatus(index, stage.id)}
+                    disabled={!canEdit}
+                    className={cn(
+                      "flex items-center gap-1 px-2 py-1 rounded text-[10px] font-medium border transition-colors",
+                      c.statuses.includes(stage.id) ? "border-blue-500 text-white bg-blue-600/20" : "border-slate-800 text-slate-500 hover:text-slate-300"
+                    )}
+                  >
+                    <span className={cn("w-1.5 h-1.5 rounded-full", getStageColor(stage.color).dot)} />
+                    {stage.name}
+                  </button>
+                ))}
+              </div>
+              {c.statuses.length === 0 && (
+                <p className="text-[10px] text-amber-400/80 pl-[4.25rem]">No stage picked: this rule also runs on leads that are already won or lost</p>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 pl-5">
+                <span className="text-[10px] uppercase tracking-wider text-slate-500 w-10">Then</span>
+                <select value={a.status || ''} disabled={!canEdit} onChange={e => updateActions(index, { status: e.target.value || null })} className={selectClass}>
+                  <option value="">Keep stage</option>
+                  {stages.map(stage => <option key={stage.id} value={stage.id}>Move to {stage.name}</option>)}
+                </select>
+                <Input
+                  value={a.tag || ''}
+                  onChange={e => updateActions(index, { tag: e.target.value || null })}
+                  placeholder="Add tag"
+                  disabled={!canEdit}
+                  className="h-8 w-28 text-xs bg-slate-900"
+                />
+                {users.length > 0 && (
+                  <select value={a.assign_to || ''} disabled={!canEdit} onChange={e => updateActions(index, { assign_to: e.target.value || null })} className={selectClass}>
+                    <option value="">Keep owner</option>
+                    {users.map(user => <option key={user.id} value={user.username}>Assign to {user.name || user.username}</option>)}
+                  </select>
+                )}
+                <select value={a.product_id || ''} disabled={!canEdit} onChange={e => updateActions(index, { product_id: e.target.value || null })} className={selectClass}>
+                  <option value="">Keep product</option>
+                  {products.filter(p => p.active || p.id === a.product_id).map(product => (
+                    <option key={product.id} value={product.id}>{product.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          );
+        })}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+          <div className="flex items-center gap-2">
+            {canEdit && (
+              <button onClick={addRule} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors">
+                <Plus className="w-3.5 h-3.5" /> Add Rule
+              </button>
+            )}
+            <button
+              onClick={handleTest}
+              disabled={isTesting}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              <FlaskConical className="w-3.5 h-3.5" /> {isTesting ? 'Testing...' : 'Test on Last 100 Messages'}
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-[10px] text-slate-500" title="Hour conditions use this IANA time zone">
+              Time zone
+              <Input
+                value={draft.timezone}
+                onChange={e => { setDraft({ ...draft, timezone: e.target.value }); setSaved(false); }}
+                disabled={!canEdit}
+                className="h-8 w-28 text-xs bg-slate-900"
+              />
+            </label>
+            {canEdit && (
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+              >
+                <Save className="w-3.5 h-3.5" /> {saved ? 'Saved' : isSaving ? 'Saving...' : 'Save Rules'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {results && (
+          <div className="border-t border-slate-800 pt-3 space-y-2">
+            <p className="text-xs text-slate-400">
+              {matches.length} of {results.length} recent customer messages match. Stage conditions use each lead's current stage; nothing was changed.
+            </p>
+            <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-1.5">
+              {matches.map(({ message, matched, actions }) => (
+                <div key={message.id} className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-slate-300 truncate">{message.name || formatPhone(message.phone)}</span>
+                    <span className="text-[10px] text-slate-500 shrink-0">{matched.map(r => r.name).join(', ')}</span>
+                  </div>
+                  <p className="text-slate-500 truncate">"{message.body}"</p>
+                  <p className="text-[10px] text-blue-300">
+                    {[
+                      actions.status && actions.status !== message.status && `→ ${stageName(actions.status)}`,
+                      ...actions.tags.map(tag => `#${tag}`),
+                      actions.assign_to && `→ ${ownerName(actions.assign_to, users)}`,
+                      actions.product_id && (products.find(p => p.id === actions.product_id)?.name || actions.product_id)
+                    ].filter(Boolean).join(' · ') || 'No change (already applied)'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
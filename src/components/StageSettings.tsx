@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { ArrowUp, ArrowDown, Trash2, Plus, Save, Columns, AlertTriangle } from 'lucide-react';
+import { PipelineStage, StageKind, BoardCounts } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { STAGE_COLORS, getStageColor } from '../lib/stages';
+import { cn } from '../lib/utils';
+
+const KIND_LABELS: Record<StageKind, string> = {
+  open: 'Open',
+  won: 'Counts as Won',
+  lost: 'Counts as Lost',
+};
+
+export function StageSettings() {
+  const { stages, saveStages } = useAppStore();
+  const currentUser = CrmService.getCurrentUser();
+  const canEdit = !currentUser || currentUser.role === 'admin'; // Offline: this device is the admin
+  const [draft, setDraft] = useState<PipelineStage[]>(stages);
+  // Counted over every lead, not just the board's date range or its loaded pages
+  const [counts, setCounts] = useState<BoardCounts | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(stages);
+    CrmService.getBoardCounts().then(setCounts).catch(() => setCounts(null));
+  }, [stages]);
+
+  const updateStage = (index: number, updates: Partial<PipelineStage>) => {
+    setDraft(prev => prev.map((stage, i) => i === index ? { ...stage, ...updates } : stage));
+    setSaved(false);
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+    setDraft(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setSaved(false);
+  };
+
+  const addStage = () => {
+    setDraft(prev => [...prev, {
+      id: `stage-${Date.now().toString(36)}`,
+      name: 'New Stage',
+      color: 'cyan',
+      position: prev.length,
+      kind: 'open'
+    }]);
+    setSaved(false);
+  };
+
+  const removeStage = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveStages(draft);
+      setSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save stages');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Columns className="w-5 h-5 text-blue-400" />
+          Pipeline Stages
+        </CardTitle>
+        <p className="text-xs text-slate-500">
+          Columns of the CRM board, in order. New leads land in the first stage, which must be open.
+          {!canEdit && ' Only admins can change the pipeline.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {draft.map((stage, index) => {
+          const leadCount = counts?.by_status[stage.id] ?? 0;
+          return (
+            <div key={stage.id} className="flex flex-wrap items-center gap-2 bg-slate-950 border border-slate-800 rounded-lg p-2">
+              <div className={cn("w-2 h-8 rounded-full", getStageColor(stage.color).dot)} />
+              <Input
+                value={stage.name}
+                onChange={e => updateStage(index, { name: e.target.value })}
+                className="h-8 flex-1 min-w-[160px] text-xs bg-slate-900"
+              />
+              <select
+                value={stage.color}
+                onChange={e => updateStage(index, { color: e.target.value })}
+                className="h-8 bg-slate-900 border border-slate-800 text-slate-300 text-xs rounded px-2"
+              >
+                {Object.keys(STAGE_COLORS).map(color => (
+                  <option key={color} value={color}>{color}</option>
+                ))}
+              </select>
+              <select
+                value={stage.kind}
+                onChange={e => updateStage(index, { kind: e.target.value as StageKind })}
+                className="h-8 bg-slate-900 border border-slate-800 text-slate-300 text-xs rounded px-2"
+              >
+                {(Object.keys(KIND_LABELS) as StageKind[]).map(kind => (
+                  <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+              <span className="text-[10px] text-slate-500 w-16 text-right">{leadCount} leads</span>
+              <div className="flex gap-1">
+                <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="p-1.5 text-slate-500 hover:text-white disabled:opacity-30">
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => moveStage(index, 1)} disabled={index === draft.length - 1} className="p-1.5 text-slate-500 hover:text-white disabled:opacity-30">
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => removeStage(index)}
+                  disabled={leadCount > 0 || draft.length === 1}
+                  title={leadCount > 0 ? 'Move its leads to another stage first' : 'Remove stage'}
+                  className="p-1.5 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-between pt-2">
+          <button onClick={addStage} disabled={!canEdit} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors disabled:opacity-50">
+            <Plus className="w-3.5 h-3.5" /> Add Stage
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !canEdit}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+          >
+            <Save className="w-3.5 h-3.5" /> {saved ? 'Saved' : isSaving ? 'Saving...' : 'Save Pipeline'}
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { CalendarCheck, Square, Clock, X } from 'lucide-react';
+import { Lead } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { cn } from '../lib/utils';
+import { myTasksToday, isOverdue, formatDueDate } from '../lib/tasks';
+import { formatPhone } from '../../shared/phone';
+
+interface TasksTodayPanelProps {
+  onOpenLead: (lead: Lead) => void;
+  onClose: () => void;
+}
+
+export function TasksTodayPanel({ onOpenLead, onClose }: TasksTodayPanelProps) {
+  const { tasks, leads, updateTask } = useAppStore();
+  const todayTasks = myTasksToday(tasks, CrmService.getCurrentUser()?.username || null);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-white flex items-center gap-2">
+          <CalendarCheck className="w-4 h-4 text-orange-400" />
+          My tasks today
+          <span className="text-xs text-slate-500 font-normal">({todayTasks.length})</span>
+        </h2>
+        <button onClick={onClose} className="text-slate-500 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {todayTasks.length === 0 ? (
+        <p className="text-xs text-slate-600 py-2">Nothing due today 🎉</p>
+      ) : (
+        <ul className="grid gap-2 md:grid-cols-2 xl:grid-cols-3">
+          {todayTasks.map(task => {
+            const lead = leads.find(l => l.id === task.lead_id);
+            const overdue = isOverdue(task);
+            return (
+              <li
+                key={task.id}
+                className={cn(
+                  "flex items-start gap-2 rounded-lg border px-3 py-2 bg-slate-950",
+                  overdue ? "border-red-900/50" : "border-slate-800"
+                )}
+              >
+                <button
+                  onClick={() => updateTask(task.id, { done: true }).catch(err => console.warn('⚠️ Failed to complete task:', err))}
+                  className="mt-0.5 text-slate-500 hover:text-green-400"
+                  title="Mark as done"
+                >
+                  <Square className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => lead && onOpenLead(lead)}
+                  disabled={!lead}
+                  className="flex-1 min-w-0 text-left disabled:cursor-default"
+                >
+                  <p className="text-sm text-slate-200 truncate">{task.note || 'Follow up'}</p>
+                  <p className="text-[10px] text-slate-500 truncate">
+                    {lead ? (lead.name || formatPhone(lead.phone)) : 'Lead not loaded on the board'}
+                  </p>
+                  <p className={cn("text-[10px] flex items-center gap-1", overdue ? "text-red-400 font-semibold" : "text-orange-300")}>
+                    <Clock className="w-2.5 h-2.5" /> {overdue ? 'Overdue · ' : ''}{formatDueDate(task)}
+                  </p>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
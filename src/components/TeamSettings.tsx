@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { Users, Trash2, UserPlus, AlertTriangle, ShieldCheck, Shuffle } from 'lucide-react';
+import { CrmUser, UserRole, AssignmentMode } from '../types/crm';
+import { CrmService } from '../services/CrmService';
+import { useAppStore } from '../context/Store';
+import { ASSIGNMENT_MODE_LABELS } from '../lib/owners';
+
+const EMPTY_FORM = { username: '', name: '', password: '', role: 'agent' as UserRole };
+
+export function TeamSettings() {
+  const currentUser = CrmService.getCurrentUser();
+  const { users, reloadUsers } = useAppStore();
+  const [assignmentMode, setAssignmentMode] = useState<AssignmentMode>('manual');
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    reloadUsers();
+    CrmService.getAssignmentSettings().then(settings => setAssignmentMode(settings.mode));
+  }, []);
+
+  if (!currentUser) {
+    return null; // Offline: there is no team to manage
+  }
+
+  const isAdmin = currentUser.role === 'admin';
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await CrmService.createUser(form);
+      await reloadUsers();
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAssignmentModeChange = async (mode: AssignmentMode) => {
+    setError(null);
+    try {
+      const saved = await CrmService.saveAssignmentSettings({ mode });
+      setAssignmentMode(saved.mode);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save assignment mode');
+    }
+  };
+
+  const handleRemove = async (user: CrmUser) => {
+    if (!confirm(`Remove ${user.username}? They will be signed out immediately and their leads become unassigned.`)) return;
+    setError(null);
+    try {
+      await CrmService.deleteUser(user.id);
+      await reloadUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove user');
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Users className="w-5 h-5 text-green-400" />
+          Team
+        </CardTitle>
+        <p className="text-xs text-slate-500">
+          Accounts that can sign in to this CRM. Admins can manage the team and use the test tools.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 pb-2 border-b border-slate-800">
+          <Shuffle className="w-4 h-4 text-blue-400" />
+          <span className="text-xs text-slate-300 flex-1">Assign new WhatsApp leads</span>
+          <select
+            value={assignmentMode}
+            disabled={!isAdmin}
+            onChange={e => handleAssignmentModeChange(e.target.value as AssignmentMode)}
+            className="h-8 bg-slate-950 border border-slate-800 text-slate-300 text-xs rounded px-2 disabled:opacity-60"
+          >
+            {(Object.keys(ASSIGNMENT_MODE_LABELS) as AssignmentMode[]).map(mode => (
+              <option key={mode} value={mode}>{ASSIGNMENT_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+
+        {users.map(user => (
+          <div key={user.id} className="flex items-center gap-3 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-slate-200 truncate">
+                {user.name || user.username}
+                {user.id === currentUser.id && <span className="text-slate-500"> (you)</span>}
+              </p>
+              <p className="text-[10px] text-slate-500 font-mono">{user.username}</p>
+            </div>
+            <span className="text-[10px] uppercase font-bold text-slate-400 flex items-center gap-1">
+              {user.role === 'admin' && <ShieldCheck className="w-3 h-3 text-green-400" />}
+              {user.role}
+            </span>
+            {isAdmin && user.id !== currentUser.id && (
+              <button onClick={() => handleRemove(user)} title="Remove user" className="p-1.5 text-slate-500 hover:text-red-400">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+
+        {isAdmin && (
+          <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2 pt-2">
+            <Input
+              required
+              placeholder="username"
+              value={form.username}
+              onChange={e => setForm({ ...form, username: e.target.value })}
+              className="h-8 w-32 text-xs bg-slate-950"
+            />
+            <Input
+              placeholder="Display name"
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              className="h-8 flex-1 min-w-[120px] text-xs bg-slate-950"
+            />
+            <Input
+              required
+              type="password"
+              minLength={8}
+              placeholder="Password (8+)"
+              autoComplete="new-password"
+              value={form.password}
+              onChange={e => setForm({ ...form, password: e.target.value })}
+              className="h-8 w-36 text-xs bg-slate-950"
+            />
+            <select
+              value={form.role}
+              onChange={e => setForm({ ...form, role: e.target.value as UserRole })}
+              className="h-8 bg-slate-950 border border-slate-800 text-slate-300 text-xs rounded px-2"
+            >
+              <option value="agent">Agent</option>
+              <option value="admin">Admin</option>
+            </select>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="h-8 flex items-center gap-2 px-3 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              <UserPlus className="w-3.5 h-3.5" /> Add
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { Zap, Plus, Save, Trash2, AlertTriangle } from 'lucide-react';
+import { ReplyTemplate } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { TEMPLATE_VARIABLES } from '../../shared/templates';
+
+type DraftTemplate = { id: string | null; title: string; body: string };
+
+const toDraft = (template: ReplyTemplate): DraftTemplate => ({ id: template.id, title: template.title, body: template.body });
+
+const isChanged = (draft: DraftTemplate, template: ReplyTemplate | undefined) =>
+  !template || draft.title !== template.title || draft.body !== template.body;
+
+export function TemplateSettings() {
+  const { templates, createTemplate, updateTemplate, deleteTemplate } = useAppStore();
+  const [drafts, setDrafts] = useState<DraftTemplate[]>(templates.map(toDraft));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Unsaved new rows survive a library update from another dashboard
+    setDrafts(prev => [...templates.map(toDraft), ...prev.filter(d => d.id === null)]);
+  }, [templates]);
+
+  const updateDraft = (index: number, updates: Partial<DraftTemplate>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...updates } : draft));
+  };
+
+  const addDraft = () => {
+    setDrafts(prev => [...prev, { id: null, title: '', body: '' }]);
+  };
+
+  const handleSave = async (index: number) => {
+    const target = drafts[index];
+    const { id, ...input } = target;
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (id) {
+        await updateTemplate(id, input);
+      } else {
+        await createTemplate(input);
+        setDrafts(prev => prev.filter(d => d !== target));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (index: number) => {
+    const target = drafts[index];
+    if (!target.id) {
+      setDrafts(prev => prev.filter(d => d !== target));
+      return;
+    }
+    if (!confirm(`Delete the quick reply "${target.title}"?`)) return;
+    setError(null);
+    try {
+      await deleteTemplate(target.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete template');
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Zap className="w-5 h-5 text-yellow-400" />
+          Quick Replies
+        </CardTitle>
+        <p className="text-xs text-slate-500">
+          Canned answers for the reply box: type "/" and a few letters to pick one. {TEMPLATE_VARIABLES.map(v => `{${v}}`).join(', ')} are
+          filled in from the lead.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {drafts.length === 0 && (
+          <p className="text-xs text-slate-600 text-center py-4">No quick replies yet</p>
+        )}
+
+        {drafts.map((draft, index) => {
+          const template = templates.find(t => t.id === draft.id);
+          return (
+            <div key={draft.id || `new-${index}`} className="bg-slate-950 border border-slate-800 rounded-lg p-2 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={draft.title}
+                  onChange={e => updateDraft(index, { title: e.target.value })}
+                  placeholder="Title, e.g. Delivery"
+                  className="h-8 flex-1 text-xs bg-slate-900"
+                />
+                {template && (
+                  <span className="text-[10px] text-slate-500 shrink-0" title="Times inserted into a reply">{template.use_count} uses</span>
+                )}
+                <button
+                  onClick={() => handleSave(index)}
+                  disabled={isSaving || !isChanged(draft, template)}
+                  title={draft.id ? 'Save changes' : 'Add quick reply'}
+                  className="p-1.5 text-slate-500 hover:text-blue-400 disabled:opacity-30"
+                >
+                  <Save className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(index)} title="Delete" className="p-1.5 text-slate-500 hover:text-red-400">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <textarea
+                rows={2}
+                value={draft.body}
+                onChange={e => updateDraft(index, { body: e.target.value })}
+                placeholder="Salam {name}! {product_name} {value} AZN-dir, çatdırılma pulsuzdur."
+                className="w-full resize-y rounded-md border border-slate-800 bg-slate-900 px-3 py-2 text-xs text-slate-50 placeholder:text-slate-600 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          );
+        })}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-between pt-2">
+          <button onClick={addDraft} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors">
+            <Plus className="w-3.5 h-3.5" /> Add Quick Reply
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
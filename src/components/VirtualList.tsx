@@ -0,0 +1,98 @@
+import React, { useState, useRef, useLayoutEffect, useEffect, useCallback } from 'react';
+
+// Distance from the bottom at which the next page is asked for
+const END_THRESHOLD = 400;
+
+interface VirtualListProps<T> {
+  items: T[];
+  itemKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  estimatedHeight: number; // Used until an item has been rendered and measured
+  gap?: number;
+  overscan?: number; // Pixels rendered above and below the viewport
+  onEndReached?: () => void; // Near the bottom, or while the items don't fill the viewport
+  footer?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Scrolling list that only mounts the items in and near the viewport. Items are measured
+ * once rendered, so cards of different heights keep their place as the list scrolls.
+ */
+export function VirtualList<T>({ items, itemKey, renderItem, estimatedHeight, gap = 0, overscan = 600, onEndReached, footer, className }: VirtualListProps<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [, setMeasured] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  // One observer for every mounted item; a new height lays the list out again
+  const [observer] = useState(() => new ResizeObserver(entries => {
+    let changed = false;
+    entries.forEach(entry => {
+      const key = (entry.target as HTMLElement).dataset.key!;
+      const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+      if (heights.current.get(key) !== height) {
+        heights.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasured(n => n + 1);
+  }));
+
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  const measure = useCallback((el: HTMLDivElement | null) => {
+    if (!el) return;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, [observer]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const update = () => setViewport({ top: el.scrollTop, height: el.clientHeight });
+    update();
+    const resize = new ResizeObserver(update);
+    resize.observe(el);
+    return () => resize.disconnect();
+  }, []);
+
+  // Top of every item, and the height of them all
+  const offsets: number[] = [];
+  let total = 0;
+  items.forEach(item => {
+    offsets.push(total);
+    total += (heights.current.get(itemKey(item)) ?? estimatedHeight) + gap;
+  });
+
+  const from = viewport.top - overscan;
+  const to = viewport.top + viewport.height + overscan;
+  let start = 0;
+  while (start < items.length - 1 && offsets[start + 1] < from) start++;
+  let end = start;
+  while (end < items.length && offsets[end] < to) end++;
+
+  useEffect(() => {
+    if (onEndReached && viewport.height > 0 && viewport.top + viewport.height >= total - END_THRESHOLD) onEndReached();
+  }, [viewport, total, items.length]);
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={(e) => setViewport({ top: e.currentTarget.scrollTop, height: e.currentTarget.clientHeight })}
+      className={className}
+    >
+      <div style={{ height: offsets[start] ?? 0 }} />
+      {items.slice(start, end).map((item, i) => {
+        const key = itemKey(item);
+        return (
+          <div key={key} data-key={key} ref={measure} style={{ marginBottom: gap }}>
+            {renderItem(item, start + i)}
+          </div>
+        );
+      })}
+      <div style={{ height: end < items.length ? total - offsets[end] : 0 }} />
+      {footer}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import * as React from "react";
+import { X, AlertTriangle, CheckCircle, Info } from "lucide-react";
+import { cn } from "../../lib/utils";
+
+export interface ToastOptions {
+  title: string;
+  description?: string;
+  variant?: "info" | "success" | "error";
+  duration?: number; // ms, default 4000
+  action?: { label: string; onClick: () => void };
+}
+
+interface ToastItem extends ToastOptions {
+  id: number;
+}
+
+interface ToastContextType {
+  toast: (options: ToastOptions) => number;
+  dismiss: (id: number) => void;
+}
+
+const ToastContext = React.createContext<ToastContextType | undefined>(undefined);
+
+let nextToastId = 1;
+
+function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toasts, setToasts] = React.useState<ToastItem[]>([]);
+
+  const dismiss = React.useCallback((id: number) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const toast = React.useCallback((options: ToastOptions) => {
+    const id = nextToastId++;
+    setToasts((prev) => [...prev, { ...options, id }]);
+    setTimeout(() => dismiss(id), options.duration ?? 4000);
+    return id;
+  }, [dismiss]);
+
+  const value = React.useMemo(() => ({ toast, dismiss }), [toast, dismiss]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-80">
+        {toasts.map((t) => (
+          <div
+            key={t.id}
+            className={cn(
+              "rounded-lg border p-3 shadow-2xl flex gap-3 items-start animate-in fade-in slide-in-from-bottom-2",
+              t.variant === "error" ? "bg-red-950/90 border-red-900/60 text-red-100" :
+              t.variant === "success" ? "bg-green-950/90 border-green-900/60 text-green-100" :
+              "bg-slate-900/95 border-slate-700 text-slate-100"
+            )}
+          >
+            {t.variant === "error" ? <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-red-400" /> :
+             t.variant === "success" ? <CheckCircle className="w-4 h-4 mt-0.5 shrink-0 text-green-400" /> :
+             <Info className="w-4 h-4 mt-0.5 shrink-0 text-blue-400" />}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold">{t.title}</p>
+              {t.description && <p className="text-xs opacity-80 mt-0.5">{t.description}</p>}
+            </div>
+            {t.action && (
+              <button
+                onClick={() => { t.action?.onClick(); dismiss(t.id); }}
+                className="text-xs font-bold uppercase tracking-wide text-blue-300 hover:text-blue-200"
+              >
+                {t.action.label}
+              </button>
+            )}
+            <button onClick={() => dismiss(t.id)} className="opacity-60 hover:opacity-100">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
+
+function useToast() {
+  const context = React.useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error("useToast must be used within a ToastProvider");
+  }
+  return context;
+}
+
+export { ToastProvider, useToast };
@@ -1,32 +1,128 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { Lead, LeadStatus, DateRange } from '../types/crm';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { Lead, LeadStatus, LeadTask, DateRange, PipelineStage, CustomFieldDefinition, CrmUser, MergePicks, Product, ProductInput, LeadOrder, IntentModel, IntentReport, ReplyTemplate, ReplyTemplateInput, LostReasonInput, OutboxEntry, LeadQuery, BoardCounts } from '../types/crm';
 import { CrmService } from '../services/CrmService';
+import { DEFAULT_STAGES } from '../lib/stages';
+import { withProductNames } from '../../shared/products';
+import { BOARD_PAGE_SIZE } from '../lib/board';
+import { OwnerFilter } from '../lib/owners';
+import { lostFieldsAfterMove } from '../../shared/lost';
+import { collectTags } from '../lib/customFields';
+import { useToast } from '../components/ui/Toast';
+
+// Board filters applied on the server, so pages and column counts agree
+export interface BoardFilter {
+  tag: string;
+  owner: OwnerFilter;
+}
+
+// Paging state of one board column
+interface ColumnPage {
+  offset: number; // Rows the server returned so far; cards added live or dropped in don't count
+  hasMore: boolean;
+  loading: boolean;
+}
 
 interface AppContextType {
-  leads: Lead[];
+  leads: Lead[]; // Loaded board pages: the first page of every column plus what was scrolled to
+  stages: PipelineStage[];
+  customFields: CustomFieldDefinition[];
+  products: Product[]; // Catalog, including inactive products
+  tasks: LeadTask[]; // Open follow-up tasks across all leads
+  users: CrmUser[]; // Team members (empty when working offline)
+  intentModel: IntentModel | null; // Win-probability model; null until trained
+  templates: ReplyTemplate[]; // Quick replies, most used first
+  outbox: OutboxEntry[]; // Lead changes made offline, not yet accepted by the server
   isLoading: boolean;
   isWhatsAppConnected: boolean;
   dateRange: DateRange;
+  search: string; // Board search; while set, leads come from all dates
+  boardFilter: BoardFilter;
+  boardQuery: LeadQuery; // Date range, search and filters the board pages through
+  boardCounts: BoardCounts | null; // Totals for boardQuery, beyond the loaded pages
+  columnPages: Record<string, ColumnPage>;
+  tags: string[]; // Every tag in use (the server's list), plus any new ones on loaded cards
 
   // Actions
   setDateRange: (range: DateRange) => void;
+  setSearch: (search: string) => void;
+  setBoardFilter: (filter: BoardFilter) => void;
+  loadMoreLeads: (status: LeadStatus) => Promise<void>;
   addLead: (lead: Omit<Lead, 'id' | 'created_at' | 'updated_at'>) => void;
   updateLead: (id: string, updates: Partial<Lead>) => void;
-  updateLeadStatus: (id: string, status: LeadStatus) => void;
-  removeLead: (id: string) => void;
+  saveOrder: (id: string, order: LeadOrder) => Promise<Lead>;
+  updateLeadStatus: (id: string, status: LeadStatus, position?: number, lost?: LostReasonInput) => void;
+  removeLead: (id: string) => Promise<void>;
+  restoreLead: (id: string) => Promise<void>;
+  clearLeads: () => Promise<number>;
+  reloadLeads: () => void;
+  resolveSyncEntry: (id: string, keep: 'mine' | 'server') => Promise<void>;
+  assignLead: (id: string, username: string | null) => Promise<void>;
+  mergeLeads: (keepId: string, mergeIds: string[], picks: MergePicks) => Promise<Lead>;
+  reloadUsers: () => Promise<void>;
+  saveStages: (stages: PipelineStage[]) => Promise<void>;
+  saveCustomFields: (fields: CustomFieldDefinition[]) => Promise<void>;
+  createProduct: (input: ProductInput) => Promise<Product>;
+  updateProduct: (id: string, updates: Partial<ProductInput>) => Promise<Product>;
+  trainIntentModel: () => Promise<IntentReport>;
+  createTemplate: (input: ReplyTemplateInput) => Promise<ReplyTemplate>;
+  updateTemplate: (id: string, updates: Partial<ReplyTemplateInput>) => Promise<ReplyTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+  recordTemplateUse: (id: string) => void;
+  addTask: (leadId: string, data: { due_at: string, note: string }) => Promise<void>;
+  updateTask: (id: string, updates: Partial<Pick<LeadTask, 'due_at' | 'note' | 'done'>>) => Promise<void>;
+  removeTask: (id: string) => Promise<void>;
   syncLeadsFromWhatsApp: () => Promise<void>;
   toggleWhatsAppConnection: () => void;
 
   // Metrics
-  getMetrics: () => { messages: number; potential: number; sales: number; revenue: number };
+  getMetrics: () => { messages: number; potential: number; sales: number; revenue: number; aov: number };
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// Pages can overlap (a card moved while paging, a lead queued offline): the loaded copy stays
+function mergePage(leads: Lead[], page: Lead[]): Lead[] {
+  const ids = new Set(leads.map(l => l.id));
+  const added = page.filter(l => {
+    if (ids.has(l.id)) return false;
+    ids.add(l.id);
+    return true;
+  });
+  return [...leads, ...added];
+}
+
+// Edits and socket events change the column counts; they are fetched again once things settle
+const COUNTS_REFRESH_DELAY = 1000;
+
+// Replace a task in the open list; completed tasks drop out
+function upsertOpenTask(tasks: LeadTask[], task: LeadTask): LeadTask[] {
+  const rest = tasks.filter(t => t.id !== task.id);
+  if (task.done) return rest;
+  return [...rest, task].sort((a, b) => new Date(a.due_at).getTime() - new Date(b.due_at).getTime());
+}
+
+// Merged cards disappear; the kept lead takes the place of whichever of them was on the board
+function applyMerge(leads: Lead[], lead: Lead, mergedIds: string[]): Lead[] {
+  const involved = [lead.id, ...mergedIds];
+  const index = leads.findIndex(l => involved.includes(l.id));
+  if (index === -1) return leads;
+  const rest = leads.filter(l => !involved.includes(l.id));
+  return [...rest.slice(0, index), lead, ...rest.slice(index)];
+}
+
 export function AppProvider({ children }: { children: ReactNode }) {
   const [leads, setLeads] = useState<Lead[]>([]);
+  const [stages, setStages] = useState<PipelineStage[]>(DEFAULT_STAGES);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [tasks, setTasks] = useState<LeadTask[]>([]);
+  const [users, setUsers] = useState<CrmUser[]>([]);
+  const [intentModel, setIntentModel] = useState<IntentModel | null>(null);
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(() => CrmService.getOutbox());
   const [isLoading, setIsLoading] = useState(true);
   const [isWhatsAppConnected, setIsWhatsAppConnected] = useState(false);
+  const { toast } = useToast();
 
   // Initialize Date Range to Current Month (Local Time)
   const [dateRange, setDateRange] = useState<DateRange>(() => {
@@ -45,10 +141,38 @@ export function AppProvider({ children }: { children: ReactNode }) {
     };
   });
 
+  const [search, setSearch] = useState('');
+  const [boardFilter, setBoardFilter] = useState<BoardFilter>({ tag: '', owner: 'all' });
+  const [boardCounts, setBoardCounts] = useState<BoardCounts | null>(null);
+  const [columnPages, setColumnPages] = useState<Record<string, ColumnPage>>({});
+  const [serverTags, setServerTags] = useState<string[]>([]);
+  const [reloadKey, setReloadKey] = useState(0); // Bumped to refetch after bulk changes (imports)
+  const [countsKey, setCountsKey] = useState(0); // Bumped when the counts may have changed
+  const loadGeneration = useRef(0); // Pages that arrive after the query changed are dropped
+  const loadingColumns = useRef(new Set<string>());
+
+  const boardQuery = useMemo<LeadQuery>(() => {
+    const me = CrmService.getCurrentUser()?.username;
+    const assignedTo = boardFilter.owner === 'mine' ? me : boardFilter.owner === 'unassigned' ? 'none' : undefined;
+    return { dateRange: search ? undefined : dateRange, search, tag: boardFilter.tag || undefined, assignedTo };
+  }, [dateRange, search, boardFilter]);
+
+  const refreshCounts = () => setCountsKey(key => key + 1);
+
   // Initial Load & Filter Effect
   useEffect(() => {
     loadLeads();
-  }, [dateRange]);
+  }, [boardQuery, reloadKey]);
+
+  useEffect(() => {
+    if (countsKey === 0) return;
+    const timer = setTimeout(() => {
+      CrmService.getBoardCounts(boardQuery)
+        .then(setBoardCounts)
+        .catch(err => console.warn('⚠️ Failed to refresh counts:', err));
+    }, COUNTS_REFRESH_DELAY);
+    return () => clearTimeout(timer);
+  }, [countsKey]);
 
   // WhatsApp Message Listener - Register on mount (NOT dependent on connection state!)
   useEffect(() => {
@@ -66,7 +190,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         name: newLead.name || `~${newLead.phone}`,
         last_message: newLead.last_message,
         source: 'whatsapp',
-        status: 'new',
+        status: CrmService.getEntryStatus(),
         value: 0,
         // @ts-ignore
         whatsapp_id: newLead.whatsapp_id || newLead.id,
@@ -99,6 +223,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
           console.log('➕ Adding new lead to UI:', savedLead.phone);
           return [savedLead, ...prev];
         });
+        refreshCounts();
       } catch (err) {
         console.error('Failed to save live lead:', err);
       }
@@ -124,8 +249,102 @@ export function AppProvider({ children }: { children: ReactNode }) {
         console.log('⚠️ Lead not found in UI, adding:', updatedLead.phone);
         return [updatedLead, ...prev];
       });
+      refreshCounts();
+    });
+
+    // Someone else handed a lead to us (lead_updated already moved the card)
+    CrmService.onLeadAssigned((lead, _from, actor) => {
+      const me = CrmService.getCurrentUser();
+      if (!me || lead.assigned_to !== me.username || actor === me.username) return;
+      toast({
+        title: 'Lead assigned to you',
+        description: `${lead.name || lead.phone}${actor === 'system' ? '' : ` · by ${actor}`}`,
+        duration: 8000
+      });
+    });
+
+    CrmService.onLeadsImported(() => {
+      setReloadKey(key => key + 1);
+    });
+
+    CrmService.onLeadsMerged((lead, mergedIds) => {
+      setLeads(prev => applyMerge(prev, lead, mergedIds));
+      setTasks(prev => prev.map(t => mergedIds.includes(t.lead_id) ? { ...t, lead_id: lead.id } : t));
+      refreshCounts();
+    });
+
+    // Deleted or restored on another dashboard
+    CrmService.onLeadsDeleted((ids) => {
+      setLeads(prev => prev.filter(l => !ids.includes(l.id)));
+      setTasks(prev => prev.filter(t => !ids.includes(t.lead_id)));
+      refreshCounts();
+    });
+
+    CrmService.onLeadRestored((_lead, actor) => {
+      if (actor === CrmService.getCurrentUser()?.username) return;
+      setReloadKey(key => key + 1);
+    });
+
+    // Pipeline edited on another dashboard
+    CrmService.onStagesUpdated((updatedStages) => {
+      setStages([...updatedStages].sort((a, b) => a.position - b.position));
     });
 
+    CrmService.onCustomFieldsUpdated((fields) => {
+      setCustomFields(fields);
+    });
+
+    // Catalog edited by an admin; renamed products are renamed on the cards too
+    CrmService.onProductsUpdated((updatedProducts) => {
+      setProducts(updatedProducts);
+      setLeads(prev => withProductNames(prev, updatedProducts));
+    });
+
+    CrmService.onTemplatesUpdated((updatedTemplates) => {
+      setTemplates(updatedTemplates);
+    });
+
+    // Retrained from Settings or the CLI
+    CrmService.onIntentModelUpdated((model) => {
+      setIntentModel(model);
+    });
+
+    // Follow-up tasks: keep only open ones, soonest first
+    CrmService.onTaskUpdated((task) => {
+      setTasks(prev => upsertOpenTask(prev, task));
+    });
+
+    CrmService.onTaskDeleted((id) => {
+      setTasks(prev => prev.filter(t => t.id !== id));
+    });
+
+    CrmService.onTaskDue((task, lead) => {
+      toast({
+        title: `Follow up: ${lead?.name || lead?.phone || 'lead'}`,
+        description: task.note || 'A follow-up task is due now.',
+        duration: 15000,
+        action: {
+          label: 'Done',
+          onClick: () => {
+            CrmService.updateTask(task.id, { done: true })
+              .then(updated => setTasks(prev => upsertOpenTask(prev, updated)))
+              .catch(err => console.warn('⚠️ Failed to complete task:', err));
+          }
+        }
+      });
+    });
+
+    CrmService.getUsers().then(setUsers);
+    CrmService.getIntentModel().then(setIntentModel);
+    CrmService.getTemplates().then(setTemplates);
+
+    // Changes left in the outbox by an earlier session go out as soon as the server answers
+    const unsubscribeOutbox = CrmService.onOutboxChanged(setOutbox);
+    CrmService.flushOutbox();
+
+    // Without a server nobody else raises reminders
+    const reminderTimer = setInterval(() => CrmService.checkLocalReminders(), 30000);
+
     // 🧪 TEST MODE LISTENER
     CrmService.onTestMessage((data: any) => {
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -141,7 +360,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         phone: data.phone,
         name: `[TEST] ${data.name}`,
         last_message: data.message,
-        status: 'new',
+        status: CrmService.getEntryStatus(),
         source: 'whatsapp',
         value: 0,
         created_at: data.timestamp || new Date().toISOString(),
@@ -162,56 +381,182 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
     return () => {
       console.log('🔌 Unregistering message listener');
+      clearInterval(reminderTimer);
+      unsubscribeOutbox();
     };
   }, []); // Empty array - register ONCE on mount
 
+  // The first page of every column and the counts behind them
   const loadLeads = useCallback(async () => {
+    const generation = ++loadGeneration.current;
+    loadingColumns.current.clear();
     setIsLoading(true);
-    console.log('🔍 Loading leads for range:', dateRange);
-    const data = await CrmService.getLeads(dateRange);
-    console.log(`📊 Found ${data.length} leads in range.`);
+    console.log('🔍 Loading board for:', boardQuery);
+    const [stageList, fieldList, openTasks, productList] = await Promise.all([
+      CrmService.getStages(),
+      CrmService.getCustomFields(),
+      CrmService.getTasks({ done: false }),
+      CrmService.getProducts()
+    ]);
+    const [pages, counts, tagList] = await Promise.all([
+      Promise.all(stageList.map(stage => CrmService.getLeads({ ...boardQuery, status: stage.id, order: 'board', limit: BOARD_PAGE_SIZE }))),
+      CrmService.getBoardCounts(boardQuery),
+      CrmService.getTags()
+    ]);
+    if (generation !== loadGeneration.current) return;
+
+    const data = pages.reduce(mergePage, []);
+    console.log(`📊 Loaded ${data.length} of ${counts.total} leads.`);
     setLeads(data);
+    setBoardCounts(counts);
+    setServerTags(tagList);
+    setColumnPages(Object.fromEntries(stageList.map((stage, i) => [stage.id, { offset: pages[i].length, hasMore: pages[i].length >= BOARD_PAGE_SIZE, loading: false }])));
+    setStages(stageList);
+    setCustomFields(fieldList);
+    setProducts(productList);
+    setTasks(openTasks);
     setIsLoading(false);
-  }, [dateRange]);
+  }, [boardQuery]);
 
-  // --- ACTIONS ---
+  // Next page of one column (infinite scroll), after the rows the server already sent for it
+  const loadMoreLeads = async (status: LeadStatus) => {
+    const column = columnPages[status];
+    if (!column?.hasMore || loadingColumns.current.has(status)) return;
+    const generation = loadGeneration.current;
+    loadingColumns.current.add(status);
+    setColumnPages(prev => ({ ...prev, [status]: { ...prev[status], loading: true } }));
 
-  const addLead = async (leadData: Omit<Lead, 'id' | 'created_at' | 'updated_at'>) => {
-    // 1. Auto-Sort Logic (The "Brain")
-    let status: LeadStatus = 'new';
-    const msg = leadData.last_message?.toLowerCase() || '';
-
-    if (msg.includes('qiymət') || msg.includes('price') || msg.includes('neçəyə')) {
-      status = 'potential';
-    } else if (msg.includes('sifariş') || msg.includes('almaq') || msg.includes('buy')) {
-      status = 'won';
+    let page: Lead[] = [];
+    try {
+      page = await CrmService.getLeads({ ...boardQuery, status, order: 'board', offset: column.offset, limit: BOARD_PAGE_SIZE });
+    } catch (error) {
+      console.warn('⚠️ Failed to load more leads:', error);
     }
+    if (generation !== loadGeneration.current) return;
+
+    loadingColumns.current.delete(status);
+    setLeads(prev => mergePage(prev, page));
+    setColumnPages(prev => ({ ...prev, [status]: { offset: prev[status].offset + page.length, hasMore: page.length >= BOARD_PAGE_SIZE, loading: false } }));
+  };
 
-    // 2. Create Lead
-    const newLead = await CrmService.addLead({ ...leadData, status });
+  // --- ACTIONS ---
+
+  const addLead = async (leadData: Omit<Lead, 'id' | 'created_at' | 'updated_at'>) => {
+    // 1. Create Lead in the entry stage; the classification rules (Settings → Rules) may move it
+    const newLead = await CrmService.addLead({ ...leadData, status: leadData.status || CrmService.getEntryStatus() });
 
-    // 3. Update State (if it falls within current filter)
+    // 2. Update State (if it falls within current filter)
     // For simplicity, we just reload or prepend. 
     // Prepending is faster but might show items outside date range if user is looking at old data.
     // Let's just prepend for UX responsiveness.
-    setLeads(prev => [newLead, ...prev]);
+    // (an existing phone upserts, so drop the old card)
+    setLeads(prev => [newLead, ...prev.filter(l => l.id !== newLead.id)]);
+    refreshCounts();
   };
 
   const updateLead = async (id: string, updates: Partial<Lead>) => {
-    await CrmService.updateLead(id, updates);
-    setLeads(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
+    try {
+      const saved = await CrmService.updateLead(id, updates);
+      setLeads(prev => prev.map(l => l.id === id ? { ...l, ...updates, ...saved } : l));
+      refreshCounts();
+    } catch (error) {
+      console.warn('⚠️ Lead update failed:', error);
+      toast({ variant: 'error', title: 'Changes not saved', description: error instanceof Error ? error.message : undefined });
+    }
+  };
+
+  const saveOrder = async (id: string, order: LeadOrder) => {
+    const lead = await CrmService.saveOrder(id, order);
+    setLeads(prev => prev.map(l => l.id === id ? { ...l, ...lead } : l));
+    return lead;
+  };
+
+  // Optimistic: move the card first, roll back if the server rejects it
+  const updateLeadStatus = async (id: string, status: LeadStatus, position?: number, lost?: LostReasonInput) => {
+    const previous = leads.find(l => l.id === id);
+    if (!previous) return;
+
+    const toLostStage = stages.some(s => s.id === status && s.kind === 'lost');
+    const moved = { status, ...(position === undefined ? {} : { position }), ...lostFieldsAfterMove(previous, toLostStage, lost) };
+    setLeads(prev => prev.map(l => l.id === id ? { ...l, ...moved } : l));
+
+    try {
+      await CrmService.updateStatus(id, status, position, lost);
+      refreshCounts();
+    } catch (error) {
+      console.warn('⚠️ Status update failed, rolling back:', error);
+      const { status: from, position: at, lost_reason, lost_note, lost_at } = previous;
+      setLeads(prev => prev.map(l => l.id === id ? { ...l, status: from, position: at, lost_reason, lost_note, lost_at } : l));
+      toast({
+        variant: 'error',
+        title: 'Move failed',
+        description: `${previous.name || previous.phone} was returned to "${previous.status}". ${error instanceof Error ? error.message : ''}`.trim()
+      });
+    }
+  };
+
+  const reloadLeads = () => setReloadKey(key => key + 1);
+
+  // Dropping a change leaves the board showing it, so the board is fetched again
+  const resolveSyncEntry = async (id: string, keep: 'mine' | 'server') => {
+    await CrmService.resolveOutboxEntry(id, keep);
+    if (keep === 'server') reloadLeads();
   };
 
-  const updateLeadStatus = async (id: string, status: LeadStatus) => {
-    await CrmService.updateStatus(id, status);
-    setLeads(prev => prev.map(l => l.id === id ? { ...l, status } : l));
+  const assignLead = async (id: string, username: string | null) => {
+    await CrmService.assignLead(id, username);
+    setLeads(prev => prev.map(l => l.id === id ? { ...l, assigned_to: username } : l));
+    refreshCounts();
   };
 
-  const removeLead = useCallback((id: string) => {
-    CrmService.deleteLead(id).then(() => {
-      setLeads((prev) => prev.filter((l) => l.id !== id));
+  const mergeLeads = async (keepId: string, mergeIds: string[], picks: MergePicks) => {
+    const lead = await CrmService.mergeLeads(keepId, mergeIds, picks);
+    setLeads(prev => applyMerge(prev, lead, mergeIds));
+    setTasks(prev => prev.map(t => mergeIds.includes(t.lead_id) ? { ...t, lead_id: lead.id } : t));
+    return lead;
+  };
+
+  const reloadUsers = async () => {
+    setUsers(await CrmService.getUsers());
+  };
+
+  // A restored lead comes back with its tasks and may be outside the range, so the board is fetched again
+  const restoreLead = async (id: string) => {
+    try {
+      await CrmService.restoreLead(id);
+      reloadLeads();
+    } catch (error) {
+      console.warn('⚠️ Restore failed:', error);
+      toast({ variant: 'error', title: 'Lead not restored', description: error instanceof Error ? error.message : undefined });
+    }
+  };
+
+  // Deleted leads go to the trash; the toast can bring one back for 10 seconds
+  const removeLead = async (id: string) => {
+    try {
+      await CrmService.deleteLead(id);
+    } catch (error) {
+      console.warn('⚠️ Delete failed:', error);
+      toast({ variant: 'error', title: 'Lead not deleted', description: error instanceof Error ? error.message : undefined });
+      return;
+    }
+
+    setLeads((prev) => prev.filter((l) => l.id !== id));
+    setTasks((prev) => prev.filter((t) => t.lead_id !== id));
+    refreshCounts();
+    toast({
+      title: 'Lead moved to the trash',
+      duration: 10000,
+      action: { label: 'Undo', onClick: () => { restoreLead(id); } }
     });
-  }, []);
+  };
+
+  // Every lead created in the board's date range goes to the trash (admins only on a server)
+  const clearLeads = async () => {
+    const count = await CrmService.clearLeads(dateRange);
+    reloadLeads();
+    return count;
+  };
 
   const syncLeadsFromWhatsApp = useCallback(async () => {
     setIsLoading(true);
@@ -234,7 +579,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
             phone: msg.phone,
             name: msg.name,
             last_message: msg.message,
-            status: 'new',
+            status: CrmService.getEntryStatus(),
             source: 'whatsapp',
             value: 0,
             // @ts-ignore
@@ -261,31 +606,150 @@ export function AppProvider({ children }: { children: ReactNode }) {
       setIsLoading(false);
     }
   }, [loadLeads]);
+  const saveStages = async (updatedStages: PipelineStage[]) => {
+    const saved = await CrmService.saveStages(updatedStages);
+    setStages(saved);
+  };
+
+  const saveCustomFields = async (fields: CustomFieldDefinition[]) => {
+    const saved = await CrmService.saveCustomFields(fields);
+    setCustomFields(saved);
+  };
+
+  // A new product links leads already typed with its name, so the board is reloaded
+  const createProduct = async (input: ProductInput) => {
+    const product = await CrmService.createProduct(input);
+    setProducts(prev => [...prev.filter(p => p.id !== product.id), product]);
+    reloadLeads();
+    return product;
+  };
+
+  const updateProduct = async (id: string, updates: Partial<ProductInput>) => {
+    const product = await CrmService.updateProduct(id, updates);
+    const updatedProducts = products.map(p => p.id === id ? product : p);
+    setProducts(updatedProducts);
+    setLeads(prev => withProductNames(prev, updatedProducts));
+    return product;
+  };
+
+  // The socket also delivers the new model; fetching it covers a dropped connection
+  const trainIntentModel = async () => {
+    const report = await CrmService.trainIntentModel();
+    setIntentModel(await CrmService.getIntentModel());
+    return report;
+  };
+
+  const createTemplate = async (input: ReplyTemplateInput) => {
+    const template = await CrmService.createTemplate(input);
+    setTemplates(prev => [...prev.filter(t => t.id !== template.id), template]);
+    return template;
+  };
+
+  const updateTemplate = async (id: string, updates: Partial<ReplyTemplateInput>) => {
+    const template = await CrmService.updateTemplate(id, updates);
+    setTemplates(prev => prev.map(t => t.id === id ? template : t));
+    return template;
+  };
+
+  const deleteTemplate = async (id: string) => {
+    await CrmService.deleteTemplate(id);
+    setTemplates(prev => prev.filter(t => t.id !== id));
+  };
+
+  const recordTemplateUse = (id: string) => {
+    CrmService.recordTemplateUse(id).then(template => {
+      if (template) setTemplates(prev => prev.map(t => t.id === id ? template : t));
+    });
+  };
+
+  const addTask = async (leadId: string, data: { due_at: string, note: string }) => {
+    const task = await CrmService.createTask(leadId, data);
+    setTasks(prev => upsertOpenTask(prev, task));
+  };
+
+  const updateTask = async (id: string, updates: Partial<Pick<LeadTask, 'due_at' | 'note' | 'done'>>) => {
+    const task = await CrmService.updateTask(id, updates);
+    setTasks(prev => upsertOpenTask(prev, task));
+  };
+
+  const removeTask = async (id: string) => {
+    await CrmService.deleteTask(id);
+    setTasks(prev => prev.filter(t => t.id !== id));
+  };
+
   const toggleWhatsAppConnection = () => {
     setIsWhatsAppConnected(!isWhatsAppConnected);
   };
 
   // --- METRICS ---
-  const getMetrics = () => {
-    const messages = leads.length;
-    const potential = leads.filter(l => l.status === 'potential' || l.status === 'won').length;
-    const sales = leads.filter(l => l.status === 'won').length;
-    const revenue = leads.filter(l => l.status === 'won').reduce((acc, curr) => acc + (curr.value || 0), 0);
+  // "Potential" = moved past the entry stage without being lost; revenue and AOV use order totals
+  // From the board's counts, since only a page of each column is loaded
+  const tags = useMemo(
+    () => [...new Set([...serverTags, ...collectTags(leads)])].sort((a, b) => a.localeCompare(b)),
+    [serverTags, leads]
+  );
 
-    return { messages, potential, sales, revenue };
+  const getMetrics = () => {
+    const entryStatus = stages[0]?.id;
+    const countIn = (matches: (stage: PipelineStage) => boolean) =>
+      stages.filter(matches).reduce((sum, stage) => sum + (boardCounts?.by_status[stage.id] || 0), 0);
+    const messages = boardCounts?.total || 0;
+    const potential = countIn(s => s.kind === 'won' || (s.kind === 'open' && s.id !== entryStatus));
+    const sales = countIn(s => s.kind === 'won');
+    const revenue = boardCounts?.total_won_value || 0;
+    const aov = sales > 0 ? revenue / sales : 0;
+
+    return { messages, potential, sales, revenue, aov };
   };
 
   return (
     <AppContext.Provider value={{
       leads,
+      stages,
+      customFields,
+      products,
+      tasks,
+      users,
+      intentModel,
+      templates,
+      outbox,
       isLoading,
       isWhatsAppConnected,
       dateRange,
+      search,
+      boardFilter,
+      boardQuery,
+      boardCounts,
+      columnPages,
+      tags,
       setDateRange,
+      setSearch,
+      setBoardFilter,
+      loadMoreLeads,
       addLead,
       updateLead,
+      saveOrder,
       updateLeadStatus,
       removeLead,
+      restoreLead,
+      clearLeads,
+      reloadLeads,
+      resolveSyncEntry,
+      assignLead,
+      mergeLeads,
+      reloadUsers,
+      saveStages,
+      saveCustomFields,
+      createProduct,
+      updateProduct,
+      trainIntentModel,
+      createTemplate,
+      updateTemplate,
+      deleteTemplate,
+      recordTemplateUse,
+      addTask,
+      updateTask,
+      removeTask,
       syncLeadsFromWhatsApp,
       toggleWhatsAppConnection,
       getMetrics
@@ -0,0 +1,29 @@
+import { Lead } from '../types/crm';
+
+// Gap used when dropping above the first or below the last card of a column
+const POSITION_STEP = 1000;
+
+/**
+ * Sort key of a lead inside its column. Leads without a saved position
+ * fall back to "newest first", matching the server's default.
+ */
+export function getBoardPosition(lead: Lead): number {
+  return lead.position ?? -new Date(lead.created_at).getTime();
+}
+
+export function sortByBoardPosition(leads: Lead[]): Lead[] {
+  return [...leads].sort((a, b) => getBoardPosition(a) - getBoardPosition(b));
+}
+
+/**
+ * Position for a card dropped between `before` and `after` (either may be missing).
+ */
+export function positionBetween(before?: Lead, after?: Lead): number {
+  if (before && after) return (getBoardPosition(before) + getBoardPosition(after)) / 2;
+  if (before) return getBoardPosition(before) + POSITION_STEP;
+  if (after) return getBoardPosition(after) - POSITION_STEP;
+  return -Date.now();
+}
+
+// Cards fetched per board column at a time (infinite scroll loads the next page)
+export const BOARD_PAGE_SIZE = 50;
@@ -0,0 +1,42 @@
+import { Lead, CustomFieldDefinition, CustomFieldType } from '../types/crm';
+
+export const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  date: 'Date',
+};
+
+/**
+ * Every tag used on the given leads, sorted alphabetically (for filter dropdowns).
+ */
+export function collectTags(leads: Lead[]): string[] {
+  const tags = new Set<string>();
+  leads.forEach(l => (l.tags || []).forEach(tag => tags.add(tag)));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+export function formatFieldValue(field: CustomFieldDefinition, value: string | number | undefined): string {
+  if (value === undefined || value === '') return '';
+  if (field.type === 'date') {
+    const date = new Date(`${value}T00:00:00`);
+    return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+  return String(value);
+}
+
+/**
+ * Board filter for one custom field: text matches partially, everything else exactly.
+ */
+export function matchesFieldFilter(lead: Lead, field: CustomFieldDefinition, filter: string): boolean {
+  if (!filter) return true;
+  const value = lead.custom_fields?.[field.id];
+  if (value === undefined || value === '') return false;
+  if (field.type === 'text') {
+    return String(value).toLowerCase().includes(filter.toLowerCase());
+  }
+  if (field.type === 'number') {
+    return Number(value) === Number(filter);
+  }
+  return String(value) === filter;
+}
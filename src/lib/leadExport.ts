@@ -0,0 +1,43 @@
+import { Lead, PipelineStage, CustomFieldDefinition } from '../types/crm';
+import { SheetTable } from './spreadsheet';
+
+/**
+ * One row per lead with every stored field. Headers match the import
+ * wizard's aliases, so an exported file can be imported again as is.
+ */
+export function buildLeadExport(leads: Lead[], stages: PipelineStage[], customFields: CustomFieldDefinition[]): SheetTable {
+  const headers = [
+    'ID', 'Phone', 'Name', 'Status', 'Stage', 'Value (AZN)', 'Product', 'Tags', 'Owner', 'Source',
+    'Last Message', ...customFields.map(f => f.label),
+    'Created At', 'Updated At', 'WhatsApp ID', 'Contact Name', 'First Message'
+  ];
+
+  const rows = leads.map(lead => [
+    lead.id,
+    lead.phone,
+    lead.name || '',
+    lead.status,
+    stages.find(s => s.id === lead.status)?.name || '',
+    String(lead.value || 0),
+    lead.product_name || '',
+    (lead.tags || []).join(', '),
+    lead.assigned_to || '',
+    lead.source,
+    lead.last_message || '',
+    ...customFields.map(f => {
+      const value = lead.custom_fields?.[f.id];
+      return value === undefined ? '' : String(value);
+    }),
+    lead.created_at,
+    lead.updated_at,
+    lead.whatsapp_id || '',
+    lead.source_contact_name || '',
+    lead.source_message || ''
+  ]);
+
+  return { headers, rows };
+}
+
+export function exportFilename(extension: 'csv' | 'xlsx'): string {
+  return `leads_${new Date().toISOString().split('T')[0]}.${extension}`;
+}
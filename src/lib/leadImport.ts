@@ -0,0 +1,165 @@
+import { CrmUser, CustomFieldDefinition, CustomFieldValues, LeadImportInput, PipelineStage } from '../types/crm';
+import { SheetTable } from './spreadsheet';
+import { foldText } from '../../shared/search';
+import { normalizePhone } from '../../shared/phone';
+
+// What a spreadsheet column can be imported as ('' = ignore, 'custom:<id>' = custom field)
+export type ImportTarget = '' | 'phone' | 'name' | 'product_name' | 'value' | 'status' | 'tags' | 'last_message' | 'assigned_to' | `custom:${string}`;
+
+export interface ImportContext {
+  stages: PipelineStage[];
+  customFields: CustomFieldDefinition[];
+  users: CrmUser[];
+  existingPhones: Set<string>;
+  updateExisting: boolean;
+}
+
+export interface ImportPreviewRow {
+  input: LeadImportInput;
+  action: 'create' | 'update' | 'skip';
+  errors: string[];
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Header spellings recognised when guessing the mapping (compared accent-insensitively)
+const TARGET_ALIASES: [ImportTarget, string[]][] = [
+  ['phone', ['phone', 'telefon', 'tel', 'nomre', 'number', 'mobile', 'whatsapp']],
+  ['name', ['name', 'ad', 'ad soyad', 'full name', 'musteri', 'customer', 'client']],
+  ['product_name', ['product', 'product name', 'product_name', 'mehsul', 'item']],
+  ['value', ['value', 'value (azn)', 'amount', 'price', 'qiymet', 'mebleg', 'total', 'sum']],
+  ['status', ['status', 'stage', 'merhele']],
+  ['tags', ['tags', 'tag', 'etiket', 'etiketler']],
+  ['last_message', ['last message', 'last_message', 'message', 'mesaj', 'note', 'qeyd']],
+  ['assigned_to', ['owner', 'assigned to', 'assigned_to', 'agent', 'menecer']],
+];
+
+export function importTargetOptions(customFields: CustomFieldDefinition[], users: CrmUser[]): { value: ImportTarget; label: string }[] {
+  return [
+    { value: '', label: '— Ignore —' },
+    { value: 'phone', label: 'Phone (required)' },
+    { value: 'name', label: 'Name' },
+    { value: 'product_name', label: 'Product' },
+    { value: 'value', label: 'Value (AZN)' },
+    { value: 'status', label: 'Status' },
+    { value: 'tags', label: 'Tags' },
+    { value: 'last_message', label: 'Last Message' },
+    // Owners only exist on a server
+    ...(users.length > 0 ? [{ value: 'assigned_to' as ImportTarget, label: 'Owner (username)' }] : []),
+    ...customFields.map(f => ({ value: `custom:${f.id}` as ImportTarget, label: f.label })),
+  ];
+}
+
+/**
+ * Initial column mapping from the header row. Each target is used at most once.
+ */
+export function guessMapping(headers: string[], customFields: CustomFieldDefinition[], users: CrmUser[]): ImportTarget[] {
+  const allowed = new Set(importTargetOptions(customFields, users).map(o => o.value));
+  const used = new Set<ImportTarget>();
+
+  return headers.map(header => {
+    const key = foldText(header).trim();
+    const custom = customFields.find(f => foldText(f.label) === key || f.id === key);
+    const target: ImportTarget = custom
+      ? `custom:${custom.id}`
+      : TARGET_ALIASES.find(([, aliases]) => aliases.includes(key))?.[0] || '';
+    if (!target || used.has(target) || !allowed.has(target)) return '';
+    used.add(target);
+    return target;
+  });
+}
+
+// "1 200,50" and "1200.50" both mean 1200.5
+function parseAmount(raw: string): number {
+  const normalized = raw.replace(/[\s₼]|AZN/gi, '').replace(',', '.');
+  return normalized === '' ? NaN : Number(normalized);
+}
+
+// Accepts YYYY-MM-DD and the local DD.MM.YYYY
+function parseDate(raw: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+  const local = raw.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  if (!local) return null;
+  return `${local[3]}-${local[2].padStart(2, '0')}-${local[1].padStart(2, '0')}`;
+}
+
+function parseCustomValue(field: CustomFieldDefinition, raw: string): string | number {
+  if (field.type === 'number') {
+    const num = parseAmount(raw);
+    if (!Number.isFinite(num)) throw new Error(`${field.label}: "${raw}" is not a number`);
+    return num;
+  }
+  if (field.type === 'date') {
+    const date = parseDate(raw);
+    if (!date) throw new Error(`${field.label}: "${raw}" is not a date (YYYY-MM-DD or DD.MM.YYYY)`);
+    return date;
+  }
+  if (field.type === 'select') {
+    const option = field.options.find(o => foldText(o) === foldText(raw));
+    if (!option) throw new Error(`${field.label}: "${raw}" is not one of ${field.options.join(', ')}`);
+    return option;
+  }
+  return raw;
+}
+
+/**
+ * Validate every row against the mapping and decide what the import will do with it.
+ * Existing phones follow the server upsert: update (or skip), never a second lead.
+ */
+export function buildImportPreview(table: SheetTable, mapping: ImportTarget[], context: ImportContext): ImportPreviewRow[] {
+  const seenInFile = new Map<string, number>();
+
+  return table.rows.map((cells, index) => {
+    const input: LeadImportInput = { row: index + 2 }; // +1 for the header, +1 for 1-based rows
+    const customValues: CustomFieldValues = {};
+    const errors: string[] = [];
+
+    mapping.forEach((target, col) => {
+      const raw = (cells[col] || '').trim();
+      if (!target || !raw) return;
+      try {
+        if (target === 'phone') {
+          const phone = normalizePhone(raw);
+          if (!phone) throw new Error(`Invalid phone number: ${raw}`);
+          input.phone = phone;
+        } else if (target === 'value') {
+          const value = parseAmount(raw);
+          if (!Number.isFinite(value) || value < 0) throw new Error(`Value "${raw}" must be a non-negative number`);
+          input.value = value;
+        } else if (target === 'status') {
+          const stage = context.stages.find(s => s.id === raw || foldText(s.name) === foldText(raw));
+          if (!stage) throw new Error(`Unknown status "${raw}"`);
+          input.status = stage.id;
+        } else if (target === 'tags') {
+          input.tags = raw.split(/[,;|]/).map(t => t.trim()).filter(Boolean);
+        } else if (target === 'assigned_to') {
+          const username = raw.toLowerCase();
+          if (!context.users.some(u => u.username === username)) throw new Error(`Unknown user "${raw}"`);
+          input.assigned_to = username;
+        } else if (target.startsWith('custom:')) {
+          const field = context.customFields.find(f => f.id === target.slice(7));
+          if (field) customValues[field.id] = parseCustomValue(field, raw);
+        } else {
+          input[target as 'name' | 'product_name' | 'last_message'] = raw;
+        }
+      } catch (e) {
+        errors.push(e instanceof Error ? e.message : String(e));
+      }
+    });
+
+    if (Object.keys(customValues).length > 0) input.custom_fields = customValues;
+
+    const phoneColumn = mapping.indexOf('phone');
+    if (phoneColumn < 0 || !(cells[phoneColumn] || '').trim()) {
+      errors.push('Phone is missing');
+    } else if (input.phone && seenInFile.has(input.phone)) {
+      errors.push(`Same phone as row ${seenInFile.get(input.phone)}`);
+    } else if (input.phone) {
+      seenInFile.set(input.phone, input.row);
+    }
+
+    const exists = !!input.phone && context.existingPhones.has(input.phone);
+    const action = exists ? (context.updateExisting ? 'update' : 'skip') : 'create';
+    return { input, action, errors };
+  });
+}
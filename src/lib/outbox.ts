@@ -0,0 +1,68 @@
+import { Lead, OutboxEntry } from '../types/crm';
+import { orderLeadFields } from '../../shared/orders';
+
+// Retries after a failed send wait 2s, 4s, 8s ... up to five minutes
+const FIRST_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+export function retryDelay(attempts: number): number {
+  return Math.min(FIRST_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+}
+
+// The lead fields an entry changes, as they would be after it is applied
+export function entryFields(entry: OutboxEntry): Partial<Lead> {
+  switch (entry.kind) {
+    case 'create':
+      return entry.lead;
+    case 'status':
+      return entry.payload;
+    case 'details':
+      return entry.payload;
+    case 'order':
+      return orderLeadFields(entry.payload);
+    case 'delete':
+      return {};
+  }
+}
+
+/**
+ * Leads from the server with the changes still waiting in the outbox laid over them,
+ * so a reload does not undo what was done offline. New leads go first, deleted ones are left out.
+ */
+export function applyOutbox(leads: Lead[], entries: OutboxEntry[]): Lead[] {
+  let result = leads;
+  for (const entry of entries) {
+    if (entry.kind === 'create') {
+      if (!result.some(l => l.id === entry.lead_id || l.phone === entry.lead.phone)) result = [entry.lead, ...result];
+      continue;
+    }
+    if (entry.kind === 'delete') {
+      result = result.filter(l => l.id !== entry.lead_id);
+      continue;
+    }
+    result = result.map(l => l.id === entry.lead_id ? { ...l, ...entryFields(entry) } : l);
+  }
+  return result;
+}
+
+/**
+ * The outbox once `entry` reached the server as `lead`. Later changes to the same lead
+ * were made on top of this one, so they move to the lead's new id and version;
+ * changes made on an older version keep it and may still conflict.
+ */
+export function afterSent(entries: OutboxEntry[], entry: OutboxEntry, lead: Lead): OutboxEntry[] {
+  return entries
+    .filter(e => e.id !== entry.id)
+    .map(e => e.lead_id === entry.lead_id && e.base_version === entry.base_version
+      ? { ...e, lead_id: lead.id, base_version: lead.version ?? null }
+      : e.lead_id === entry.lead_id ? { ...e, lead_id: lead.id } : e);
+}
+
+// Field by field, what the entry would set against what the server has now (conflict screen)
+export function conflictFields(entry: OutboxEntry): { field: string; mine: unknown; server: unknown }[] {
+  if (!entry.server_lead) return [];
+  const server = entry.server_lead as unknown as Record<string, unknown>;
+  return Object.entries(entryFields(entry))
+    .filter(([, value]) => value !== undefined)
+    .map(([field, mine]) => ({ field, mine, server: server[field] }));
+}
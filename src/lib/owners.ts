@@ -0,0 +1,40 @@
+import { Lead, CrmUser, AssignmentMode } from '../types/crm';
+
+export type OwnerFilter = 'all' | 'mine' | 'unassigned';
+
+export const ASSIGNMENT_MODE_LABELS: Record<AssignmentMode, string> = {
+  manual: 'Manually',
+  round_robin: 'Round-robin',
+  least_busy: 'Least busy agent',
+};
+
+// Full class names so Tailwind keeps them
+const AVATAR_COLORS = [
+  'bg-blue-600', 'bg-purple-600', 'bg-green-600', 'bg-orange-600',
+  'bg-pink-600', 'bg-cyan-600', 'bg-yellow-600', 'bg-red-600',
+];
+
+export function ownerName(username: string, users: CrmUser[]): string {
+  return users.find(u => u.username === username)?.name || username;
+}
+
+export function ownerInitials(username: string, users: CrmUser[]): string {
+  const parts = ownerName(username, users).trim().split(/\s+/);
+  const initials = parts.length > 1 ? parts[0][0] + parts[parts.length - 1][0] : parts[0].slice(0, 2);
+  return initials.toUpperCase();
+}
+
+/**
+ * Stable per-user avatar color, so the same agent looks the same on every dashboard.
+ */
+export function ownerColor(username: string): string {
+  let hash = 0;
+  for (const char of username) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+export function matchesOwnerFilter(lead: Lead, filter: OwnerFilter, me: string | null): boolean {
+  if (filter === 'mine') return !!me && lead.assigned_to === me;
+  if (filter === 'unassigned') return !lead.assigned_to;
+  return true;
+}
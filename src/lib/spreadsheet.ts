@@ -0,0 +1,151 @@
+// CSV / XLSX reading and writing for lead import and export (runs in the browser, no server needed)
+
+export interface SheetTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// --- CSV ---
+
+// Excel in az/ru locales saves with ";", so pick whichever separator the header row uses most
+function detectDelimiter(firstLine: string): string {
+  const best = [',', ';', '\t']
+    .map(d => ({ d, count: firstLine.split(d).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0];
+  return best.count > 0 ? best.d : ',';
+}
+
+export function parseCsv(content: string): SheetTable {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/)[0] || '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return toTable(records);
+}
+
+// Customer messages end up in cells, so neutralise anything a spreadsheet would run as a formula
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",;\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(table: SheetTable): string {
+  // BOM so Excel opens UTF-8 (ə, ş, ç...) correctly
+  return '\uFEFF' + [table.headers, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+// --- XLSX ---
+
+// exceljs is large, so it is only fetched when someone actually imports or exports a workbook
+async function loadExcel() {
+  const module = await import('exceljs');
+  // CommonJS bundle: once bundled the classes may sit on the default export
+  return (module as unknown as { default?: typeof module }).default || module;
+}
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object') {
+    const cell = value as { richText?: { text: string }[]; text?: string; result?: unknown };
+    if (cell.richText) return cell.richText.map(part => part.text).join('');
+    if (cell.text !== undefined) return String(cell.text);
+    if (cell.result !== undefined) return cellToString(cell.result);
+    return '';
+  }
+  return String(value);
+}
+
+async function parseXlsx(buffer: ArrayBuffer): Promise<SheetTable> {
+  const ExcelJS = await loadExcel();
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as never);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const records: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      values.push(cellToString(row.getCell(col).value));
+    }
+    records.push(values);
+  });
+  return toTable(records);
+}
+
+export async function toXlsx(table: SheetTable, sheetName: string): Promise<Blob> {
+  const ExcelJS = await loadExcel();
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.addRow(table.headers).font = { bold: true };
+  table.rows.forEach(row => sheet.addRow(row));
+  sheet.columns.forEach(column => { column.width = 18; });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+// --- FILES ---
+
+// First non-empty record is the header row; blank lines are dropped
+function toTable(records: string[][]): SheetTable {
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows };
+}
+
+export async function readSpreadsheet(file: File): Promise<SheetTable> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  if (/\.(csv|txt)$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+  throw new Error('Unsupported file type. Use .csv or .xlsx');
+}
+
+export function downloadFile(content: Blob | string, filename: string) {
+  const blob = typeof content === 'string' ? new Blob([content], { type: 'text/csv;charset=utf-8' }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,36 @@
+import { Lead, PipelineStage, StageKind } from '../types/crm';
+
+export const DEFAULT_STAGES: PipelineStage[] = [
+  { id: 'new', name: 'New Messages', color: 'blue', position: 0, kind: 'open' },
+  { id: 'potential', name: 'Potential (Lead)', color: 'purple', position: 1, kind: 'open' },
+  { id: 'won', name: 'Sold (Won)', color: 'green', position: 2, kind: 'won' },
+  { id: 'lost', name: 'Lost / Ignored', color: 'slate', position: 3, kind: 'lost' },
+];
+
+// Full class names so Tailwind keeps them (no `bg-${color}-500` interpolation)
+export const STAGE_COLORS: Record<string, { header: string; icon: string; button: string; dot: string }> = {
+  blue: { header: 'bg-blue-950/10', icon: 'bg-blue-500/20 text-blue-400', button: 'bg-blue-950/20 hover:bg-blue-900/40 text-blue-400 border-blue-900/30', dot: 'bg-blue-500' },
+  purple: { header: 'bg-purple-950/10', icon: 'bg-purple-500/20 text-purple-400', button: 'bg-purple-950/20 hover:bg-purple-900/40 text-purple-400 border-purple-900/30', dot: 'bg-purple-500' },
+  green: { header: 'bg-green-950/10', icon: 'bg-green-500/20 text-green-400', button: 'bg-green-950/20 hover:bg-green-900/40 text-green-400 border-green-900/30', dot: 'bg-green-500' },
+  yellow: { header: 'bg-yellow-950/10', icon: 'bg-yellow-500/20 text-yellow-400', button: 'bg-yellow-950/20 hover:bg-yellow-900/40 text-yellow-400 border-yellow-900/30', dot: 'bg-yellow-500' },
+  orange: { header: 'bg-orange-950/10', icon: 'bg-orange-500/20 text-orange-400', button: 'bg-orange-950/20 hover:bg-orange-900/40 text-orange-400 border-orange-900/30', dot: 'bg-orange-500' },
+  red: { header: 'bg-red-950/10', icon: 'bg-red-500/20 text-red-400', button: 'bg-red-950/20 hover:bg-red-900/40 text-red-400 border-red-900/30', dot: 'bg-red-500' },
+  pink: { header: 'bg-pink-950/10', icon: 'bg-pink-500/20 text-pink-400', button: 'bg-pink-950/20 hover:bg-pink-900/40 text-pink-400 border-pink-900/30', dot: 'bg-pink-500' },
+  cyan: { header: 'bg-cyan-950/10', icon: 'bg-cyan-500/20 text-cyan-400', button: 'bg-cyan-950/20 hover:bg-cyan-900/40 text-cyan-400 border-cyan-900/30', dot: 'bg-cyan-500' },
+  slate: { header: 'bg-slate-950/10', icon: 'bg-slate-500/20 text-slate-400', button: 'bg-slate-900 hover:bg-slate-800 text-slate-400 border-slate-800', dot: 'bg-slate-500' },
+};
+
+export function getStageColor(color: string) {
+  return STAGE_COLORS[color] || STAGE_COLORS.slate;
+}
+
+export function sortStages(stages: PipelineStage[]): PipelineStage[] {
+  return [...stages].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Kind of the stage a lead is in. Unknown stages count as open.
+ */
+export function getLeadKind(lead: Lead, stages: PipelineStage[]): StageKind {
+  return stages.find(s => s.id === lead.status)?.kind || 'open';
+}
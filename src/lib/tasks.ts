@@ -0,0 +1,33 @@
+import { LeadTask } from '../types/crm';
+
+export function endOfToday(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+}
+
+export function isOverdue(task: LeadTask, now: Date = new Date()): boolean {
+  return !task.done && new Date(task.due_at).getTime() < now.getTime();
+}
+
+/**
+ * Open tasks that need attention today: overdue or due before midnight.
+ */
+export function isDueToday(task: LeadTask, now: Date = new Date()): boolean {
+  return !task.done && new Date(task.due_at).getTime() <= endOfToday(now).getTime();
+}
+
+export function formatDueDate(task: LeadTask): string {
+  return new Date(task.due_at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+// Value for <input type="datetime-local"> in local time
+export function toDateTimeLocal(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * "My tasks today": due or overdue tasks assigned to `username`, or all of them when offline (null).
+ */
+export function myTasksToday(tasks: LeadTask[], username: string | null): LeadTask[] {
+  return tasks.filter(t => isDueToday(t) && (!username || t.assigned_to === username));
+}
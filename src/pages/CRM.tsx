@@ -1,38 +1,91 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useAppStore } from '../context/Store';
-import { Lead, LeadStatus } from '../types/crm';
+import { Lead, LeadStatus, LeadTask, PipelineStage, CustomFieldDefinition, CrmUser, IntentModel } from '../types/crm';
 import { Badge } from '../components/ui/Badge';
 import { Input } from '../components/ui/Input';
 import { WhatsAppConnect } from '../components/WhatsAppConnect';
 import { LeadForm } from '../components/LeadForm';
+import { ConversationView, ConversationTab } from '../components/ConversationView';
+import { TasksTodayPanel } from '../components/TasksTodayPanel';
+import { OwnerPicker } from '../components/OwnerPicker';
+import { Highlight } from '../components/Highlight';
+import { ImportWizard } from '../components/ImportWizard';
+import { ExportDialog } from '../components/ExportDialog';
+import { DuplicatesView } from '../components/DuplicatesView';
+import { LostReasonDialog } from '../components/LostReasonDialog';
+import { VirtualList } from '../components/VirtualList';
+import { useToast } from '../components/ui/Toast';
 import {
   MessageSquare, UserPlus, CheckCircle, XCircle, Plus,
   Phone, Trash2, Calendar, Filter, RefreshCcw, Eraser, Pencil, ShoppingBag, DollarSign,
-  TrendingUp, Users, PlayCircle, Zap
+  TrendingUp, Users, PlayCircle, Zap, Tag, CalendarCheck, Clock, Search, X, Upload, Download, GitMerge, Loader2
 } from 'lucide-react';
 import { cn, formatCurrency } from '../lib/utils';
-import { CrmService } from '../services/CrmService';
+import { sortByBoardPosition, positionBetween } from '../lib/board';
+import { getStageColor, getLeadKind } from '../lib/stages';
+import { formatFieldValue, matchesFieldFilter } from '../lib/customFields';
+import { isDueToday, isOverdue, formatDueDate, myTasksToday } from '../lib/tasks';
+import { OwnerFilter, matchesOwnerFilter } from '../lib/owners';
+import { findMatches } from '../../shared/search';
+import { formatPhone } from '../../shared/phone';
+import { leadRevenue, hasOrder } from '../../shared/orders';
+import { winProbability } from '../../shared/intent';
+import { lostReasonLabel } from '../../shared/lost';
+import { CrmService, CrmApiError } from '../services/CrmService';
 
 const TEST_MODE_ACTIVE = true; // Toggle for visual debug indicators
+const CARD_HEIGHT = 180; // Estimate for cards not yet measured by the virtual list
 
 export default function CRMPage() {
   const {
     leads,
+    stages,
+    customFields,
+    tasks,
+    users,
+    intentModel,
     isLoading,
     isWhatsAppConnected,
     addLead,
     updateLead,
     updateLeadStatus,
     removeLead,
+    clearLeads,
+    assignLead,
     syncLeadsFromWhatsApp,
     toggleWhatsAppConnection,
     dateRange,
-    setDateRange
+    setDateRange,
+    search,
+    setSearch,
+    tags,
+    boardFilter,
+    setBoardFilter,
+    boardQuery,
+    boardCounts,
+    columnPages,
+    loadMoreLeads
   } = useAppStore();
 
+  const { toast } = useToast();
+  // Bulk clear is admin-only on a server; offline the data is this device's own
+  const currentUser = CrmService.getCurrentUser();
+  const canClear = !currentUser || currentUser.role === 'admin';
+
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
-  const [viewingMessage, setViewingMessage] = useState<{ name: string, text: string } | null>(null);
+  const [viewingLead, setViewingLead] = useState<Lead | null>(null);
+  const [viewingTab, setViewingTab] = useState<ConversationTab>('chat');
+  const [showTasksPanel, setShowTasksPanel] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: LeadStatus, index: number } | null>(null);
+  const [losingMove, setLosingMove] = useState<{ lead: Lead, status: LeadStatus, position?: number } | null>(null);
+  const [sortByChance, setSortByChance] = useState(false);
+  const [searchInput, setSearchInput] = useState(search);
+  const [fieldFilter, setFieldFilter] = useState<{ fieldId: string, value: string }>({ fieldId: '', value: '' });
   const [systemHealth, setSystemHealth] = useState<{ whatsapp: string, socket_clients: number, timestamp: string } | null>(null);
 
   // Health listener
@@ -43,19 +96,147 @@ export default function CRMPage() {
   }, []);
 
 
-  // --- METRICS CALCULATION ---
-  const metrics = useMemo(() => {
-    const totalLeads = leads.length;
-    const totalRevenue = leads
-      .filter(l => l.status === 'won')
-      .reduce((sum, l) => sum + (l.value || 0), 0);
+  // Query the store (and so the server) once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const openLead = (lead: Lead, tab: ConversationTab = 'chat') => {
+    setViewingTab(tab);
+    setViewingLead(lead);
+  };
+
+  const myUsername = CrmService.getCurrentUser()?.username || null;
+  const tasksTodayCount = myTasksToday(tasks, myUsername).length;
+
+  const tasksByLead = useMemo(() => {
+    const grouped: Record<string, LeadTask[]> = {};
+    tasks.forEach(t => {
+      (grouped[t.lead_id] = grouped[t.lead_id] || []).push(t);
+    });
+    return grouped;
+  }, [tasks]);
+
+  const filterField = customFields.find(f => f.id === fieldFilter.fieldId);
+
+  // Date range, search, owner and tag are applied by the server; they are checked again here
+  // for cards that arrive live. Custom field filters only narrow the loaded cards.
+  const matchesFilters = (l: Lead) =>
+    matchesOwnerFilter(l, boardFilter.owner, myUsername) &&
+    (!boardFilter.tag || (l.tags || []).includes(boardFilter.tag)) &&
+    (!filterField || matchesFieldFilter(l, filterField, fieldFilter.value));
 
-    return { totalLeads, totalRevenue };
-  }, [leads]);
+  // The server's column counts don't know the custom field filter, so while one is set the
+  // badges count the loaded cards that pass it instead
+  const fieldFilterActive = !!filterField && !!fieldFilter.value;
+
+  const handleAssign = (lead: Lead, username: string | null) => {
+    assignLead(lead.id, username).catch(err => {
+      alert(err instanceof Error ? err.message : 'Assignment failed');
+    });
+  };
+
+  const isChanceSort = sortByChance && !!intentModel;
+
+  // One pass over the loaded cards: each column in saved board order (or most likely to win
+  // first in open columns), and the win probability of every open lead the model can read
+  const { leadsByColumn, winChances } = useMemo(() => {
+    const grouped: Record<string, Lead[]> = {};
+    const chances: Record<string, number> = {};
+    leads.forEach(l => {
+      if (!matchesFilters(l)) return;
+      (grouped[l.status] = grouped[l.status] || []).push(l);
+      if (!intentModel || getLeadKind(l, stages) !== 'open') return;
+      const chance = winProbability(intentModel, l);
+      if (chance !== null) chances[l.id] = chance;
+    });
+    Object.keys(grouped).forEach(status => {
+      grouped[status] = sortByBoardPosition(grouped[status]);
+      if (isChanceSort && stages.find(s => s.id === status)?.kind === 'open') {
+        grouped[status] = [...grouped[status]].sort((a, b) => (chances[b.id] ?? -1) - (chances[a.id] ?? -1));
+      }
+    });
+    return { leadsByColumn: grouped, winChances: chances };
+  }, [leads, boardFilter, myUsername, filterField, fieldFilter.value, stages, intentModel, isChanceSort]);
+
+  // --- DRAG & DROP ---
+  const handleDragStart = (e: React.DragEvent, lead: Lead) => {
+    e.dataTransfer.setData('text/plain', lead.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingId(lead.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
 
-  const handleClearAll = () => {
-    if (confirm("Are you sure you want to delete ALL local data? This cannot be undone.")) {
-      leads.forEach(l => removeLead(l.id));
+  const handleCardDragOver = (e: React.DragEvent, status: LeadStatus, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const isLowerHalf = e.clientY > rect.top + rect.height / 2;
+    const targetIndex = isLowerHalf ? index + 1 : index;
+    if (dropTarget?.status !== status || dropTarget.index !== targetIndex) {
+      setDropTarget({ status, index: targetIndex });
+    }
+  };
+
+  const handleColumnDragOver = (e: React.DragEvent, status: LeadStatus) => {
+    e.preventDefault();
+    // Empty space below the cards = end of column
+    if (dropTarget?.status !== status) {
+      setDropTarget({ status, index: (leadsByColumn[status] || []).length });
+    }
+  };
+
+  // Moving into the lost stages asks why first; the move happens once a reason is picked
+  const moveLead = (id: string, status: LeadStatus, position?: number) => {
+    const lead = leads.find(l => l.id === id);
+    const isLost = (stageId?: string) => stages.some(s => s.id === stageId && s.kind === 'lost');
+    if (lead && isLost(status) && !isLost(lead.status)) {
+      setLosingMove({ lead, status, position });
+      return;
+    }
+    updateLeadStatus(id, status, position);
+  };
+
+  const handleDrop = (e: React.DragEvent, status: LeadStatus) => {
+    e.preventDefault();
+    const id = draggingId || e.dataTransfer.getData('text/plain');
+    const index = dropTarget?.status === status ? dropTarget.index : (leadsByColumn[status] || []).length;
+    handleDragEnd();
+
+    const lead = leads.find(l => l.id === id);
+    if (!lead) return;
+
+    const column = leadsByColumn[status] || [];
+    const before = column[index - 1];
+    const after = column[index];
+
+    // Dropped onto its own slot
+    if (lead.status === status && (before?.id === id || after?.id === id)) return;
+
+    // Sorted by chance the slots are not the saved order, so only the stage changes
+    if (isChanceSort) {
+      if (lead.status !== status) moveLead(id, status);
+      return;
+    }
+
+    moveLead(id, status, positionBetween(before, after));
+  };
+
+  // Everything created in the selected dates goes to the trash in one server call
+  const handleClearAll = async () => {
+    const range = dateRange.start || dateRange.end ? `created ${dateRange.start || '…'} – ${dateRange.end || '…'}` : 'of every date';
+    if (!confirm(`Move all leads ${range} to the trash? They can be restored from the Trash page until they are purged.`)) return;
+
+    try {
+      const count = await clearLeads();
+      toast({ title: `${count} ${count === 1 ? 'lead' : 'leads'} moved to the trash` });
+    } catch (error) {
+      toast({ variant: 'error', title: 'Leads not cleared', description: error instanceof Error ? error.message : undefined });
     }
   };
 
@@ -74,7 +255,7 @@ export default function CRMPage() {
 
   // TEST FUNCTION: Simulate incoming WhatsApp message
   const handleTestMessage = async () => {
-    const randomPhone = '+994' + Math.floor(Math.random() * 1000000000);
+    const randomPhone = '+99450' + String(Math.floor(Math.random() * 10000000)).padStart(7, '0');
     const testNames = ['Test İstifadəçi', 'Demo Müştəri', 'Sınaq Lead', 'WhatsApp Test'];
     const testMessages = ['Salam, qiymət?', 'Məhsul haqqında məlumat', 'Çatdırılma var?', 'Sifariş vermək istəyirəm'];
 
@@ -82,7 +263,7 @@ export default function CRMPage() {
       phone: randomPhone,
       name: testNames[Math.floor(Math.random() * testNames.length)],
       last_message: testMessages[Math.floor(Math.random() * testMessages.length)],
-      status: 'new' as LeadStatus,
+      status: CrmService.getEntryStatus(),
       source: 'whatsapp' as const,
       value: 0
     };
@@ -117,12 +298,14 @@ export default function CRMPage() {
     });
   };
 
-  const columns: { id: LeadStatus; title: string; color: string; icon: any }[] = [
-    { id: 'new', title: 'New Messages', color: 'blue', icon: <MessageSquare className="w-4 h-4" /> },
-    { id: 'potential', title: 'Potential (Lead)', color: 'purple', icon: <UserPlus className="w-4 h-4" /> },
-    { id: 'won', title: 'Sold (Won)', color: 'green', icon: <CheckCircle className="w-4 h-4" /> },
-    { id: 'lost', title: 'Lost / Ignored', color: 'slate', icon: <XCircle className="w-4 h-4" /> },
-  ];
+  const columns: { id: LeadStatus; title: string; color: string; icon: React.ReactNode }[] = stages.map((stage, index) => ({
+    id: stage.id,
+    title: stage.name,
+    color: stage.color,
+    icon: stage.kind === 'won' ? <CheckCircle className="w-4 h-4" /> :
+      stage.kind === 'lost' ? <XCircle className="w-4 h-4" /> :
+      index === 0 ? <MessageSquare className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />
+  }));
 
   return (
     <div className="p-6 max-w-[1600px] mx-auto h-full flex flex-col font-sans space-y-6">
@@ -190,6 +373,50 @@ export default function CRMPage() {
               <span>Yenilə</span>
             </button>
 
+            <button
+              onClick={() => setShowTasksPanel(!showTasksPanel)}
+              className={cn(
+                "px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-all border",
+                showTasksPanel ? "bg-orange-900/30 border-orange-800 text-orange-200" : "bg-slate-800 hover:bg-slate-700 text-slate-200 border-slate-700"
+              )}
+              title="Follow-ups due today and overdue"
+            >
+              <CalendarCheck className="w-4 h-4 text-orange-400" />
+              <span>Tasks</span>
+              {tasksTodayCount > 0 && (
+                <span className="min-w-5 h-5 px-1 rounded-full bg-orange-600 text-white text-[10px] font-bold flex items-center justify-center">
+                  {tasksTodayCount}
+                </span>
+              )}
+            </button>
+
+            <button
+              onClick={() => setShowImport(true)}
+              className="bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-all border border-slate-700"
+              title="Import leads from a CSV or Excel file"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import</span>
+            </button>
+
+            <button
+              onClick={() => setShowExport(true)}
+              className="bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-all border border-slate-700"
+              title="Export the leads on the board to CSV or Excel"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export</span>
+            </button>
+
+            <button
+              onClick={() => setShowDuplicates(true)}
+              className="bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-all border border-slate-700"
+              title="Find and merge leads that are the same customer"
+            >
+              <GitMerge className="w-4 h-4 text-purple-400" />
+              <span>Duplicates</span>
+            </button>
+
             <button
               onClick={() => { setEditingLead(null); setShowAddForm(true); }}
               className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-all shadow-lg shadow-purple-900/20"
@@ -208,13 +435,14 @@ export default function CRMPage() {
 
                 {leads.length > 0 && (
                   <>
+                    {CrmService.getCurrentUser()?.role === 'admin' && (
                     <button
                       onClick={async () => {
                         try {
-                          const res = await fetch(`${CrmService.getServerUrl()}/__test_emit`);
-                          if (res.ok) alert('Test mesajı göndərildi! Saniyələr içində CRM-də görünməlidir.');
+                          await CrmService.testEmit();
+                          alert('Test mesajı göndərildi! Saniyələr içində CRM-də görünməlidir.');
                         } catch (err) {
-                          alert('Serverə qoşulmaq mümkün olmadı.');
+                          alert(err instanceof CrmApiError && err.status === 403 ? 'Yalnız adminlər üçün.' : 'Serverə qoşulmaq mümkün olmadı.');
                         }
                       }}
                       className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-medium transition-colors border border-slate-700"
@@ -222,7 +450,9 @@ export default function CRMPage() {
                       <Zap className="w-4 h-4 text-yellow-500" />
                       Soket Testi
                     </button>
+                    )}
 
+                {canClear && (
                 <button
                   onClick={handleClearAll}
                   className="flex items-center gap-2 px-4 py-2 bg-red-900/20 hover:bg-red-900/40 text-red-400 rounded-lg text-sm font-medium transition-colors border border-red-900/30"
@@ -230,11 +460,31 @@ export default function CRMPage() {
                   <Eraser className="w-4 h-4" />
                   Format Et
                 </button>
+                )}
               </>
             )}
           </div>
         </div>
 
+        {/* Search */}
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search phone, name, product, tag or message text..."
+            className="pl-9 pr-24 bg-slate-900 border-slate-800 focus:border-blue-500"
+          />
+          {searchInput && (
+            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-2">
+              <span className="text-[10px] text-slate-500">All dates</span>
+              <button onClick={() => setSearchInput('')} className="p-1 text-slate-500 hover:text-white" title="Clear search">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Second Row: Metrics & Filters */}
         <div className="flex flex-col lg:flex-row gap-4 items-stretch lg:items-center justify-between">
 
@@ -246,7 +496,7 @@ export default function CRMPage() {
               </div>
               <div>
                 <p className="text-xs text-slate-400 uppercase font-medium">Total Leads</p>
-                <p className="text-xl font-bold text-white">{metrics.totalLeads}</p>
+                <p className="text-xl font-bold text-white">{boardCounts?.total ?? 0}</p>
               </div>
             </div>
 
@@ -256,7 +506,7 @@ export default function CRMPage() {
               </div>
               <div>
                 <p className="text-xs text-slate-400 uppercase font-medium">Total Sales</p>
-                <p className="text-xl font-bold text-green-400">{formatCurrency(metrics.totalRevenue, 'AZN')}</p>
+                <p className="text-xl font-bold text-green-400">{formatCurrency(boardCounts?.total_won_value ?? 0, 'AZN')}</p>
               </div>
             </div>
           </div>
@@ -299,11 +549,106 @@ export default function CRMPage() {
                 onChange={(e) => setDateRange({ ...dateRange, end: e.target.value })}
               />
             </div>
+
+            <div className="h-4 w-px bg-slate-800 mx-1 hidden sm:block"></div>
+
+            {/* Owner Filter (needs a team, so only when signed in to a server) */}
+            {users.length > 0 && (
+              <div className="flex rounded border border-slate-800 overflow-hidden text-xs">
+                {([['mine', 'Mine'], ['unassigned', 'Unassigned'], ['all', 'All']] as [OwnerFilter, string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setBoardFilter({ ...boardFilter, owner: value })}
+                    className={cn(
+                      "px-3 py-1.5 transition-colors",
+                      boardFilter.owner === value ? "bg-blue-600 text-white" : "bg-slate-950 text-slate-400 hover:text-white"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Board Order (win chance needs a trained model). The model runs in the browser, so it
+                can only rank the cards loaded so far; the label says so. */}
+            {intentModel && (
+              <div
+                className="flex rounded border border-slate-800 overflow-hidden text-xs"
+                title="Order of the cards in open stages. Win chance ranks the cards loaded so far; scrolling a column loads more."
+              >
+                {([[false, 'Manual'], [true, 'Win chance (loaded cards)']] as [boolean, string][]).map(([value, label]) => (
+                  <button
+                    key={label}
+                    onClick={() => setSortByChance(value)}
+                    className={cn(
+                      "px-3 py-1.5 transition-colors",
+                      sortByChance === value ? "bg-blue-600 text-white" : "bg-slate-950 text-slate-400 hover:text-white"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Tag Filter */}
+            <select
+              className="bg-slate-950 border border-slate-800 text-slate-300 text-xs rounded px-3 py-1.5 focus:ring-1 focus:ring-blue-500 outline-none"
+              value={boardFilter.tag}
+              onChange={(e) => setBoardFilter({ ...boardFilter, tag: e.target.value })}
+            >
+              <option value="">All Tags</option>
+              {tags.map(tag => (
+                <option key={tag} value={tag}>#{tag}</option>
+              ))}
+            </select>
+
+            {/* Custom Field Filter */}
+            {customFields.length > 0 && (
+              <div className="flex items-center gap-2">
+                <select
+                  className="bg-slate-950 border border-slate-800 text-slate-300 text-xs rounded px-3 py-1.5 focus:ring-1 focus:ring-blue-500 outline-none"
+                  value={fieldFilter.fieldId}
+                  onChange={(e) => setFieldFilter({ fieldId: e.target.value, value: '' })}
+                >
+                  <option value="">Any Field</option>
+                  {customFields.map(field => (
+                    <option key={field.id} value={field.id}>{field.label}</option>
+                  ))}
+                </select>
+                {filterField && (filterField.type === 'select' ? (
+                  <select
+                    className="bg-slate-950 border border-slate-800 text-slate-300 text-xs rounded px-3 py-1.5 focus:ring-1 focus:ring-blue-500 outline-none"
+                    value={fieldFilter.value}
+                    onChange={(e) => setFieldFilter({ ...fieldFilter, value: e.target.value })}
+                  >
+                    <option value="">Any</option>
+                    {filterField.options.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <Input
+                    type={filterField.type === 'text' ? 'text' : filterField.type}
+                    placeholder="Value"
+                    className="w-28 h-8 text-[10px] bg-slate-950 border-slate-800 px-2"
+                    value={fieldFilter.value}
+                    onChange={(e) => setFieldFilter({ ...fieldFilter, value: e.target.value })}
+                  />
+                ))}
+              </div>
+            )}
           </div>
 
         </div>
       </div>
 
+      {/* MY TASKS TODAY */}
+      {showTasksPanel && (
+        <TasksTodayPanel onOpenLead={(lead) => openLead(lead, 'tasks')} onClose={() => setShowTasksPanel(false)} />
+      )}
+
       {/* ADD/EDIT FORM MODAL */}
       {showAddForm && (
         <LeadForm
@@ -313,154 +658,271 @@ export default function CRMPage() {
         />
       )}
 
-      {/* FULL MESSAGE MODAL */}
-      {viewingMessage && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={() => setViewingMessage(null)}>
-          <div className="bg-slate-900 border border-slate-700 p-6 rounded-2xl max-w-2xl w-full shadow-2xl relative" onClick={e => e.stopPropagation()}>
-            <h3 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
-              <MessageSquare className="text-green-400" />
-              {viewingMessage.name}
-            </h3>
-            <div className="bg-slate-950 p-4 rounded-xl border border-slate-800/50 max-h-[60vh] overflow-y-auto custom-scrollbar">
-              <p className="text-slate-300 text-sm whitespace-pre-wrap leading-relaxed">{viewingMessage.text}</p>
-            </div>
-            <div className="mt-6 flex justify-end">
-              <button onClick={() => setViewingMessage(null)} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors">
-                Close
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* IMPORT / EXPORT */}
+      {showImport && <ImportWizard onClose={() => setShowImport(false)} />}
+      {showExport && <ExportDialog query={boardQuery} matches={matchesFilters} onClose={() => setShowExport(false)} />}
+
+      {losingMove && (
+        <LostReasonDialog
+          lead={losingMove.lead}
+          onConfirm={(lost) => updateLeadStatus(losingMove.lead.id, losingMove.status, losingMove.position, lost)}
+          onClose={() => setLosingMove(null)}
+        />
+      )}
+
+      {/* DUPLICATES */}
+      {showDuplicates && <DuplicatesView onClose={() => setShowDuplicates(false)} />}
+
+      {/* CONVERSATION MODAL */}
+      {viewingLead && (
+        <ConversationView lead={viewingLead} initialTab={viewingTab} onClose={() => setViewingLead(null)} />
       )}
 
       {/* KANBAN BOARD */}
       <div className="flex-1 overflow-x-auto pb-4">
         <div className="flex gap-6 min-w-[1000px] h-full">
-          {columns.map((col) => (
-            <div key={col.id} className="flex-1 min-w-[280px] flex flex-col bg-slate-900/50 rounded-xl border border-slate-800 h-full max-h-[calc(100vh-280px)]">
-              {/* Column Header */}
-              <div className={`p-4 border-b border-slate-800 flex items-center justify-between bg-${col.color}-950/10`}>
-                <div className="flex items-center gap-2 font-semibold text-slate-200">
-                  <div className={`p-1.5 rounded bg-${col.color}-500/20 text-${col.color}-400`}>
-                    {col.icon}
+          {columns.map((col) => {
+            const columnLeads = leadsByColumn[col.id] || [];
+            const isDropColumn = !!draggingId && dropTarget?.status === col.id;
+
+            return (
+              <div
+                key={col.id}
+                onDragOver={(e) => handleColumnDragOver(e, col.id)}
+                onDrop={(e) => handleDrop(e, col.id)}
+                className={cn(
+                  "flex-1 min-w-[280px] flex flex-col bg-slate-900/50 rounded-xl border h-full max-h-[calc(100vh-280px)] transition-colors",
+                  isDropColumn ? "border-blue-700/60 bg-blue-950/10" : "border-slate-800"
+                )}
+              >
+                {/* Column Header */}
+                <div className={cn("p-4 border-b border-slate-800 flex items-center justify-between", getStageColor(col.color).header)}>
+                  <div className="flex items-center gap-2 font-semibold text-slate-200">
+                    <div className={cn("p-1.5 rounded", getStageColor(col.color).icon)}>
+                      {col.icon}
+                    </div>
+                    {col.title}
                   </div>
-                  {col.title}
+                  <Badge variant="secondary" className="bg-slate-800 text-slate-300">
+                    {fieldFilterActive ? columnLeads.length : boardCounts?.by_status[col.id] ?? columnLeads.length}
+                  </Badge>
                 </div>
-                <Badge variant="secondary" className="bg-slate-800 text-slate-300">
-                  {leads.filter(l => l.status === col.id).length}
-                </Badge>
-              </div>
 
-              {/* Cards Container */}
-              <div className="p-3 space-y-3 overflow-y-auto flex-1 custom-scrollbar">
-                {leads.filter(l => l.status === col.id).map((lead) => (
-                  <LeadCard
-                    key={lead.id}
-                    lead={lead}
-                    onUpdateStatus={updateLeadStatus}
-                    onRemove={removeLead}
-                    onEdit={handleEdit}
-                    onViewMessage={(msg) => setViewingMessage({ name: lead.name || lead.phone, text: msg })}
-                  />
-                ))}
-                {leads.filter(l => l.status === col.id).length === 0 && (
-                  <div className="text-center py-12 flex flex-col items-center gap-2 text-slate-600 text-sm border-2 border-dashed border-slate-800/50 rounded-lg mx-2">
-                    <div className="w-8 h-8 rounded-full bg-slate-900 flex items-center justify-center">
-                      <span className="text-xs">0</span>
+                {/* Cards Container */}
+                <VirtualList
+                  items={columnLeads}
+                  itemKey={lead => lead.id}
+                  estimatedHeight={CARD_HEIGHT}
+                  gap={12}
+                  className="p-3 overflow-y-auto flex-1 custom-scrollbar"
+                  onEndReached={() => loadMoreLeads(col.id)}
+                  renderItem={(lead, index) => (
+                    <div
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, lead)}
+                      onDragEnd={handleDragEnd}
+                      onDragOver={(e) => handleCardDragOver(e, col.id, index)}
+                      className={cn("relative", draggingId === lead.id && "opacity-40")}
+                    >
+                      {isDropColumn && dropTarget?.index === index && (
+                        <div className="absolute -top-2 left-0 right-0 h-0.5 rounded bg-blue-500" />
+                      )}
+                      <LeadCard
+                        lead={lead}
+                        stages={stages}
+                        customFields={customFields}
+                        tasks={tasksByLead[lead.id] || []}
+                        users={users}
+                        search={search}
+                        winChance={winChances[lead.id] ?? null}
+                        intentModel={intentModel}
+                        onAssign={handleAssign}
+                        onUpdateStatus={moveLead}
+                        onRemove={removeLead}
+                        onEdit={handleEdit}
+                        onOpenConversation={openLead}
+                      />
+                      {isDropColumn && index === columnLeads.length - 1 && dropTarget?.index === columnLeads.length && (
+                        <div className="absolute -bottom-2 left-0 right-0 h-0.5 rounded bg-blue-500" />
+                      )}
                     </div>
-                    No leads here
-                  </div>
-                )}
+                  )}
+                  footer={columnPages[col.id]?.loading ? (
+                    <div className="flex justify-center py-3 text-slate-500">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    </div>
+                  ) : columnLeads.length === 0 && (
+                    <div className="text-center py-12 flex flex-col items-center gap-2 text-slate-600 text-sm border-2 border-dashed border-slate-800/50 rounded-lg mx-2">
+                      <div className="w-8 h-8 rounded-full bg-slate-900 flex items-center justify-center">
+                        <span className="text-xs">0</span>
+                      </div>
+                      {isDropColumn ? 'Drop here' : 'No leads here'}
+                    </div>
+                  )}
+                />
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     </div>
   );
 }
 
-function LeadCard({ lead, onUpdateStatus, onRemove, onEdit, onViewMessage }: { lead: Lead, onUpdateStatus: any, onRemove: any, onEdit: any, onViewMessage: (msg: string) => void }) {
+function LeadCard({ lead, stages, customFields, tasks, users, search, winChance, intentModel, onAssign, onUpdateStatus, onRemove, onEdit, onOpenConversation }: { lead: Lead, stages: PipelineStage[], customFields: CustomFieldDefinition[], tasks: LeadTask[], users: CrmUser[], search: string, winChance: number | null, intentModel: IntentModel | null, onAssign: (lead: Lead, username: string | null) => void, onUpdateStatus: any, onRemove: any, onEdit: any, onOpenConversation: (lead: Lead, tab?: ConversationTab) => void }) {
   const dateStr = new Date(lead.created_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const filledFields = customFields.filter(f => formatFieldValue(f, lead.custom_fields?.[f.id]));
+  const dueTasks = tasks.filter(t => isDueToday(t));
+  const overdueCount = dueTasks.filter(t => isOverdue(t)).length;
+  // The server also matches older messages that the card does not show
+  const matchedInHistory = !!search && ![lead.phone, lead.name, lead.product_name, lead.last_message, ...(lead.tags || [])]
+    .some(value => findMatches(value, search).length > 0);
 
   return (
-    <div className="bg-slate-950 border border-slate-800 p-3 rounded-lg shadow-sm hover:border-slate-600 transition-all duration-200 group relative">
+    <div className="bg-slate-950 border border-slate-800 p-3 rounded-lg shadow-sm hover:border-slate-600 transition-all duration-200 group relative cursor-grab active:cursor-grabbing">
       <div className="flex justify-between items-start mb-2">
         <div className="flex flex-col">
           <div className="flex items-center gap-1.5 text-sm font-bold text-slate-200">
             <Phone className="w-3 h-3 text-green-500" />
-            {lead.phone}
+            <Highlight text={formatPhone(lead.phone)} query={search} />
           </div>
           <div className="flex items-center gap-2">
             <span className="text-[10px] text-slate-500 flex items-center gap-1">
               <Calendar className="w-2.5 h-2.5" /> {dateStr}
             </span>
             {lead.name && lead.name !== 'Unknown' && (
-              <span className="text-[10px] text-blue-400 bg-blue-950/30 px-1 rounded">{lead.name}</span>
+              <span className="text-[10px] text-blue-400 bg-blue-950/30 px-1 rounded"><Highlight text={lead.name} query={search} /></span>
+            )}
+            {winChance !== null && intentModel && (
+              <span
+                className={cn(
+                  "inline-flex items-center gap-0.5 text-[10px] font-medium px-1 rounded",
+                  winChance >= 0.6 ? "text-green-300 bg-green-950/40" : winChance >= 0.3 ? "text-amber-300 bg-amber-950/40" : "text-slate-400 bg-slate-800"
+                )}
+                title={`Win chance from the messages · trained on ${intentModel.report.examples} closed leads${intentModel.report.accuracy !== null ? `, ${Math.round(intentModel.report.accuracy * 100)}% right on held-out leads` : ''}`}
+              >
+                <TrendingUp className="w-2.5 h-2.5" /> {Math.round(winChance * 100)}%
+              </span>
             )}
           </div>
         </div>
 
-        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-          <button onClick={() => onEdit(lead)} className="text-slate-500 hover:text-blue-400 p-1">
-            <Pencil className="w-3 h-3" />
-          </button>
-          <button onClick={() => onRemove(lead.id)} className="text-slate-500 hover:text-red-400 p-1">
-            <Trash2 className="w-3 h-3" />
-          </button>
+        <div className="flex items-center gap-1">
+          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button onClick={() => onEdit(lead)} className="text-slate-500 hover:text-blue-400 p-1">
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button onClick={() => onRemove(lead.id)} className="text-slate-500 hover:text-red-400 p-1">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+          {users.length > 0 && (
+            <OwnerPicker owner={lead.assigned_to} users={users} onChange={(username) => onAssign(lead, username)} />
+          )}
         </div>
       </div>
 
-      {/* Product Name Badge */}
+      {/* Product Name Badge (the order summary opens the order) */}
       {lead.product_name && (
         <div className="mb-2">
-          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-slate-800 text-slate-300 border border-slate-700">
-            <ShoppingBag className="w-2.5 h-2.5" /> {lead.product_name}
-          </span>
+          {hasOrder(lead) ? (
+            <button
+              onClick={() => onOpenConversation(lead, 'order')}
+              title="Open the order"
+              className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-slate-800 text-slate-300 border border-slate-700 hover:border-slate-500 text-left"
+            >
+              <ShoppingBag className="w-2.5 h-2.5 shrink-0" /> <Highlight text={lead.product_name} query={search} />
+            </button>
+          ) : (
+            <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-slate-800 text-slate-300 border border-slate-700">
+              <ShoppingBag className="w-2.5 h-2.5" /> <Highlight text={lead.product_name} query={search} />
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Tags & Custom Fields */}
+      {((lead.tags && lead.tags.length > 0) || filledFields.length > 0) && (
+        <div className="mb-2 flex flex-wrap gap-1">
+          {(lead.tags || []).map(tag => (
+            <span key={tag} className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] font-medium bg-cyan-950/40 text-cyan-300 border border-cyan-900/40">
+              <Tag className="w-2.5 h-2.5" /> <Highlight text={tag} query={search} />
+            </span>
+          ))}
+          {filledFields.map(field => (
+            <span key={field.id} className="px-1.5 py-0.5 rounded text-[10px] bg-slate-900 text-slate-400 border border-slate-800">
+              {field.label}: <span className="text-slate-200">{formatFieldValue(field, lead.custom_fields?.[field.id])}</span>
+            </span>
+          ))}
         </div>
       )}
 
+      {lead.lost_reason && (
+        <div className="mb-2 flex items-center gap-1 text-[10px] text-red-300/80" title={lead.lost_note || undefined}>
+          <XCircle className="w-2.5 h-2.5 shrink-0" />
+          <span className="truncate">Lost: {lostReasonLabel(lead.lost_reason)}{lead.lost_note ? ` · ${lead.lost_note}` : ''}</span>
+        </div>
+      )}
+
+      {/* Due & Overdue Follow-ups */}
+      {dueTasks.length > 0 && (
+        <button
+          onClick={() => onOpenConversation(lead, 'tasks')}
+          className={cn(
+            "mb-2 w-full flex items-center gap-1.5 px-2 py-1 rounded text-[10px] font-medium border text-left",
+            overdueCount > 0 ? "bg-red-950/30 border-red-900/50 text-red-300" : "bg-orange-950/30 border-orange-900/40 text-orange-300"
+          )}
+          title="Open follow-up tasks"
+        >
+          <Clock className="w-2.5 h-2.5 shrink-0" />
+          <span className="truncate">
+            {overdueCount > 0 ? 'Overdue' : 'Due'} {formatDueDate(dueTasks[0])}{dueTasks[0].note ? ` · ${dueTasks[0].note}` : ''}
+          </span>
+          {dueTasks.length > 1 && <span className="ml-auto shrink-0">+{dueTasks.length - 1}</span>}
+        </button>
+      )}
+
       {lead.last_message && (
         <div
-          onClick={() => onViewMessage(lead.source_message || lead.last_message || '')}
+          onClick={() => onOpenConversation(lead)}
           className="bg-slate-900/50 p-2 rounded mb-3 border border-slate-800/50 hover:bg-slate-800/50 cursor-pointer active:scale-[0.98] transition-all group/msg relative"
-          title="Click to view full message"
+          title="Click to open the conversation"
         >
           <p className="text-xs text-slate-300 line-clamp-2 italic">
-            "{lead.last_message}"
+            "<Highlight text={lead.last_message} query={search} />"
           </p>
-          <span className="absolute bottom-1 right-2 text-[8px] text-blue-400 opacity-0 group-hover/msg:opacity-100 uppercase tracking-widest font-bold">Read More</span>
+          <span className="absolute bottom-1 right-2 text-[8px] text-blue-400 opacity-0 group-hover/msg:opacity-100 uppercase tracking-widest font-bold">Open Chat</span>
         </div>
       )}
 
-      {lead.value && lead.value > 0 ? (
+      {matchedInHistory && (
+        <button
+          onClick={() => onOpenConversation(lead)}
+          className="mb-2 flex items-center gap-1 text-[10px] text-yellow-300/80 hover:text-yellow-200"
+        >
+          <Search className="w-2.5 h-2.5" /> Matched in earlier messages
+        </button>
+      )}
+
+      {leadRevenue(lead) > 0 ? (
         <div className="mb-2 text-xs font-mono text-green-400 flex items-center gap-1">
-          <DollarSign className="w-3 h-3" /> {lead.value} AZN
+          <DollarSign className="w-3 h-3" /> {leadRevenue(lead)} AZN
+          {hasOrder(lead) && <span className="text-slate-500">· {lead.order_items!.length} {lead.order_items!.length === 1 ? 'item' : 'items'}</span>}
         </div>
       ) : null}
 
       {/* Quick Actions */}
       <div className="flex gap-1 mt-2 opacity-80 hover:opacity-100 transition-opacity">
-        {lead.status !== 'new' && (
-          <button onClick={() => onUpdateStatus(lead.id, 'new')} className="flex-1 py-1.5 text-[10px] font-medium bg-slate-900 hover:bg-slate-800 text-slate-400 rounded border border-slate-800 transition-colors">
-            New
-          </button>
-        )}
-        {lead.status !== 'potential' && (
-          <button onClick={() => onUpdateStatus(lead.id, 'potential')} className="flex-1 py-1.5 text-[10px] font-medium bg-purple-950/20 hover:bg-purple-900/40 text-purple-400 rounded border border-purple-900/30 transition-colors">
-            Lead
-          </button>
-        )}
-        {lead.status !== 'won' && (
-          <button onClick={() => onUpdateStatus(lead.id, 'won')} className="flex-1 py-1.5 text-[10px] font-medium bg-green-950/20 hover:bg-green-900/40 text-green-400 rounded border border-green-900/30 transition-colors">
-            Sale
-          </button>
-        )}
-        {lead.status !== 'lost' && (
-          <button onClick={() => onUpdateStatus(lead.id, 'lost')} className="flex-1 py-1.5 text-[10px] font-medium bg-slate-900 hover:bg-slate-800 text-slate-500 rounded border border-slate-800 transition-colors">
-            X
+        {stages.filter(stage => stage.id !== lead.status).map(stage => (
+          <button
+            key={stage.id}
+            onClick={() => onUpdateStatus(lead.id, stage.id)}
+            title={`Move to ${stage.name}`}
+            className={cn("flex-1 min-w-0 truncate px-1 py-1.5 text-[10px] font-medium rounded border transition-colors", getStageColor(stage.color).button)}
+          >
+            {stage.kind === 'lost' ? 'X' : stage.name}
           </button>
-        )}
+        ))}
       </div>
     </div>
   );
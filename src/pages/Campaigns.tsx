@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import { Megaphone, Play, Pause, Trash2, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import { Campaign, CampaignStatus, RecipientStatus } from '../types/crm';
+import { CampaignBuilder } from '../components/CampaignBuilder';
+import { CrmService } from '../services/CrmService';
+import { formatPhone } from '../../shared/phone';
+import { cn } from '../lib/utils';
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  draft: 'bg-slate-800 text-slate-300',
+  running: 'bg-green-950/50 text-green-300',
+  paused: 'bg-amber-950/50 text-amber-300',
+  done: 'bg-blue-950/50 text-blue-300',
+};
+
+const RECIPIENT_STYLES: Record<RecipientStatus, string> = {
+  pending: 'text-slate-500',
+  sent: 'text-slate-300',
+  delivered: 'text-green-400',
+  read: 'text-blue-400',
+  failed: 'text-red-400',
+  skipped: 'text-amber-400',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Campaigns arrive newest first; an update replaces its row or joins the top
+function upsertCampaign(campaigns: Campaign[], campaign: Campaign): Campaign[] {
+  return campaigns.some(c => c.id === campaign.id)
+    ? campaigns.map(c => c.id === campaign.id ? { ...c, ...campaign } : c)
+    : [campaign, ...campaigns];
+}
+
+export default function CampaignsPage() {
+  const currentUser = CrmService.getCurrentUser();
+  const isAdmin = currentUser?.role === 'admin';
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    CrmService.getCampaigns()
+      .then(setCampaigns)
+      .catch(err => console.warn('⚠️ Failed to load campaigns:', err));
+
+    const offUpdated = CrmService.onCampaignUpdated(campaign => setCampaigns(prev => upsertCampaign(prev, campaign)));
+    const offDeleted = CrmService.onCampaignDeleted(id => setCampaigns(prev => prev.filter(c => c.id !== id)));
+    return () => {
+      offUpdated();
+      offDeleted();
+    };
+  }, []);
+
+  // The list comes without recipients; opening a campaign loads them
+  const toggleOpen = (campaign: Campaign) => {
+    if (openId === campaign.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(campaign.id);
+    if (!campaign.recipients) {
+      CrmService.getCampaign(campaign.id)
+        .then(full => setCampaigns(prev => upsertCampaign(prev, full)))
+        .catch(err => console.warn('⚠️ Failed to load campaign:', err));
+    }
+  };
+
+  const runAction = async (id: string, action: (id: string) => Promise<unknown>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action(id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = (campaign: Campaign) => {
+    if (!confirm(`Delete the campaign "${campaign.name}"? Messages already sent stay in the conversations.`)) return;
+    runAction(campaign.id, async (id) => {
+      await CrmService.deleteCampaign(id);
+      setCampaigns(prev => prev.filter(c => c.id !== id));
+    });
+  };
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-8">
+      <div className="flex flex-col gap-2 border-b border-slate-800 pb-6">
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <Megaphone className="text-orange-400 w-8 h-8" />
+          Campaigns
+        </h1>
+        <p className="text-slate-400">Send one message to a group of leads, slowly, through the connected WhatsApp account.</p>
+      </div>
+
+      {!currentUser ? (
+        <p className="text-sm text-slate-500 text-center py-12">Campaigns are sent by the server. Sign in to a server to use them.</p>
+      ) : (
+        <>
+          {isAdmin && <CampaignBuilder onCreated={campaign => { setCampaigns(prev => upsertCampaign(prev, campaign)); setOpenId(campaign.id); }} />}
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {campaigns.length === 0 && (
+              <p className="text-xs text-slate-600 text-center py-4">No campaigns yet</p>
+            )}
+
+            {campaigns.map(campaign => {
+              const finished = campaign.total - campaign.counts.pending;
+              const isOpen = openId === campaign.id;
+              return (
+                <div key={campaign.id} className="bg-slate-900 border border-slate-800 rounded-xl">
+                  <div className="p-4 flex items-center gap-3">
+                    <button onClick={() => toggleOpen(campaign)} className="text-slate-500 hover:text-white">
+                      {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-semibold text-slate-200 truncate">{campaign.name}</span>
+                        <span className={cn("px-1.5 py-0.5 rounded text-[10px] font-medium uppercase", STATUS_STYLES[campaign.status])}>{campaign.status}</span>
+                      </div>
+                      <div className="mt-2 h-1.5 rounded bg-slate-800 overflow-hidden">
+                        <div className="h-full bg-green-600 transition-all" style={{ width: `${campaign.total ? (finished / campaign.total) * 100 : 0}%` }} />
+                      </div>
+                      <p className="mt-1 text-[10px] text-slate-500">
+                        {finished}/{campaign.total} processed · {campaign.counts.sent + campaign.counts.delivered + campaign.counts.read} sent
+                        {' '}({campaign.counts.delivered + campaign.counts.read} delivered, {campaign.counts.read} read)
+                        {campaign.counts.failed > 0 && <span className="text-red-400"> · {campaign.counts.failed} failed</span>}
+                        {campaign.counts.skipped > 0 && <span className="text-amber-400"> · {campaign.counts.skipped} skipped</span>}
+                        {' '}· {campaign.min_delay}-{campaign.max_delay}s apart
+                      </p>
+                      {campaign.last_error && campaign.status === 'paused' && (
+                        <p className="mt-1 text-[10px] text-amber-400">Paused: {campaign.last_error}</p>
+                      )}
+                    </div>
+                    {isAdmin && (
+                      <div className="flex items-center gap-1">
+                        {(campaign.status === 'draft' || campaign.status === 'paused') && (
+                          <button
+                            onClick={() => runAction(campaign.id, id => CrmService.startCampaign(id))}
+                            disabled={busyId === campaign.id}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+                          >
+                            <Play className="w-3.5 h-3.5" /> {campaign.status === 'draft' ? 'Start' : 'Resume'}
+                          </button>
+                        )}
+                        {campaign.status === 'running' && (
+                          <button
+                            onClick={() => runAction(campaign.id, id => CrmService.pauseCampaign(id))}
+                            disabled={busyId === campaign.id}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors disabled:opacity-50"
+                          >
+                            <Pause className="w-3.5 h-3.5" /> Pause
+                          </button>
+                        )}
+                        {campaign.status !== 'running' && (
+                          <button onClick={() => handleDelete(campaign)} disabled={busyId === campaign.id} title="Delete" className="p-1.5 text-slate-500 hover:text-red-400">
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {isOpen && (
+                    <div className="border-t border-slate-800 p-4 space-y-3">
+                      <p className="text-xs text-slate-300 whitespace-pre-wrap bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">{campaign.body}</p>
+                      <p className="text-[10px] text-slate-500">
+                        Created {formatTime(campaign.created_at)}{campaign.created_by ? ` by ${campaign.created_by}` : ''}
+                        {campaign.started_at && ` · started ${formatTime(campaign.started_at)}`}
+                        {campaign.finished_at && ` · finished ${formatTime(campaign.finished_at)}`}
+                      </p>
+                      {!campaign.recipients ? (
+                        <p className="text-xs text-slate-500">Loading recipients...</p>
+                      ) : (
+                        <div className="max-h-80 overflow-y-auto custom-scrollbar divide-y divide-slate-800/60">
+                          {campaign.recipients.map(r => (
+                            <div key={r.lead_id} className="flex items-center gap-3 py-1.5 text-xs">
+                              <span className="w-40 text-slate-300 truncate">{r.name || formatPhone(r.phone)}</span>
+                              <span className="w-32 text-slate-500">{formatPhone(r.phone)}</span>
+                              <span className={cn("w-16 font-medium", RECIPIENT_STYLES[r.status])}>{r.status}</span>
+                              <span className="flex-1 text-slate-500 truncate" title={r.error || undefined}>
+                                {r.error || (r.sent_at ? formatTime(r.sent_at) : '')}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
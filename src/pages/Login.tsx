@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Server, User, KeyRound, AlertTriangle, RefreshCw, WifiOff, ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
+import { Input } from '../components/ui/Input';
+import { Label } from '../components/ui/Label';
+import { CrmService } from '../services/CrmService';
+import { AuthStatus } from '../types/crm';
+
+interface LoginPageProps {
+  notice?: string | null;
+  onAuthenticated: () => void;
+}
+
+export default function LoginPage({ notice, onAuthenticated }: LoginPageProps) {
+  const [serverUrl, setServerUrl] = useState(() => {
+    const session = CrmService.getSession();
+    if (session?.mode === 'server') return session.serverUrl;
+    return (import.meta as any).env.PROD ? window.location.origin : CrmService.getServerUrl();
+  });
+  const [username, setUsername] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+  const [setupToken, setSetupToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A fresh server has no accounts yet: offer to create the admin instead
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      CrmService.getAuthStatus(serverUrl)
+        .then(next => { if (!cancelled) setStatus(next); })
+        .catch(() => { if (!cancelled) setStatus(null); });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [serverUrl]);
+
+  // Without ADMIN_USERNAME / ADMIN_PASSWORD or SETUP_TOKEN a production server refuses setup
+  const needsSetup = !!status?.needs_setup && !status.setup_closed;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (needsSetup) {
+        await CrmService.setupAdmin(serverUrl, { username, name, password, setup_token: status?.setup_token_required ? setupToken : undefined });
+      } else {
+        await CrmService.login(serverUrl, username, password);
+      }
+      onAuthenticated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOffline = () => {
+    CrmService.startOfflineSession();
+    onAuthenticated();
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm bg-slate-900 border-slate-800 shadow-2xl">
+        <CardHeader className="border-b border-slate-800 pb-4">
+          <CardTitle className="text-lg font-bold text-white flex items-center gap-2">
+            {needsSetup ? <ShieldCheck className="w-5 h-5 text-green-500" /> : <Lock className="w-5 h-5 text-blue-500" />}
+            {needsSetup ? 'Create Admin Account' : 'Sign in to CRM'}
+          </CardTitle>
+          <p className="text-xs text-slate-500">
+            {needsSetup ? 'This server has no accounts yet. The first account becomes the admin.' : 'ReklamAnalitika · WhatsApp CRM'}
+          </p>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {status?.needs_setup && status.setup_closed && (
+              <div className="text-xs text-yellow-300 bg-yellow-950/30 border border-yellow-900/40 rounded-lg px-3 py-2">
+                This server has no accounts yet. Set SETUP_TOKEN, or ADMIN_USERNAME and ADMIN_PASSWORD, on the server to create the admin.
+              </div>
+            )}
+
+            {notice && (
+              <div className="text-xs text-yellow-300 bg-yellow-950/30 border border-yellow-900/40 rounded-lg px-3 py-2">
+                {notice}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Server className="w-3 h-3" /> Server
+              </Label>
+              <Input
+                required
+                value={serverUrl}
+                onChange={e => setServerUrl(e.target.value.replace(/\/$/, ''))}
+                className="bg-slate-950 border-slate-800 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <User className="w-3 h-3" /> Username
+              </Label>
+              <Input
+                required
+                autoComplete="username"
+                value={username}
+                onChange={e => setUsername(e.target.value)}
+                className="bg-slate-950 border-slate-800 focus:border-blue-500"
+              />
+            </div>
+
+            {needsSetup && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <User className="w-3 h-3" /> Display Name
+                </Label>
+                <Input
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  className="bg-slate-950 border-slate-800 focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <KeyRound className="w-3 h-3" /> Password
+              </Label>
+              <Input
+                required
+                type="password"
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                minLength={needsSetup ? 8 : undefined}
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                className="bg-slate-950 border-slate-800 focus:border-blue-500"
+              />
+            </div>
+
+            {needsSetup && status?.setup_token_required && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <ShieldCheck className="w-3 h-3" /> Setup Token
+                </Label>
+                <Input
+                  required
+                  type="password"
+                  autoComplete="off"
+                  value={setupToken}
+                  onChange={e => setSetupToken(e.target.value)}
+                  className="bg-slate-950 border-slate-800 focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full py-2.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 font-medium text-sm transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isSubmitting && <RefreshCw className="w-4 h-4 animate-spin" />}
+              {needsSetup ? 'Create Admin & Sign in' : 'Sign in'}
+            </button>
+
+            <button
+              type="button"
+              onClick={handleOffline}
+              className="w-full py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 text-xs transition-colors flex items-center justify-center gap-2"
+            >
+              <WifiOff className="w-3.5 h-3.5" /> Work offline on this device
+            </button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { Settings as SettingsIcon } from 'lucide-react';
+import { StageSettings } from '../components/StageSettings';
+import { CustomFieldSettings } from '../components/CustomFieldSettings';
+import { ProductSettings } from '../components/ProductSettings';
+import { RuleSettings } from '../components/RuleSettings';
+import { TemplateSettings } from '../components/TemplateSettings';
+import { IntentSettings } from '../components/IntentSettings';
+import { TeamSettings } from '../components/TeamSettings';
+
+export default function SettingsPage() {
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-8">
+      <div className="flex flex-col gap-2 border-b border-slate-800 pb-6">
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <SettingsIcon className="text-blue-500 w-8 h-8" />
+          CRM Settings
+        </h1>
+        <p className="text-slate-400">Configure how the WhatsApp CRM board works for your team.</p>
+      </div>
+
+      <StageSettings />
+      <CustomFieldSettings />
+      <ProductSettings />
+      <TemplateSettings />
+      <RuleSettings />
+      <IntentSettings />
+      <TeamSettings />
+    </div>
+  );
+}
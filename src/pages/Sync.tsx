@@ -0,0 +1,152 @@
+import { CloudOff, RefreshCw, AlertTriangle, Check } from 'lucide-react';
+import { OutboxEntry, OutboxChange } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { conflictFields } from '../lib/outbox';
+import { formatPhone } from '../../shared/phone';
+import { cn } from '../lib/utils';
+
+const KIND_LABELS: Record<OutboxChange['kind'], string> = {
+  create: 'New lead',
+  status: 'Stage change',
+  details: 'Edit',
+  order: 'Order',
+  delete: 'Moved to trash',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Field values as they read in the conflict table
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Lead changes made offline that the server has not taken yet. Pending ones go out on
+ * their own; conflicts and refusals wait here for someone to pick which version stays.
+ */
+export default function SyncPage() {
+  const { outbox, leads, stages, resolveSyncEntry } = useAppStore();
+
+  const leadLabel = (entry: OutboxEntry) => {
+    const lead = entry.kind === 'create' || entry.kind === 'delete' ? entry.lead : leads.find(l => l.id === entry.lead_id) || entry.server_lead;
+    if (!lead) return entry.lead_id;
+    return lead.name && lead.name !== 'Unknown' ? lead.name : formatPhone(lead.phone);
+  };
+
+  const fieldValue = (field: string, value: unknown) =>
+    field === 'status' ? stages.find(s => s.id === value)?.name || formatValue(value) : formatValue(value);
+
+  const pending = outbox.filter(e => e.state === 'pending');
+  const blocked = outbox.filter(e => e.state !== 'pending');
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-8">
+      <div className="flex flex-col gap-2 border-b border-slate-800 pb-6">
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <CloudOff className="text-yellow-400 w-8 h-8" />
+          Pending Sync
+        </h1>
+        <p className="text-slate-400">Changes made while the server was unreachable. They are sent in the order they were made.</p>
+      </div>
+
+      {outbox.length === 0 && (
+        <p className="text-sm text-slate-500 text-center py-12 flex items-center justify-center gap-2">
+          <Check className="w-4 h-4 text-green-500" /> Everything is synced
+        </p>
+      )}
+
+      {blocked.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Needs a decision</h2>
+          {blocked.map(entry => {
+            const fields = entry.state === 'conflict' ? conflictFields(entry) : [];
+            return (
+              <div key={entry.id} className="bg-slate-900 border border-red-900/40 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-slate-200">{KIND_LABELS[entry.kind]}</span>
+                  <span className="text-xs text-slate-400">{leadLabel(entry)}</span>
+                  <span className="ml-auto text-[10px] text-slate-500">made {formatTime(entry.created_at)}</span>
+                </div>
+
+                <div className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-3 py-2">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                  <span>{entry.error}</span>
+                </div>
+
+                {fields.length > 0 && (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-slate-500 text-left">
+                        <th className="py-1 font-medium w-32">Field</th>
+                        <th className="py-1 font-medium">Yours</th>
+                        <th className="py-1 font-medium">On the server</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800/60">
+                      {fields.map(({ field, mine, server }) => (
+                        <tr key={field}>
+                          <td className="py-1.5 text-slate-400">{field}</td>
+                          <td className="py-1.5 text-slate-200 break-all">{fieldValue(field, mine)}</td>
+                          <td className={cn("py-1.5 break-all", formatValue(mine) === formatValue(server) ? "text-slate-500" : "text-amber-300")}>
+                            {fieldValue(field, server)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => resolveSyncEntry(entry.id, 'mine')}
+                    className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors"
+                  >
+                    {entry.state === 'conflict' ? 'Keep mine' : 'Try again'}
+                  </button>
+                  <button
+                    onClick={() => resolveSyncEntry(entry.id, 'server')}
+                    className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors"
+                  >
+                    {entry.state === 'conflict' ? "Keep the server's" : 'Discard my change'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {pending.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Waiting to send</h2>
+            <button
+              onClick={() => CrmService.retryOutbox()}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs font-medium transition-colors"
+            >
+              <RefreshCw className="w-3.5 h-3.5" /> Retry now
+            </button>
+          </div>
+          <div className="bg-slate-900 border border-slate-800 rounded-xl divide-y divide-slate-800/60">
+            {pending.map(entry => (
+              <div key={entry.id} className="flex items-center gap-3 px-4 py-2 text-xs">
+                <span className="w-24 text-slate-300">{KIND_LABELS[entry.kind]}</span>
+                <span className="w-40 text-slate-400 truncate">{leadLabel(entry)}</span>
+                <span className="text-slate-500">made {formatTime(entry.created_at)}</span>
+                <span className="flex-1 text-right text-slate-500 truncate" title={entry.error || undefined}>
+                  {entry.attempts > 0 && `${entry.attempts} failed ${entry.attempts === 1 ? 'try' : 'tries'}`}
+                  {entry.next_attempt_at && ` · next ${formatTime(entry.next_attempt_at)}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Trash2, AlertTriangle, ArchiveRestore } from 'lucide-react';
+import { LeadTrash } from '../types/crm';
+import { useAppStore } from '../context/Store';
+import { CrmService } from '../services/CrmService';
+import { daysUntilPurge } from '../../shared/trash';
+import { formatPhone } from '../../shared/phone';
+import { formatCurrency } from '../lib/utils';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Deleted leads, most recent first. Each one can be restored, with its conversation,
+ * tasks and history, until it is purged for good.
+ */
+export default function TrashPage() {
+  const { stages, restoreLead } = useAppStore();
+  const [trash, setTrash] = useState<LeadTrash | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setTrash(await CrmService.getTrash());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the trash');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleRestore = async (id: string) => {
+    setRestoringId(id);
+    await restoreLead(id);
+    await load();
+    setRestoringId(null);
+  };
+
+  const stageName = (status: string) => stages.find(s => s.id === status)?.name || status;
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-8">
+      <div className="flex flex-col gap-2 border-b border-slate-800 pb-6">
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <Trash2 className="text-red-400 w-8 h-8" />
+          Trash
+        </h1>
+        <p className="text-slate-400">
+          Deleted leads stay here for {trash?.retention_days ?? '…'} days, then they are purged with their messages and tasks.
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-300 bg-red-950/30 border border-red-900/40 rounded-lg px-4 py-3">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {trash && trash.leads.length === 0 && (
+        <p className="text-sm text-slate-500 text-center py-12">The trash is empty</p>
+      )}
+
+      {trash && trash.leads.length > 0 && (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl divide-y divide-slate-800/60">
+          {trash.leads.map(lead => {
+            const daysLeft = daysUntilPurge(lead.deleted_at!, trash.retention_days);
+            return (
+              <div key={lead.id} className="flex items-center gap-3 px-4 py-3 text-xs">
+                <div className="w-48 min-w-0">
+                  <p className="text-sm text-slate-200 truncate">{lead.name && lead.name !== 'Unknown' ? lead.name : formatPhone(lead.phone)}</p>
+                  {lead.name && lead.name !== 'Unknown' && <p className="text-slate-500">{formatPhone(lead.phone)}</p>}
+                </div>
+                <span className="w-28 text-slate-400 truncate">{stageName(lead.status)}</span>
+                <span className="w-20 text-slate-400">{formatCurrency(Number(lead.value || 0), 'AZN')}</span>
+                <span className="flex-1 text-slate-500">
+                  deleted {formatTime(lead.deleted_at!)}{lead.deleted_by && ` by ${lead.deleted_by}`}
+                  {' · '}
+                  <span className={daysLeft <= 3 ? 'text-amber-400' : undefined}>
+                    {daysLeft === 0 ? 'purged soon' : `purged in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}
+                  </span>
+                </span>
+                <button
+                  onClick={() => handleRestore(lead.id)}
+                  disabled={restoringId === lead.id}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 text-xs font-medium transition-colors"
+                >
+                  <ArchiveRestore className="w-3.5 h-3.5" /> Restore
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,215 @@
-import { Lead, LeadStatus, DateRange } from '../types/crm';
+import { Lead, LeadStatus, LeadMessage, LeadActivity, ActivityType, LeadTask, PipelineStage, CustomFieldDefinition, CrmUser, AuthStatus, UserRole, AssignmentSettings, LeadImportInput, LeadImportResult, DuplicateGroup, MergePicks, DateRange, Product, ProductInput, ProductRevenue, LeadOrder, RuleSet, RuleTestResult, IntentModel, IntentReport, ReplyTemplate, ReplyTemplateInput, Campaign, CampaignInput, CampaignPreview, LostReasonInput, LossReport, OutboxChange, OutboxEntry, LeadEdit, LeadTrash, LeadQuery, BoardCounts } from '../types/crm';
+import { DEFAULT_STAGES, sortStages } from '../lib/stages';
+import { matchesSearch } from '../../shared/search';
+import { normalizePhone } from '../../shared/phone';
+import { findDuplicateGroups, messageOverlaps, resolveMergedFields } from '../../shared/duplicates';
+import { validateProduct, withProductNames, revenueByProduct } from '../../shared/products';
+import { validateOrder, orderLeadFields } from '../../shared/orders';
+import { DEFAULT_RULES, validateRules, evaluateRules } from '../../shared/rules';
+import { trainIntentModel } from '../../shared/intent';
+import { validateTemplate } from '../../shared/templates';
+import { validateLostReason, lostFieldsAfterMove, buildLossReport } from '../../shared/lost';
+import { retryDelay, applyOutbox, afterSent } from '../lib/outbox';
+import { pickLeadEdit } from '../../shared/edits';
+import { DEFAULT_RETENTION_DAYS, purgeCutoff } from '../../shared/trash';
+import { sortByBoardPosition } from '../lib/board';
+import { collectTags } from '../lib/customFields';
+import { LeadStore, MessageStore } from './LeadStore';
 import { io, Socket } from 'socket.io-client';
 import { faker } from '@faker-js/faker';
 
-const STORAGE_KEY = 'dualite_crm_leads_v2';
 const SERVER_URL_KEY = 'dualite_server_url'; // NEW: Persist server URL
+const STAGES_KEY = 'dualite_crm_stages_v1';
+const ACTIVITIES_KEY = 'dualite_crm_activities_v1'; // Offline activity log
+const CUSTOM_FIELDS_KEY = 'dualite_crm_custom_fields_v1';
+const TASKS_KEY = 'dualite_crm_tasks_v1';
+const PRODUCTS_KEY = 'dualite_crm_products_v1';
+const RULES_KEY = 'dualite_crm_rules_v1';
+const INTENT_KEY = 'dualite_crm_intent_model_v1';
+const TEMPLATES_KEY = 'dualite_crm_templates_v1';
+const OUTBOX_KEY = 'dualite_crm_outbox_v1'; // Lead changes waiting for the server
+const TRASH_KEY = 'dualite_crm_trash_v1'; // Offline mode's deleted leads, out of the LeadStore
+const SESSION_KEY = 'dualite_crm_session_v1'; // Login token or the choice to work offline
+
+// Error returned by the CRM backend; `status` is the HTTP status (0 = network / no server)
+export class CrmApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CrmApiError';
+    this.status = status;
+  }
+}
+
+// Signed in to a CRM server, or working on this device's local data only
+export type CrmSession =
+  | { mode: 'server'; serverUrl: string; token: string; user: CrmUser }
+  | { mode: 'offline' };
+
+// A board date range as instants: from the start of its first day to the end of its last (local time)
+function rangeBounds(dateRange?: DateRange): { startDate?: Date; endDate?: Date } {
+  const startDate = dateRange?.start ? new Date(dateRange.start) : undefined;
+  startDate?.setHours(0, 0, 0, 0);
+  const endDate = dateRange?.end ? new Date(dateRange.end) : undefined;
+  endDate?.setHours(23, 59, 59, 999);
+  return { startDate, endDate };
+}
+
+// Postgres returns DECIMAL columns as strings
+const toProduct = (row: Product): Product => ({ ...row, price: Number(row.price), cost: Number(row.cost) });
 
 class CrmServiceImpl {
   private socket: Socket | null = null;
   private serverUrl: string = '';
+  private unauthorizedListeners: (() => void)[] = [];
   private qrCallback: ((qr: string) => void) | null = null;
   private authCallback: (() => void) | null = null;
   private messageListeners: ((lead: Lead) => void)[] = [];
   private leadUpdateListeners: ((lead: Lead) => void)[] = [];
+  private leadAssignedListeners: ((lead: Lead, from: string | null, actor: string) => void)[] = [];
+  private leadsImportedListeners: (() => void)[] = [];
+  private leadsMergedListeners: ((lead: Lead, mergedIds: string[], actor: string) => void)[] = [];
+  private leadsDeletedListeners: ((ids: string[], actor: string) => void)[] = [];
+  private leadRestoredListeners: ((lead: Lead, actor: string) => void)[] = [];
+  private conversationListeners: ((message: LeadMessage) => void)[] = [];
+  private stagesListeners: ((stages: PipelineStage[]) => void)[] = [];
+  private customFieldsListeners: ((fields: CustomFieldDefinition[]) => void)[] = [];
+  private productsListeners: ((products: Product[]) => void)[] = [];
+  private intentModelListeners: ((model: IntentModel) => void)[] = [];
+  private templatesListeners: ((templates: ReplyTemplate[]) => void)[] = [];
+  private campaignListeners: ((campaign: Campaign) => void)[] = [];
+  private campaignDeletedListeners: ((id: string) => void)[] = [];
+  private activityListeners: ((activity: LeadActivity) => void)[] = [];
+  private taskListeners: ((task: LeadTask) => void)[] = [];
+  private taskDeletedListeners: ((id: string) => void)[] = [];
+  private taskDueListeners: ((task: LeadTask, lead: Lead | null) => void)[] = [];
   private testMessageListeners: ((data: any) => void)[] = [];
   private healthListeners: ((health: any) => void)[] = [];
+  private outboxListeners: ((entries: OutboxEntry[]) => void)[] = [];
+  private outboxTimer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing = false;
 
   // Demo Mode State
   private isDemoMode: boolean = false;
   private demoInterval: any = null;
 
+  // --- AUTHENTICATION ---
+  getSession(): CrmSession | null {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  getCurrentUser(): CrmUser | null {
+    const session = this.getSession();
+    return session?.mode === 'server' ? session.user : null;
+  }
+
+  private getToken(): string | null {
+    const session = this.getSession();
+    return session?.mode === 'server' ? session.token : null;
+  }
+
+  // Fired when the server rejects our token (expired, revoked or signed out elsewhere)
+  onUnauthorized(cb: () => void): () => void {
+    this.unauthorizedListeners.push(cb);
+    return () => {
+      this.unauthorizedListeners = this.unauthorizedListeners.filter(l => l !== cb);
+    };
+  }
+
+  async getAuthStatus(url: string): Promise<AuthStatus> {
+    try {
+      const response = await fetch(`${url}/api/auth/status`);
+      if (response.ok) return await response.json();
+    } catch (error) {
+      console.warn('⚠️ Failed to check auth status:', error);
+    }
+    throw new CrmApiError('Server unreachable. Check the address or work offline.', 0);
+  }
+
+  async login(url: string, username: string, password: string): Promise<CrmUser> {
+    return this.startSession(url, '/api/auth/login', { username, password });
+  }
+
+  // First run: the first account becomes the admin
+  async setupAdmin(url: string, data: { username: string; name: string; password: string; setup_token?: string }): Promise<CrmUser> {
+    return this.startSession(url, '/api/auth/setup', data);
+  }
+
+  private async startSession(url: string, path: string, body: unknown): Promise<CrmUser> {
+    let response: Response;
+    try {
+      response = await fetch(`${url}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+    } catch (error) {
+      console.warn('⚠️ Login request failed:', error);
+      throw new CrmApiError('Server unreachable. Check the address or work offline.', 0);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new CrmApiError(data.error || `Login failed (${response.status})`, response.status);
+    }
+
+    const session: CrmSession = { mode: 'server', serverUrl: url, token: data.token, user: data.user };
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    await this.connectToServer(url);
+    return data.user;
+  }
+
+  // Keep everything in the browser, nothing is sent to a server
+  startOfflineSession() {
+    localStorage.setItem(SESSION_KEY, JSON.stringify({ mode: 'offline' }));
+  }
+
+  logout() {
+    localStorage.removeItem(SESSION_KEY);
+    this.disconnect();
+    this.serverUrl = '';
+  }
+
+  private handleUnauthorized() {
+    console.warn('🔒 Session rejected by server, signing out');
+    this.logout();
+    this.unauthorizedListeners.forEach(cb => cb());
+  }
+
+  // fetch() against the current server with the session token attached
+  private async apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    const token = this.getToken();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    const response = await fetch(`${this.serverUrl}${path}`, { ...init, headers });
+    if (response.status === 401) this.handleUnauthorized();
+    return response;
+  }
+
+  // JSON request that throws CrmApiError on network or HTTP errors
+  private async requestJson(path: string, method: string, body?: unknown) {
+    let response: Response;
+    try {
+      response = await this.apiFetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (error) {
+      console.warn('⚠️ Request failed:', error);
+      throw new CrmApiError('Server unreachable. Check your connection.', 0);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new CrmApiError(data.error || `Request failed (${response.status})`, response.status);
+    }
+    return data;
+  }
+
   // --- SERVER CONNECTION ---
   getServerUrl() {
     // Check localStorage first for persisted URL
@@ -52,6 +243,7 @@ class CrmServiceImpl {
       // Create new socket connection with proper options
       this.socket = io(url, {
         withCredentials: true,
+        auth: { token: this.getToken() },
         transports: ['websocket', 'polling'], // Try websocket first, fallback to polling
         reconnection: true,
         reconnectionAttempts: 3,
@@ -65,11 +257,13 @@ class CrmServiceImpl {
           console.log('✅ Connected to backend successfully!');
           if (timeoutId) clearTimeout(timeoutId); // Clear timeout!
           this.setupSocketListeners();
+          this.flushOutbox();
           resolve(true);
         });
 
         this.socket?.on('connect_error', (error) => {
           console.error('❌ Connection failed:', error.message);
+          if (error.message === 'unauthorized') this.handleUnauthorized();
           if (timeoutId) clearTimeout(timeoutId); // Clear timeout!
           resolve(false);
         });
@@ -123,12 +317,17 @@ class CrmServiceImpl {
               "Sifariş vermək istəyirəm",
               "Rəngləri var?"
             ]),
-            status: 'new',
+            status: this.getEntryStatus(),
             source: 'whatsapp',
             value: 0
           };
 
           const savedLead = await this.addLead(fakeLead);
+          this.recordMessage(savedLead.id, {
+            body: fakeLead.last_message || '',
+            from_me: false,
+            timestamp: savedLead.updated_at
+          });
           this.messageListeners.forEach(cb => cb(savedLead));
 
         }, 15000);
@@ -163,18 +362,15 @@ class CrmServiceImpl {
     this.socket.on('new_message', async (data: any) => {
       console.log('⚡ SOCKET: new_message received', data);
 
-      // 🛡️ DE-DUPLICATION CHECK
-      const existingLeads = await this.getLeads();
+      // 🛡️ DE-DUPLICATION CHECK (local indexes, no round trip)
+      const existing = data.whatsapp_id ? await LeadStore.findByWhatsAppId(data.whatsapp_id) : undefined;
 
-      // Find matching lead by whatsapp_id
-      const existingIndex = existingLeads.findIndex(l => (l as any).whatsapp_id === data.whatsapp_id);
-
-      if (existingIndex !== -1) {
+      if (existing) {
         // If we already have a "fast" emit and this is the "enriched" one, update the name
-        if (!data.is_fast_emit && (existingLeads[existingIndex] as any).is_fast_emit) {
+        if (!data.is_fast_emit && (existing as any).is_fast_emit) {
           console.log('🔄 Updating "fast" lead with enriched data:', data.name);
-          const updatedLead = { ...existingLeads[existingIndex], name: data.name, is_fast_emit: false };
-          await this.updateLead(updatedLead.id, updatedLead);
+          const updatedLead = { ...existing, name: data.name, is_fast_emit: false };
+          await this.updateCachedLead(updatedLead.id, updatedLead);
           this.messageListeners.forEach(cb => cb(updatedLead));
           return;
         }
@@ -183,7 +379,8 @@ class CrmServiceImpl {
       }
 
       // Final check for content similarity (fallback)
-      const isContentDup = existingLeads.some(l =>
+      const samePhone = await LeadStore.findByPhone(normalizePhone(data.phone) || data.phone);
+      const isContentDup = samePhone.some(l =>
         l.phone === data.phone && l.last_message === data.message &&
         Math.abs(new Date(l.created_at).getTime() - new Date(data.timestamp).getTime()) < 30000
       );
@@ -198,7 +395,7 @@ class CrmServiceImpl {
         phone: data.phone,
         name: data.name || "WhatsApp User",
         last_message: data.message,
-        status: 'new',
+        status: this.getEntryStatus(),
         source: 'whatsapp',
         value: 0,
         // @ts-ignore - tracking custom fields
@@ -208,24 +405,118 @@ class CrmServiceImpl {
 
       const savedLead = await this.addLead(newLead);
       console.log('✨ New lead saved:', savedLead.phone);
+      this.recordMessage(savedLead.id, {
+        body: data.message,
+        from_me: !!data.fromMe,
+        whatsapp_id: data.whatsapp_id,
+        timestamp: data.timestamp
+      });
       this.messageListeners.forEach(cb => cb(savedLead));
     });
 
+    // Server persisted a message to a lead's conversation
+    this.socket.on('lead_message', (data: { lead_id: string; message: LeadMessage }) => {
+      if (!data?.message) return;
+      this.recordMessage(data.lead_id, data.message);
+    });
+
+    this.socket.on('lead_activity', (activity: LeadActivity) => {
+      this.activityListeners.forEach(cb => cb(activity));
+    });
+
+    // Pipeline edited on another dashboard
+    this.socket.on('stages_updated', (stages: PipelineStage[]) => {
+      localStorage.setItem(STAGES_KEY, JSON.stringify(stages));
+      this.stagesListeners.forEach(cb => cb(stages));
+    });
+
+    // Follow-up tasks changed or came due (reminders are raised by the server)
+    this.socket.on('task_updated', (task: LeadTask) => {
+      this.cacheTask(task);
+      this.taskListeners.forEach(cb => cb(task));
+    });
+
+    this.socket.on('task_deleted', (data: { id: string }) => {
+      this.removeCachedTask(data.id);
+      this.taskDeletedListeners.forEach(cb => cb(data.id));
+    });
+
+    this.socket.on('task_due', (data: { task: LeadTask, lead: Lead | null }) => {
+      this.cacheTask(data.task);
+      this.taskDueListeners.forEach(cb => cb(data.task, data.lead));
+    });
+
+    this.socket.on('custom_fields_updated', (fields: CustomFieldDefinition[]) => {
+      localStorage.setItem(CUSTOM_FIELDS_KEY, JSON.stringify(fields));
+      this.customFieldsListeners.forEach(cb => cb(fields));
+    });
+
+    this.socket.on('products_updated', (rows: Product[]) => {
+      const products = rows.map(toProduct);
+      this.cacheProducts(products).then(() => this.productsListeners.forEach(cb => cb(products)));
+    });
+
+    this.socket.on('templates_updated', (templates: ReplyTemplate[]) => {
+      localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+      this.templatesListeners.forEach(cb => cb(templates));
+    });
+
+    this.socket.on('campaign_updated', (campaign: Campaign) => {
+      this.campaignListeners.forEach(cb => cb(campaign));
+    });
+
+    this.socket.on('campaign_deleted', (data: { id: string }) => {
+      this.campaignDeletedListeners.forEach(cb => cb(data.id));
+    });
+
+    this.socket.on('intent_model_updated', (model: IntentModel) => {
+      localStorage.setItem(INTENT_KEY, JSON.stringify(model));
+      this.intentModelListeners.forEach(cb => cb(model));
+    });
+
+    // Owner changed (the card itself is refreshed by the lead_updated that precedes this)
+    this.socket.on('lead_assigned', (data: { lead: Lead; from: string | null; actor: string }) => {
+      this.leadAssignedListeners.forEach(cb => cb(data.lead, data.from, data.actor));
+    });
+
+    // Another dashboard imported a spreadsheet
+    this.socket.on('leads_imported', () => {
+      this.leadsImportedListeners.forEach(cb => cb());
+    });
+
+    // Someone merged duplicates: the merged cards are gone, the kept one changed
+    this.socket.on('leads_merged', async (data: { lead: Lead; merged_ids: string[]; actor: string }) => {
+      await this.applyMergeToCache(data.lead, data.merged_ids);
+      this.leadsMergedListeners.forEach(cb => cb(data.lead, data.merged_ids, data.actor));
+    });
+
+    // Leads moved to the trash, one by one or by an admin's bulk clear
+    this.socket.on('leads_deleted', async (data: { ids: string[]; actor: string }) => {
+      await this.dropCachedLeads(data.ids);
+      this.leadsDeletedListeners.forEach(cb => cb(data.ids, data.actor));
+    });
+
+    this.socket.on('lead_restored', async (data: { lead: Lead; actor: string }) => {
+      await LeadStore.put(data.lead);
+      this.leadRestoredListeners.forEach(cb => cb(data.lead, data.actor));
+    });
+
     // 🆕 NEW: Listen for database updates (status changes, etc.)
     this.socket.on('lead_updated', async (updatedLead: Lead) => {
       console.log('🔄 SOCKET: lead_updated received', updatedLead);
 
-      // Update localStorage to match database
-      const existingLeads = await this.getLeads();
-      const index = existingLeads.findIndex(l => l.phone === updatedLead.phone);
-
-      if (index !== -1) {
-        await this.updateLead(existingLeads[index].id, updatedLead);
+      // Cache only: the server already has this change, don't echo it back.
+      // Changes still in the outbox stay on top of it; a lead waiting to be deleted stays gone.
+      if (this.getOutbox().some(e => e.kind === 'delete' && e.lead_id === updatedLead.id)) return;
+      const lead = this.withPendingChanges(updatedLead);
+      // By id: after a phone edit the cached copy still has the old number
+      if (await LeadStore.get(updatedLead.id)) {
+        await this.updateCachedLead(updatedLead.id, lead);
         console.log('✅ Lead synced with database');
-
-        // Notify UI to refresh - use dedicated leadUpdateListeners
-        this.leadUpdateListeners.forEach(cb => cb(updatedLead));
       }
+
+      // Notify UI to refresh - use dedicated leadUpdateListeners
+      this.leadUpdateListeners.forEach(cb => cb(lead));
     });
   }
 
@@ -246,6 +537,89 @@ class CrmServiceImpl {
     this.leadUpdateListeners.push(cb);
   }
 
+  onLeadAssigned(cb: (lead: Lead, from: string | null, actor: string) => void) {
+    this.leadAssignedListeners.push(cb);
+  }
+
+  onLeadsImported(cb: () => void) {
+    this.leadsImportedListeners.push(cb);
+  }
+
+  onLeadsMerged(cb: (lead: Lead, mergedIds: string[], actor: string) => void) {
+    this.leadsMergedListeners.push(cb);
+  }
+
+  onLeadsDeleted(cb: (ids: string[], actor: string) => void) {
+    this.leadsDeletedListeners.push(cb);
+  }
+
+  onLeadRestored(cb: (lead: Lead, actor: string) => void) {
+    this.leadRestoredListeners.push(cb);
+  }
+
+  // Returns an unsubscribe function (conversation views mount and unmount)
+  onConversationMessage(cb: (message: LeadMessage) => void): () => void {
+    this.conversationListeners.push(cb);
+    return () => {
+      this.conversationListeners = this.conversationListeners.filter(l => l !== cb);
+    };
+  }
+
+  // Returns an unsubscribe function (timelines mount and unmount)
+  onActivity(cb: (activity: LeadActivity) => void): () => void {
+    this.activityListeners.push(cb);
+    return () => {
+      this.activityListeners = this.activityListeners.filter(l => l !== cb);
+    };
+  }
+
+  onStagesUpdated(cb: (stages: PipelineStage[]) => void) {
+    this.stagesListeners.push(cb);
+  }
+
+  onCustomFieldsUpdated(cb: (fields: CustomFieldDefinition[]) => void) {
+    this.customFieldsListeners.push(cb);
+  }
+
+  onProductsUpdated(cb: (products: Product[]) => void) {
+    this.productsListeners.push(cb);
+  }
+
+  onIntentModelUpdated(cb: (model: IntentModel) => void) {
+    this.intentModelListeners.push(cb);
+  }
+
+  onTemplatesUpdated(cb: (templates: ReplyTemplate[]) => void) {
+    this.templatesListeners.push(cb);
+  }
+
+  // Progress of every campaign, recipients included; returns an unsubscribe function
+  onCampaignUpdated(cb: (campaign: Campaign) => void): () => void {
+    this.campaignListeners.push(cb);
+    return () => {
+      this.campaignListeners = this.campaignListeners.filter(l => l !== cb);
+    };
+  }
+
+  onCampaignDeleted(cb: (id: string) => void): () => void {
+    this.campaignDeletedListeners.push(cb);
+    return () => {
+      this.campaignDeletedListeners = this.campaignDeletedListeners.filter(l => l !== cb);
+    };
+  }
+
+  onTaskUpdated(cb: (task: LeadTask) => void) {
+    this.taskListeners.push(cb);
+  }
+
+  onTaskDeleted(cb: (id: string) => void) {
+    this.taskDeletedListeners.push(cb);
+  }
+
+  onTaskDue(cb: (task: LeadTask, lead: Lead | null) => void) {
+    this.taskDueListeners.push(cb);
+  }
+
   onTestMessage(cb: (data: any) => void) {
     this.testMessageListeners.push(cb);
   }
@@ -257,7 +631,7 @@ class CrmServiceImpl {
   async fetchRecentMessages(limit: number = 30): Promise<any[]> {
     if (!this.serverUrl) return [];
     try {
-      const response = await fetch(`${this.serverUrl}/chats/recent?limit=${limit}`);
+      const response = await this.apiFetch(`/chats/recent?limit=${limit}`);
       const data = await response.json();
       return data.messages || [];
     } catch (e) {
@@ -268,141 +642,1495 @@ class CrmServiceImpl {
 
 
 
-  // --- DATA METHODS (DATABASE API) ---
-  async getLeads(dateRange?: DateRange): Promise<Lead[]> {
-    // Try database API first
+  // --- PIPELINE STAGES ---
+  async getStages(): Promise<PipelineStage[]> {
     if (this.serverUrl) {
       try {
-        const params = new URLSearchParams();
-        if (dateRange?.start) params.append('startDate', dateRange.start);
-        if (dateRange?.end) params.append('endDate', dateRange.end);
-
-        const response = await fetch(`${this.serverUrl}/api/leads?${params}`);
+        const response = await this.apiFetch(`/api/stages`);
         if (response.ok) {
-          const leads = await response.json();
-          // Cache in localStorage for offline access
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(leads));
-          return leads;
+          const stages: PipelineStage[] = await response.json();
+          localStorage.setItem(STAGES_KEY, JSON.stringify(stages));
+          return sortStages(stages);
         }
       } catch (error) {
-        console.warn('⚠️ Failed to fetch from database, using localStorage fallback:', error);
+        console.warn('⚠️ Failed to fetch stages, using localStorage fallback:', error);
       }
     }
 
-    // Fallback to localStorage (offline mode or API unavailable)
-    const raw = localStorage.getItem(STORAGE_KEY);
-    let leads: Lead[] = raw ? JSON.parse(raw) : [];
+    return this.getCachedStages();
+  }
+
+  async saveStages(stages: PipelineStage[]): Promise<PipelineStage[]> {
+    const ordered = stages.map((stage, index) => ({ ...stage, position: index }));
+
+    if (this.serverUrl) {
+      let response: Response;
+      try {
+        response = await this.apiFetch(`/api/stages`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(ordered)
+        });
+      } catch (error) {
+        console.warn('⚠️ Failed to save stages:', error);
+        throw new CrmApiError('Server unreachable. Check your connection.', 0);
+      }
 
-    if (dateRange?.start) {
-      const startDate = new Date(dateRange.start);
-      startDate.setHours(0, 0, 0, 0);
-      leads = leads.filter(l => new Date(l.created_at) >= startDate);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new CrmApiError(data.error || `Failed to save stages (${response.status})`, response.status);
+      }
+      localStorage.setItem(STAGES_KEY, JSON.stringify(data));
+      return sortStages(data);
     }
-    if (dateRange?.end) {
-      const endDate = new Date(dateRange.end);
-      endDate.setHours(23, 59, 59, 999);
-      leads = leads.filter(l => new Date(l.created_at) <= endDate);
+
+    // Offline: same guard as the server, stages holding leads cannot be removed
+    const ids = ordered.map(s => s.id);
+    const orphaned = (await LeadStore.statuses()).filter(status => !ids.includes(status));
+    if (orphaned.length > 0) {
+      throw new CrmApiError(`Move leads out of these stages before removing them: ${orphaned.join(', ')}`, 400);
     }
 
-    return leads.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    localStorage.setItem(STAGES_KEY, JSON.stringify(ordered));
+    return ordered;
   }
 
-  async addLead(lead: Omit<Lead, 'id' | 'created_at' | 'updated_at'>): Promise<Lead> {
-    // Try database API first
+  // First stage of the pipeline, where new leads land
+  getEntryStatus(): LeadStatus {
+    return this.getCachedStages()[0]?.id || DEFAULT_STAGES[0].id;
+  }
+
+  private getCachedStages(): PipelineStage[] {
+    const raw = localStorage.getItem(STAGES_KEY);
+    return raw ? sortStages(JSON.parse(raw)) : DEFAULT_STAGES;
+  }
+
+  // --- CUSTOM FIELDS ---
+  async getCustomFields(): Promise<CustomFieldDefinition[]> {
     if (this.serverUrl) {
       try {
-        const response = await fetch(`${this.serverUrl}/api/leads`, {
-          method: 'POST',
+        const response = await this.apiFetch(`/api/custom-fields`);
+        if (response.ok) {
+          const fields: CustomFieldDefinition[] = await response.json();
+          localStorage.setItem(CUSTOM_FIELDS_KEY, JSON.stringify(fields));
+          return fields;
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch custom fields, using localStorage fallback:', error);
+      }
+    }
+
+    const raw = localStorage.getItem(CUSTOM_FIELDS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  async saveCustomFields(fields: CustomFieldDefinition[]): Promise<CustomFieldDefinition[]> {
+    const ordered = fields.map((field, index) => ({ ...field, position: index }));
+
+    if (this.serverUrl) {
+      let response: Response;
+      try {
+        response = await this.apiFetch(`/api/custom-fields`, {
+          method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(lead)
+          body: JSON.stringify(ordered)
         });
+      } catch (error) {
+        console.warn('⚠️ Failed to save custom fields:', error);
+        throw new CrmApiError('Server unreachable. Check your connection.', 0);
+      }
 
-        if (response.ok) {
-          const savedLead = await response.json();
-          console.log('✅ Lead saved to database:', savedLead.phone);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new CrmApiError(data.error || `Failed to save custom fields (${response.status})`, response.status);
+      }
+      localStorage.setItem(CUSTOM_FIELDS_KEY, JSON.stringify(data));
+      return data;
+    }
+
+    // Offline: mirror the server's key check so a later sync doesn't reject them
+    const keys = new Set<string>();
+    for (const field of ordered) {
+      if (!/^[a-z0-9_]{1,50}$/.test(field.id)) {
+        throw new CrmApiError(`Invalid field key: ${field.id} (use a-z, 0-9, _)`, 400);
+      }
+      if (keys.has(field.id)) throw new CrmApiError(`Duplicate field key: ${field.id}`, 400);
+      if (field.type === 'select' && field.options.length === 0) {
+        throw new CrmApiError(`Select field ${field.id} needs at least one option`, 400);
+      }
+      keys.add(field.id);
+    }
 
-          // Update localStorage cache
-          const raw = localStorage.getItem(STORAGE_KEY);
-          const allLeads: Lead[] = raw ? JSON.parse(raw) : [];
-          const updated = [savedLead, ...allLeads.filter(l => l.phone !== savedLead.phone)];
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    localStorage.setItem(CUSTOM_FIELDS_KEY, JSON.stringify(ordered));
+    return ordered;
+  }
 
-          return savedLead;
+  // --- PRODUCT CATALOG ---
+  async getProducts(): Promise<Product[]> {
+    if (this.serverUrl) {
+      try {
+        const response = await this.apiFetch(`/api/products`);
+        if (response.ok) {
+          const products: Product[] = (await response.json()).map(toProduct);
+          await this.cacheProducts(products);
+          return products;
         }
       } catch (error) {
-        console.warn('⚠️ Failed to save to database, using localStorage:', error);
+        console.warn('⚠️ Failed to fetch products, using localStorage fallback:', error);
       }
     }
 
-    // Fallback: localStorage only (offline mode)
-    const raw = localStorage.getItem(STORAGE_KEY);
-    const allLeads: Lead[] = raw ? JSON.parse(raw) : [];
-    const existingIndex = allLeads.findIndex(l => l.phone === lead.phone);
+    return this.readProductCache();
+  }
 
-    if (existingIndex !== -1) {
-      console.log(`♻️ Upserting existing lead (localStorage): ${lead.phone}`);
-      const existingLead = allLeads[existingIndex];
-      existingLead.last_message = lead.last_message;
-      existingLead.updated_at = new Date().toISOString();
-      if (lead.name) existingLead.name = lead.name;
-      if (lead.source_contact_name) existingLead.source_contact_name = lead.source_contact_name;
-      if (lead.source_message) existingLead.source_message = lead.source_message;
-      if (lead.whatsapp_id) existingLead.whatsapp_id = lead.whatsapp_id;
-      allLeads.splice(existingIndex, 1);
-      const updatedList = [existingLead, ...allLeads];
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedList));
-      return existingLead;
+  async createProduct(input: ProductInput): Promise<Product> {
+    if (this.serverUrl) {
+      const product = toProduct(await this.requestJson('/api/products', 'POST', input));
+      await this.cacheProducts([...this.readProductCache(), product]);
+      return product;
     }
 
-    const newLead: Lead = {
-      ...lead,
-      id: typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `lead-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    // Offline: same rules as the server, including linking leads typed with this name
+    const products = this.readProductCache();
+    const product: Product = {
+      id: this.createLocalId(),
+      ...this.checkProduct(input, products),
       created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
     };
-    const updated = [newLead, ...allLeads];
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-    return newLead;
+    const typed = (await LeadStore.all()).filter(l =>
+      !l.product_id && (l.product_name || '').trim().toLowerCase() === product.name.toLowerCase()
+    );
+    await LeadStore.put(...typed.map(l => ({ ...l, product_id: product.id, product_name: product.name })));
+    await this.cacheProducts([...products, product]);
+    return product;
   }
 
-  async updateLead(id: string, updates: Partial<Lead>): Promise<void> {
-    // Update database if available
-    if (this.serverUrl && updates.status) {
-      try {
-        const response = await fetch(`${this.serverUrl}/api/leads/${id}/status`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ status: updates.status })
-        });
+  async updateProduct(id: string, updates: Partial<ProductInput>): Promise<Product> {
+    if (this.serverUrl) {
+      const product = toProduct(await this.requestJson(`/api/products/${id}`, 'PUT', updates));
+      await this.cacheProducts(this.readProductCache().map(p => p.id === id ? product : p));
+      return product;
+    }
+
+    const products = this.readProductCache();
+    const existing = products.find(p => p.id === id);
+    if (!existing) throw new CrmApiError('Product not found', 404);
+    const product: Product = {
+      ...existing,
+      ...this.checkProduct({ ...existing, ...updates }, products, id),
+      updated_at: new Date().toISOString()
+    };
+    await this.cacheProducts(products.map(p => p.id === id ? product : p));
+    return product;
+  }
+
+  // Won revenue per product over all leads (the board only holds the selected date range)
+  async getProductRevenue(): Promise<ProductRevenue[]> {
+    if (this.serverUrl) {
+      const stats = await this.requestJson('/api/stats', 'GET');
+      return stats.by_product || [];
+    }
+
+    const wonStatuses = this.getCachedStages().filter(s => s.kind === 'won').map(s => s.id);
+    return revenueByProduct(await LeadStore.all(), this.readProductCache(), wonStatuses);
+  }
+
+  // Why leads were lost, over all leads in a lost stage (the board only holds the selected date range)
+  async getLossReport(): Promise<LossReport> {
+    if (this.serverUrl) {
+      const stats = await this.requestJson('/api/stats', 'GET');
+      return stats.losses || buildLossReport([], []);
+    }
+
+    const lostStatuses = this.getCachedStages().filter(s => s.kind === 'lost').map(s => s.id);
+    return buildLossReport(await LeadStore.all(), lostStatuses);
+  }
+
+  private checkProduct(input: Partial<ProductInput>, products: Product[], id: string | null = null): ProductInput {
+    let product: ProductInput;
+    try {
+      product = validateProduct(input);
+    } catch (error) {
+      throw new CrmApiError(error instanceof Error ? error.message : 'Invalid product', 400);
+    }
+    if (products.some(p => p.sku === product.sku && p.id !== id)) {
+      throw new CrmApiError(`SKU ${product.sku} is already used by another product`, 400);
+    }
+    return product;
+  }
+
+  private readProductCache(): Product[] {
+    const raw = localStorage.getItem(PRODUCTS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  // Also refreshes product_name on cached leads, in case a product was renamed
+  private async cacheProducts(products: Product[]) {
+    localStorage.setItem(PRODUCTS_KEY, JSON.stringify(products));
+    await LeadStore.put(...withProductNames(await LeadStore.all(), products));
+  }
 
+  // --- QUICK REPLIES ---
+  async getTemplates(): Promise<ReplyTemplate[]> {
+    if (this.serverUrl) {
+      try {
+        const response = await this.apiFetch('/api/templates');
         if (response.ok) {
-          console.log('✅ Lead status updated in database');
+          const templates: ReplyTemplate[] = await response.json();
+          localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+          return templates;
         }
       } catch (error) {
-        console.warn('⚠️ Failed to update database:', error);
+        console.warn('⚠️ Failed to fetch templates, using localStorage fallback:', error);
       }
     }
 
-    // Always update localStorage cache
-    const raw = localStorage.getItem(STORAGE_KEY);
-    const allLeads: Lead[] = raw ? JSON.parse(raw) : [];
-    const updated = allLeads.map(l =>
-      l.id === id ? { ...l, ...updates, updated_at: new Date().toISOString() } : l
-    );
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    return this.readTemplateCache();
+  }
+
+  async createTemplate(input: ReplyTemplateInput): Promise<ReplyTemplate> {
+    if (this.serverUrl) {
+      const template: ReplyTemplate = await this.requestJson('/api/templates', 'POST', input);
+      this.cacheTemplates([...this.readTemplateCache(), template]);
+      return template;
+    }
+
+    const template: ReplyTemplate = {
+      id: this.createLocalId(),
+      ...this.checkTemplate(input),
+      use_count: 0,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+    this.cacheTemplates([...this.readTemplateCache(), template]);
+    return template;
   }
 
-  async updateStatus(id: string, status: LeadStatus): Promise<void> {
-    await this.updateLead(id, { status });
+  async updateTemplate(id: string, updates: Partial<ReplyTemplateInput>): Promise<ReplyTemplate> {
+    if (this.serverUrl) {
+      const template: ReplyTemplate = await this.requestJson(`/api/templates/${id}`, 'PUT', updates);
+      this.cacheTemplates(this.readTemplateCache().map(t => t.id === id ? template : t));
+      return template;
+    }
+
+    const templates = this.readTemplateCache();
+    const existing = templates.find(t => t.id === id);
+    if (!existing) throw new CrmApiError('Template not found', 404);
+    const template: ReplyTemplate = {
+      ...existing,
+      ...this.checkTemplate({ ...existing, ...updates }),
+      updated_at: new Date().toISOString()
+    };
+    this.cacheTemplates(templates.map(t => t.id === id ? template : t));
+    return template;
   }
 
-  async deleteLead(id: string): Promise<void> {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    const allLeads: Lead[] = raw ? JSON.parse(raw) : [];
+  async deleteTemplate(id: string): Promise<void> {
+    if (this.serverUrl) await this.requestJson(`/api/templates/${id}`, 'DELETE');
+    this.cacheTemplates(this.readTemplateCache().filter(t => t.id !== id));
+  }
 
-    const updated = allLeads.filter(l => l.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  // Count a template inserted into a reply; a failed count never blocks the reply
+  async recordTemplateUse(id: string): Promise<ReplyTemplate | null> {
+    const templates = this.readTemplateCache();
+    const cached = templates.find(t => t.id === id);
+    if (this.serverUrl) {
+      try {
+        const template: ReplyTemplate = await this.requestJson(`/api/templates/${id}/use`, 'POST');
+        this.cacheTemplates(templates.map(t => t.id === id ? template : t));
+        return template;
+      } catch (error) {
+        console.warn('⚠️ Failed to record template use:', error);
+        return cached || null;
+      }
+    }
+
+    if (!cached) return null;
+    const template = { ...cached, use_count: cached.use_count + 1 };
+    this.cacheTemplates(templates.map(t => t.id === id ? template : t));
+    return template;
   }
-}
 
-export const CrmService = new CrmServiceImpl();
+  private checkTemplate(input: Partial<ReplyTemplateInput>): ReplyTemplateInput {
+    try {
+      return validateTemplate(input);
+    } catch (error) {
+      throw new CrmApiError(error instanceof Error ? error.message : 'Invalid template', 400);
+    }
+  }
+
+  private readTemplateCache(): ReplyTemplate[] {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  private cacheTemplates(templates: ReplyTemplate[]) {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  }
+
+  // --- BROADCAST CAMPAIGNS ---
+  // Sent by the server's WhatsApp session, so there is nothing to do offline
+  async getCampaigns(): Promise<Campaign[]> {
+    if (!this.serverUrl) return [];
+    return this.requestJson('/api/campaigns', 'GET');
+  }
+
+  async getCampaign(id: string): Promise<Campaign> {
+    return this.requestJson(`/api/campaigns/${id}`, 'GET');
+  }
+
+  async previewCampaign(input: Partial<CampaignInput>): Promise<CampaignPreview> {
+    return this.requestJson('/api/campaigns/preview', 'POST', input);
+  }
+
+  async createCampaign(input: CampaignInput): Promise<Campaign> {
+    return this.requestJson('/api/campaigns', 'POST', input);
+  }
+
+  // Starts a draft or resumes a paused campaign
+  async startCampaign(id: string): Promise<Campaign> {
+    return this.requestJson(`/api/campaigns/${id}/start`, 'POST');
+  }
+
+  async pauseCampaign(id: string): Promise<Campaign> {
+    return this.requestJson(`/api/campaigns/${id}/pause`, 'POST');
+  }
+
+  async deleteCampaign(id: string): Promise<void> {
+    await this.requestJson(`/api/campaigns/${id}`, 'DELETE');
+  }
+
+  // --- TEAM ---
+  async getUsers(): Promise<CrmUser[]> {
+    if (!this.serverUrl) return [];
+    try {
+      const response = await this.apiFetch('/api/users');
+      if (response.ok) return await response.json();
+    } catch (error) {
+      console.warn('⚠️ Failed to fetch users:', error);
+    }
+    return [];
+  }
+
+  async createUser(data: { username: string; name: string; password: string; role: UserRole }): Promise<CrmUser> {
+    return this.requestJson('/api/users', 'POST', data);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await this.requestJson(`/api/users/${id}`, 'DELETE');
+  }
+
+  async getAssignmentSettings(): Promise<AssignmentSettings> {
+    if (this.serverUrl) {
+      try {
+        const response = await this.apiFetch('/api/settings/assignment');
+        if (response.ok) return await response.json();
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch assignment settings:', error);
+      }
+    }
+    return { mode: 'manual' };
+  }
+
+  async saveAssignmentSettings(settings: AssignmentSettings): Promise<AssignmentSettings> {
+    return this.requestJson('/api/settings/assignment', 'PUT', settings);
+  }
+
+  // --- CLASSIFICATION RULES ---
+  async getRules(): Promise<RuleSet> {
+    if (this.serverUrl) {
+      try {
+        const response = await this.apiFetch('/api/rules');
+        if (response.ok) {
+          const rules: RuleSet = await response.json();
+          localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+          return rules;
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch rules, using localStorage fallback:', error);
+      }
+    }
+
+    return this.readRuleCache();
+  }
+
+  async saveRules(ruleSet: RuleSet): Promise<RuleSet> {
+    const saved: RuleSet = this.serverUrl
+      ? await this.requestJson('/api/rules', 'PUT', ruleSet)
+      : this.checkRules(ruleSet);
+    localStorage.setItem(RULES_KEY, JSON.stringify(saved));
+    return saved;
+  }
+
+  // What the draft rules would do with the latest customer messages; nothing is changed
+  async testRules(ruleSet: RuleSet): Promise<RuleTestResult[]> {
+    if (this.serverUrl) return this.requestJson('/api/rules/test', 'POST', ruleSet);
+
+    const checked = this.checkRules(ruleSet);
+    const leads = await LeadStore.all();
+    const recent = Object.values(await MessageStore.threads()).flat()
+      .filter(m => !m.from_me)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return recent.flatMap(m => {
+      const lead = leads.find(l => l.id === m.lead_id);
+      if (!lead) return [];
+      return [{
+        message: { id: m.id, body: m.body, timestamp: m.timestamp, lead_id: lead.id, name: lead.name || null, phone: lead.phone, status: lead.status },
+        ...evaluateRules(checked, { text: m.body, phone: lead.phone, status: lead.status, at: m.timestamp })
+      }];
+    }).slice(0, 100);
+  }
+
+  // Offline there are no users, so rules can't assign
+  private checkRules(ruleSet: RuleSet): RuleSet {
+    try {
+      return validateRules(ruleSet, {
+        stages: this.getCachedStages().map(s => s.id),
+        usernames: [],
+        productIds: this.readProductCache().map(p => p.id)
+      });
+    } catch (error) {
+      throw new CrmApiError(error instanceof Error ? error.message : 'Invalid rules', 400);
+    }
+  }
+
+  private readRuleCache(): RuleSet {
+    const raw = localStorage.getItem(RULES_KEY);
+    return raw ? JSON.parse(raw) : DEFAULT_RULES;
+  }
+
+  // Offline stand-in for the server's rules run on a new lead's first message
+  private classifyLocalLead<T extends Omit<Lead, 'id' | 'created_at' | 'updated_at'>>(lead: T): T {
+    if (!lead.last_message) return lead;
+    const { matched, actions } = evaluateRules(this.readRuleCache(), { text: lead.last_message, phone: lead.phone, status: lead.status });
+    if (matched.length === 0) return lead;
+
+    const product = actions.product_id ? this.readProductCache().find(p => p.id === actions.product_id) : undefined;
+    return {
+      ...lead,
+      ...(actions.status && this.getCachedStages().some(s => s.id === actions.status) ? { status: actions.status } : {}),
+      ...(actions.tags.length ? { tags: [...new Set([...(lead.tags || []), ...actions.tags])] } : {}),
+      ...(product ? { product_id: product.id, product_name: product.name } : {})
+    };
+  }
+
+  // --- WIN PREDICTION ---
+  async getIntentModel(): Promise<IntentModel | null> {
+    if (this.serverUrl) {
+      try {
+        const response = await this.apiFetch('/api/intent');
+        if (response.ok) {
+          const model: IntentModel | null = await response.json();
+          if (model) localStorage.setItem(INTENT_KEY, JSON.stringify(model));
+          else localStorage.removeItem(INTENT_KEY);
+          return model;
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch intent model, using localStorage fallback:', error);
+      }
+    }
+
+    const raw = localStorage.getItem(INTENT_KEY);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  // Retrain on all won/lost leads; dashboards get the new model over the socket
+  async trainIntentModel(): Promise<IntentReport> {
+    if (this.serverUrl) return this.requestJson('/api/intent/train', 'POST');
+
+    const leads = await LeadStore.all();
+    let model: IntentModel;
+    try {
+      model = trainIntentModel(leads, this.getCachedStages());
+    } catch (error) {
+      throw new CrmApiError(error instanceof Error ? error.message : 'Training failed', 400);
+    }
+    localStorage.setItem(INTENT_KEY, JSON.stringify(model));
+    this.intentModelListeners.forEach(cb => cb(model));
+    return model.report;
+  }
+
+  // Admin-only socket self-test
+  async testEmit(): Promise<void> {
+    const response = await this.apiFetch('/__test_emit');
+    if (!response.ok) {
+      throw new CrmApiError(response.status === 403 ? 'Admin access required' : `Test failed (${response.status})`, response.status);
+    }
+  }
+
+  // --- FOLLOW-UP TASKS ---
+  async getTasks(filters: { leadId?: string, done?: boolean } = {}): Promise<LeadTask[]> {
+    if (this.serverUrl) {
+      try {
+        const params = new URLSearchParams();
+        if (filters.leadId) params.append('lead_id', filters.leadId);
+        if (filters.done !== undefined) params.append('done', String(filters.done));
+        const response = await this.apiFetch(`/api/tasks?${params.toString()}`);
+        if (response.ok) {
+          const tasks: LeadTask[] = await response.json();
+          tasks.forEach(task => this.cacheTask(task));
+          return tasks;
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch tasks, using localStorage fallback:', error);
+      }
+    }
+
+    const trashed = new Set(this.readTrash().map(l => l.id));
+    return this.readTaskCache()
+      .filter(t => !trashed.has(t.lead_id))
+      .filter(t => (!filters.leadId || t.lead_id === filters.leadId) && (filters.done === undefined || t.done === filters.done))
+      .sort((a, b) => new Date(a.due_at).getTime() - new Date(b.due_at).getTime());
+  }
+
+  async createTask(leadId: string, data: { due_at: string, note: string }): Promise<LeadTask> {
+    if (this.serverUrl) {
+      const task: LeadTask = await this.requestJson(`/api/leads/${leadId}/tasks`, 'POST', data);
+      this.cacheTask(task);
+      return task;
+    }
+
+    const task: LeadTask = {
+      id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      lead_id: leadId,
+      due_at: new Date(data.due_at).toISOString(),
+      note: data.note.trim(),
+      done: false,
+      done_at: null,
+      assigned_to: 'local',
+      notified_at: null,
+      created_at: new Date().toISOString()
+    };
+    this.cacheTask(task);
+    this.recordLocalActivity(leadId, 'task_created', { task_id: task.id, due_at: task.due_at, note: task.note });
+    return task;
+  }
+
+  async updateTask(id: string, updates: Partial<Pick<LeadTask, 'due_at' | 'note' | 'done'>>): Promise<LeadTask> {
+    if (this.serverUrl) {
+      const task: LeadTask = await this.requestJson(`/api/tasks/${id}`, 'PUT', updates);
+      this.cacheTask(task);
+      return task;
+    }
+
+    const previous = this.readTaskCache().find(t => t.id === id);
+    if (!previous) throw new CrmApiError('Task not found', 404);
+
+    const task: LeadTask = { ...previous, ...updates };
+    if (updates.due_at !== undefined) task.notified_at = null;
+    if (updates.done !== undefined) task.done_at = updates.done ? new Date().toISOString() : null;
+    if (!previous.done && task.done) {
+      this.recordLocalActivity(task.lead_id, 'task_completed', { task_id: task.id, note: task.note });
+    }
+    this.cacheTask(task);
+    return task;
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    if (this.serverUrl) {
+      await this.requestJson(`/api/tasks/${id}`, 'DELETE');
+    }
+    this.removeCachedTask(id);
+  }
+
+  // Offline only: the server raises reminders itself when connected
+  async checkLocalReminders() {
+    if (this.serverUrl) return;
+    const now = Date.now();
+    const tasks = this.readTaskCache();
+    const trashed = new Set(this.readTrash().map(l => l.id));
+    const due = tasks.filter(t => !t.done && !t.notified_at && new Date(t.due_at).getTime() <= now && !trashed.has(t.lead_id));
+    if (due.length === 0) return;
+
+    due.forEach(task => { task.notified_at = new Date(now).toISOString(); });
+    localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+    for (const task of due) {
+      const lead = await LeadStore.get(task.lead_id);
+      this.taskDueListeners.forEach(cb => cb(task, lead || null));
+    }
+  }
+
+  private readTaskCache(): LeadTask[] {
+    const raw = localStorage.getItem(TASKS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  private cacheTask(task: LeadTask) {
+    const tasks = this.readTaskCache().filter(t => t.id !== task.id);
+    localStorage.setItem(TASKS_KEY, JSON.stringify([...tasks, task]));
+  }
+
+  private removeCachedTask(id: string) {
+    localStorage.setItem(TASKS_KEY, JSON.stringify(this.readTaskCache().filter(t => t.id !== id)));
+  }
+
+  // --- ACTIVITY LOG ---
+  async getActivities(leadId: string): Promise<LeadActivity[]> {
+    if (this.serverUrl) {
+      try {
+        const response = await this.apiFetch(`/api/leads/${leadId}/activities`);
+        if (response.ok) {
+          return await response.json();
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch activities, using localStorage fallback:', error);
+      }
+    }
+
+    return this.readActivityLog().filter(a => a.lead_id === leadId);
+  }
+
+  private readActivityLog(): LeadActivity[] {
+    const raw = localStorage.getItem(ACTIVITIES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  // Offline mode keeps its own append-only log (the server logs its own changes)
+  private recordLocalActivity(leadId: string, type: ActivityType, data: Record<string, unknown> = {}) {
+    const activity: LeadActivity = {
+      id: `act-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      lead_id: leadId,
+      type,
+      actor: 'local',
+      data,
+      created_at: new Date().toISOString()
+    };
+    localStorage.setItem(ACTIVITIES_KEY, JSON.stringify([...this.readActivityLog(), activity]));
+    this.activityListeners.forEach(cb => cb(activity));
+  }
+
+  // --- CONVERSATION HISTORY ---
+  async getConversation(leadId: string): Promise<LeadMessage[]> {
+    // Try database API first
+    if (this.serverUrl) {
+      try {
+        const response = await this.apiFetch(`/api/leads/${leadId}/messages`);
+        if (response.ok) {
+          const messages: LeadMessage[] = await response.json();
+          // Cache for offline access
+          await MessageStore.setThread(leadId, messages);
+          return messages;
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch conversation, using the cached copy:', error);
+      }
+    }
+
+    // Fallback to the cached copy
+    const cached = await MessageStore.thread(leadId);
+    if (cached.length > 0) return cached;
+
+    // Leads created before history existed only carry their last message
+    const lead = await LeadStore.get(leadId);
+    const text = lead?.source_message || lead?.last_message;
+    if (!lead || !text) return [];
+
+    return [{
+      id: `legacy-${lead.id}`,
+      lead_id: lead.id,
+      body: text,
+      from_me: false,
+      whatsapp_id: lead.whatsapp_id,
+      timestamp: lead.updated_at
+    }];
+  }
+
+  async sendMessage(leadId: string, text: string): Promise<LeadMessage> {
+    const body = text.trim();
+    if (!body) throw new CrmApiError('Message is empty', 400);
+
+    // Demo Mode: nothing to send, just record it locally
+    if (this.isDemoMode) {
+      const message: LeadMessage = {
+        id: `demo-${Date.now()}`,
+        lead_id: leadId,
+        body,
+        from_me: true,
+        timestamp: new Date().toISOString()
+      };
+      this.recordMessage(leadId, message);
+      return message;
+    }
+
+    if (!this.serverUrl) {
+      throw new CrmApiError('Not connected to a server. Connect the backend to reply from the CRM.', 0);
+    }
+
+    let response: Response;
+    try {
+      response = await this.apiFetch(`/api/leads/${leadId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body })
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to reach server for sending:', error);
+      throw new CrmApiError('Server unreachable. Check your connection.', 0);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new CrmApiError(data.error || `Failed to send message (${response.status})`, response.status);
+    }
+
+    const message = data as LeadMessage;
+    this.recordMessage(leadId, message);
+    return message;
+  }
+
+  // Append a message to the local conversation cache (de-duplicated) and notify open views
+  private async recordMessage(leadId: string, message: Omit<LeadMessage, 'id' | 'lead_id'> & { id?: string }) {
+    if (!message.body) return;
+
+    const stored: LeadMessage = {
+      ...message,
+      id: message.id || message.whatsapp_id || `msg-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      lead_id: leadId,
+      timestamp: message.timestamp || new Date().toISOString()
+    };
+
+    if (!await MessageStore.append(stored)) return;
+    this.conversationListeners.forEach(cb => cb(stored));
+  }
+
+  // --- OFFLINE OUTBOX ---
+  // Lead changes made while the server was unreachable are kept here and sent in order
+  // once it answers again, retrying with exponential backoff. Each carries the lead version
+  // it was made on; the server answers 409 if the lead changed since (see resolveOutboxEntry).
+
+  getOutbox(): OutboxEntry[] {
+    const raw = localStorage.getItem(OUTBOX_KEY);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  onOutboxChanged(cb: (entries: OutboxEntry[]) => void): () => void {
+    this.outboxListeners.push(cb);
+    return () => {
+      this.outboxListeners = this.outboxListeners.filter(l => l !== cb);
+    };
+  }
+
+  private saveOutbox(entries: OutboxEntry[]) {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    this.outboxListeners.forEach(cb => cb(entries));
+  }
+
+  private async enqueue(leadId: string, change: OutboxChange) {
+    const base = change.kind === 'create' ? undefined : await LeadStore.get(leadId);
+    const entry = {
+      ...change,
+      id: this.createLocalId(),
+      lead_id: leadId,
+      base_version: base?.version ?? null,
+      created_at: new Date().toISOString(),
+      state: 'pending',
+      attempts: 0,
+      next_attempt_at: null,
+      error: null,
+      server_lead: null
+    } as OutboxEntry;
+    console.log(`📥 Queued ${change.kind} for ${leadId} until the server is reachable`);
+    this.saveOutbox([...this.getOutbox(), entry]);
+    this.scheduleFlush(retryDelay(1));
+  }
+
+  // Later changes to a lead with queued ones must queue behind them to keep their order
+  private hasQueuedChanges(leadId: string): boolean {
+    return this.getOutbox().some(e => e.lead_id === leadId);
+  }
+
+  private scheduleFlush(delay: number) {
+    if (this.outboxTimer) clearTimeout(this.outboxTimer);
+    this.outboxTimer = setTimeout(() => {
+      this.outboxTimer = null;
+      this.flushOutbox();
+    }, delay);
+  }
+
+  // The lead with the outbox changes still waiting for it laid on top (a queued delete aside)
+  private withPendingChanges(lead: Lead): Lead {
+    return applyOutbox([lead], this.getOutbox().filter(e => e.kind !== 'create' && e.kind !== 'delete' && e.lead_id === lead.id))[0];
+  }
+
+  /**
+   * Send the outbox in order. A change waits while an earlier change to the same lead is
+   * in conflict or was rejected; a network or server error stops the run and retries later.
+   */
+  async flushOutbox(): Promise<void> {
+    if (!this.serverUrl || this.isFlushing) return;
+    this.isFlushing = true;
+    try {
+      for (;;) {
+        const entries = this.getOutbox();
+        const held = new Set(entries.filter(e => e.state !== 'pending').map(e => e.lead_id));
+        const entry = entries.find(e => e.state === 'pending' && !held.has(e.lead_id));
+        if (!entry) return;
+
+        const waitMs = entry.next_attempt_at ? new Date(entry.next_attempt_at).getTime() - Date.now() : 0;
+        if (waitMs > 0) {
+          this.scheduleFlush(waitMs);
+          return;
+        }
+        if (!await this.sendOutboxEntry(entry)) return;
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  // Send now instead of waiting out the backoff ("Retry now" on the sync screen)
+  retryOutbox(): Promise<void> {
+    this.saveOutbox(this.getOutbox().map(e => e.state === 'pending' ? { ...e, next_attempt_at: null } : e));
+    return this.flushOutbox();
+  }
+
+  // Returns false when the run should stop (the server could not take it right now)
+  private async sendOutboxEntry(entry: OutboxEntry): Promise<boolean> {
+    const update = (changes: Partial<OutboxEntry>) =>
+      this.saveOutbox(this.getOutbox().map(e => e.id === entry.id ? { ...e, ...changes } as OutboxEntry : e));
+
+    let response: Response | null = null;
+    try {
+      if (entry.kind === 'create') {
+        // The server assigns its own id and timestamps
+        response = await this.apiFetch('/api/leads', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...entry.lead, id: undefined, created_at: undefined, updated_at: undefined })
+        });
+      } else if (entry.kind === 'delete') {
+        response = await this.apiFetch(`/api/leads/${entry.lead_id}`, { method: 'DELETE' });
+      } else {
+        const path = entry.kind === 'order' ? `/api/leads/${entry.lead_id}/order` : `/api/leads/${entry.lead_id}`;
+        response = await this.apiFetch(path, {
+          method: entry.kind === 'order' ? 'PUT' : 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...entry.payload, base_version: entry.base_version })
+        });
+      }
+    } catch (error) {
+      console.warn('⚠️ Outbox send failed:', error);
+    }
+
+    const data = response ? await response.json().catch(() => ({})) : {};
+    // Already gone from the server (deleted there too, or purged) is as good as deleted
+    if (entry.kind === 'delete' && (response?.ok || response?.status === 404)) {
+      this.saveOutbox(this.getOutbox().filter(e => e.id !== entry.id));
+      console.log(`✅ Outbox delete synced for ${entry.lead.phone}`);
+      return true;
+    }
+    if (response?.ok) {
+      const lead = data as Lead;
+      this.saveOutbox(afterSent(this.getOutbox(), entry, lead));
+      if (entry.kind === 'create') {
+        // The local lead becomes the server's, under the server's id
+        const synced = this.withPendingChanges(lead);
+        await this.replaceCachedLead(entry.lead_id, synced);
+        this.leadUpdateListeners.forEach(cb => cb(synced));
+      } else {
+        await this.updateCachedLead(lead.id, { version: lead.version });
+      }
+      console.log(`✅ Outbox ${entry.kind} synced for ${lead.phone}`);
+      return true;
+    }
+    if (response?.status === 409) {
+      update({ state: 'conflict', error: data.error || 'Changed on the server', server_lead: data.lead || null });
+      return true;
+    }
+    if (response?.status === 401) return false;
+    if (response && response.status < 500) {
+      update({ state: 'rejected', error: data.error || `Refused by the server (${response.status})` });
+      return true;
+    }
+
+    const attempts = entry.attempts + 1;
+    const delay = retryDelay(attempts);
+    update({
+      attempts,
+      next_attempt_at: new Date(Date.now() + delay).toISOString(),
+      error: response ? data.error || `Server error (${response.status})` : 'Server unreachable'
+    });
+    this.scheduleFlush(delay);
+    return false;
+  }
+
+  /**
+   * Settle a change the server refused. 'mine' sends it again over the server's version;
+   * 'server' drops it (and, for a new lead, every change queued for it) and keeps the server's lead.
+   */
+  async resolveOutboxEntry(id: string, keep: 'mine' | 'server'): Promise<void> {
+    const entries = this.getOutbox();
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+
+    if (keep === 'mine') {
+      this.saveOutbox(entries.map(e => e.id === id ? {
+        ...e,
+        state: 'pending',
+        base_version: e.server_lead?.version ?? e.base_version,
+        attempts: 0,
+        next_attempt_at: null,
+        error: null,
+        server_lead: null
+      } : e));
+      this.flushOutbox();
+      return;
+    }
+
+    if (entry.kind === 'create') {
+      this.saveOutbox(entries.filter(e => e.lead_id !== entry.lead_id));
+      await this.replaceCachedLead(entry.lead_id, null);
+      return;
+    }
+    const rest = entries.filter(e => e.id !== id);
+    this.saveOutbox(rest);
+    if (entry.server_lead) {
+      const lead = this.withPendingChanges(entry.server_lead);
+      await this.updateCachedLead(lead.id, lead);
+      this.leadUpdateListeners.forEach(cb => cb(lead));
+    }
+    this.flushOutbox();
+  }
+
+  // Swap a cached lead for another (a local lead for the server's copy), or drop it with null
+  private async replaceCachedLead(id: string, lead: Lead | null) {
+    await LeadStore.remove(id);
+    if (lead) await LeadStore.put(lead);
+  }
+
+  // --- DATA METHODS (DATABASE API) ---
+  // Leads matching the query, newest first or in board order; see LeadQuery
+  async getLeads(query: LeadQuery = {}): Promise<Lead[]> {
+    // Try database API first
+    if (this.serverUrl) {
+      try {
+        const params = this.leadParams(query);
+        const isFullList = !params.toString() && !query.limit && !query.offset;
+        if (query.order) params.append('order', query.order);
+        if (query.limit) params.append('limit', String(query.limit));
+        if (query.offset) params.append('offset', String(query.offset));
+
+        const response = await this.apiFetch(`/api/leads?${params}`);
+        if (response.ok) {
+          // Changes not yet synced stay on top of what the server has
+          const leads = applyOutbox(await response.json(), this.getOutbox());
+          // Cache for offline access; filtered lists and pages are only a subset
+          if (isFullList) await LeadStore.replaceAll(leads);
+          else await LeadStore.put(...leads);
+          return leads;
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch from database, using the local store:', error);
+      }
+    }
+
+    // Fallback to the local store (offline mode or API unavailable)
+    const leads = await this.readLocalLeads(query);
+    const sorted = query.order === 'board' ? sortByBoardPosition(leads) : leads;
+    const offset = query.offset || 0;
+    return sorted.slice(offset, query.limit ? offset + query.limit : undefined);
+  }
+
+  // Every tag in use, alphabetical (the board's tag filter sees leads it has not loaded)
+  async getTags(): Promise<string[]> {
+    if (this.serverUrl) {
+      try {
+        return await this.requestJson('/api/tags', 'GET');
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch tags, using the local store:', error);
+      }
+    }
+
+    return collectTags(await LeadStore.all());
+  }
+
+  // Lead counts per stage for the query's filters (its page is ignored)
+  async getBoardCounts(query: LeadQuery = {}): Promise<BoardCounts> {
+    if (this.serverUrl) {
+      try {
+        const stats = await this.requestJson(`/api/stats?${this.leadParams({ ...query, status: undefined })}`, 'GET');
+        return { total: Number(stats.total), total_won_value: Number(stats.total_won_value), by_status: stats.by_status || {} };
+      } catch (error) {
+        console.warn('⚠️ Failed to fetch counts, counting the local store:', error);
+      }
+    }
+
+    const leads = await this.readLocalLeads({ ...query, status: undefined });
+    const wonStatuses = this.getCachedStages().filter(s => s.kind === 'won').map(s => s.id);
+    const byStatus: Record<string, number> = {};
+    leads.forEach(l => { byStatus[l.status] = (byStatus[l.status] || 0) + 1; });
+    const totalWonValue = leads
+      .filter(l => wonStatuses.includes(l.status))
+      .reduce((sum, l) => sum + (Number(l.value) || 0), 0);
+    return { total: leads.length, total_won_value: totalWonValue, by_status: byStatus };
+  }
+
+  // Filters of GET /api/leads and /api/stats; the date range goes as whole local days
+  private leadParams(query: LeadQuery): URLSearchParams {
+    const params = new URLSearchParams();
+    const { startDate, endDate } = rangeBounds(query.dateRange);
+    const search = query.search?.trim();
+    if (startDate) params.append('startDate', startDate.toISOString());
+    if (endDate) params.append('endDate', endDate.toISOString());
+    if (search) params.append('q', search);
+    if (query.tag) params.append('tag', query.tag);
+    if (query.assignedTo) params.append('assigned_to', query.assignedTo);
+    if (query.status) params.append('status', query.status);
+    return params;
+  }
+
+  // The local leads matching the query's filters, newest first; the date range reads the created_at index
+  private async readLocalLeads(query: LeadQuery): Promise<Lead[]> {
+    const { startDate, endDate } = rangeBounds(query.dateRange);
+    const leads = await LeadStore.createdBetween(startDate, endDate);
+    const search = query.search?.trim();
+    const conversations = search ? await MessageStore.threads() : {};
+    const owner = query.assignedTo === 'none' ? null : query.assignedTo;
+
+    return leads.filter(l =>
+      (!query.status || l.status === query.status) &&
+      (!query.tag || (l.tags || []).includes(query.tag)) &&
+      (!query.assignedTo || (l.assigned_to || null) === owner) &&
+      (!search || matchesSearch(l, conversations[l.id] || [], search))
+    );
+  }
+
+  async addLead(lead: Omit<Lead, 'id' | 'created_at' | 'updated_at'>): Promise<Lead> {
+    // Same E.164 form the server stores, so "050..." and "+994 50..." are one lead
+    const phone = normalizePhone(lead.phone);
+    if (!phone) throw new Error(`Invalid phone number: ${lead.phone}`);
+    lead = { ...lead, phone };
+
+    // Try database API first; unreachable, the lead is created here and queued in the outbox
+    let queue = false;
+    if (this.serverUrl) {
+      let response: Response | null = null;
+      try {
+        response = await this.apiFetch(`/api/leads`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(lead)
+        });
+      } catch (error) {
+        console.warn('⚠️ Failed to save to database, queueing it:', error);
+        queue = true;
+      }
+
+      if (response?.ok) {
+        const savedLead = await response.json();
+        console.log('✅ Lead saved to database:', savedLead.phone);
+
+        // Update the local cache, replacing any copy under another id
+        const stale = await LeadStore.findByPhone(savedLead.phone);
+        await LeadStore.remove(...stale.map(l => l.id));
+        await LeadStore.put(savedLead);
+
+        return savedLead;
+      }
+      if (response) {
+        const data = await response.json().catch(() => ({}));
+        throw new CrmApiError(data.error || `Failed to save lead (${response.status})`, response.status);
+      }
+    }
+
+    // Fallback: local store only (offline mode)
+    const [existingLead] = await LeadStore.findByPhone(phone);
+
+    if (existingLead) {
+      console.log(`♻️ Upserting existing lead (local store): ${lead.phone}`);
+      existingLead.last_message = lead.last_message;
+      existingLead.updated_at = new Date().toISOString();
+      if (lead.name) existingLead.name = lead.name;
+      if (lead.source_contact_name) existingLead.source_contact_name = lead.source_contact_name;
+      if (lead.source_message) existingLead.source_message = lead.source_message;
+      if (lead.whatsapp_id) existingLead.whatsapp_id = lead.whatsapp_id;
+      await LeadStore.put(existingLead);
+      return existingLead;
+    }
+
+    const newLead: Lead = {
+      position: -Date.now(),
+      ...this.classifyLocalLead(lead),
+      id: this.createLocalId(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    await LeadStore.put(newLead);
+    if (queue) await this.enqueue(newLead.id, { kind: 'create', lead: newLead });
+    return newLead;
+  }
+
+  // Spreadsheet import, upserting by phone like addLead. Every row gets a result.
+  async importLeads(rows: LeadImportInput[], updateExisting: boolean): Promise<LeadImportResult[]> {
+    if (this.serverUrl) {
+      const data = await this.requestJson('/api/leads/import', 'POST', { leads: rows, update_existing: updateExisting });
+      return data.results;
+    }
+
+    const allLeads = await LeadStore.all();
+    const touched: Lead[] = [];
+    const now = new Date().toISOString();
+
+    const results = rows.map(({ row, ...data }): LeadImportResult => {
+      const existing = allLeads.find(l => normalizePhone(l.phone) === data.phone);
+      if (existing && !updateExisting) return { row, status: 'skipped', lead_id: existing.id };
+
+      if (existing) {
+        // Same rules as the server upsert: given fields win, custom values merge, the stage stays
+        const updates: Partial<Lead> = { ...data };
+        delete updates.status;
+        Object.assign(existing, updates, {
+          custom_fields: { ...(existing.custom_fields || {}), ...(data.custom_fields || {}) },
+          updated_at: now
+        });
+        touched.push(existing);
+        return { row, status: 'updated', lead_id: existing.id };
+      }
+
+      const lead: Lead = {
+        position: -Date.now() - allLeads.length,
+        status: this.getEntryStatus(),
+        source: 'manual',
+        value: 0,
+        ...data,
+        phone: data.phone || '',
+        id: this.createLocalId(),
+        created_at: now,
+        updated_at: now
+      };
+      allLeads.unshift(lead);
+      touched.push(lead);
+      this.recordLocalActivity(lead.id, 'created', { source: 'import', status: lead.status });
+      return { row, status: 'created', lead_id: lead.id };
+    });
+
+    await LeadStore.put(...touched);
+    return results;
+  }
+
+  // --- DUPLICATES ---
+  async getDuplicates(): Promise<DuplicateGroup[]> {
+    if (this.serverUrl) {
+      return this.requestJson('/api/duplicates', 'GET');
+    }
+
+    return findDuplicateGroups(await LeadStore.all(), messageOverlaps(Object.values(await MessageStore.threads()).flat()));
+  }
+
+  // Fold mergeIds into keepId; `picks` chooses which lead's value survives per field
+  async mergeLeads(keepId: string, mergeIds: string[], picks: MergePicks): Promise<Lead> {
+    if (this.serverUrl) {
+      const lead: Lead = await this.requestJson('/api/duplicates/merge', 'POST', { keep_id: keepId, merge_ids: mergeIds, fields: picks });
+      await this.applyMergeToCache(lead, mergeIds);
+      return lead;
+    }
+
+    const keeper = await LeadStore.get(keepId);
+    const duplicates = (await Promise.all(mergeIds.map(id => LeadStore.get(id)))).filter((l): l is Lead => !!l);
+    if (!keeper || duplicates.length !== mergeIds.length) throw new Error('Lead not found');
+
+    const lead = { ...keeper, ...resolveMergedFields(keeper, duplicates, picks) } as Lead;
+    localStorage.setItem(ACTIVITIES_KEY, JSON.stringify(
+      this.readActivityLog().map(a => mergeIds.includes(a.lead_id) ? { ...a, lead_id: keepId } : a)
+    ));
+    this.recordLocalActivity(keepId, 'merged', { reason: 'manual', leads: duplicates.map(d => ({ id: d.id, phone: d.phone, name: d.name })) });
+    await this.applyMergeToCache(lead, mergeIds);
+    return lead;
+  }
+
+  // Conversations and tasks of merged leads move to the kept one, oldest message first
+  private async applyMergeToCache(lead: Lead, mergedIds: string[]) {
+    await LeadStore.remove(...mergedIds);
+    if (await LeadStore.get(lead.id)) await LeadStore.put(lead);
+
+    const threads = await Promise.all([lead.id, ...mergedIds].map(id => MessageStore.thread(id)));
+    const thread = threads.flat()
+      .map(m => ({ ...m, lead_id: lead.id }))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    await MessageStore.remove(...mergedIds);
+    await MessageStore.setThread(lead.id, thread);
+
+    localStorage.setItem(TASKS_KEY, JSON.stringify(
+      this.readTaskCache().map(t => mergedIds.includes(t.lead_id) ? { ...t, lead_id: lead.id } : t)
+    ));
+  }
+
+  private createLocalId(): string {
+    return typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `lead-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Edits go to the server in one PATCH; behind queued changes or with the server unreachable
+  // they are queued instead. A server that refuses the edit is reported.
+  // Returns the lead as the server stored it, undefined when queued or offline.
+  async updateLead(id: string, updates: Partial<Lead>): Promise<Lead | undefined> {
+    const edit = pickLeadEdit(updates);
+
+    if (this.serverUrl && Object.keys(edit).length > 0) {
+      const lead = this.hasQueuedChanges(id) ? null : await this.patchLead(id, edit);
+      if (lead) {
+        console.log('✅ Lead updated in database');
+        await this.updateCachedLead(id, lead);
+        return lead;
+      }
+      await this.enqueue(id, { kind: 'details', payload: edit });
+    } else if (!this.serverUrl) {
+      const previous = await LeadStore.get(id);
+      if (previous && updates.name !== undefined && (previous.name || null) !== (updates.name || null)) {
+        this.recordLocalActivity(id, 'contact_changed', { field: 'name', from: previous.name || null, to: updates.name || null });
+      }
+      if (previous && updates.phone !== undefined && previous.phone !== updates.phone) {
+        this.recordLocalActivity(id, 'contact_changed', { field: 'phone', from: previous.phone, to: updates.phone });
+      }
+      if (previous && updates.value !== undefined && Number(previous.value || 0) !== Number(updates.value || 0)) {
+        this.recordLocalActivity(id, 'value_changed', { from: Number(previous.value || 0), to: Number(updates.value || 0) });
+      }
+      if (previous && updates.product_name !== undefined && (previous.product_name || null) !== (updates.product_name || null)) {
+        this.recordLocalActivity(id, 'product_changed', { from: previous.product_name || null, to: updates.product_name || null });
+      }
+      if (previous && updates.tags !== undefined && JSON.stringify(previous.tags || []) !== JSON.stringify(updates.tags)) {
+        this.recordLocalActivity(id, 'tags_changed', { from: previous.tags || [], to: updates.tags });
+      }
+      if (previous && updates.custom_fields !== undefined && JSON.stringify(previous.custom_fields || {}) !== JSON.stringify(updates.custom_fields)) {
+        this.recordLocalActivity(id, 'fields_changed', { from: previous.custom_fields || {}, to: updates.custom_fields });
+      }
+    }
+
+    // Queued or offline: the local cache has it until the server does
+    await this.updateCachedLead(id, updates);
+  }
+
+  // PATCH /api/leads/:id; null when the server can't be reached (the caller queues it)
+  private patchLead(id: string, edit: LeadEdit): Promise<Lead | null> {
+    return this.tryRequest(`/api/leads/${id}`, 'PATCH', edit);
+  }
+
+  // requestJson, but null when the server can't be reached (the caller queues the change)
+  private async tryRequest(path: string, method: string, body?: unknown): Promise<Lead | null> {
+    try {
+      return await this.requestJson(path, method, body);
+    } catch (error) {
+      if (error instanceof CrmApiError && error.status === 0) return null;
+      throw error;
+    }
+  }
+
+  // A server that refuses the move is reported (board moves roll back on it);
+  // an unreachable one gets it from the outbox later. `lost` is required when the lead enters a lost stage.
+  async updateStatus(id: string, status: LeadStatus, position?: number, lost?: LostReasonInput): Promise<void> {
+    if (this.serverUrl) {
+      const payload = { status, position, lost_reason: lost?.reason, lost_note: lost?.note };
+      const queue = async () => {
+        await this.enqueue(id, { kind: 'status', payload });
+        const isLost = this.getCachedStages().some(s => s.id === status && s.kind === 'lost');
+        await this.updateCachedLead(id, { status, ...(position === undefined ? {} : { position }), ...lostFieldsAfterMove(await LeadStore.get(id), isLost, lost) });
+      };
+      const lead = this.hasQueuedChanges(id) ? null : await this.patchLead(id, payload);
+      if (!lead) return queue();
+
+      console.log('✅ Lead status updated in database');
+      await this.updateCachedLead(id, {
+        status,
+        ...(position === undefined ? {} : { position }),
+        lost_reason: lead.lost_reason ?? null,
+        lost_note: lead.lost_note ?? null,
+        lost_at: lead.lost_at ?? null,
+        version: lead.version
+      });
+      return;
+    }
+
+    const previous = await LeadStore.get(id);
+    const isLost = (stageId?: string) => this.getCachedStages().some(s => s.id === stageId && s.kind === 'lost');
+    if (isLost(status) && (!isLost(previous?.status) || lost)) {
+      try {
+        lost = validateLostReason(lost || {});
+      } catch (error) {
+        throw new CrmApiError(error instanceof Error ? error.message : 'Invalid lost reason', 400);
+      }
+    }
+    if (previous && previous.status !== status) {
+      this.recordLocalActivity(id, 'status_changed', {
+        from: previous.status,
+        to: status,
+        ...(lost ? { lost_reason: lost.reason, lost_note: lost.note } : {})
+      });
+    }
+
+    await this.updateCachedLead(id, { status, ...(position === undefined ? {} : { position }), ...lostFieldsAfterMove(previous, isLost(status), lost) });
+  }
+
+  // Replace the lead's order; value and product follow it. Returns the updated lead
+  // (as the server stored it, or as it will be once a queued order is sent).
+  async saveOrder(id: string, order: LeadOrder): Promise<Lead> {
+    if (this.serverUrl && !this.hasQueuedChanges(id)) {
+      const lead = await this.tryRequest(`/api/leads/${id}/order`, 'PUT', order);
+      if (lead) {
+        await this.updateCachedLead(id, lead);
+        return lead;
+      }
+    }
+
+    const previous = await LeadStore.get(id);
+    if (!previous) throw new CrmApiError('Lead not found', 404);
+    let checked: LeadOrder;
+    try {
+      checked = validateOrder(order, this.readProductCache());
+    } catch (error) {
+      throw new CrmApiError(error instanceof Error ? error.message : 'Invalid order', 400);
+    }
+    const fields = orderLeadFields(checked);
+
+    const items = fields.order_items || [];
+    if (this.serverUrl) {
+      await this.enqueue(id, { kind: 'order', payload: checked });
+    } else if (JSON.stringify(previous.order_items || []) !== JSON.stringify(items) || Number(previous.delivery_fee || 0) !== fields.delivery_fee) {
+      this.recordLocalActivity(id, 'order_changed', {
+        from: { total: Number(previous.value || 0), items: (previous.order_items || []).length },
+        to: { total: Number(fields.value ?? previous.value ?? 0), items: items.length },
+        summary: items.length ? fields.product_name : null
+      });
+    }
+    await this.updateCachedLead(id, fields);
+    return { ...previous, ...fields, updated_at: new Date().toISOString() };
+  }
+
+  // Set or clear (null) the lead owner; the server broadcasts the change to other dashboards.
+  // Like updateLead, it queues behind earlier changes or while the server is unreachable.
+  async assignLead(id: string, username: string | null): Promise<void> {
+    if (this.serverUrl) {
+      const edit = { assigned_to: username };
+      const lead = this.hasQueuedChanges(id) ? null : await this.patchLead(id, edit);
+      if (lead) {
+        await this.updateCachedLead(id, lead);
+        return;
+      }
+      await this.enqueue(id, { kind: 'details', payload: edit });
+    } else {
+      const previous = await LeadStore.get(id);
+      if (previous && (previous.assigned_to || null) !== username) {
+        this.recordLocalActivity(id, 'assigned', { from: previous.assigned_to || null, to: username });
+      }
+    }
+
+    await this.updateCachedLead(id, { assigned_to: username });
+  }
+
+  private async updateCachedLead(id: string, updates: Partial<Lead>) {
+    await LeadStore.update(id, { ...updates, updated_at: new Date().toISOString() });
+  }
+
+  // --- TRASH ---
+  // Deleted leads can be restored until they are purged (the server's TRASH_RETENTION_DAYS)
+
+  // Queued behind the lead's other changes, or until the server can be reached
+  async deleteLead(id: string): Promise<void> {
+    if (this.serverUrl) {
+      const queued = this.getOutbox().filter(e => e.lead_id === id);
+      if (queued.some(e => e.kind === 'create')) {
+        // Never reached the server: dropping its queued changes is all there is to delete
+        this.saveOutbox(this.getOutbox().filter(e => e.lead_id !== id));
+      } else if (queued.length > 0 || !await this.tryRequest(`/api/leads/${id}`, 'DELETE')) {
+        const lead = await LeadStore.get(id);
+        if (lead) await this.enqueue(id, { kind: 'delete', lead });
+      }
+      await this.dropCachedLeads([id]);
+      return;
+    }
+
+    await this.trashLocalLeads([id]);
+  }
+
+  // Admin only on a server: every lead created in the range goes to the trash. Returns how many.
+  async clearLeads(dateRange?: DateRange): Promise<number> {
+    const { startDate, endDate } = rangeBounds(dateRange);
+    if (this.serverUrl) {
+      const { count } = await this.requestJson('/api/leads/clear', 'POST', {
+        startDate: startDate?.toISOString(),
+        endDate: endDate?.toISOString()
+      });
+      return count;
+    }
+
+    const leads = await LeadStore.createdBetween(startDate, endDate);
+    await this.trashLocalLeads(leads.map(l => l.id));
+    return leads.length;
+  }
+
+  async getTrash(): Promise<LeadTrash> {
+    if (this.serverUrl) return this.requestJson('/api/trash', 'GET');
+
+    const leads = this.readTrash()
+      .sort((a, b) => new Date(b.deleted_at!).getTime() - new Date(a.deleted_at!).getTime());
+    return { leads, retention_days: DEFAULT_RETENTION_DAYS };
+  }
+
+  async restoreLead(id: string): Promise<Lead> {
+    if (this.serverUrl) {
+      const lead: Lead = await this.requestJson(`/api/trash/${id}/restore`, 'POST');
+      await LeadStore.put(lead);
+      return lead;
+    }
+
+    const trash = this.readTrash();
+    const deleted = trash.find(l => l.id === id);
+    if (!deleted) throw new Error('Lead not in the trash');
+
+    // A lead whose stage was removed meanwhile starts over in the first one
+    const stageExists = this.getCachedStages().some(s => s.id === deleted.status);
+    const lead: Lead = {
+      ...deleted,
+      status: stageExists ? deleted.status : this.getEntryStatus(),
+      deleted_at: null,
+      deleted_by: null,
+      updated_at: new Date().toISOString()
+    };
+    localStorage.setItem(TRASH_KEY, JSON.stringify(trash.filter(l => l.id !== id)));
+    await LeadStore.put(lead);
+    this.recordLocalActivity(id, 'restored');
+    return lead;
+  }
+
+  // Offline delete: the lead moves out of the LeadStore; its messages and tasks stay for a restore
+  private async trashLocalLeads(ids: string[]) {
+    const now = new Date().toISOString();
+    const leads = (await Promise.all(ids.map(id => LeadStore.get(id)))).filter((l): l is Lead => !!l);
+    leads.forEach(lead => {
+      this.recordLocalActivity(lead.id, 'deleted', { phone: lead.phone, name: lead.name, status: lead.status, value: lead.value || 0 });
+    });
+    const trashed = leads.map(lead => ({ ...lead, deleted_at: now, deleted_by: null }));
+    localStorage.setItem(TRASH_KEY, JSON.stringify([...this.readTrash(), ...trashed]));
+    await LeadStore.remove(...ids);
+  }
+
+  // The offline trash; leads past the retention period are purged on the way, with their messages and tasks
+  private readTrash(): Lead[] {
+    const raw = localStorage.getItem(TRASH_KEY);
+    const trash: Lead[] = raw ? JSON.parse(raw) : [];
+    const cutoff = purgeCutoff(DEFAULT_RETENTION_DAYS);
+    const expired = trash.filter(l => new Date(l.deleted_at!) < cutoff).map(l => l.id);
+    if (expired.length === 0) return trash;
+
+    const kept = trash.filter(l => !expired.includes(l.id));
+    localStorage.setItem(TRASH_KEY, JSON.stringify(kept));
+    this.dropCachedConversations(expired);
+    return kept;
+  }
+
+  // Deleted on the server: this device keeps no copy
+  private async dropCachedLeads(ids: string[]) {
+    await LeadStore.remove(...ids);
+    await this.dropCachedConversations(ids);
+  }
+
+  private async dropCachedConversations(ids: string[]) {
+    await MessageStore.remove(...ids);
+    localStorage.setItem(TASKS_KEY, JSON.stringify(this.readTaskCache().filter(t => !ids.includes(t.lead_id))));
+  }
+}
+
+export const CrmService = new CrmServiceImpl();
+
+// Send queued changes as soon as the browser is back online
+window.addEventListener('online', () => CrmService.flushOutbox());
@@ -0,0 +1,229 @@
+import { Lead, LeadMessage } from '../types/crm';
+import { normalizePhone } from '../../shared/phone';
+
+const DB_NAME = 'dualite_crm';
+const DB_VERSION = 2;
+const LEADS = 'leads';
+const MESSAGES = 'messages';
+const LEGACY_KEY = 'dualite_crm_leads_v2'; // The localStorage array this store replaced
+const LEGACY_MESSAGES_KEY = 'dualite_crm_messages_v1'; // The localStorage leadId -> messages map
+
+// Promises over IndexedDB callbacks: a request's result, a transaction's commit
+function done<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// One conversation per lead, so a new message rewrites its own thread rather than every thread
+interface Thread {
+  lead_id: string;
+  messages: LeadMessage[];
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Opened once for both stores; version 2 added the conversations
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(LEADS, { keyPath: 'id' });
+        store.createIndex('phone', 'phone');
+        store.createIndex('whatsapp_id', 'whatsapp_id');
+        store.createIndex('status', 'status');
+        store.createIndex('created_at', 'created_at');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(MESSAGES, { keyPath: 'lead_id' });
+      }
+    };
+    database = done(request).then(async db => {
+      await migrateLeads(db);
+      await migrateMessages(db);
+      return db;
+    });
+  }
+  return database;
+}
+
+// One time: the key is removed once its leads are stored. Phones saved before E.164 are
+// normalized on the way, so the phone index finds them; leads that now share a number
+// show up under Duplicates.
+async function migrateLeads(db: IDBDatabase) {
+  const raw = localStorage.getItem(LEGACY_KEY);
+  if (!raw) return;
+
+  const leads: Lead[] = JSON.parse(raw);
+  const tx = db.transaction(LEADS, 'readwrite');
+  leads.forEach(lead => tx.objectStore(LEADS).put({ ...lead, phone: normalizePhone(lead.phone) || lead.phone }));
+  await committed(tx);
+  localStorage.removeItem(LEGACY_KEY);
+  console.log(`📦 Moved ${leads.length} leads from localStorage to IndexedDB`);
+}
+
+// One time as well: each lead's thread becomes its own record
+async function migrateMessages(db: IDBDatabase) {
+  const raw = localStorage.getItem(LEGACY_MESSAGES_KEY);
+  if (!raw) return;
+
+  const cache: Record<string, LeadMessage[]> = JSON.parse(raw);
+  const tx = db.transaction(MESSAGES, 'readwrite');
+  Object.entries(cache).forEach(([leadId, messages]) => tx.objectStore(MESSAGES).put({ lead_id: leadId, messages }));
+  await committed(tx);
+  localStorage.removeItem(LEGACY_MESSAGES_KEY);
+  console.log(`📦 Moved ${Object.keys(cache).length} conversations from localStorage to IndexedDB`);
+}
+
+async function objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  return (await openDatabase()).transaction(name, mode).objectStore(name);
+}
+
+/**
+ * The browser's copy of the leads, in IndexedDB. Leads are indexed by phone, whatsapp_id,
+ * status and created_at, so lookups and date ranges don't read every lead. The first open
+ * moves the leads out of the old localStorage key.
+ */
+class LeadStoreImpl {
+  private store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return objectStore(LEADS, mode);
+  }
+
+  async all(): Promise<Lead[]> {
+    return done((await this.store('readonly')).getAll());
+  }
+
+  async get(id: string): Promise<Lead | undefined> {
+    return done((await this.store('readonly')).get(id));
+  }
+
+  // Phones are stored normalized (E.164), so pass a normalized one
+  async findByPhone(phone: string): Promise<Lead[]> {
+    return done((await this.store('readonly')).index('phone').getAll(phone));
+  }
+
+  async findByWhatsAppId(whatsappId: string): Promise<Lead | undefined> {
+    return done((await this.store('readonly')).index('whatsapp_id').get(whatsappId));
+  }
+
+  // Every stage that holds at least one lead
+  async statuses(): Promise<string[]> {
+    const request = (await this.store('readonly')).index('status').openKeyCursor(null, 'nextunique');
+    const statuses: string[] = [];
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(statuses);
+        statuses.push(String(cursor.key));
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Leads created between the two instants (either end open), newest first
+  async createdBetween(start?: Date, end?: Date): Promise<Lead[]> {
+    const from = start?.toISOString();
+    const to = end?.toISOString();
+    const range = from && to ? IDBKeyRange.bound(from, to)
+      : from ? IDBKeyRange.lowerBound(from)
+      : to ? IDBKeyRange.upperBound(to)
+      : null;
+    const leads = await done((await this.store('readonly')).index('created_at').getAll(range));
+    return leads.reverse();
+  }
+
+  async put(...leads: Lead[]): Promise<void> {
+    const store = await this.store('readwrite');
+    leads.forEach(lead => store.put(lead));
+    return committed(store.transaction);
+  }
+
+  // Swap the whole set, e.g. for the server's answer to a full reload
+  async replaceAll(leads: Lead[]): Promise<void> {
+    const store = await this.store('readwrite');
+    store.clear();
+    leads.forEach(lead => store.put(lead));
+    return committed(store.transaction);
+  }
+
+  // Merge `updates` into a stored lead; undefined when there is no such lead
+  async update(id: string, updates: Partial<Lead>): Promise<Lead | undefined> {
+    const store = await this.store('readwrite');
+    const existing: Lead | undefined = await done(store.get(id));
+    if (!existing) return undefined;
+    const lead = { ...existing, ...updates };
+    store.put(lead);
+    await committed(store.transaction);
+    return lead;
+  }
+
+  async remove(...ids: string[]): Promise<void> {
+    const store = await this.store('readwrite');
+    ids.forEach(id => store.delete(id));
+    return committed(store.transaction);
+  }
+}
+
+export const LeadStore = new LeadStoreImpl();
+
+/**
+ * The cached conversations, next to the leads in the same database and keyed by lead id.
+ * The first open moves them out of the old localStorage key.
+ */
+class MessageStoreImpl {
+  private store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return objectStore(MESSAGES, mode);
+  }
+
+  async thread(leadId: string): Promise<LeadMessage[]> {
+    const thread: Thread | undefined = await done((await this.store('readonly')).get(leadId));
+    return thread?.messages || [];
+  }
+
+  // Every cached thread by lead id
+  async threads(): Promise<Record<string, LeadMessage[]>> {
+    const threads: Thread[] = await done((await this.store('readonly')).getAll());
+    return Object.fromEntries(threads.map(t => [t.lead_id, t.messages]));
+  }
+
+  // Replace a lead's thread; an empty one removes it
+  async setThread(leadId: string, messages: LeadMessage[]): Promise<void> {
+    const store = await this.store('readwrite');
+    if (messages.length > 0) store.put({ lead_id: leadId, messages });
+    else store.delete(leadId);
+    return committed(store.transaction);
+  }
+
+  // Add a message to the end of its lead's thread, unless a message with the same
+  // whatsapp_id is there already; read and write share a transaction, so appends don't race
+  async append(message: LeadMessage): Promise<boolean> {
+    const store = await this.store('readwrite');
+    const thread: Thread | undefined = await done(store.get(message.lead_id));
+    const messages = thread?.messages || [];
+    if (message.whatsapp_id && messages.some(m => m.whatsapp_id === message.whatsapp_id)) return false;
+
+    store.put({ lead_id: message.lead_id, messages: [...messages, message] });
+    await committed(store.transaction);
+    return true;
+  }
+
+  async remove(...leadIds: string[]): Promise<void> {
+    const store = await this.store('readwrite');
+    leadIds.forEach(id => store.delete(id));
+    return committed(store.transaction);
+  }
+}
+
+export const MessageStore = new MessageStoreImpl();
@@ -1,16 +1,236 @@
-export type LeadStatus = 'new' | 'potential' | 'won' | 'lost';
+// A lead's status is the id of one of the configurable pipeline stages
+export type LeadStatus = string;
 
-export interface Lead {
+// How a stage counts in metrics: still in progress, a sale, or a loss
+export type StageKind = 'open' | 'won' | 'lost';
+
+export interface PipelineStage {
+  id: LeadStatus;
+  name: string;
+  color: string; // Key of STAGE_COLORS (src/lib/stages.ts)
+  position: number; // Board order, the first stage receives new leads
+  kind: StageKind;
+}
+
+export type UserRole = 'admin' | 'agent';
+
+// Dashboard account (never includes the password hash)
+export interface CrmUser {
   id: string;
+  username: string;
+  name: string | null;
+  role: UserRole;
+  created_at: string;
+}
+
+// GET /api/auth/status: whether the login page may create the first admin
+export interface AuthStatus {
+  needs_setup: boolean;
+  setup_token_required: boolean;
+  setup_closed: boolean; // Production without SETUP_TOKEN or ADMIN_USERNAME / ADMIN_PASSWORD
+}
+
+// How new WhatsApp leads get an owner (Settings → Team)
+export type AssignmentMode = 'manual' | 'round_robin' | 'least_busy';
+
+export interface AssignmentSettings {
+  mode: AssignmentMode;
+}
+
+// Lead classification rules (Settings → Rules), run on every customer message
+export type RuleLanguage = 'az' | 'ru' | 'en';
+
+export interface LeadRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Every condition that is set must hold; empty lists and nulls are ignored
+  conditions: {
+    keywords: string[]; // Any of them, accent- and case-insensitive
+    regex: string | null;
+    language: RuleLanguage | null;
+    phone_prefix: string | null; // E.164 digits, e.g. +99450
+    hours: { from: number; to: number } | null; // [from, to) in the rule set's time zone, may wrap midnight
+    statuses: LeadStatus[]; // The lead's stage before the rules ran
+  };
+  actions: {
+    status: LeadStatus | null;
+    tag: string | null;
+    assign_to: string | null; // username
+    product_id: string | null;
+  };
+  stop: boolean; // Later rules are skipped when this one matches
+}
+
+export interface RuleSet {
+  timezone: string; // IANA, e.g. Asia/Baku
+  rules: LeadRule[]; // Run top to bottom
+}
+
+// One message of the rules preview and what the draft rules would do with it
+export interface RuleTestResult {
+  message: { id: string; body: string; timestamp: string; lead_id: string; name: string | null; phone: string; status: LeadStatus };
+  matched: { id: string; name: string }[];
+  actions: { status: LeadStatus | null; tags: string[]; assign_to: string | null; product_id: string | null };
+}
+
+// Holdout check of the last training run; accuracy is null when too few leads were held out
+export interface IntentReport {
+  trained_at: string;
+  examples: number; // Closed leads with messages
+  won: number;
+  lost: number;
+  holdout: number;
+  accuracy: number | null;
+  baseline: number | null; // Accuracy of always guessing the more common outcome
+  vocabulary: number;
+}
+
+// Naive Bayes win-probability model learned from won/lost leads (Settings → Win Prediction)
+export interface IntentModel {
+  docs: { won: number; lost: number };
+  totals: { won: number; lost: number };
+  tokens: Record<string, [number, number]>; // word -> [won, lost] lead counts
+  report: IntentReport;
+}
+
+// Canned reply with {placeholders} filled from the lead (Settings → Quick Replies, "/" in the composer)
+export interface ReplyTemplate {
+  id: string;
+  title: string;
+  body: string;
+  use_count: number; // Times inserted into a reply
+  created_at: string;
+  updated_at: string;
+}
+
+export type ReplyTemplateInput = Pick<ReplyTemplate, 'title' | 'body'>;
+
+export type CampaignStatus = 'draft' | 'running' | 'paused' | 'done';
+export type RecipientStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed' | 'skipped';
+
+// Which leads a campaign messages: the board's filters (no statuses = every stage)
+export interface CampaignSegment {
+  statuses: string[];
+  from: string | null; // ISO, on created_at
+  to: string | null;
+  tag: string | null;
+}
+
+export interface CampaignRecipient {
+  lead_id: string;
+  position: number; // Sending order
   phone: string;
+  name: string | null;
+  status: RecipientStatus;
+  error: string | null;
+  whatsapp_id: string | null;
+  sent_at: string | null;
+}
+
+// Broadcast of one message (a template filled per lead) to a segment, sent slowly by the server
+export interface Campaign {
+  id: string;
+  name: string;
+  body: string;
+  segment: CampaignSegment;
+  min_delay: number; // Seconds between sends, drawn at random from min..max
+  max_delay: number;
+  status: CampaignStatus;
+  last_error: string | null; // Why it paused by itself (e.g. WhatsApp disconnected)
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  counts: Record<RecipientStatus, number>;
+  total: number;
+  recipients?: CampaignRecipient[]; // Only on a single campaign
+}
+
+export type CampaignInput = Pick<Campaign, 'name' | 'body' | 'segment' | 'min_delay' | 'max_delay'>;
+
+export interface CampaignPreview {
+  total: number;
+  sample: { lead_id: string; phone: string; name: string | null; text: string | null }[]; // text: null without a message
+}
+
+export type CustomFieldType = 'text' | 'number' | 'select' | 'date';
+
+// Admin-defined extra field shown on every lead (Settings → Custom Fields)
+export interface CustomFieldDefinition {
+  id: string; // Key in Lead.custom_fields (a-z, 0-9, _)
+  label: string;
+  type: CustomFieldType;
+  options: string[]; // Choices for 'select', empty otherwise
+  position: number;
+}
+
+// Values keyed by CustomFieldDefinition.id; dates are YYYY-MM-DD strings
+export type CustomFieldValues = Record<string, string | number>;
+
+// Catalog entry (Settings → Products); prices are AZN
+export interface Product {
+  id: string;
+  sku: string; // Upper-case, unique
+  name: string;
+  price: number;
+  cost: number;
+  active: boolean; // Inactive products stay linked to old leads but are not offered in the lead form
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProductInput = Pick<Product, 'sku' | 'name' | 'price' | 'cost' | 'active'>;
+
+// One row of the won-revenue-by-product report; product_id null = leads without a catalog product
+export interface ProductRevenue {
+  product_id: string | null;
+  sku: string | null;
+  name: string | null;
+  won: number;
+  revenue: number;
+  cost: number;
+}
+
+// One order line; name and unit price are copied from the catalog when the line is added
+export interface OrderItem {
+  product_id: string | null; // null = typed by hand
+  name: string;
+  quantity: number;
+  unit_price: number; // AZN
+  discount: number; // AZN off the whole line
+}
+
+export interface LeadOrder {
+  items: OrderItem[];
+  delivery_fee: number; // AZN
+}
+
+export interface Lead {
+  id: string;
+  phone: string; // E.164 ("+994501234567"), see shared/phone.js
   name?: string;
-  product_name?: string; // Added Product/Order Name
+  product_name?: string; // Added Product/Order Name (the catalog name when product_id is set)
+  product_id?: string | null; // Catalog product, null = free-text product_name only
+  order_items?: OrderItem[]; // With items, value/product_id/product_name follow the order (shared/orders.js)
+  delivery_fee?: number;
   status: LeadStatus;
   last_message?: string;
   value?: number;
   created_at: string; // ISO Date String
   updated_at: string;
   source: 'whatsapp' | 'manual';
+  position?: number; // Sort order within its board column (ascending)
+  tags?: string[];
+  custom_fields?: CustomFieldValues;
+  assigned_to?: string | null; // Owner's username, null = unassigned
+  lost_reason?: LostReason | null; // Set while the lead is in a lost stage (shared/lost.js)
+  lost_note?: string | null;
+  lost_at?: string | null;
+  version?: number; // Bumped by every edit on the server; offline edits replay against it
+  deleted_at?: string | null; // Set while the lead is in the trash
+  deleted_by?: string | null;
   // WhatsApp Metadata
   whatsapp_id?: string;
   source_contact_name?: string;
@@ -18,22 +238,243 @@ export interface Lead {
   is_fast_emit?: boolean; // For tracking initial vs enriched updates
 }
 
+// Why a lead was lost, asked when it moves into a lost stage; 'custom' is described in the note
+export type LostReason = 'price' | 'delivery_time' | 'no_answer' | 'out_of_stock' | 'custom';
+
+export interface LostReasonInput {
+  reason: LostReason;
+  note: string | null;
+}
+
+// Counts per lost reason; 'unknown' = moved to lost without one (by a rule, or before reasons were asked)
+export type LostReasonCounts = Partial<Record<LostReason | 'unknown', number>>;
+
+// Losses over all leads currently in a lost stage (GET /api/stats → losses)
+export interface LossReport {
+  total: number;
+  by_reason: { reason: LostReason | null; count: number }[]; // Most common first
+  by_product: { product: string | null; count: number; reasons: LostReasonCounts }[]; // Most lost first
+  by_period: { period: string; count: number; reasons: LostReasonCounts }[]; // YYYY-MM, latest first
+}
+
+// Fields PATCH /api/leads/:id accepts (shared/edits.js); orders have their own route
+export type LeadEdit = Partial<Pick<Lead,
+  'name' | 'phone' | 'value' | 'product_id' | 'product_name' | 'tags' | 'custom_fields' |
+  'status' | 'position' | 'lost_reason' | 'lost_note' | 'assigned_to'
+>>;
+
+// A lead change made while the server could not be reached (CrmService outbox, lib/outbox.ts)
+export type OutboxChange =
+  | { kind: 'create'; lead: Lead } // The lead as created on this device, under a local id
+  | { kind: 'status'; payload: { status: LeadStatus; position?: number; lost_reason?: LostReason; lost_note?: string | null } }
+  | { kind: 'details'; payload: LeadEdit } // An edit from the lead form, or a new owner
+  | { kind: 'order'; payload: LeadOrder } // The whole order, already checked against the catalog
+  | { kind: 'delete'; lead: Lead }; // Moved to the trash; the lead as it was, to name it on the sync screen
+
+// pending: waiting to be sent; conflict: the server changed the lead meanwhile; rejected: the server refused it
+export type OutboxState = 'pending' | 'conflict' | 'rejected';
+
+export type OutboxEntry = OutboxChange & {
+  id: string;
+  lead_id: string; // A local id until the lead's 'create' entry is sent
+  base_version: number | null; // The lead version the change was made on, null for new leads
+  created_at: string;
+  state: OutboxState;
+  attempts: number;
+  next_attempt_at: string | null;
+  error: string | null;
+  server_lead: Lead | null; // The lead on the server when it conflicted
+};
+
+// One spreadsheet row sent to the importer; `row` is its line number in the file
+export type LeadImportInput = Partial<Pick<Lead,
+  'phone' | 'name' | 'product_name' | 'value' | 'status' | 'tags' | 'custom_fields' | 'last_message' | 'assigned_to'
+>> & { row: number };
+
+export interface LeadImportResult {
+  row: number;
+  status: 'created' | 'updated' | 'skipped' | 'error';
+  lead_id?: string;
+  error?: string;
+}
+
+// Why leads were grouped as probably the same customer
+export type DuplicateReason = 'phone' | 'name' | 'messages';
+
+export interface DuplicateGroup {
+  leads: Lead[]; // oldest first
+  reasons: DuplicateReason[];
+}
+
+// Fields whose surviving value is picked when merging; the rest merge automatically
+export type MergeableField = 'phone' | 'name' | 'status' | 'value' | 'product_name' | 'assigned_to' | 'source_contact_name';
+
+// field -> id of the lead whose value survives
+export type MergePicks = Partial<Record<MergeableField, string>>;
+
+// Follow-up reminder attached to a lead
+export interface LeadTask {
+  id: string;
+  lead_id: string;
+  due_at: string; // ISO Date String
+  note: string;
+  done: boolean;
+  done_at?: string | null;
+  assigned_to?: string | null;
+  notified_at?: string | null; // Set once the due reminder went out
+  created_at: string;
+}
+
+// A single WhatsApp message in a lead's conversation
+export interface LeadMessage {
+  id: string;
+  lead_id: string;
+  body: string;
+  from_me: boolean; // true = sent by us (OUTGOING)
+  whatsapp_id?: string | null;
+  timestamp: string; // ISO Date String
+}
+
+export type ActivityType =
+  | 'created'
+  | 'contact_changed'
+  | 'status_changed'
+  | 'value_changed'
+  | 'product_changed'
+  | 'tags_changed'
+  | 'fields_changed'
+  | 'assigned'
+  | 'task_created'
+  | 'task_completed'
+  | 'message_in'
+  | 'message_out'
+  | 'merged'
+  | 'order_changed'
+  | 'deleted'
+  | 'restored';
+
+// Append-only audit entry for a lead. `data` depends on the type,
+// e.g. { from, to } for changes or { message_id, preview } for messages.
+export interface LeadActivity {
+  id: string;
+  lead_id: string;
+  type: ActivityType;
+  actor: string;
+  data: Record<string, unknown>;
+  created_at: string; // ISO Date String
+}
+
 export interface DateRange {
   start: string | null;
   end: string | null;
 }
 
+// Which leads to fetch: the board's date range, search and filters and, for one board
+// column, its stage and page. order 'board' sorts like the cards (lib/board.ts).
+export interface LeadQuery {
+  dateRange?: DateRange;
+  search?: string; // Phone, name, product, tags and message text (accent-insensitive)
+  tag?: string;
+  assignedTo?: string; // Owner's username, or 'none' for unassigned
+  status?: LeadStatus;
+  order?: 'board';
+  limit?: number;
+  offset?: number;
+}
+
+// Lead counts for a LeadQuery's filters (GET /api/stats); columns show these while only a page is loaded
+export interface BoardCounts {
+  total: number;
+  total_won_value: number; // AZN
+  by_status: Record<string, number>;
+}
+
+// Deleted leads waiting to be restored; each is purged retention_days after deleted_at
+export interface LeadTrash {
+  leads: Lead[];
+  retention_days: number;
+}
+
 // Supabase Table Definition (for future reference)
 /*
   Table: leads
   - id: uuid (PK)
-  - phone: text
+  - phone: text (E.164, e.g. +994501234567)
   - name: text
   - product_name: text
+  - product_id: uuid (FK -> products.id, null on delete)
+  - order_items: jsonb ([{ product_id, name, quantity, unit_price, discount }])
+  - delivery_fee: numeric
   - status: text
   - last_message: text
   - value: numeric
   - created_at: timestamptz
   - updated_at: timestamptz
   - source: text
+  - tags: text[]
+  - custom_fields: jsonb
+  - assigned_to: text (users.username)
+
+  Table: products
+  - id: uuid (PK)
+  - sku: text (unique)
+  - name: text
+  - price: numeric (AZN)
+  - cost: numeric (AZN)
+  - active: boolean
+  - created_at: timestamptz
+  - updated_at: timestamptz
+
+  Table: custom_field_definitions
+  - id: text (PK)
+  - label: text
+  - type: text ('text' | 'number' | 'select' | 'date')
+  - options: jsonb
+  - position: integer
+
+  Table: users
+  - id: uuid (PK)
+  - username: text (unique)
+  - name: text
+  - password_hash: text (scrypt)
+  - role: text ('admin' | 'agent')
+  - created_at: timestamptz
+
+  Table: app_settings
+  - key: text (PK)
+  - value: jsonb
+
+  Table: lead_tasks
+  - id: uuid (PK)
+  - lead_id: uuid (FK -> leads.id)
+  - due_at: timestamptz
+  - note: text
+  - done: boolean
+  - done_at: timestamptz
+  - assigned_to: text
+  - notified_at: timestamptz
+  - created_at: timestamptz
+
+  Table: pipeline_stages
+  - id: text (PK)
+  - name: text
+  - color: text
+  - position: integer
+  - kind: text ('open' | 'won' | 'lost')
+
+  Table: lead_activities
+  - id: uuid (PK)
+  - lead_id: uuid (no FK, survives deletion)
+  - type: text
+  - actor: text
+  - data: jsonb
+  - created_at: timestamptz
+
+  Table: messages
+  - id: uuid (PK)
+  - lead_id: uuid (FK -> leads.id)
+  - body: text
+  - from_me: boolean
+  - whatsapp_id: text (unique)
+  - timestamp: timestamptz
 */